@@ -12,18 +12,91 @@
  */
 export const config = {
   app: {
-    pullInterval: 5, // auto-pull interval from data sources, in minutes. Can be overridden by ENV variable: APP_PULL_INTERVAL
+    pullInterval: 5, // interval between two auto-pull runs of the scheduler, which pull the tracking IDs due (see polling), in minutes. Can be overridden by ENV variable: APP_PULL_INTERVAL
+    batchLimit: 100, // maximum number of tracking IDs accepted by POST /v0/whereis and POST /v0/status
+  },
+  rateLimit: {
+    requestsPerMinute: 60, // default sustained rate per API key and route, overridden by tokens.rate_limit
+    burst: 20,             // default bucket size per API key and route, overridden by tokens.rate_burst
+    dbCost: 1,             // tokens charged per tracking ID served from the database
+    carrierCost: 5,        // tokens charged per tracking ID pulled from the carrier (refresh or database miss)
+  },
+  freshness: {
+    maxAge: 900,             // default maximum age of the stored data before it is refreshed, overridden by operators.jsonc and the max-age query parameter, in seconds
+    minRefreshInterval: 60,  // default minimum interval between two pulls of a tracking ID requested by the clients, overridden by operators.jsonc, in seconds
+  },
+  polling: {
+    interval: 3600,          // default interval between two polls of an in-process tracking ID by the scheduler, overridden by operators.jsonc (pollInterval), in seconds
+    statusIntervals: {       // default intervals by last status, overridden by operators.jsonc (statusPollIntervals), in seconds
+      "3000": 14400,         // Transport Bill Created: the shipment may not move for days
+      "3350": 21600,         // Import Customs Clearance In-Progress
+      "3450": 900,           // Final Delivery In-Progress
+    } as Record<string, number>,
+    slowdownAfter: 172800,   // time without new event after which the interval doubles, for every such period, in seconds
+    maxInterval: 43200,      // maximum interval between two polls, overridden by operators.jsonc (maxPollInterval), in seconds
+    expireAfter: 2592000,    // time without new event after which an in-process tracking ID is expired and no longer polled, overridden by operators.jsonc (expireAfter), in seconds
+  },
+  scheduler: {
+    claimLimit: 1000,       // maximum number of due tracking IDs claimed by a scheduler instance per run
+    leaseDuration: 120,     // time during which the tracking IDs claimed by a scheduler instance are not claimed by the others, in seconds
+    heartbeatInterval: 30,  // interval between two renewals of the lease of a running scheduler instance, in seconds
+    jobTimeout: 120,        // time after which a pull job (a tracking ID or a batch) is failed, in seconds
+    maxJobAttempts: 5,      // maximum number of attempts per pull job before it is dead-lettered
+    jobRetryBaseDelay: 300, // delay before the first retry of a pull job, doubled after each attempt, in seconds
+    runRetention: 7,        // how long the history of the scheduler runs is kept, in days
+    concurrency: 1,         // default number of pull jobs of an operator processed in parallel per run, overridden by operators.jsonc (syncConcurrency)
+    requestsPerSecond: 0,   // default maximum number of pull jobs of an operator started per second, 0 for no limit, overridden by operators.jsonc (syncRequestsPerSecond)
+    operatorTimeout: 1200,  // default time after which a run starts no more pull jobs of an operator, left for the next run, overridden by operators.jsonc (syncTimeout), in seconds
+  },
+  apiKey: {
+    lastUsedInterval: 60,        // minimum interval between two updates of tokens.last_used_at, in seconds
+    rotationGracePeriod: 86400,  // default time during which a rotated API key remains valid, in seconds
+  },
+  webhook: {
+    maxAttempts: 6,       // maximum number of attempts per webhook delivery before it is marked as failed
+    retryBaseDelay: 30,   // delay before the first retry of a webhook delivery, doubled after each attempt, in seconds
+    retryBatchSize: 50,   // maximum number of webhook deliveries retried per scheduler run
+  },
+  stream: {
+    heartbeatInterval: 15, // interval between the keep-alive comments of GET /v0/whereis/:id/stream, in seconds
+    pollInterval: 2,       // interval between two polls of the entity changes (SQLite only), in seconds
+    changeRetention: 10,   // how long the entity changes are kept (SQLite only), in minutes
+  },
+  http: {
+    timeout: 10,           // timeout of each attempt of an outbound HTTP request, in seconds
+    maxRetries: 2,         // retries of a carrier request after a network error, a timeout, a 5xx or 429 response
+    retryBaseDelay: 500,   // delay before the first retry of a carrier request, doubled after each attempt with random jitter, in milliseconds
+    retryMaxDelay: 5000,   // maximum delay before a retry, including the Retry-After header of the carrier, in milliseconds
+  },
+  carrierQuota: {
+    requestsPerSecond: 0,  // default maximum number of requests per second to the data source of an operator, 0 for no limit, overridden by operators.jsonc (requestsPerSecond)
+    requestsPerDay: 0,     // default maximum number of requests per day (UTC) to the data source of an operator, 0 for no limit, overridden by operators.jsonc (requestsPerDay)
+    backgroundShare: 0.8,  // share of each quota usable by the pulls of the scheduler, the rest being reserved for the requests of the clients
+    maxWait: 5,            // maximum time a request waits for the per-second quota of the operator before it is rejected, in seconds
+  },
+  credentialCache: {
+    expiryMargin: 60,      // time before its expiry after which a cached carrier access token is refreshed, in seconds
+    lockDuration: 30,      // time during which a process refreshing a carrier access token holds its refresh lock, in seconds
+    pollInterval: 250,     // interval between two reads of the token being refreshed by another process, in milliseconds
+  },
+  carrierAccounts: {
+    cacheTtl: 60,          // time during which a process reuses the carrier account resolved for an API key, in seconds
+    environment: "production", // environment of the global carrier accounts used (production or sandbox, see operators.jsonc), can be overridden by ENV variable: CARRIER_ENV
+  },
+  pullClaim: {
+    duration: 60,          // time during which a process pulling a tracking ID from its carrier holds its claim, the other processes awaiting its pull instead of requesting the carrier again, in seconds
+    pollInterval: 250,     // interval between two reads of a tracking ID being pulled by another process, in milliseconds
+  },
+  circuitBreaker: {
+    failureThreshold: 5,   // consecutive failed carrier requests that open the circuit breaker of the operator
+    cooldown: 30,          // time during which an open circuit breaker rejects the requests to the operator, in seconds
   },
   database: {
     port: 5432,         // default database port, can be overridden by ENV variable: DB_PORT
     name: "whereis",    // default database name, can be overridden by ENV variable: DB_NAME
   },
-  fdx: {
-    apiUrl: "https://apis.fedex.com/oauth/token",
-    trackApiUrl: "https://apis.fedex.com/track/v1/trackingnumbers",
-  },
   sfex: {
-    apiUrl: "https://bspgw.sf-express.com/std/service",
-    dataSourceTimezone: +8
+    dataSourceTimezone: +8,
+    pushMaxSkew: 300,      // maximum difference between the timestamp of a route push and the current time, older or later pushes are rejected as replays, in seconds
   },
 };
@@ -29,7 +29,12 @@ CREATE TABLE whereis_schema.entities
     completed     boolean,
     params        jsonb,
     use_pull      boolean DEFAULT false,
-    creation_time varchar(32)
+    creation_time varchar(32),
+    last_pulled_at varchar(32),
+    next_poll_at  varchar(32),
+    expired       boolean DEFAULT false,
+    claimed_by    varchar(64),
+    claim_expires_at varchar(32)
 );
 -- create index on table
 CREATE INDEX entities_idx_id ON whereis_schema.entities (id);
@@ -38,6 +43,21 @@ CREATE INDEX entities_idx_use_pull ON whereis_schema.entities (use_pull);
 END IF;
 END $$;
 
+-- add the freshness column to an existing entities table
+ALTER TABLE whereis_schema.entities ADD COLUMN IF NOT EXISTS last_pulled_at varchar(32);
+
+-- add the polling schedule column to an existing entities table
+ALTER TABLE whereis_schema.entities ADD COLUMN IF NOT EXISTS next_poll_at varchar(32);
+CREATE INDEX IF NOT EXISTS entities_idx_next_poll_at ON whereis_schema.entities (next_poll_at);
+
+-- add the expiry of the abandoned entities to an existing entities table
+ALTER TABLE whereis_schema.entities ADD COLUMN IF NOT EXISTS expired boolean DEFAULT false;
+
+-- add the claims of the scheduler instances to an existing entities table
+ALTER TABLE whereis_schema.entities ADD COLUMN IF NOT EXISTS claimed_by varchar(64);
+ALTER TABLE whereis_schema.entities ADD COLUMN IF NOT EXISTS claim_expires_at varchar(32);
+CREATE INDEX IF NOT EXISTS entities_idx_claimed_by ON whereis_schema.entities (claimed_by);
+
 -- create events table if it doesn't exist
 DO $$
 BEGIN
@@ -82,7 +102,277 @@ BEGIN
 CREATE TABLE whereis_schema.tokens
 (
     id varchar(67) NOT NULL PRIMARY KEY,
-    user_id varchar(64)
+    prefix varchar(16),
+    key_hash varchar(64),
+    salt varchar(32),
+    user_id varchar(64),
+    rate_limit integer,
+    rate_burst integer,
+    monthly_quota integer,
+    scope_operators varchar(256),
+    scope_routes varchar(256),
+    read_only boolean DEFAULT false,
+    allow_fulldata boolean DEFAULT true,
+    allow_refresh boolean DEFAULT true,
+    created_at varchar(32),
+    expires_at varchar(32),
+    revoked_at varchar(32),
+    last_used_at varchar(32)
+);
+CREATE INDEX tokens_idx_prefix ON whereis_schema.tokens (prefix);
+END IF;
+END $$;
+
+-- add the rate limit columns to an existing tokens table
+ALTER TABLE whereis_schema.tokens ADD COLUMN IF NOT EXISTS rate_limit integer;
+ALTER TABLE whereis_schema.tokens ADD COLUMN IF NOT EXISTS rate_burst integer;
+
+-- add the scope columns to an existing tokens table
+ALTER TABLE whereis_schema.tokens ADD COLUMN IF NOT EXISTS scope_operators varchar(256);
+ALTER TABLE whereis_schema.tokens ADD COLUMN IF NOT EXISTS scope_routes varchar(256);
+ALTER TABLE whereis_schema.tokens ADD COLUMN IF NOT EXISTS read_only boolean DEFAULT false;
+ALTER TABLE whereis_schema.tokens ADD COLUMN IF NOT EXISTS allow_fulldata boolean DEFAULT true;
+ALTER TABLE whereis_schema.tokens ADD COLUMN IF NOT EXISTS allow_refresh boolean DEFAULT true;
+
+-- add the lifecycle columns to an existing tokens table
+ALTER TABLE whereis_schema.tokens ADD COLUMN IF NOT EXISTS created_at varchar(32);
+ALTER TABLE whereis_schema.tokens ADD COLUMN IF NOT EXISTS expires_at varchar(32);
+ALTER TABLE whereis_schema.tokens ADD COLUMN IF NOT EXISTS revoked_at varchar(32);
+ALTER TABLE whereis_schema.tokens ADD COLUMN IF NOT EXISTS last_used_at varchar(32);
+
+-- add the hash columns to an existing tokens table, the keys are hashed when the application starts
+ALTER TABLE whereis_schema.tokens ADD COLUMN IF NOT EXISTS prefix varchar(16);
+ALTER TABLE whereis_schema.tokens ADD COLUMN IF NOT EXISTS key_hash varchar(64);
+ALTER TABLE whereis_schema.tokens ADD COLUMN IF NOT EXISTS salt varchar(32);
+CREATE INDEX IF NOT EXISTS tokens_idx_prefix ON whereis_schema.tokens (prefix);
+
+-- add the quota column to an existing tokens table
+ALTER TABLE whereis_schema.tokens ADD COLUMN IF NOT EXISTS monthly_quota integer;
+
+-- add the successor column to an existing tokens table, the usage of a rotated key is counted on its successor
+ALTER TABLE whereis_schema.tokens ADD COLUMN IF NOT EXISTS rotated_to varchar(67);
+
+-- create usage_counters table if it doesn't exist
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT FROM pg_tables
+        WHERE schemaname = 'whereis_schema'
+        AND tablename = 'usage_counters'
+    ) THEN
+CREATE TABLE whereis_schema.usage_counters
+(
+    token_id  varchar(67) not null,
+    day       varchar(10) not null,
+    metric    varchar(32) not null,
+    dimension varchar(64) not null,
+    count     bigint      not null default 0,
+    primary key (token_id, day, metric, dimension)
+);
+END IF;
+END $$;
+
+-- create subscriptions table if it doesn't exist
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT FROM pg_tables
+        WHERE schemaname = 'whereis_schema'
+        AND tablename = 'subscriptions'
+    ) THEN
+CREATE TABLE whereis_schema.subscriptions
+(
+    id           varchar(64) not null primary key,
+    api_key      varchar(67) not null,
+    tracking_id  varchar(64),
+    callback_url varchar(512) not null,
+    secret       varchar(128) not null,
+    created_at   varchar(32)
+);
+-- create indexes on subscriptions table
+CREATE INDEX subscriptions_idx_api_key ON whereis_schema.subscriptions (api_key);
+CREATE INDEX subscriptions_idx_tracking_id ON whereis_schema.subscriptions (tracking_id);
+END IF;
+END $$;
+
+-- create webhook_deliveries table if it doesn't exist
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT FROM pg_tables
+        WHERE schemaname = 'whereis_schema'
+        AND tablename = 'webhook_deliveries'
+    ) THEN
+CREATE TABLE whereis_schema.webhook_deliveries
+(
+    id              varchar(64) not null primary key,
+    subscription_id varchar(64) not null,
+    tracking_id     varchar(64),
+    payload         jsonb,
+    status          varchar(16),
+    attempts        integer DEFAULT 0,
+    response_code   integer,
+    last_error      varchar(512),
+    next_attempt_at varchar(32),
+    created_at      varchar(32),
+    delivered_at    varchar(32)
+);
+-- create indexes on webhook_deliveries table
+CREATE INDEX webhook_deliveries_idx_subscription_id ON whereis_schema.webhook_deliveries (subscription_id);
+CREATE INDEX webhook_deliveries_idx_status ON whereis_schema.webhook_deliveries (status, next_attempt_at);
+END IF;
+END $$;
+
+-- create pull_jobs table if it doesn't exist
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT FROM pg_tables
+        WHERE schemaname = 'whereis_schema'
+        AND tablename = 'pull_jobs'
+    ) THEN
+CREATE TABLE whereis_schema.pull_jobs
+(
+    id               varchar(64) not null primary key,
+    operator         varchar(16) not null,
+    tracking_ids     jsonb,
+    params           jsonb,
+    status           varchar(16),
+    attempts         integer DEFAULT 0,
+    last_error       varchar(512),
+    next_attempt_at  varchar(32),
+    created_at       varchar(32),
+    updated_at       varchar(32),
+    claimed_by       varchar(64),
+    claim_expires_at varchar(32)
+);
+-- create indexes on pull_jobs table
+CREATE INDEX pull_jobs_idx_status ON whereis_schema.pull_jobs (status, next_attempt_at);
+CREATE INDEX pull_jobs_idx_claimed_by ON whereis_schema.pull_jobs (claimed_by);
+END IF;
+END $$;
+
+-- create scheduler_runs table if it doesn't exist
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT FROM pg_tables
+        WHERE schemaname = 'whereis_schema'
+        AND tablename = 'scheduler_runs'
+    ) THEN
+CREATE TABLE whereis_schema.scheduler_runs
+(
+    id                   varchar(64) not null primary key,
+    instance_id          varchar(64),
+    trigger              varchar(16),
+    operator             varchar(16),
+    tracking_id          varchar(64),
+    status               varchar(16),
+    started_at           varchar(32),
+    ended_at             varchar(32),
+    tracking_ids_claimed integer DEFAULT 0,
+    jobs_queued          integer DEFAULT 0,
+    errors               jsonb,
+    batches              jsonb
+);
+-- create index on scheduler_runs table
+CREATE INDEX scheduler_runs_idx_started_at ON whereis_schema.scheduler_runs (started_at);
+END IF;
+END $$;
+
+-- create carrier_quotas table if it doesn't exist
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT FROM pg_tables
+        WHERE schemaname = 'whereis_schema'
+        AND tablename = 'carrier_quotas'
+    ) THEN
+CREATE TABLE whereis_schema.carrier_quotas
+(
+    operator     varchar(16) not null,
+    quota_window varchar(16) not null,
+    window_start varchar(32) not null,
+    count        integer DEFAULT 0,
+    primary key (operator, quota_window)
+);
+END IF;
+END $$;
+
+-- create carrier_credentials table if it doesn't exist
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT FROM pg_tables
+        WHERE schemaname = 'whereis_schema'
+        AND tablename = 'carrier_credentials'
+    ) THEN
+CREATE TABLE whereis_schema.carrier_credentials
+(
+    name            varchar(64) not null primary key,
+    token           text,
+    expires_at      varchar(32),
+    updated_at      varchar(32),
+    lock_owner      varchar(64),
+    lock_expires_at varchar(32)
+);
+END IF;
+END $$;
+
+-- create carrier_accounts table if it doesn't exist
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT FROM pg_tables
+        WHERE schemaname = 'whereis_schema'
+        AND tablename = 'carrier_accounts'
+    ) THEN
+CREATE TABLE whereis_schema.carrier_accounts
+(
+    id         varchar(64) not null primary key,
+    operator   varchar(16) not null,
+    name       varchar(128),
+    api_key    varchar(64),
+    user_id    varchar(64),
+    secret     text not null,
+    created_at varchar(32)
+);
+-- create indexes on carrier_accounts table
+CREATE INDEX carrier_accounts_idx_api_key ON whereis_schema.carrier_accounts (operator, api_key);
+CREATE INDEX carrier_accounts_idx_user_id ON whereis_schema.carrier_accounts (operator, user_id);
+END IF;
+END $$;
+
+-- create pull_claims table if it doesn't exist
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT FROM pg_tables
+        WHERE schemaname = 'whereis_schema'
+        AND tablename = 'pull_claims'
+    ) THEN
+CREATE TABLE whereis_schema.pull_claims
+(
+    tracking_id varchar(64) not null primary key,
+    owner       varchar(64) not null,
+    expires_at  varchar(32) not null
+);
+END IF;
+END $$;
+
+-- create rate_limit_buckets table if it doesn't exist
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT FROM pg_tables
+        WHERE schemaname = 'whereis_schema'
+        AND tablename = 'rate_limit_buckets'
+    ) THEN
+CREATE TABLE whereis_schema.rate_limit_buckets
+(
+    bucket_key varchar(128)     not null primary key,
+    tokens     double precision not null,
+    updated_at double precision not null
 );
 END IF;
 END $$;
@@ -100,7 +390,24 @@ GRANT USAGE ON SCHEMA whereis_schema TO whereis_user;
 GRANT SELECT, INSERT, UPDATE , DELETE ON ALL TABLES IN SCHEMA whereis_schema TO whereis_user;
 
 -- insert test data - access token
-INSERT INTO whereis_schema.tokens(id, user_id) VALUES ('eagle1', 'test_user');
+-- the shared test key: eg1 tracking IDs only, on the routes of the API tests, no push.
+-- It is inserted in plaintext and hashed when the application starts, after which its prefix is 'eag'.
+INSERT INTO whereis_schema.tokens(id, user_id, scope_operators, scope_routes, read_only)
+SELECT 'eagle1', 'test_user', 'eg1', 'whereis,status,detect,subscriptions', true
+WHERE NOT EXISTS (
+    SELECT FROM whereis_schema.tokens
+    WHERE id = 'eagle1' OR (prefix = 'eag' AND user_id = 'test_user')
+);
+-- restrict the test key created before the scopes existed
+UPDATE whereis_schema.tokens
+SET scope_operators = 'eg1', scope_routes = 'whereis,status,detect,subscriptions', read_only = true
+WHERE (id = 'eagle1' OR (prefix = 'eag' AND user_id = 'test_user'))
+  AND scope_operators IS NULL;
+-- let the test key created with the former scopes call the batch status and subscription routes
+UPDATE whereis_schema.tokens
+SET scope_routes = 'whereis,status,detect,subscriptions'
+WHERE (id = 'eagle1' OR (prefix = 'eag' AND user_id = 'test_user'))
+  AND scope_routes = 'whereis,detect';
 
 -- inset test data - fdx waybill
 INSERT INTO whereis_schema.entities (uuid, id, type, use_pull, additional, completed, params, creation_time) VALUES ('d54ab9d1-4721-4262-bfaa-c1bb0ae6543d', 'eg1-012301230123', 'waybill', false, '{"origin": "PACHECO CA, United States", "destination": "London, United Kingdom"}', true, '{}', '2025-07-16T13:58:34-05:00');
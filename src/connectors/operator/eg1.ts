@@ -29,6 +29,10 @@ export class Eg1 implements OperatorModule{
       return; // Placeholder validation logic for tracking number format
     }
 
+    detectTrackingNum(_trackingNum: string): number {
+      return 0; // Eagle1 tracking numbers have no recognizable format
+    }
+
     /**
      * Retrieves the current location and tracking details for a given tracking number.
      * @param {TrackingID} _trackingIds - The tracking ID(s) defined by eagle1.
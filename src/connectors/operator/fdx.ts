@@ -9,22 +9,29 @@
  */
 
 import { v7 as uuidv7 } from "@std/uuid";
+import { encodeBase64 } from "@std/encoding";
 import {AppError, DataUpdateMethod, Entity, Event, ExceptionCode, StatusCode, TrackingID,} from "../../main/model.ts";
 import {config} from "../../../config.ts";
 import {whereIsAPI, logger} from "../../tools/logger.ts";
-import {getResponseJSON, adjustDateAndFormatWithTimezone, extractTimezone, httpPost} from "../../tools/util.ts";
+import {getResponseJSON, adjustDateAndFormatWithTimezone, extractTimezone, httpPost, timingSafeEqual} from "../../tools/util.ts";
 import {OperatorModule} from "../../main/operator.ts";
+import {acquireCarrierQuota, getQuotaPriority, QuotaPriority} from "../../main/carrier_quota.ts";
+import {FetchedCredential, getCarrierToken} from "../../main/credential_cache.ts";
+import {
+  getConfiguredAccounts,
+  getOperatorAccounts,
+  isAccountConfigured,
+  recordCarrierAccount,
+  ResolvedCarrierAccount,
+} from "../../main/carrier_accounts.ts";
 
 /**
  * A class to interact with the FedEx tracking API and manage shipment tracking information.
  */
 export class Fdx implements OperatorModule {
 
-  /** @type {string} The current authentication token for FedEx API requests. */
-  private token: string | undefined;
-  /** @type {number} The expiration time of the token in milliseconds since epoch. Initially 0. */
-  private expireTime: number = 0;
-  private tokenPromise: Promise<string> | null = null;
+  /** @type {ResolvedCarrierAccount | undefined} The carrier account of the requests, undefined for the first global account. */
+  private readonly account?: ResolvedCarrierAccount;
 
   // Post statuses for the event '3400: Customs Clearance: Import Released'
   private static readonly POST_3400_STATUSES: number[] = [3004, 3450, 3500] as const;
@@ -141,35 +148,38 @@ export class Fdx implements OperatorModule {
     }
   ];
 
+  /**
+   * Creates a FedEx API client.
+   * @param {ResolvedCarrierAccount} account - The carrier account of the requests,
+   *   undefined for the first global account of operators.jsonc.
+   */
+  constructor(account?: ResolvedCarrierAccount) {
+    this.account = account;
+  }
+
+  /**
+   * Gets the carrier account of the requests.
+   * @returns {ResolvedCarrierAccount} The account of the client, else the first global account.
+   * @throws {AppError} If the account has no client ID or secret.
+   */
+  private getAccount(): ResolvedCarrierAccount {
+    const account = this.account ?? getOperatorAccounts("fdx")[0];
+    if (account === undefined || !isAccountConfigured("fdx", account)) {
+      throw new AppError("500-01", "ERR-FDX-A: Invalid data source API CLIENT_ID/SECRET");
+    }
+    return account;
+  }
+
   /**
    * Fetches and manages the FedEx API authentication token.
-   * This method implements a caching mechanism to reuse valid tokens and prevent multiple
-   * simultaneous token requests.
+   * The token is cached and shared by the processes (see credential_cache.ts), which prevents
+   * multiple simultaneous token requests.
    *
    * @returns {Promise<string>} A promise that resolves to the current or newly fetched authentication token.
    * @throws {Error} If the token cannot be retrieved from the FedEx API.
    */
   async getToken(): Promise<string> {
-    // If a token fetch is already in progress, return that promise
-    if (this.tokenPromise) {
-      return this.tokenPromise;
-    }
-
-    // If the token is still valid, return it immediately
-    if (Date.now() <= this.expireTime - 30000 && this.token) {
-      return this.token;
-    }
-
-    // Start a new token fetch
-    this.tokenPromise = this.fetchNewToken();
-
-    try {
-      // Wait for the token fetch to complete
-      return await this.tokenPromise;
-    } finally {
-      // Clear the promise so future calls will start a new fetch if needed
-      this.tokenPromise = null;
-    }
+    return await getCarrierToken(this.getAccount().bucket, () => this.fetchNewToken());
   }
 
   /**
@@ -177,21 +187,19 @@ export class Fdx implements OperatorModule {
    *
    * This function sends a POST request to the FedEx API to obtain a new access token.
    * It uses the client credentials (ID and secret) to authenticate the request.
-   * If successful, it updates the class's token and expiration time.
+   * If successful, it returns the token with its lifetime, to be cached.
    *
    * @throws {Error} If the API response doesn't contain an access token or has an invalid expiration time.
    * @throws {AppError} If the API returns specific error codes related to authentication.
    * @throws {Error} For any other unexpected API error responses.
    *
-   * @returns {Promise<string>} A promise that resolves to the newly obtained access token.
+   * @returns {Promise<FetchedCredential>} A promise that resolves to the newly obtained access token and its lifetime.
    */
-  async fetchNewToken(): Promise<string> {
-    const fdxApiUrl: string = config.fdx.apiUrl ?? "";
-    const fdxClientId = Deno.env.get("FDX_CLIENT_ID");
-    const fdxClientSecret = Deno.env.get("FDX_CLIENT_SECRET");
-    if (!fdxClientId || !fdxClientSecret) {
-      throw new AppError("500-01", "ERR-FDX-A: Invalid data source API CLIENT_ID/SECRET");
-    }
+  async fetchNewToken(): Promise<FetchedCredential> {
+    const account = this.getAccount();
+    const fdxApiUrl: string = account.urls["apiUrl"] ?? "";
+    const fdxClientId = account.credentials["clientId"];
+    const fdxClientSecret = account.credentials["clientSecret"];
 
     const response = await httpPost(
         fdxApiUrl,
@@ -202,11 +210,12 @@ export class Fdx implements OperatorModule {
           grant_type: "client_credentials",
           client_id: fdxClientId,
           client_secret: fdxClientSecret,
-        }));
+        }),
+        {maxRetries: config.http.maxRetries, circuitBreaker: account.bucket});
 
     const data: Record<string, unknown>  = await getResponseJSON(response, "500AC - getToken");
 
-    // if successful, update the token and expiration time.
+    // if successful, return the token and its lifetime.
     if (response.ok) {
       if(!data["access_token"]) {
         throw new AppError("500-02", "ERR-FDX-F: No access_token provided in response");
@@ -216,9 +225,7 @@ export class Fdx implements OperatorModule {
         throw new AppError("500-02", "ERR-FDX-G: Invalid or missing expires_in value");
       }
 
-      this.token = data["access_token"] as string;
-      this.expireTime = Date.now() + (data["expires_in"] as number) * 1000;
-      return this.token;
+      return { token: data["access_token"] as string, expiresIn: data["expires_in"] as number };
     } else {
       if(!data["errors"]) {
         throw new AppError("500-02", "ERR-FDX-H: No errors provided in response");
@@ -258,6 +265,63 @@ export class Fdx implements OperatorModule {
     }
   }
 
+  /**
+   * Estimates how likely a tracking number belongs to FedEx using the check digit of its format:
+   *  - 12 digits (Express): mod-11 check digit
+   *  - 15 or 20 digits (Ground, SSCC): mod-10 check digit
+   *  - 22 digits starting with 96 (Ground barcode): mod-10 check digit of the last 15 digits
+   * Other numeric tracking numbers of 10 to 25 digits get a low confidence.
+   *
+   * @param {string} trackingNum - The tracking number to check.
+   * @returns {number} The confidence between 0 and 1.
+   */
+  detectTrackingNum(trackingNum: string): number {
+    if (!/^\d{10,25}$/.test(trackingNum)) {
+      return 0;
+    }
+
+    switch (trackingNum.length) {
+      case 12:
+        return Fdx.isValidMod11(trackingNum) ? 0.9 : 0.2;
+      case 15:
+      case 20:
+        return Fdx.isValidMod10(trackingNum) ? 0.8 : 0.2;
+      case 22:
+        return trackingNum.startsWith("96") && Fdx.isValidMod10(trackingNum.slice(-15)) ? 0.8 : 0.2;
+      default:
+        return 0.2;
+    }
+  }
+
+  /**
+   * Checks the mod-11 check digit of a 12-digit FedEx Express tracking number.
+   * The first 11 digits are weighted 1, 3, 7 from right to left; the remainder of the sum
+   * divided by 11 (10 is replaced by 0) must equal the last digit.
+   *
+   * @param {string} trackingNum - The 12-digit tracking number.
+   * @returns {boolean} True if the check digit is valid.
+   */
+  private static isValidMod11(trackingNum: string): boolean {
+    const weights = [1, 3, 7];
+    const digits = trackingNum.slice(0, -1).split("").reverse();
+    const sum = digits.reduce((acc, digit, idx) => acc + Number(digit) * weights[idx % 3], 0);
+    return (sum % 11) % 10 === Number(trackingNum.slice(-1));
+  }
+
+  /**
+   * Checks the mod-10 check digit of a FedEx Ground or SSCC tracking number.
+   * The digits before the check digit are weighted 3, 1 from right to left; the check digit
+   * brings the sum to the next multiple of 10.
+   *
+   * @param {string} trackingNum - The tracking number.
+   * @returns {boolean} True if the check digit is valid.
+   */
+  private static isValidMod10(trackingNum: string): boolean {
+    const digits = trackingNum.slice(0, -1).split("").reverse();
+    const sum = digits.reduce((acc, digit, idx) => acc + Number(digit) * (idx % 2 === 0 ? 3 : 1), 0);
+    return (10 - (sum % 10)) % 10 === Number(trackingNum.slice(-1));
+  }
+
   /**
    * Retrieves the current location and tracking details for a given tracking number.
    * @param {TrackingID} trackingIds - The tracking ID(s) defined by eagle1.
@@ -268,7 +332,7 @@ export class Fdx implements OperatorModule {
   async pullFromSource(trackingIds: TrackingID[], _extraParams: Record<string, string>, updateMethod: string): Promise<Entity[]> {
     const entities: Entity[] = [];
     const trackingNums: string[] = trackingIds.map((item) => item.trackingNum);
-    const result: Record<string, unknown> = await this.getRoute(trackingNums);
+    const result: Record<string, unknown> = await this.getRoute(trackingNums, getQuotaPriority(updateMethod));
     const output = result["output"] as Record<string, unknown>;
     if (output === undefined) {
       const trackingIdsStr: string = trackingIds.map((item) => item.toString()).join(", ");
@@ -288,25 +352,81 @@ export class Fdx implements OperatorModule {
           }
         },
     );
+    recordCarrierAccount(entities, updateMethod, this.getAccount());
 
     return entities;
   }
 
   /**
+   * Converts a notification of the FedEx tracking webhooks into entities.
    *
    * @remarks
-   * FedEx operates as a pull-based data provider and does not support push operator.
-   * This method is not implemented and will throw an error if called.
-   *
-   * @param _data - The JSON data object from operator containing event information to be converted.
-   *                This parameter is prefixed with underscore as it is intentionally unused.
+   * The notification carries the track results of the shipments in the format of the Track API: a single
+   * complete track result ({"trackingNumber": ..., "trackResults": [...]}), or several in
+   * output.completeTrackResults. The scan events are converted like the pulled ones (see convert), so that
+   * the events pushed and pulled share their IDs. The entities are fed by push: the scheduler no longer polls them.
    *
-   * @returns An array of Entity objects created from the JSON data.
+   * @param data - The JSON payload of the webhook.
+   * @returns An array of Entity objects, without the shipments FedEx reports an error for.
+   * @throws {AppError} If a track result has no tracking number or no track results.
+   */
+  processPushData(data: Record<string, unknown>): Entity[] {
+    const output = data["output"] as Record<string, unknown> | undefined;
+    const completeTrackResults = output?.["completeTrackResults"] ?? [data];
+    if (!Array.isArray(completeTrackResults)) {
+      throw new AppError("400-06", "ERR-FDX-K: INVALID_DATA_FORMAT");
+    }
+
+    const entities: Entity[] = [];
+    for (const completeTrackResult of completeTrackResults as Record<string, unknown>[]) {
+      const trackingNumber = completeTrackResult?.["trackingNumber"];
+      if (typeof trackingNumber !== "string" || trackingNumber === "") {
+        throw new AppError("400-07", "ERR-FDX-L: TRACKING_NUMBER_REQUIRED");
+      }
+      const trackResults = completeTrackResult["trackResults"];
+      if (!Array.isArray(trackResults) || trackResults.length === 0) {
+        throw new AppError("400-06", `ERR-FDX-K: INVALID_DATA_FORMAT[${trackingNumber}]`);
+      }
+
+      const entity = Fdx.convert(TrackingID.parse(`fdx-${trackingNumber}`), completeTrackResult, "push");
+      if (entity !== undefined) {
+        entity.usePull = false;
+        entities.push(entity);
+      }
+    }
+    return entities;
+  }
+
+  /**
+   * Verifies the signature of a notification of the FedEx tracking webhooks: the fdx-signature header holds
+   * the HMAC-SHA256 of the payload (base64 encoded), keyed with the security token of the webhook, set as the
+   * webhookSecret of a global account in operators.jsonc.
    *
-   * @throws {Error} Always throws an error indicating that FedEx does not support push operations.
+   * @param headers - The headers of the notification, with lowercase names.
+   * @param body - The raw payload of the notification.
+   * @throws {AppError} If the signature is missing or matches no security token.
    */
-  processPushData(_data: Record<string, unknown>): Entity[] {
-    throw new AppError("404-02", "ERR-FDX-C: FedEx");
+  async verifyPushSignature(headers: Record<string, string>, body: string): Promise<void> {
+    const signature = headers["fdx-signature"];
+    if (!signature) {
+      throw new AppError("401-04", "ERR-FDX-M: SIGNATURE_REQUIRED");
+    }
+
+    const encoder = new TextEncoder();
+    for (const account of getConfiguredAccounts("fdx")) {
+      const secret = account.credentials["webhookSecret"];
+      if (!secret) continue;
+      const key = await crypto.subtle.importKey(
+          "raw",
+          encoder.encode(secret),
+          { name: "HMAC", hash: "SHA-256" },
+          false,
+          ["sign"],
+      );
+      const expected = encodeBase64(await crypto.subtle.sign("HMAC", key, encoder.encode(body)));
+      if (timingSafeEqual(expected, signature)) return;
+    }
+    throw new AppError("401-04", "ERR-FDX-N: SIGNATURE_INVALID");
   }
 
   /**
@@ -469,10 +589,12 @@ export class Fdx implements OperatorModule {
   /**
    * Fetches the shipment route details for a given tracking number from the FedEx API.
    * @param {string} trackingNumbers - The FedEx tracking number(s).
+   * @param {QuotaPriority} priority - The priority of the request in the FedEx quota.
    * @returns {Promise<Record<string, unknown>>} A promise resolving to the raw API response data.
    * @throws {Error} If the API request fails.
+   * @throws {AppError} If the FedEx quota is used up.
    */
-  async getRoute(trackingNumbers: string[]): Promise<Record<string, unknown>> {
+  async getRoute(trackingNumbers: string[], priority: QuotaPriority = "user"): Promise<Record<string, unknown>> {
     // Prepare the request payload
     const trackingInfo: { trackingNumberInfo: { trackingNumber: string } }[] = [];
     trackingNumbers.forEach((trackingNum) =>
@@ -489,8 +611,10 @@ export class Fdx implements OperatorModule {
     };
 
     // Send the API request
+    const account = this.getAccount();
     const token = await this.getToken();
-    const fdxTrackApiUrl: string = config.fdx.trackApiUrl ?? "";
+    await acquireCarrierQuota("fdx", priority, account);
+    const fdxTrackApiUrl: string = account.urls["trackApiUrl"] ?? "";
     const response = await httpPost(
         fdxTrackApiUrl,
         {
@@ -498,7 +622,8 @@ export class Fdx implements OperatorModule {
           "X-locale": "en_US",
           "Authorization": "Bearer " + token,
         },
-        JSON.stringify(payload)
+        JSON.stringify(payload),
+        {maxRetries: config.http.maxRetries, circuitBreaker: account.bucket}
     );
     if (!response.ok) {
       throw new AppError("500-02", `ERR-FDX-E - Incorrect http response status (${response.status})`);
@@ -530,8 +655,9 @@ export class Fdx implements OperatorModule {
     entity.params = {};
     entity.type = "waybill";
     entity.usePull = true;
-    const shipperAddress = (trackResult["shipperInformation"] as Record<string, unknown>)["address"]  as Record<string, unknown>;
-    const recipientAddress = (trackResult["recipientInformation"] as Record<string, unknown>)["address"]  as Record<string, unknown>;
+    // the webhook notifications may leave out the shipper and the recipient
+    const shipperAddress = ((trackResult["shipperInformation"] as Record<string, unknown>)?.["address"] ?? {}) as Record<string, unknown>;
+    const recipientAddress = ((trackResult["recipientInformation"] as Record<string, unknown>)?.["address"] ?? {}) as Record<string, unknown>;
     const origin = Fdx.getAddress(shipperAddress);
     const destination = Fdx.getAddress(recipientAddress);
     entity.additional = {};
@@ -546,7 +672,7 @@ export class Fdx implements OperatorModule {
     if (shipperCountry && recipientCountry && shipperCountry.toLowerCase() !== recipientCountry.toLowerCase()) {
       entity.additional.isCrossBorder = true;
     }
-    const scanEvents = trackResult["scanEvents"] as Record<string, unknown>[];
+    const scanEvents = (trackResult["scanEvents"] ?? []) as Record<string, unknown>[];
     for (const scanEvent of scanEvents.reverse()) {
       const event = this.createEvent(trackingId, entity, scanEvent, updateMethod);
       if (event && !entity.isEventIdExist(event.eventId)) {
@@ -2,7 +2,8 @@
  * @file sfex.ts
  * @description SF Express (Sfex) API client for tracking shipments and converting route data.
  * This module provides functionality to interact with the SF Express API, retrieve shipment routes,
- * and convert them into a structured object with associated `Event` details.
+ * and convert them into a structured object with associated `Event` details. It also ingests the routes
+ * pushed by SF Express to the waybills registered for its route push.
  *
  * @copyright (c) 2025, the Eagle1 authors
  * @license BSD 3-Clause License
@@ -13,14 +14,25 @@ import { v7 as uuidv7 } from "@std/uuid";
 import { config } from "../../../config.ts";
 import {whereIsAPI, logger} from "../../tools/logger.ts";
 import {DataUpdateMethod, Entity, Event, StatusCode, TrackingID, AppError} from "../../main/model.ts";
-import {getResponseJSON, adjustDateAndFormatWithTimezone, formatTimezoneOffset, httpPost} from "../../tools/util.ts";
-import {OperatorModule} from "../../main/operator.ts";
+import {getResponseJSON, adjustDateAndFormatWithTimezone, formatTimezoneOffset, httpPost, timingSafeEqual} from "../../tools/util.ts";
+import {OperatorModule, PushResult} from "../../main/operator.ts";
+import {acquireCarrierQuota, getQuotaPriority, QuotaPriority} from "../../main/carrier_quota.ts";
+import {
+  getConfiguredAccounts,
+  getOperatorAccounts,
+  isAccountConfigured,
+  recordCarrierAccount,
+  ResolvedCarrierAccount,
+} from "../../main/carrier_accounts.ts";
 
 /**
  * SF Express API client class for tracking shipments and managing route data.
  */
 export class Sfex implements OperatorModule {
 
+  /** The carrier account of the requests, undefined for the first global account. */
+  private readonly account?: ResolvedCarrierAccount;
+
   // If the entity contains 3350 and the subsequent statuses include [3004,3450,3500],
   // then it is considered that 3400 is missing.
   private static readonly POST_3400_STATUSES: number[] = [3004, 3450, 3500] as const;
@@ -105,6 +117,28 @@ export class Sfex implements OperatorModule {
     },
   ];
 
+  /**
+   * Creates an SF Express API client.
+   * @param account - The carrier account of the requests,
+   *   undefined for the first global account of operators.jsonc.
+   */
+  constructor(account?: ResolvedCarrierAccount) {
+    this.account = account;
+  }
+
+  /**
+   * Gets the carrier account of the requests.
+   * @returns The account of the client, else the first global account.
+   * @throws {AppError} If the account has no partner ID or check word.
+   */
+  private getAccount(): ResolvedCarrierAccount {
+    const account = this.account ?? getOperatorAccounts("sfex")[0];
+    if (account === undefined || !isAccountConfigured("sfex", account)) {
+      throw new AppError("500-01", "ERR-SFEX-H: Invalid data source API PARTNER_ID/CHECK_WORD");
+    }
+    return account;
+  }
+
   /**
    * Generate a signed digest for API requests
    * @param {string} msgString - The request payload as a string
@@ -135,6 +169,17 @@ export class Sfex implements OperatorModule {
     }
   }
 
+  /**
+   * Estimates how likely a tracking number belongs to SF Express.
+   * SF Express tracking numbers have no check digit, but their "SF" prefix is distinctive.
+   *
+   * @param {string} trackingNum - The tracking number to check.
+   * @returns {number} 0.95 if the tracking number has the SF Express format, 0 otherwise.
+   */
+  detectTrackingNum(trackingNum: string): number {
+    return /^SF\d{13}$/.test(trackingNum) ? 0.95 : 0;
+  }
+
   /**
    * Extracts SF Express-specific parameters from the request query parameters.
    * For SF Express, this is the recipient's or sender's phone number, which is required for tracking.
@@ -165,10 +210,14 @@ export class Sfex implements OperatorModule {
    * Validates stored entity parameters match request parameters
    * @param entity - The stored entity
    * @param params - The request parameters
+   * @returns false if the entity was pushed without phone number, to be checked by SF Express with a pull
    * @throws AppError if validation fails
    */
   validateStoredEntity(entity: Entity, params: Record<string, string>): boolean {
-    if (entity.params?.phonenum !== params.phonenum) {
+    if (entity.params?.phonenum === undefined) {
+      return false;
+    }
+    if (entity.params.phonenum !== params.phonenum) {
       throw new AppError("400-03", "ERR-SFEX-D: PHONENUM");
     }
     return true;
@@ -189,13 +238,15 @@ export class Sfex implements OperatorModule {
     }
 
     const trackingId = trackingIds[0];
-    const result = await this.getRoute(trackingId.trackingNum, extraParams["phonenum"]);
+    const result = await this.getRoute(trackingId.trackingNum, extraParams["phonenum"], getQuotaPriority(updateMethod));
 
     const resultCode = result["apiResultCode"] as string;
     switch (resultCode) {
       case "A1000": {   // Success
         const entity = this.convert(trackingId, result, extraParams, updateMethod);
-        return entity ? [entity] : [];
+        const entities = entity ? [entity] : [];
+        recordCarrierAccount(entities, updateMethod, this.getAccount());
+        return entities;
       }
       case "A1001":     // Invalid or missing data source API credentials
       case "A1004":
@@ -208,20 +259,133 @@ export class Sfex implements OperatorModule {
   }
 
   /**
+   * Converts a route push of SF Express into entities, one per waybill.
+   * The push has the envelope of the SF Express API requests (partnerID, requestID, serviceCode, timestamp,
+   * msgDigest and msgData), msgData holding the routes pushed in WaybillRoute.
+   * The waybills pushed are no longer pulled by the scheduler.
    *
-   * @remarks
-   * SF Express operates as a pull-based data provider and does not support push operator.
-   * This method is not implemented and will throw an error if called.
+   * @param data - The fields of the push (form or JSON).
+   * @returns An array of Entity objects created from the routes pushed.
+   * @throws {AppError} If msgData has no route or a route has no waybill number.
+   */
+  processPushData(data: Record<string, unknown>): Entity[] {
+    let msgData = data["msgData"];
+    if (typeof msgData === "string") {
+      try {
+        msgData = JSON.parse(msgData);
+      } catch {
+        throw new AppError("400-06", "ERR-SFEX-K: INVALID_DATA_FORMAT");
+      }
+    }
+    const waybillRoutes = (msgData as Record<string, unknown> | undefined)?.["WaybillRoute"];
+    if (!Array.isArray(waybillRoutes) || waybillRoutes.length === 0) {
+      throw new AppError("400-06", "ERR-SFEX-K: INVALID_DATA_FORMAT");
+    }
+
+    // group the routes by waybill, in the order of the push
+    const routesByWaybill: Map<string, Record<string, unknown>[]> = new Map();
+    for (const route of waybillRoutes as Record<string, unknown>[]) {
+      const mailno = route?.["mailno"];
+      if (typeof mailno !== "string" || mailno === "") {
+        throw new AppError("400-07", "ERR-SFEX-L: TRACKING_NUMBER_REQUIRED");
+      }
+      routesByWaybill.set(mailno, [...(routesByWaybill.get(mailno) ?? []), route]);
+    }
+
+    const entities: Entity[] = [];
+    for (const [mailno, routes] of routesByWaybill) {
+      const entity = this.createEntity(TrackingID.parse(`sfex-${mailno}`), routes, {}, "push");
+      entity.usePull = false;
+      entities.push(entity);
+    }
+    return entities;
+  }
+
+  /**
+   * Verifies the signature of a route push: msgDigest is computed from msgData and timestamp like the digest
+   * of the requests (see generateSignature), with the check word of the global account of the partnerID pushing.
+   * The timestamp (milliseconds since the epoch) must be within `pushMaxSkew` seconds of the current time,
+   * so that a captured push cannot be replayed later.
    *
-   * @param _data - The JSON data object from operator containing event information to be converted.
-   *                This parameter is prefixed with underscore as it is intentionally unused.
+   * @param headers - The headers of the push, with lowercase names.
+   * @param body - The raw body of the push, form-urlencoded or JSON.
+   * @throws {AppError} If the signature is missing or matches no account, or if the timestamp is invalid or expired.
+   */
+  async verifyPushSignature(headers: Record<string, string>, body: string): Promise<void> {
+    let fields: Record<string, unknown>;
+    try {
+      fields = (headers["content-type"] ?? "").startsWith("application/x-www-form-urlencoded")
+          ? Object.fromEntries(new URLSearchParams(body))
+          : JSON.parse(body);
+    } catch {
+      fields = {};
+    }
+    const {partnerID, timestamp, msgDigest, msgData} = fields ?? {};
+    if (typeof msgDigest !== "string" || typeof msgData !== "string" || timestamp === undefined) {
+      throw new AppError("401-04", "ERR-SFEX-I: SIGNATURE_REQUIRED");
+    }
+    if (!/^\d+$/.test(String(timestamp))) {
+      throw new AppError("401-04", "ERR-SFEX-N: TIMESTAMP_INVALID");
+    }
+    if (Math.abs(Date.now() - Number(timestamp)) > config.sfex.pushMaxSkew * 1000) {
+      throw new AppError("401-04", "ERR-SFEX-O: TIMESTAMP_EXPIRED");
+    }
+
+    for (const account of getConfiguredAccounts("sfex")) {
+      if (account.credentials["partnerId"] !== partnerID) continue;
+      const expected = await Sfex.generateSignature(msgData, Number(timestamp), account.credentials["checkWord"]);
+      if (timingSafeEqual(expected, msgDigest)) return;
+    }
+    throw new AppError("401-04", "ERR-SFEX-J: SIGNATURE_INVALID");
+  }
+
+  /**
+   * Builds the acknowledgement of a route push expected by SF Express: return_code 0000 if the routes were
+   * stored, else 1000 so that SF Express pushes them again, with the error message if the push was rejected.
    *
-   * @returns An array of Entity objects created from the JSON data.
+   * @param outcome - The outcome of the push, or the error failing it.
+   * @returns The acknowledgement of the push.
+   */
+  acknowledgePush(outcome: PushResult | AppError): Record<string, unknown> {
+    if (outcome instanceof AppError) {
+      return {return_code: "1000", return_msg: outcome.getMessage()};
+    }
+    if (outcome.failedTrackingIds.length > 0) {
+      return {return_code: "1000", return_msg: `Failed to store ${outcome.failedTrackingIds.join(",")}`};
+    }
+    return {return_code: "0000", return_msg: "成功"};
+  }
+
+  /**
+   * Registers a waybill for the route push of SF Express (EXP_RECE_REGISTER_ROUTE).
    *
-   * @throws {Error} Always throws an error indicating that SF Express does not support push operations.
+   * @param trackingId - The tracking ID of the waybill.
+   * @param extraParams - Additional parameters, including phone number.
+   * @throws {AppError} If the phone number is missing, or if SF Express refuses the registration.
    */
-  processPushData(_data: Record<string, unknown>): Entity[] {
-    throw new AppError("404-02", "ERR-SFEX-A: SFEX");
+  async registerPush(trackingId: TrackingID, extraParams: Record<string, string>): Promise<void> {
+    // Throws AppError if the phone number is missing, the registration would fail at SF Express
+    this.validateParams(trackingId, extraParams);
+    const msgData = {type: "2", attributeNo: trackingId.trackingNum, checkPhoneNo: extraParams["phonenum"]};
+    const result = await this.requestService("EXP_RECE_REGISTER_ROUTE", msgData, "user");
+
+    const resultCode = result["apiResultCode"] as string;
+    switch (resultCode) {
+      case "A1000": {   // Success
+        const apiResult = JSON.parse((result["apiResultData"] as string | undefined) ?? "{}");
+        if (apiResult["success"] === false) {
+          throw new AppError("500-02", `ERR-SFEX-M: REGISTER_ROUTE[${apiResult["errorCode"]}]: ${apiResult["errorMsg"]}`);
+        }
+        logger.info(`${whereIsAPI("data_monitor")} SFEX: ${trackingId.toString()} registered for the route push`);
+        return;
+      }
+      case "A1001":     // Invalid or missing data source API credentials
+      case "A1004":
+      case "A1006":
+        throw new AppError("500-01", `ERR-SFEX-B: ${resultCode}`);
+      default:
+        throw new AppError("500-02", `ERR-SFEX-M: REGISTER_ROUTE[${resultCode}]: ${result["apiErrorMsg"]}`);
+    }
   }
 
   /**
@@ -263,15 +427,31 @@ export class Sfex implements OperatorModule {
    * @async
    * @param {string} trackingNumber - The tracking number for the shipment.
    * @param {string} phoneNo - The phone number associated with the shipment.
+   * @param {QuotaPriority} priority - The priority of the request in the SF Express quota.
    * @returns {Promise<Record<string, unknown>>} A promise that resolves to the raw API response data.
    * @throws {Error} If the API request fails or an error occurs during fetching.
+   * @throws {AppError} If the SF Express quota is used up.
    */
-  async getRoute(trackingNumber: string, phoneNo: string,): Promise<Record<string, unknown>> {
-    // live
-    const sfexApiUrl = config.sfex.apiUrl ?? "";
-    const sfexPartnerId = Deno.env.get("SFEX_PARTNER_ID") ?? "";
-    const sfexCheckWord = Deno.env.get("SFEX_CHECK_WORD") ?? "";
+  async getRoute(trackingNumber: string, phoneNo: string, priority: QuotaPriority = "user"): Promise<Record<string, unknown>> {
     const msgData = {trackingType: 1, trackingNumber: [trackingNumber], checkPhoneNo: phoneNo};
+    return await this.requestService("EXP_RECE_SEARCH_ROUTES", msgData, priority);
+  }
+
+  /**
+   * Requests a service of the SF Express API with the carrier account of the client.
+   * @param {string} serviceCode - The code of the service. eg: EXP_RECE_SEARCH_ROUTES
+   * @param {Record<string, unknown>} msgData - The parameters of the service.
+   * @param {QuotaPriority} priority - The priority of the request in the SF Express quota.
+   * @returns {Promise<Record<string, unknown>>} A promise that resolves to the raw API response data.
+   * @throws {AppError} If the API request fails or the SF Express quota is used up.
+   */
+  private async requestService(serviceCode: string, msgData: Record<string, unknown>, priority: QuotaPriority): Promise<Record<string, unknown>> {
+    // live
+    const account = this.getAccount();
+    const sfexApiUrl = account.urls["apiUrl"] ?? "";
+    const sfexPartnerId = account.credentials["partnerId"];
+    const sfexCheckWord = account.credentials["checkWord"];
+    await acquireCarrierQuota("sfex", priority, account);
     const timestamp = Date.now();
     const msgString = JSON.stringify(msgData);
     const msgDigest = await Sfex.generateSignature(msgString, timestamp, sfexCheckWord);
@@ -285,18 +465,19 @@ export class Sfex implements OperatorModule {
             {
               partnerID: sfexPartnerId,
               requestID: crypto.randomUUID(),
-              serviceCode: "EXP_RECE_SEARCH_ROUTES",
+              serviceCode: serviceCode,
               timestamp: timestamp.toString(),
               msgDigest: msgDigest,
               msgData: msgString,
             },
-        )
+        ),
+        {maxRetries: config.http.maxRetries, circuitBreaker: account.bucket}
     );
     if (!response.ok) {
-      throw new AppError("500-02", `ERR-SFEX-F - getRoute(${response.status})`);
+      throw new AppError("500-02", `ERR-SFEX-F - ${serviceCode}(${response.status})`);
     }
 
-    return await getResponseJSON(response, "ERR-SFEX-G - getRoute");
+    return await getResponseJSON(response, `ERR-SFEX-G - ${serviceCode}`);
   }
 
   /**
@@ -319,6 +500,18 @@ export class Sfex implements OperatorModule {
       return undefined;
     }
 
+    return this.createEntity(trackingId, routes, params, updateMethod);
+  }
+
+  /**
+   * Creates an entity from SF Express routes, with the supplement events of the routes missing.
+   * @param {TrackingID} trackingId - The tracking ID defined by eagle1.
+   * @param {Record<string, unknown>[]} routes - The routes of the waybill, pulled or pushed.
+   * @param {Record<string, string>} params - Additional parameters for the object.
+   * @param {string} updateMethod - The method used to update the tracking information.
+   * @returns {Entity} An Entity object represents the shipment data.
+   */
+  private createEntity(trackingId: TrackingID, routes: Record<string, unknown>[], params: Record<string, string>, updateMethod: string): Entity {
     const entity: Entity = new Entity();
     entity.uuid = uuidv7.generate();
     entity.id = trackingId.toString();
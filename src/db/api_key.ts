@@ -1,18 +1,33 @@
 /**
  * @file api_key.ts
- * @description Command-line utility for generating and storing API keys in the database.
+ * @description Command-line utility for managing the API keys stored in the database.
  * This script creates secure, URL-safe API keys and associates them with user identifiers.
- * It supports custom key generation or accepts pre-defined keys via command-line arguments.
+ * It supports custom key generation or accepts pre-defined keys via command-line arguments,
+ * and lists, revokes and rotates the existing keys.
  *
  * Usage:
  *   deno task api_key                              # Generate key for default user
  *   deno task api_key --user=admin                 # Generate key for specific user
  *   deno task api_key --key=sk-abc123 --user=test  # Store custom key
+ *   deno task api_key --user=test --rate=120 --burst=40  # Override the default rate limit
+ *   deno task api_key --user=test --quota=100000   # Limit the key to a number of requests per calendar month
+ *   deno task api_key --user=test --operators=fdx,sfex --routes=whereis,status  # Limit the key to some operators and routes
+ *   deno task api_key --user=test --readonly=true --fulldata=false --refresh=false  # Deny push, raw data and forced pulls
+ *   deno task api_key --user=ops --routes=admin    # Generate key for the admin routes, which are never granted by default
+ *   deno task api_key --user=test --expires=2026-12-31T00:00:00Z  # Generate key expiring at a given time
+ *   deno task api_key list [--user=test]           # List the keys by identifier and prefix
+ *   deno task api_key revoke --id=0198c7c6-...     # Revoke a key immediately (or --key=sk-abc123)
+ *   deno task api_key rotate --id=0198c7c6-... [--grace=3600]  # Replace a key, the old one remaining valid for the grace period (in seconds)
+ *
+ * The keys are stored hashed: a new key is printed once, when it is created, and cannot be retrieved afterwards.
  *
  * @copyright (c) 2025, the Eagle1 authors
  * @license BSD 3-Clause License
  */
+import { v7 as uuidv7 } from "@std/uuid";
+import { generateApiKey, revokeApiKey, rotateApiKey } from "../main/api_keys.ts";
 import { loadEnv } from "../main/app.ts";
+import { ApiToken } from "../main/model.ts";
 import { initConnection } from "./dbutil.ts";
 import { getDbClient } from "./dbutil.ts";
 
@@ -23,27 +38,147 @@ async function main(): Promise<void> {
   // step 2: initialize database connection
   await initConnection();
 
-  // step 3: generate API key
+  // step 3: run the subcommand, "create" by default
+  const command = Deno.args.find((arg) => !arg.startsWith("--")) ?? "create";
   const parsedArgs = parseArgs(Deno.args);
-  const { user = "default_user", key: parsedKey = "" } = parsedArgs;
-  const key = parsedKey || generateApiKey();
-  // step 4: write API key to the database
+  switch (command) {
+    case "create":
+      await createKey(parsedArgs);
+      break;
+    case "list":
+      await listKeys(parsedArgs);
+      break;
+    case "revoke":
+      await revokeKey(parsedArgs);
+      break;
+    case "rotate":
+      await rotateKey(parsedArgs);
+      break;
+    default:
+      console.log(`Unknown command: ${command}. Expected create, list, revoke or rotate.`);
+      Deno.exit(1);
+  }
+
+  Deno.exit(0);
+}
+
+async function createKey(parsedArgs: Record<string, string>): Promise<void> {
+  const { user = "default_user", key: parsedKey = "", rate, burst, expires } = parsedArgs;
+  const apiToken = new ApiToken();
+  apiToken.id = uuidv7.generate();
+  apiToken.key = parsedKey || generateApiKey();
+  apiToken.userId = user;
+  apiToken.rateLimit = rate ? Number(rate) : undefined;
+  apiToken.rateBurst = burst ? Number(burst) : undefined;
+  if ((apiToken.rateLimit !== undefined && !(apiToken.rateLimit > 0)) ||
+    (apiToken.rateBurst !== undefined && !(apiToken.rateBurst > 0))) {
+    console.log(`Invalid rate limit: --rate and --burst must be positive numbers.`);
+    Deno.exit(1);
+  }
+  apiToken.monthlyQuota = parsedArgs.quota ? Number(parsedArgs.quota) : undefined;
+  if (apiToken.monthlyQuota !== undefined && !(Number.isInteger(apiToken.monthlyQuota) && apiToken.monthlyQuota > 0)) {
+    console.log(`Invalid quota: --quota must be a positive integer.`);
+    Deno.exit(1);
+  }
+
+  // scopes of the key, all operators and routes if omitted
+  apiToken.operators = parseList(parsedArgs.operators);
+  apiToken.routes = parseList(parsedArgs.routes);
+  const invalidRoutes = (apiToken.routes ?? []).filter((route) => !ApiToken.ROUTES.includes(route));
+  if (invalidRoutes.length > 0) {
+    console.log(`Invalid routes: ${invalidRoutes.join(",")}. Expected some of ${ApiToken.ROUTES.join(",")}.`);
+    Deno.exit(1);
+  }
+  apiToken.readOnly = parsedArgs.readonly === "true";
+  apiToken.allowFullData = parsedArgs.fulldata !== "false";
+  apiToken.allowRefresh = parsedArgs.refresh !== "false";
+
+  // lifecycle of the key
+  apiToken.createdAt = new Date().toISOString();
+  if (expires) {
+    const expiresAt = new Date(expires);
+    if (isNaN(expiresAt.getTime())) {
+      console.log(`Invalid expiry: ${expires}. Expected an ISO 8601 date.`);
+      Deno.exit(1);
+    }
+    apiToken.expiresAt = expiresAt.toISOString();
+  }
+  const key = apiToken.key;
+
+  // write API key to the database
   let inserted = 0;
   try {
-    inserted = await getDbClient().insertToken(key, user);
+    inserted = await getDbClient().insertToken(apiToken);
   } catch (err) {
-    console.log(`Failed to insert API key ${key} for user ${user}: ${err}`);
+    console.log(`Failed to insert API key ${apiToken.prefix || ApiToken.getPrefix(key)}… for user ${user}: ${err}`);
     Deno.exit(1);
   }
 
   // Just output the API key to console (Avoid writing to grafana)
   if (!inserted) {
-    console.log(`Token ${key} already exists or was not inserted.`);
+    console.log(`Token ${apiToken.id} already exists or was not inserted.`);
   } else {
-    console.log(`API key ${key} has been saved to the database.`);
+    console.log(`API key ${key} has been saved to the database with id ${apiToken.id}.`);
+    console.log(`Store it now: only its hash is kept, it will not be shown again.`);
   }
+}
 
-  Deno.exit(0);
+async function listKeys(parsedArgs: Record<string, string>): Promise<void> {
+  const apiTokens = await getDbClient().queryTokens(parsedArgs.user);
+  for (const apiToken of apiTokens) {
+    const status = apiToken.isActive() ? "active" : (apiToken.revokedAt ? "revoked" : "expired");
+    console.log(
+      `${apiToken.id}\t${apiToken.prefix}…\t${apiToken.userId}\t${status}\tcreated=${apiToken.createdAt ?? "-"}` +
+        `\tquota=${apiToken.monthlyQuota ?? "-"}\texpires=${apiToken.expiresAt ?? "-"}\trevoked=${apiToken.revokedAt ?? "-"}\tlastUsed=${apiToken.lastUsedAt ?? "-"}`,
+    );
+  }
+  console.log(`${apiTokens.length} API key(s).`);
+}
+
+async function revokeKey(parsedArgs: Record<string, string>): Promise<void> {
+  const id = await requireKeyId(parsedArgs);
+  if (await revokeApiKey(id)) {
+    console.log(`API key ${id} has been revoked.`);
+  } else {
+    console.log(`API key ${id} does not exist or was already revoked.`);
+  }
+}
+
+async function rotateKey(parsedArgs: Record<string, string>): Promise<void> {
+  const id = await requireKeyId(parsedArgs);
+  const gracePeriod = parsedArgs.grace !== undefined ? Number(parsedArgs.grace) : undefined;
+  if (gracePeriod !== undefined && !(gracePeriod >= 0)) {
+    console.log(`Invalid grace period: --grace must be a number of seconds.`);
+    Deno.exit(1);
+  }
+
+  try {
+    const newToken = await rotateApiKey(id, gracePeriod);
+    console.log(`API key ${id} has been replaced by ${newToken.key} with id ${newToken.id}.`);
+    console.log(`Store it now: only its hash is kept, it will not be shown again.`);
+  } catch (err) {
+    console.log(`Failed to rotate API key ${id}: ${err}`);
+    Deno.exit(1);
+  }
+}
+
+/**
+ * Gets the identifier of the key given by --id, or looks up the key given by --key.
+ */
+async function requireKeyId(parsedArgs: Record<string, string>): Promise<string> {
+  if (parsedArgs.id) {
+    return parsedArgs.id;
+  }
+  if (!parsedArgs.key) {
+    console.log(`Missing argument: --id=<API key id> or --key=<API key>.`);
+    Deno.exit(1);
+  }
+  const apiToken = await getDbClient().queryToken(parsedArgs.key);
+  if (!apiToken) {
+    console.log(`API key ${ApiToken.getPrefix(parsedArgs.key)}… does not exist.`);
+    Deno.exit(1);
+  }
+  return apiToken.id;
 }
 
 function parseArgs(args: string[]) {
@@ -68,40 +203,12 @@ function parseArgs(args: string[]) {
 }
 
 /**
- * Generates a unique, URL-safe API key with a given length.
- * Exported to enable dedicated unit tests for bounds/validation and output format.
+ * Splits a comma-separated command-line value into its non-empty items.
+ * Returns undefined if the value is missing, i.e. no restriction.
  */
-export function generateApiKey(length: number = 48): string {
-  if (!Number.isInteger(length) || length < 16 || length > 128) {
-    throw new RangeError(
-      "API key length must be an integer between 16 and 128.",
-    );
-  }
-
-  const chars =
-    "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789";
-
-  // Use rejection sampling to avoid modulo bias when mapping random bytes to characters.
-  const maxUnbiased = Math.floor(256 / chars.length) * chars.length;
-  const keyChars: string[] = [];
-
-  while (keyChars.length < length) {
-    const randomBytes = crypto.getRandomValues(
-      new Uint8Array(length - keyChars.length),
-    );
-
-    for (const byte of randomBytes) {
-      if (byte >= maxUnbiased) {
-        continue;
-      }
-      keyChars.push(chars[byte % chars.length]);
-      if (keyChars.length === length) {
-        break;
-      }
-    }
-  }
-
-  return `sk-${keyChars.join("")}`;
+function parseList(value: string | undefined): string[] | undefined {
+  if (value === undefined) return undefined;
+  return value.split(",").map((item) => item.trim()).filter((item) => item !== "");
 }
 
 // Execute the main function and handle any uncaught errors
@@ -13,10 +13,12 @@
 import postgres from "postgresjs";
 
 import {DatabaseWrapper} from "./db_wrapper.ts";
+import {v7 as uuidv7} from "@std/uuid";
+import {generateSalt, hashApiKey, timingSafeEqual} from "../tools/util.ts";
 
 import {whereIsAPI, logger} from "../tools/logger.ts";
 import {AppError, JSONValue} from "../main/model.ts";
-import {DataUpdateMethod,Entity,Event,TrackingID} from "../main/model.ts";
+import {ApiToken,CarrierAccount,CarrierCredential,DataUpdateMethod,Entity,Event,PullJob,SchedulerRun,Subscription,TrackingID,UsageRecord,WebhookDelivery} from "../main/model.ts";
 
 /**
  * Ensures that the input object is safe to be serialized as JSON.
@@ -50,9 +52,14 @@ function ensureJSONSafe(obj: unknown): JSONValue {
   return String(obj);
 }
 
+/** The channel used by LISTEN/NOTIFY to announce entity changes */
+const ENTITY_CHANGES_CHANNEL = "entity_changes";
+
 export class PostgresWrapper implements DatabaseWrapper {
 
   private readonly sql: postgres.Sql;
+  private readonly changeListeners = new Set<(trackingId: string) => void>();
+  private changeSubscription?: Promise<unknown>;
 
   constructor(sql: postgres.Sql) {
     this.sql = sql;
@@ -82,11 +89,172 @@ export class PostgresWrapper implements DatabaseWrapper {
     return false;
   }
 
-  async insertToken(apikey: string, userId: string): Promise<number> {
+  /**
+   * Inserts a new API key with its rate limit, scopes and expiry into the 'tokens' table.
+   * Only the prefix and a salted hash of the secret key are stored.
+   *
+   * @param apiToken - The API token to insert, with its identifier and its secret key.
+   * @returns A Promise that resolves to 1 if the token was inserted, or 0 if its identifier already exists.
+   */
+  async insertToken(apiToken: ApiToken): Promise<number> {
+    if (!apiToken.key) {
+      throw new AppError("500-01", "ERR-PG-B - The secret of the API key is required");
+    }
+    apiToken.prefix = ApiToken.getPrefix(apiToken.key);
+    const salt = generateSalt();
+    const keyHash = await hashApiKey(apiToken.key, salt);
+
+    const result = await this.sql`
+      INSERT INTO tokens (id, prefix, key_hash, salt, user_id, rate_limit, rate_burst, monthly_quota, scope_operators, scope_routes,
+                          read_only, allow_fulldata, allow_refresh, created_at, expires_at)
+      VALUES (${apiToken.id},
+              ${apiToken.prefix},
+              ${keyHash},
+              ${salt},
+              ${apiToken.userId},
+              ${apiToken.rateLimit ?? null},
+              ${apiToken.rateBurst ?? null},
+              ${apiToken.monthlyQuota ?? null},
+              ${apiToken.operators?.join(",") ?? null},
+              ${apiToken.routes?.join(",") ?? null},
+              ${apiToken.readOnly},
+              ${apiToken.allowFullData},
+              ${apiToken.allowRefresh},
+              ${apiToken.createdAt ?? new Date().toISOString()},
+              ${apiToken.expiresAt ?? null}) ON CONFLICT(id) DO NOTHING RETURNING 0`;
+
+    return result.count ?? 0;
+  }
+
+  /**
+   * Hashes the tokens still stored in plaintext, i.e. whose id is the secret key itself.
+   * Each of them gets a new identifier, which the webhook subscriptions of the key now refer to.
+   *
+   * @returns A Promise that resolves to the number of tokens hashed.
+   */
+  async hashPlaintextTokens(): Promise<number> {
+    const rows = await this.sql`SELECT id FROM tokens WHERE key_hash IS NULL`;
+    if (rows.length === 0) return 0;
+
+    let hashed = 0;
+    await this.sql.begin(async (tx: postgres.TransactionSql) => {
+      for (const row of rows) {
+        const key = row.id as string;
+        const id = uuidv7.generate();
+        const salt = generateSalt();
+        const keyHash = await hashApiKey(key, salt);
+        const result = await (tx as unknown as postgres.Sql)`
+          UPDATE tokens
+          SET id = ${id}, prefix = ${ApiToken.getPrefix(key)}, key_hash = ${keyHash}, salt = ${salt}
+          WHERE id = ${key}
+            AND key_hash IS NULL`;
+        if ((result.count ?? 0) > 0) {
+          await (tx as unknown as postgres.Sql)`UPDATE subscriptions SET api_key = ${id} WHERE api_key = ${key}`;
+          hashed++;
+        }
+      }
+    });
+    return hashed;
+  }
+
+  /**
+   * Revokes an API token at a given time. A token already revoked earlier keeps its revocation time.
+   *
+   * @param id - The identifier of the token to revoke.
+   * @param revokedAt - The revocation time (ISO 8601), which may be in the future to leave a grace period.
+   * @returns A Promise that resolves to the number of tokens revoked (0 if not found or already revoked).
+   */
+  async revokeToken(id: string, revokedAt: string): Promise<number> {
+    const result = await this.sql`
+      UPDATE tokens
+      SET revoked_at = ${revokedAt}
+      WHERE id = ${id}
+        AND (revoked_at IS NULL OR revoked_at > ${revokedAt})`;
+
+    return result.count ?? 0;
+  }
+
+  /**
+   * Records the last time an API token was used.
+   *
+   * @param id - The identifier of the token.
+   * @param usedAt - The time of use (ISO 8601).
+   */
+  async touchToken(id: string, usedAt: string): Promise<void> {
+    await this.sql`
+      UPDATE tokens
+      SET last_used_at = ${usedAt}
+      WHERE id = ${id}`;
+  }
+
+  /**
+   * Adds usage counts to the daily counters of the API keys.
+   *
+   * @param records - The usage counts to add, one per API key, day, metric and dimension.
+   */
+  async incrementUsage(records: UsageRecord[]): Promise<void> {
+    await this.sql.begin(async (tx: postgres.TransactionSql) => {
+      for (const record of records) {
+        await (tx as unknown as postgres.Sql)`
+          INSERT INTO usage_counters (token_id, day, metric, dimension, count)
+          VALUES (${record.tokenId}, ${record.day}, ${record.metric}, ${record.dimension}, ${record.count})
+          ON CONFLICT(token_id, day, metric, dimension) DO UPDATE SET count = usage_counters.count + EXCLUDED.count`;
+      }
+    });
+  }
+
+  /**
+   * Retrieves the daily usage counters of an API key over a range of days.
+   *
+   * @param tokenId - The identifier of the API key.
+   * @param fromDay - The first day of the range (YYYY-MM-DD).
+   * @param toDay - The last day of the range (YYYY-MM-DD), included.
+   * @param metric - Only retrieve the counters of this metric, all metrics if undefined.
+   * @returns A Promise that resolves to the usage records ordered by day.
+   */
+  async queryUsage(tokenId: string, fromDay: string, toDay: string, metric?: string): Promise<UsageRecord[]> {
+    const rows = await this.sql`
+      SELECT token_id, day, metric, dimension, count
+      FROM usage_counters
+      WHERE token_id = ${tokenId}
+        AND day >= ${fromDay}
+        AND day <= ${toDay}
+        AND (${metric ?? null}::varchar IS NULL OR metric = ${metric ?? null})
+      ORDER BY day ASC, metric ASC, dimension ASC`;
+    return rows.map((row) =>
+      new UsageRecord(row.token_id, row.day, row.metric, row.dimension, Number(row.count))
+    );
+  }
+
+  /**
+   * Links an API key, and the keys it had replaced, to the API key that replaces it when it is rotated.
+   *
+   * @param oldTokenId - The identifier of the rotated API key.
+   * @param newTokenId - The identifier of the API key that replaces it.
+   * @returns A Promise that resolves to the number of API keys linked.
+   */
+  async linkRotatedToken(oldTokenId: string, newTokenId: string): Promise<number> {
     const result = await this.sql`
-      INSERT INTO tokens (id, user_id)
-      VALUES (${apikey},
-              ${userId}) ON CONFLICT(id) DO NOTHING RETURNING 0`;
+      UPDATE tokens
+      SET rotated_to = ${newTokenId}
+      WHERE id = ${oldTokenId}
+         OR rotated_to = ${oldTokenId}`;
+
+    return result.count ?? 0;
+  }
+
+  /**
+   * Transfers the usage counters of an API key to another API key, when the key is rotated.
+   *
+   * @param oldTokenId - The identifier of the API key that owns the counters.
+   * @param newTokenId - The identifier of the API key that will own the counters.
+   * @returns A Promise that resolves to the number of counters transferred.
+   */
+  async transferUsage(oldTokenId: string, newTokenId: string): Promise<number> {
+    const result = await this.sql`
+      UPDATE usage_counters
+      SET token_id = ${newTokenId}
+      WHERE token_id = ${oldTokenId}`;
 
     return result.count ?? 0;
   }
@@ -200,6 +368,12 @@ export class PostgresWrapper implements DatabaseWrapper {
 
     let inserted = 0;
     await this.sql.begin(async (tx: postgres.TransactionSql) => {
+      // an entity fed by push stays so
+      const [row] = await (tx as unknown as postgres.Sql)`SELECT use_pull FROM entities WHERE id = ${trackingId.toString()}`;
+      if (row?.use_pull === false) {
+        entity.usePull = false;
+      }
+
       // delete entity and events
       await this.deleteEntityAndEvents(tx, trackingId);
 
@@ -239,6 +413,57 @@ export class PostgresWrapper implements DatabaseWrapper {
     return entity;
   }
 
+  /**
+   * Records the last time an entity was pulled from its carrier and the next time it is polled.
+   *
+   * @param trackingId - The TrackingID of the entity.
+   * @param lastPulledAt - The time of the pull (ISO 8601).
+   * @param nextPollAt - The time of the next poll (ISO 8601), undefined if it is no longer polled.
+   * @returns A Promise that resolves to the number of entities updated.
+   */
+  async updatePollSchedule(trackingId: TrackingID, lastPulledAt: string, nextPollAt: string | undefined): Promise<number> {
+    const result = await this.sql`
+      UPDATE entities
+      SET last_pulled_at = ${lastPulledAt},
+          next_poll_at   = ${nextPollAt ?? null}
+      WHERE id = ${trackingId.toString()}`;
+
+    return result.count ?? 0;
+  }
+
+  /**
+   * Marks an entity as expired, so that it is no longer polled.
+   *
+   * @param trackingId - The TrackingID of the entity.
+   * @returns A Promise that resolves to the number of entities updated.
+   */
+  async expireEntity(trackingId: TrackingID): Promise<number> {
+    const result = await this.sql`
+      UPDATE entities
+      SET expired      = true,
+          next_poll_at = NULL
+      WHERE id = ${trackingId.toString()}`;
+
+    return result.count ?? 0;
+  }
+
+  /**
+   * Marks an entity pulled so far as fed by push, so that it is no longer polled.
+   *
+   * @param trackingId - The TrackingID of the entity.
+   * @returns A Promise that resolves to the number of entities updated.
+   */
+  async stopPolling(trackingId: TrackingID): Promise<number> {
+    const result = await this.sql`
+      UPDATE entities
+      SET use_pull     = false,
+          next_poll_at = NULL
+      WHERE id = ${trackingId.toString()}
+        AND use_pull = true`;
+
+    return result.count ?? 0;
+  }
+
   /**
    * Retrieves all event IDs associated with a specific tracking ID from the database.
    *
@@ -270,42 +495,123 @@ export class PostgresWrapper implements DatabaseWrapper {
   /**
    * Checks if a given token is valid by querying the database.
    *
-   * This function performs a database query to check if the provided token
-   * exists in the 'tokens' table. It's typically used for authentication
-   * or authorization purposes.
+   * This function looks up the provided token in the 'tokens' table and checks
+   * that it has neither expired nor been revoked.
+   * It's typically used for authentication or authorization purposes.
    *
    * @param token - The token string to be validated.
    * @returns A Promise that resolves to a boolean:
-   *          - true if the token is found in the database (i.e., it's valid).
-   *          - false if the token is not found in the database (i.e., it's invalid).
+   *          - true if the token is found in the database and is active (i.e., it's valid).
+   *          - false if the token is not found, has expired or has been revoked (i.e., it's invalid).
    */
   async isTokenValid(token: string): Promise<boolean> {
+    const apiToken = await this.queryToken(token);
+    return apiToken !== undefined && apiToken.isActive();
+  }
+
+  /**
+   * Retrieves an API token and its settings from the 'tokens' table, whether it is active or not.
+   * The candidate rows are looked up by the prefix of the token, then the salted hash of the token
+   * is compared in constant time with the hash of each row.
+   *
+   * @param token - The secret token string to look up.
+   * @returns A Promise that resolves to the ApiToken object, or undefined if the token is not found.
+   */
+  async queryToken(token: string): Promise<ApiToken | undefined> {
+    const rows = await this.sql`
+        SELECT id, prefix, user_id, rate_limit, rate_burst, monthly_quota, scope_operators, scope_routes, read_only,
+               allow_fulldata, allow_refresh, created_at, expires_at, revoked_at, last_used_at, rotated_to, key_hash, salt
+        FROM tokens
+        WHERE prefix = ${ApiToken.getPrefix(token)};
+    `;
+
+    let match: postgres.Row | undefined;
+    for (const row of rows) {
+      const hash = await hashApiKey(token, row.salt as string);
+      // every row is compared, so that the duration does not reveal which one matches
+      if (timingSafeEqual(hash, row.key_hash as string) && match === undefined) {
+        match = row;
+      }
+    }
+    return match ? this.toApiToken(match) : undefined;
+  }
+
+  /**
+   * Retrieves an API token and its settings by its identifier, whether it is active or not.
+   *
+   * @param id - The identifier of the token.
+   * @returns A Promise that resolves to the ApiToken object, or undefined if the token is not found.
+   */
+  async queryTokenById(id: string): Promise<ApiToken | undefined> {
     const rows = await this.sql`
-        SELECT id
+        SELECT id, prefix, user_id, rate_limit, rate_burst, monthly_quota, scope_operators, scope_routes, read_only,
+               allow_fulldata, allow_refresh, created_at, expires_at, revoked_at, last_used_at, rotated_to
         FROM tokens
-        WHERE id = ${token};
+        WHERE id = ${id};
     `;
+    return rows.length == 1 ? this.toApiToken(rows[0]) : undefined;
+  }
 
-    return rows.length == 1;
+  /**
+   * Retrieves the API tokens, optionally those of a single user.
+   *
+   * @param userId - The user identifier, or undefined to retrieve the tokens of all users.
+   * @returns A Promise that resolves to the ApiToken objects ordered by creation time.
+   */
+  async queryTokens(userId?: string): Promise<ApiToken[]> {
+    const rows = await this.sql`
+        SELECT id, prefix, user_id, rate_limit, rate_burst, monthly_quota, scope_operators, scope_routes, read_only,
+               allow_fulldata, allow_refresh, created_at, expires_at, revoked_at, last_used_at, rotated_to
+        FROM tokens
+        WHERE ${userId ?? null}::varchar IS NULL OR user_id = ${userId ?? null}
+        ORDER BY created_at ASC;
+    `;
+    return rows.map((row) => this.toApiToken(row));
   }
 
   /**
-   * Retrieves tracking numbers and their associated parameters for entities that are still in processing.
+   * Claims the tracking numbers and their associated parameters of entities that are still in processing
+   * and due for a poll, on behalf of a scheduler instance.
    *
-   * This function queries the database for all entities that have not been completed (i.e., where 'completed' is false).
+   * This function claims the entities that have not been completed (i.e., where 'completed' is false)
+   * nor expired, whose next poll time is reached or not set, and which are not claimed by another instance
+   * under a valid lease. The rows locked by a concurrent claim are skipped (FOR UPDATE SKIP LOCKED),
+   * so that concurrent instances claim distinct entities.
    * It returns a record where each key is a tracking number (the entity's ID) and the value is the entity's parameters.
    *
    * @returns A Promise that resolves to a Record where:
    *          - The keys are tracking numbers (strings) of in-processing entities
    *          - The values are the corresponding entity parameters (as unknown, but typically Record<string, string>)
+   * @param owner - The identifier of the scheduler instance.
+   * @param now - The current time (ISO 8601).
+   * @param leaseUntil - The expiry of the lease (ISO 8601).
+   * @param limit - The maximum number of tracking numbers claimed.
+   * @param operator - The operator whose tracking numbers are claimed, all operators if undefined.
    * @throws Will throw an error if the database query fails
    */
-  async getInProcessingTrackingNums(): Promise<Record<string, Record<string, string>>> {
+  async claimDueTrackingNums(
+    owner: string,
+    now: string,
+    leaseUntil: string,
+    limit: number,
+    operator?: string,
+  ): Promise<Record<string, Record<string, string>>> {
     const trackingNums: Record<string, Record<string, string>> = {};
-    const rows = await this.sql`SELECT id, params
-                                FROM entities
-                                WHERE completed = false
-                                  AND use_pull = true;`;
+    const rows = await this.sql`UPDATE entities
+                                SET claimed_by       = ${owner},
+                                    claim_expires_at = ${leaseUntil}
+                                WHERE uuid IN (SELECT uuid
+                                               FROM entities
+                                               WHERE completed = false
+                                                 AND expired = false
+                                                 AND use_pull = true
+                                                 AND (next_poll_at IS NULL OR next_poll_at <= ${now})
+                                                 AND (claim_expires_at IS NULL OR claim_expires_at <= ${now})
+                                                 AND (${operator ?? null}::varchar IS NULL OR id LIKE ${`${operator}-%`})
+                                               ORDER BY next_poll_at NULLS FIRST
+                                               LIMIT ${limit}
+                                               FOR UPDATE SKIP LOCKED)
+                                RETURNING id, params;`;
 
     for (const row of rows) {
       trackingNums[row.id as string] = row.params as Record<string, string>;
@@ -314,6 +620,816 @@ export class PostgresWrapper implements DatabaseWrapper {
     return trackingNums;
   }
 
+  /**
+   * Extends the lease of the entities and pull jobs claimed by a scheduler instance.
+   *
+   * @param owner - The identifier of the scheduler instance.
+   * @param leaseUntil - The new expiry of the lease (ISO 8601).
+   * @returns A Promise that resolves to the number of claims renewed.
+   */
+  async renewClaims(owner: string, leaseUntil: string): Promise<number> {
+    const entities = await this.sql`
+      UPDATE entities
+      SET claim_expires_at = ${leaseUntil}
+      WHERE claimed_by = ${owner}`;
+    const jobs = await this.sql`
+      UPDATE pull_jobs
+      SET claim_expires_at = ${leaseUntil}
+      WHERE claimed_by = ${owner}`;
+
+    return (entities.count ?? 0) + (jobs.count ?? 0);
+  }
+
+  /**
+   * Releases the entities and pull jobs claimed by a scheduler instance.
+   *
+   * @param owner - The identifier of the scheduler instance.
+   * @returns A Promise that resolves to the number of claims released.
+   */
+  async releaseClaims(owner: string): Promise<number> {
+    const entities = await this.sql`
+      UPDATE entities
+      SET claimed_by       = NULL,
+          claim_expires_at = NULL
+      WHERE claimed_by = ${owner}`;
+    const jobs = await this.sql`
+      UPDATE pull_jobs
+      SET claimed_by       = NULL,
+          claim_expires_at = NULL
+      WHERE claimed_by = ${owner}`;
+
+    return (entities.count ?? 0) + (jobs.count ?? 0);
+  }
+
+  /**
+   * Releases a pull job claimed by a scheduler instance.
+   *
+   * @param id - The job identifier.
+   * @param owner - The identifier of the scheduler instance.
+   * @returns A Promise that resolves to the number of claims released.
+   */
+  async releasePullJob(id: string, owner: string): Promise<number> {
+    const result = await this.sql`
+      UPDATE pull_jobs
+      SET claimed_by       = NULL,
+          claim_expires_at = NULL
+      WHERE id = ${id}
+        AND claimed_by = ${owner}`;
+
+    return result.count ?? 0;
+  }
+
+  /**
+   * Inserts a new pull job into the 'pull_jobs' table.
+   *
+   * @param job - The PullJob object to be inserted.
+   * @returns A Promise that resolves to the number of inserted rows (1 on success, 0 otherwise).
+   */
+  async insertPullJob(job: PullJob): Promise<number> {
+    const result = await this.sql`
+        INSERT INTO pull_jobs (id, operator, tracking_ids, params, status, attempts,
+                               last_error, next_attempt_at, created_at, updated_at)
+        VALUES (${job.id},
+                ${job.operator},
+                ${this.sql.json(job.trackingIds)},
+                ${this.sql.json(job.params)},
+                ${job.status},
+                ${job.attempts},
+                ${job.lastError ?? null},
+                ${job.nextAttemptAt ?? null},
+                ${job.createdAt},
+                ${job.updatedAt ?? null}) ON CONFLICT(id) DO NOTHING`;
+
+    return result.count ?? 0;
+  }
+
+  /**
+   * Saves the outcome of a failed pull job attempt, or its requeue.
+   *
+   * @param job - The PullJob object containing the updated state.
+   * @returns A Promise that resolves to the number of updated rows.
+   */
+  async updatePullJob(job: PullJob): Promise<number> {
+    const result = await this.sql`
+        UPDATE pull_jobs
+        SET status          = ${job.status},
+            attempts        = ${job.attempts},
+            last_error      = ${job.lastError ?? null},
+            next_attempt_at = ${job.nextAttemptAt ?? null},
+            updated_at      = ${job.updatedAt ?? null}
+        WHERE id = ${job.id}`;
+
+    return result.count ?? 0;
+  }
+
+  /**
+   * Deletes a pull job from the 'pull_jobs' table.
+   *
+   * @param id - The job identifier.
+   * @returns A Promise that resolves to the number of deleted rows (0 or 1).
+   */
+  async deletePullJob(id: string): Promise<number> {
+    const result = await this.sql`DELETE FROM pull_jobs WHERE id = ${id}`;
+
+    return result.count ?? 0;
+  }
+
+  /**
+   * Claims the pending pull jobs whose next attempt is due, skipping the rows locked or leased by the other instances.
+   *
+   * @param owner - The identifier of the scheduler instance.
+   * @param now - The current time (ISO 8601).
+   * @param leaseUntil - The expiry of the lease (ISO 8601).
+   * @param limit - The maximum number of jobs claimed.
+   * @param operator - The operator whose jobs are claimed, all operators if undefined.
+   * @returns A Promise that resolves to an array of PullJob objects ordered by next attempt time.
+   */
+  async claimDuePullJobs(owner: string, now: string, leaseUntil: string, limit: number, operator?: string): Promise<PullJob[]> {
+    const rows = await this.sql`UPDATE pull_jobs
+                                SET claimed_by       = ${owner},
+                                    claim_expires_at = ${leaseUntil}
+                                WHERE id IN (SELECT id
+                                             FROM pull_jobs
+                                             WHERE status = 'pending'
+                                               AND next_attempt_at <= ${now}
+                                               AND (claim_expires_at IS NULL OR claim_expires_at <= ${now})
+                                               AND (${operator ?? null}::varchar IS NULL OR operator = ${operator ?? null})
+                                             ORDER BY next_attempt_at
+                                             LIMIT ${limit}
+                                             FOR UPDATE SKIP LOCKED)
+                                RETURNING id, operator, tracking_ids, params, status, attempts,
+                                          last_error, next_attempt_at, created_at, updated_at;`;
+
+    return rows.map((row) => this.toPullJob(row))
+      .sort((a, b) => (a.nextAttemptAt ?? "").localeCompare(b.nextAttemptAt ?? ""));
+  }
+
+  /**
+   * Retrieves a pull job by its identifier.
+   *
+   * @param id - The job identifier.
+   * @returns A Promise that resolves to the PullJob object if found, or undefined otherwise.
+   */
+  async queryPullJob(id: string): Promise<PullJob | undefined> {
+    const rows = await this.sql`
+        SELECT id, operator, tracking_ids, params, status, attempts,
+               last_error, next_attempt_at, created_at, updated_at
+        FROM pull_jobs
+        WHERE id = ${id};
+    `;
+
+    return rows.length > 0 ? this.toPullJob(rows[0]) : undefined;
+  }
+
+  /**
+   * Retrieves the pull jobs in a status, oldest first.
+   *
+   * @param status - The job status.
+   * @param limit - The maximum number of jobs to return.
+   * @returns A Promise that resolves to an array of PullJob objects ordered by creation time.
+   */
+  async queryPullJobs(status: string, limit: number): Promise<PullJob[]> {
+    const rows = await this.sql`
+        SELECT id, operator, tracking_ids, params, status, attempts,
+               last_error, next_attempt_at, created_at, updated_at
+        FROM pull_jobs
+        WHERE status = ${status}
+        ORDER BY created_at ASC
+        LIMIT ${limit};
+    `;
+
+    return rows.map((row) => this.toPullJob(row));
+  }
+
+  /**
+   * Retrieves the tracking IDs of all the pull jobs.
+   *
+   * @returns A Promise that resolves to the tracking IDs.
+   */
+  async queryPullJobTrackingIds(): Promise<string[]> {
+    const rows = await this.sql`SELECT jsonb_array_elements_text(tracking_ids) AS id FROM pull_jobs;`;
+
+    return rows.map((row) => row.id as string);
+  }
+
+
+  /**
+   * Inserts a new scheduler run into the 'scheduler_runs' table.
+   *
+   * @param run - The SchedulerRun object to be inserted.
+   * @returns A Promise that resolves to the number of inserted rows (1 on success, 0 otherwise).
+   */
+  async insertSchedulerRun(run: SchedulerRun): Promise<number> {
+    const result = await this.sql`
+        INSERT INTO scheduler_runs (id, instance_id, trigger, operator, tracking_id, status, started_at, ended_at,
+                                    tracking_ids_claimed, jobs_queued, errors, batches)
+        VALUES (${run.id},
+                ${run.instanceId},
+                ${run.trigger},
+                ${run.operator ?? null},
+                ${run.trackingId ?? null},
+                ${run.status},
+                ${run.startedAt},
+                ${run.endedAt ?? null},
+                ${run.trackingIdsClaimed},
+                ${run.jobsQueued},
+                ${this.sql.json(run.errors)},
+                ${this.sql.json(ensureJSONSafe(run.batches))}) ON CONFLICT(id) DO NOTHING`;
+
+    return result.count ?? 0;
+  }
+
+  /**
+   * Saves the progress or the outcome of a scheduler run.
+   *
+   * @param run - The SchedulerRun object containing the updated state.
+   * @returns A Promise that resolves to the number of updated rows.
+   */
+  async updateSchedulerRun(run: SchedulerRun): Promise<number> {
+    const result = await this.sql`
+        UPDATE scheduler_runs
+        SET status               = ${run.status},
+            ended_at             = ${run.endedAt ?? null},
+            tracking_ids_claimed = ${run.trackingIdsClaimed},
+            jobs_queued          = ${run.jobsQueued},
+            errors               = ${this.sql.json(run.errors)},
+            batches              = ${this.sql.json(ensureJSONSafe(run.batches))}
+        WHERE id = ${run.id}`;
+
+    return result.count ?? 0;
+  }
+
+  /**
+   * Retrieves the most recent scheduler runs.
+   *
+   * @param limit - The maximum number of runs to return.
+   * @returns A Promise that resolves to an array of SchedulerRun objects, most recent first.
+   */
+  async querySchedulerRuns(limit: number): Promise<SchedulerRun[]> {
+    const rows = await this.sql`
+        SELECT id, instance_id, trigger, operator, tracking_id, status, started_at, ended_at,
+               tracking_ids_claimed, jobs_queued, errors, batches
+        FROM scheduler_runs
+        ORDER BY started_at DESC
+        LIMIT ${limit};
+    `;
+
+    return rows.map((row) => this.toSchedulerRun(row));
+  }
+
+  /**
+   * Deletes the scheduler runs started before a time.
+   *
+   * @param before - The time (ISO 8601).
+   * @returns A Promise that resolves to the number of deleted rows.
+   */
+  async deleteSchedulerRuns(before: string): Promise<number> {
+    const result = await this.sql`DELETE FROM scheduler_runs WHERE started_at < ${before}`;
+
+    return result.count ?? 0;
+  }
+
+  /**
+   * Consumes a request from the quota of the data source of an operator in a time window, in a single
+   * statement shared by the API server and the scheduler processes.
+   *
+   * @param operator - The operator code.
+   * @param window - The quota window (second or day).
+   * @param windowStart - The start of the current window (ISO 8601).
+   * @param limit - The maximum number of requests in the window.
+   * @returns A Promise that resolves to 1 if the request was counted, 0 if the limit has been reached.
+   */
+  async consumeCarrierQuota(operator: string, window: string, windowStart: string, limit: number): Promise<number> {
+    const result = await this.sql`
+        INSERT INTO carrier_quotas (operator, quota_window, window_start, count)
+        VALUES (${operator}, ${window}, ${windowStart}, 1)
+        ON CONFLICT (operator, quota_window) DO UPDATE
+            SET window_start = EXCLUDED.window_start,
+                count        = CASE WHEN carrier_quotas.window_start = EXCLUDED.window_start
+                                    THEN carrier_quotas.count + 1 ELSE 1 END
+        WHERE carrier_quotas.window_start <> EXCLUDED.window_start
+           OR carrier_quotas.count < ${limit}`;
+
+    return result.count ?? 0;
+  }
+
+  /**
+   * Retrieves the requests counted in the quota of the data source of an operator in a time window.
+   *
+   * @param operator - The operator code.
+   * @param window - The quota window (second or day).
+   * @param windowStart - The start of the current window (ISO 8601).
+   * @returns A Promise that resolves to the number of requests counted, 0 if none in the current window.
+   */
+  async queryCarrierQuotaUsage(operator: string, window: string, windowStart: string): Promise<number> {
+    const rows = await this.sql`
+        SELECT count
+        FROM carrier_quotas
+        WHERE operator = ${operator}
+          AND quota_window = ${window}
+          AND window_start = ${windowStart}`;
+
+    return rows.length > 0 ? rows[0].count as number : 0;
+  }
+
+  /**
+   * Retrieves the cached access token of a carrier API.
+   *
+   * @param name - The name of the credential (ex: fdx).
+   * @returns A Promise that resolves to the CarrierCredential object if found, or undefined otherwise.
+   */
+  async queryCarrierCredential(name: string): Promise<CarrierCredential | undefined> {
+    const rows = await this.sql`
+        SELECT name, token, expires_at, updated_at
+        FROM carrier_credentials
+        WHERE name = ${name}`;
+    if (rows.length === 0) {
+      return undefined;
+    }
+
+    const credential = new CarrierCredential();
+    credential.name = rows[0].name as string;
+    credential.token = rows[0].token ?? undefined;
+    credential.expiresAt = rows[0].expires_at ?? undefined;
+    credential.updatedAt = rows[0].updated_at ?? undefined;
+    return credential;
+  }
+
+  /**
+   * Takes the refresh lock of a carrier credential if it is free, expired or already held by the process,
+   * in a single statement.
+   *
+   * @param name - The name of the credential.
+   * @param owner - The identifier of the process refreshing the credential.
+   * @param now - The current time (ISO 8601).
+   * @param lockUntil - The expiry of the lock (ISO 8601).
+   * @returns A Promise that resolves to 1 if the lock was taken, 0 if another process holds it.
+   */
+  async lockCarrierCredential(name: string, owner: string, now: string, lockUntil: string): Promise<number> {
+    const result = await this.sql`
+        INSERT INTO carrier_credentials (name, lock_owner, lock_expires_at)
+        VALUES (${name}, ${owner}, ${lockUntil})
+        ON CONFLICT (name) DO UPDATE
+            SET lock_owner      = EXCLUDED.lock_owner,
+                lock_expires_at = EXCLUDED.lock_expires_at
+        WHERE carrier_credentials.lock_owner IS NULL
+           OR carrier_credentials.lock_owner = EXCLUDED.lock_owner
+           OR carrier_credentials.lock_expires_at <= ${now}`;
+
+    return result.count ?? 0;
+  }
+
+  /**
+   * Stores the access token of a carrier API.
+   *
+   * @param credential - The credential with its token and expiry.
+   * @returns A Promise that resolves to the number of rows inserted or updated.
+   */
+  async saveCarrierCredential(credential: CarrierCredential): Promise<number> {
+    const result = await this.sql`
+        INSERT INTO carrier_credentials (name, token, expires_at, updated_at)
+        VALUES (${credential.name}, ${credential.token ?? null}, ${credential.expiresAt ?? null}, ${credential.updatedAt ?? null})
+        ON CONFLICT (name) DO UPDATE
+            SET token      = EXCLUDED.token,
+                expires_at = EXCLUDED.expires_at,
+                updated_at = EXCLUDED.updated_at`;
+
+    return result.count ?? 0;
+  }
+
+  /**
+   * Releases the refresh lock of a carrier credential held by a process.
+   *
+   * @param name - The name of the credential.
+   * @param owner - The identifier of the process holding the lock.
+   * @returns A Promise that resolves to the number of locks released.
+   */
+  async unlockCarrierCredential(name: string, owner: string): Promise<number> {
+    const result = await this.sql`
+        UPDATE carrier_credentials
+        SET lock_owner      = NULL,
+            lock_expires_at = NULL
+        WHERE name = ${name}
+          AND lock_owner = ${owner}`;
+
+    return result.count ?? 0;
+  }
+
+  /**
+   * Claims the pull of a tracking ID from its carrier if it is not claimed or its claim has expired.
+   *
+   * @param trackingId - The tracking ID.
+   * @param owner - The identifier of the pull.
+   * @param now - The current time (ISO 8601).
+   * @param claimUntil - The expiry of the claim (ISO 8601).
+   * @returns A Promise that resolves to 1 if the pull was claimed, 0 otherwise.
+   */
+  async claimPull(trackingId: string, owner: string, now: string, claimUntil: string): Promise<number> {
+    const result = await this.sql`
+        INSERT INTO pull_claims (tracking_id, owner, expires_at)
+        VALUES (${trackingId}, ${owner}, ${claimUntil})
+        ON CONFLICT (tracking_id) DO UPDATE
+            SET owner      = EXCLUDED.owner,
+                expires_at = EXCLUDED.expires_at
+        WHERE pull_claims.expires_at <= ${now}`;
+
+    return result.count ?? 0;
+  }
+
+  /**
+   * Releases the claim of the pull of a tracking ID.
+   *
+   * @param trackingId - The tracking ID.
+   * @param owner - The identifier of the pull holding the claim.
+   * @returns A Promise that resolves to the number of claims released.
+   */
+  async releasePull(trackingId: string, owner: string): Promise<number> {
+    const result = await this.sql`
+        DELETE
+        FROM pull_claims
+        WHERE tracking_id = ${trackingId}
+          AND owner = ${owner}`;
+
+    return result.count ?? 0;
+  }
+
+  /**
+   * Takes tokens from a rate limiting bucket, refilled for the time elapsed since its last update,
+   * if it holds enough of them. A new bucket starts full.
+   *
+   * @param bucket - The bucket identifier (API key and route).
+   * @param now - The current time in milliseconds.
+   * @param ratePerMs - The refill rate of the bucket, in tokens per millisecond.
+   * @param burst - The bucket size.
+   * @param cost - The number of tokens to take.
+   * @param force - Take the tokens even if the bucket does not hold enough of them, leaving it in debt.
+   * @returns A Promise that resolves to 1 if the tokens were taken, 0 otherwise.
+   */
+  async consumeRateLimitTokens(
+    bucket: string,
+    now: number,
+    ratePerMs: number,
+    burst: number,
+    cost: number,
+    force: boolean,
+  ): Promise<number> {
+    // the updates of the other processes may be more recent than now
+    const result = await this.sql`
+        INSERT INTO rate_limit_buckets (bucket_key, tokens, updated_at)
+        SELECT ${bucket}, ${burst - cost}, ${now}
+        WHERE ${force || burst >= cost}
+        ON CONFLICT (bucket_key) DO UPDATE
+            SET tokens     = LEAST(${burst}, rate_limit_buckets.tokens
+                               + GREATEST(0, ${now} - rate_limit_buckets.updated_at) * ${ratePerMs}) - ${cost},
+                updated_at = GREATEST(rate_limit_buckets.updated_at, ${now})
+        WHERE ${force}
+           OR LEAST(${burst}, rate_limit_buckets.tokens
+               + GREATEST(0, ${now} - rate_limit_buckets.updated_at) * ${ratePerMs}) >= ${cost}`;
+
+    return result.count ?? 0;
+  }
+
+  /**
+   * Retrieves the state of a rate limiting bucket as of its last update.
+   *
+   * @param bucket - The bucket identifier (API key and route).
+   * @returns A Promise that resolves to the tokens of the bucket and the time of its last update in milliseconds,
+   *   or undefined if the bucket has never been used.
+   */
+  async queryRateLimitBucket(bucket: string): Promise<{ tokens: number; updatedAt: number } | undefined> {
+    const rows = await this.sql`
+        SELECT tokens, updated_at
+        FROM rate_limit_buckets
+        WHERE bucket_key = ${bucket}`;
+
+    return rows.length > 0 ? { tokens: rows[0].tokens as number, updatedAt: rows[0].updated_at as number } : undefined;
+  }
+
+  /**
+   * Inserts a new carrier account into the 'carrier_accounts' table.
+   *
+   * @param account - The CarrierAccount object to be inserted, with its encrypted credentials.
+   * @returns A Promise that resolves to the number of inserted rows (1 on success, 0 otherwise).
+   */
+  async insertCarrierAccount(account: CarrierAccount): Promise<number> {
+    const result = await this.sql`
+        INSERT INTO carrier_accounts (id, operator, name, api_key, user_id, secret, created_at)
+        VALUES (${account.id},
+                ${account.operator},
+                ${account.name},
+                ${account.apiKey ?? null},
+                ${account.userId ?? null},
+                ${account.secret},
+                ${account.createdAt}) ON CONFLICT(id) DO NOTHING`;
+
+    return result.count ?? 0;
+  }
+
+  /**
+   * Retrieves all the carrier accounts.
+   *
+   * @returns A Promise that resolves to an array of CarrierAccount objects ordered by creation time.
+   */
+  async queryCarrierAccounts(): Promise<CarrierAccount[]> {
+    const rows = await this.sql`
+        SELECT id, operator, name, api_key, user_id, secret, created_at
+        FROM carrier_accounts
+        ORDER BY created_at`;
+
+    return rows.map((row) => this.toCarrierAccount(row));
+  }
+
+  /**
+   * Retrieves the carrier account used by an API key for an operator: the account of the API key,
+   * else the most recent account of its user.
+   *
+   * @param operator - The operator code.
+   * @param apiKey - The identifier of the API key.
+   * @param userId - The user the API key belongs to.
+   * @returns A Promise that resolves to the CarrierAccount object if found, or undefined otherwise.
+   */
+  async queryCarrierAccount(operator: string, apiKey: string, userId: string): Promise<CarrierAccount | undefined> {
+    const rows = await this.sql`
+        SELECT id, operator, name, api_key, user_id, secret, created_at
+        FROM carrier_accounts
+        WHERE operator = ${operator}
+          AND (api_key = ${apiKey} OR (api_key IS NULL AND user_id = ${userId}))
+        ORDER BY api_key NULLS LAST, created_at DESC
+        LIMIT 1`;
+
+    return rows.length > 0 ? this.toCarrierAccount(rows[0]) : undefined;
+  }
+
+  /**
+   * Deletes a carrier account.
+   *
+   * @param id - The identifier of the account.
+   * @returns A Promise that resolves to the number of deleted rows.
+   */
+  async deleteCarrierAccount(id: string): Promise<number> {
+    const result = await this.sql`DELETE FROM carrier_accounts WHERE id = ${id}`;
+
+    return result.count ?? 0;
+  }
+
+  /**
+   * Transfers the carrier accounts of an API key to another API key.
+   *
+   * @param oldApiKey - The identifier of the API key the accounts are bound to.
+   * @param newApiKey - The identifier of the API key the accounts will be bound to.
+   * @returns A Promise that resolves to the number of transferred accounts.
+   */
+  async transferCarrierAccounts(oldApiKey: string, newApiKey: string): Promise<number> {
+    const result = await this.sql`
+      UPDATE carrier_accounts
+      SET api_key = ${newApiKey}
+      WHERE api_key = ${oldApiKey}`;
+
+    return result.count ?? 0;
+  }
+
+  /**
+   * Inserts a new webhook subscription into the 'subscriptions' table.
+   *
+   * @param subscription - The Subscription object to be inserted.
+   * @returns A Promise that resolves to the number of inserted rows (1 on success, 0 otherwise).
+   */
+  async insertSubscription(subscription: Subscription): Promise<number> {
+    const result = await this.sql`
+        INSERT INTO subscriptions (id, api_key, tracking_id, callback_url, secret, created_at)
+        VALUES (${subscription.id},
+                ${subscription.apiKey},
+                ${subscription.trackingId ?? null},
+                ${subscription.callbackUrl},
+                ${subscription.secret},
+                ${subscription.createdAt}) ON CONFLICT(id) DO NOTHING`;
+
+    return result.count ?? 0;
+  }
+
+  /**
+   * Retrieves all webhook subscriptions owned by the given API key.
+   *
+   * @param apiKey - The identifier of the API key that owns the subscriptions.
+   * @returns A Promise that resolves to an array of Subscription objects ordered by creation time.
+   */
+  async querySubscriptions(apiKey: string): Promise<Subscription[]> {
+    const rows = await this.sql`
+        SELECT id, api_key, tracking_id, callback_url, secret, created_at
+        FROM subscriptions
+        WHERE api_key = ${apiKey}
+        ORDER BY created_at ASC;
+    `;
+
+    return rows.map((row) => this.toSubscription(row));
+  }
+
+  /**
+   * Retrieves a webhook subscription by its identifier.
+   *
+   * @param id - The subscription identifier.
+   * @returns A Promise that resolves to the Subscription object, or undefined if not found.
+   */
+  async querySubscription(id: string): Promise<Subscription | undefined> {
+    const rows = await this.sql`
+        SELECT id, api_key, tracking_id, callback_url, secret, created_at
+        FROM subscriptions
+        WHERE id = ${id};
+    `;
+
+    return rows.length == 1 ? this.toSubscription(rows[0]) : undefined;
+  }
+
+  /**
+   * Retrieves the webhook subscriptions of a tracking ID and the subscriptions without tracking ID
+   * of the API keys allowed to query its operator.
+   *
+   * @param trackingId - The tracking ID of the changed entity.
+   * @param operator - The operator of the tracking ID.
+   * @returns A Promise that resolves to an array of matching Subscription objects.
+   */
+  async querySubscriptionsByTrackingId(trackingId: string, operator: string): Promise<Subscription[]> {
+    const rows = await this.sql`
+        SELECT s.id, s.api_key, s.tracking_id, s.callback_url, s.secret, s.created_at
+        FROM subscriptions s
+        WHERE s.tracking_id = ${trackingId}
+           OR (s.tracking_id IS NULL
+               AND EXISTS (SELECT 1
+                           FROM tokens t
+                           WHERE t.id = s.api_key
+                             AND (t.scope_operators IS NULL
+                                  OR ${operator} = ANY (string_to_array(t.scope_operators, ',')))));
+    `;
+
+    return rows.map((row) => this.toSubscription(row));
+  }
+
+  /**
+   * Deletes a webhook subscription owned by the given API key and its delivery history.
+   *
+   * @param id - The subscription identifier.
+   * @param apiKey - The identifier of the API key that owns the subscription.
+   * @returns A Promise that resolves to the number of deleted subscriptions (0 or 1).
+   */
+  async deleteSubscription(id: string, apiKey: string): Promise<number> {
+    let deleted = 0;
+    await this.sql.begin(async (tx: postgres.TransactionSql) => {
+      const result = await (tx as unknown as postgres.Sql)`
+        DELETE
+        FROM subscriptions
+        WHERE id = ${id}
+          AND api_key = ${apiKey}
+      `;
+      deleted = result.count ?? 0;
+
+      if (deleted > 0) {
+        await (tx as unknown as postgres.Sql)`DELETE FROM webhook_deliveries WHERE subscription_id = ${id}`;
+      }
+    });
+    return deleted;
+  }
+
+
+  /**
+   * Transfers the webhook subscriptions of an API key to another API key, when the key is rotated.
+   *
+   * @param oldApiKey - The identifier of the API key that owns the subscriptions.
+   * @param newApiKey - The identifier of the API key that will own the subscriptions.
+   * @returns A Promise that resolves to the number of subscriptions transferred.
+   */
+  async transferSubscriptions(oldApiKey: string, newApiKey: string): Promise<number> {
+    const result = await this.sql`
+      UPDATE subscriptions
+      SET api_key = ${newApiKey}
+      WHERE api_key = ${oldApiKey}`;
+
+    return result.count ?? 0;
+  }
+  /**
+   * Inserts a new webhook delivery into the 'webhook_deliveries' table.
+   *
+   * @param delivery - The WebhookDelivery object to be inserted.
+   * @returns A Promise that resolves to the number of inserted rows (1 on success, 0 otherwise).
+   */
+  async insertDelivery(delivery: WebhookDelivery): Promise<number> {
+    const result = await this.sql`
+        INSERT INTO webhook_deliveries (id, subscription_id, tracking_id, payload, status, attempts,
+                                        response_code, last_error, next_attempt_at, created_at, delivered_at)
+        VALUES (${delivery.id},
+                ${delivery.subscriptionId},
+                ${delivery.trackingId},
+                ${this.sql.json(ensureJSONSafe(delivery.payload))},
+                ${delivery.status},
+                ${delivery.attempts},
+                ${delivery.responseCode ?? null},
+                ${delivery.lastError ?? null},
+                ${delivery.nextAttemptAt ?? null},
+                ${delivery.createdAt},
+                ${delivery.deliveredAt ?? null}) ON CONFLICT(id) DO NOTHING`;
+
+    return result.count ?? 0;
+  }
+
+  /**
+   * Saves the outcome of a webhook delivery attempt.
+   *
+   * @param delivery - The WebhookDelivery object containing the updated state.
+   * @returns A Promise that resolves to the number of updated rows.
+   */
+  async updateDelivery(delivery: WebhookDelivery): Promise<number> {
+    const result = await this.sql`
+        UPDATE webhook_deliveries
+        SET status          = ${delivery.status},
+            attempts        = ${delivery.attempts},
+            response_code   = ${delivery.responseCode ?? null},
+            last_error      = ${delivery.lastError ?? null},
+            next_attempt_at = ${delivery.nextAttemptAt ?? null},
+            delivered_at    = ${delivery.deliveredAt ?? null}
+        WHERE id = ${delivery.id}`;
+
+    return result.count ?? 0;
+  }
+
+  /**
+   * Retrieves the pending webhook deliveries whose next attempt is due.
+   *
+   * @param now - The current time as an ISO 8601 string.
+   * @param limit - The maximum number of deliveries to return.
+   * @returns A Promise that resolves to an array of WebhookDelivery objects ordered by next attempt time.
+   */
+  async queryDueDeliveries(now: string, limit: number): Promise<WebhookDelivery[]> {
+    const rows = await this.sql`
+        SELECT id, subscription_id, tracking_id, payload, status, attempts,
+               response_code, last_error, next_attempt_at, created_at, delivered_at
+        FROM webhook_deliveries
+        WHERE status = 'pending'
+          AND next_attempt_at <= ${now}
+        ORDER BY next_attempt_at ASC
+        LIMIT ${limit};
+    `;
+
+    return rows.map((row) => this.toWebhookDelivery(row));
+  }
+
+  /**
+   * Retrieves the most recent deliveries of a webhook subscription.
+   *
+   * @param subscriptionId - The subscription identifier.
+   * @param limit - The maximum number of deliveries to return.
+   * @returns A Promise that resolves to an array of WebhookDelivery objects, most recent first.
+   */
+  async queryDeliveries(subscriptionId: string, limit: number): Promise<WebhookDelivery[]> {
+    const rows = await this.sql`
+        SELECT id, subscription_id, tracking_id, payload, status, attempts,
+               response_code, last_error, next_attempt_at, created_at, delivered_at
+        FROM webhook_deliveries
+        WHERE subscription_id = ${subscriptionId}
+        ORDER BY created_at DESC
+        LIMIT ${limit};
+    `;
+
+    return rows.map((row) => this.toWebhookDelivery(row));
+  }
+
+  /**
+   * Announces an entity change to every process connected to the database with NOTIFY.
+   *
+   * @param trackingId - The tracking ID of the changed entity.
+   * @returns A Promise that resolves when the notification has been sent.
+   */
+  async publishEntityChange(trackingId: string): Promise<void> {
+    await this.sql`SELECT pg_notify(${ENTITY_CHANGES_CHANNEL}, ${trackingId})`;
+  }
+
+  /**
+   * Registers a listener for the entity changes announced with NOTIFY.
+   * All the listeners share one LISTEN connection, opened with the first listener.
+   *
+   * @param listener - The function called with the tracking ID of the changed entity.
+   * @returns A Promise that resolves to a function that removes the listener.
+   */
+  async listenEntityChanges(listener: (trackingId: string) => void): Promise<() => void> {
+    this.changeListeners.add(listener);
+    if (this.changeSubscription === undefined) {
+      this.changeSubscription = this.sql.listen(ENTITY_CHANGES_CHANNEL, (trackingId: string) => {
+        for (const changeListener of this.changeListeners) {
+          changeListener(trackingId);
+        }
+      });
+    }
+
+    try {
+      await this.changeSubscription;
+    } catch (err) {
+      // let the next listener retry
+      this.changeSubscription = undefined;
+      this.changeListeners.delete(listener);
+      throw err;
+    }
+    return () => {
+      this.changeListeners.delete(listener);
+    };
+  }
 
   /**
    * Inserts a single entity record into the database within a transaction.
@@ -324,7 +1440,7 @@ export class PostgresWrapper implements DatabaseWrapper {
    */
   private async insertEntityRecord(tx: postgres.TransactionSql, entity: Entity): Promise<number> {
     const result = await (tx as unknown as postgres.Sql)`
-        INSERT INTO entities (uuid, id, type, use_pull, creation_time, completed, additional, params)
+        INSERT INTO entities (uuid, id, type, use_pull, creation_time, completed, additional, params, last_pulled_at, next_poll_at, expired)
         VALUES (${entity.uuid},
                 ${entity.id},
                 ${entity.type},
@@ -332,7 +1448,10 @@ export class PostgresWrapper implements DatabaseWrapper {
                 ${entity.getCreationTime()},
                 ${entity.isCompleted()},
                 ${tx.json(ensureJSONSafe(entity.additional ?? {}))},
-                ${tx.json(ensureJSONSafe(entity.params ?? {}))}) `;
+                ${tx.json(ensureJSONSafe(entity.params ?? {}))},
+                ${entity.lastPulledAt ?? null},
+                ${entity.nextPollAt ?? null},
+                ${entity.expired}) `;
 
     return result.count?? 0;
   }
@@ -440,7 +1559,10 @@ export class PostgresWrapper implements DatabaseWrapper {
                completed,
                additional,
                params,
-               creation_time
+               creation_time,
+               last_pulled_at,
+               next_poll_at,
+               expired
         FROM entities
         WHERE id = ${trackingID.toString()};
     `;
@@ -458,11 +1580,142 @@ export class PostgresWrapper implements DatabaseWrapper {
       entity.additional = row.additional as Record<string, unknown>;
       entity.params = row.params as Record<string, string>;
       entity.creationTime = row.creation_time as string;
+      entity.lastPulledAt = row.last_pulled_at ?? undefined;
+      entity.nextPollAt = row.next_poll_at ?? undefined;
+      entity.expired = row.expired ?? false;
     }
 
     return entity;
   }
 
+  /**
+   * Creates an ApiToken object from a row of the 'tokens' table.
+   *
+   * @param row - The database row.
+   * @returns The ApiToken object.
+   */
+  private toApiToken(row: postgres.Row): ApiToken {
+    const apiToken = new ApiToken();
+    apiToken.id = row.id as string;
+    apiToken.prefix = row.prefix ?? "";
+    apiToken.userId = row.user_id as string;
+    apiToken.rateLimit = row.rate_limit ?? undefined;
+    apiToken.rateBurst = row.rate_burst ?? undefined;
+    apiToken.monthlyQuota = row.monthly_quota ?? undefined;
+    apiToken.operators = row.scope_operators?.split(",") ?? undefined;
+    apiToken.routes = row.scope_routes?.split(",") ?? undefined;
+    apiToken.readOnly = row.read_only ?? false;
+    apiToken.allowFullData = row.allow_fulldata ?? true;
+    apiToken.allowRefresh = row.allow_refresh ?? true;
+    apiToken.createdAt = row.created_at ?? undefined;
+    apiToken.expiresAt = row.expires_at ?? undefined;
+    apiToken.revokedAt = row.revoked_at ?? undefined;
+    apiToken.lastUsedAt = row.last_used_at ?? undefined;
+    apiToken.rotatedTo = row.rotated_to ?? undefined;
+    return apiToken;
+  }
+
+  /**
+   * Creates a Subscription object from a row of the 'subscriptions' table.
+   *
+   * @param row - The database row.
+   * @returns The Subscription object.
+   */
+  private toSubscription(row: postgres.Row): Subscription {
+    const subscription = new Subscription();
+    subscription.id = row.id as string;
+    subscription.apiKey = row.api_key as string;
+    subscription.trackingId = row.tracking_id ?? undefined;
+    subscription.callbackUrl = row.callback_url as string;
+    subscription.secret = row.secret as string;
+    subscription.createdAt = row.created_at as string;
+    return subscription;
+  }
+
+  /**
+   * Creates a SchedulerRun object from a row of the 'scheduler_runs' table.
+   *
+   * @param row - The database row.
+   * @returns The SchedulerRun object.
+   */
+  private toSchedulerRun(row: postgres.Row): SchedulerRun {
+    const run = new SchedulerRun();
+    run.id = row.id as string;
+    run.instanceId = row.instance_id as string;
+    run.trigger = row.trigger as string;
+    run.operator = row.operator ?? undefined;
+    run.trackingId = row.tracking_id ?? undefined;
+    run.status = row.status as string;
+    run.startedAt = row.started_at as string;
+    run.endedAt = row.ended_at ?? undefined;
+    run.trackingIdsClaimed = row.tracking_ids_claimed as number;
+    run.jobsQueued = row.jobs_queued as number;
+    run.errors = row.errors ?? [];
+    run.batches = row.batches ?? [];
+    return run;
+  }
+
+  /**
+   * Creates a CarrierAccount object from a row of the 'carrier_accounts' table.
+   *
+   * @param row - The database row.
+   * @returns The CarrierAccount object.
+   */
+  private toCarrierAccount(row: postgres.Row): CarrierAccount {
+    const account = new CarrierAccount();
+    account.id = row.id as string;
+    account.operator = row.operator as string;
+    account.name = row.name as string;
+    account.apiKey = row.api_key ?? undefined;
+    account.userId = row.user_id ?? undefined;
+    account.secret = row.secret as string;
+    account.createdAt = row.created_at as string;
+    return account;
+  }
+
+  /**
+   * Creates a PullJob object from a row of the 'pull_jobs' table.
+   *
+   * @param row - The database row.
+   * @returns The PullJob object.
+   */
+  private toPullJob(row: postgres.Row): PullJob {
+    const job = new PullJob();
+    job.id = row.id as string;
+    job.operator = row.operator as string;
+    job.trackingIds = row.tracking_ids as string[];
+    job.params = row.params as Record<string, string>;
+    job.status = row.status as string;
+    job.attempts = row.attempts as number;
+    job.lastError = row.last_error ?? undefined;
+    job.nextAttemptAt = row.next_attempt_at ?? undefined;
+    job.createdAt = row.created_at as string;
+    job.updatedAt = row.updated_at ?? undefined;
+    return job;
+  }
+
+  /**
+   * Creates a WebhookDelivery object from a row of the 'webhook_deliveries' table.
+   *
+   * @param row - The database row.
+   * @returns The WebhookDelivery object.
+   */
+  private toWebhookDelivery(row: postgres.Row): WebhookDelivery {
+    const delivery = new WebhookDelivery();
+    delivery.id = row.id as string;
+    delivery.subscriptionId = row.subscription_id as string;
+    delivery.trackingId = row.tracking_id as string;
+    delivery.payload = row.payload as Record<string, unknown>;
+    delivery.status = row.status as string;
+    delivery.attempts = row.attempts as number;
+    delivery.responseCode = row.response_code ?? undefined;
+    delivery.lastError = row.last_error ?? undefined;
+    delivery.nextAttemptAt = row.next_attempt_at ?? undefined;
+    delivery.createdAt = row.created_at as string;
+    delivery.deliveredAt = row.delivered_at ?? undefined;
+    return delivery;
+  }
+
   /**
    * Queries and retrieves all events associated with a specific tracking ID from the database.
    *
@@ -10,18 +10,171 @@
 
 import { Database } from "sqlite";
 
+import { v7 as uuidv7 } from "@std/uuid";
+import { config } from "../../config.ts";
+import { generateSalt, hashApiKey, timingSafeEqual } from "../tools/util.ts";
 import {whereIsAPI, logger} from "../tools/logger.ts";
 import { DatabaseWrapper } from "./db_wrapper.ts";
-import {AppError, DataUpdateMethod, Entity, Event, TrackingID} from "../main/model.ts";
+import {ApiToken, AppError, CarrierAccount, CarrierCredential, DataUpdateMethod, Entity, Event, PullJob, SchedulerRun, Subscription, TrackingID, UsageRecord, WebhookDelivery} from "../main/model.ts";
+
+/**
+ * The columns added to the tables of config/whereis.sqlite since its first version, with their definition.
+ * A database file created from an earlier version gets them at startup, see SQLiteWrapper.migrateSchema().
+ */
+const ADDED_COLUMNS: Record<string, Record<string, string>> = {
+  tokens: {
+    rate_limit: "INTEGER",
+    rate_burst: "INTEGER",
+    scope_operators: "TEXT",
+    scope_routes: "TEXT",
+    read_only: "INTEGER DEFAULT 0",
+    allow_fulldata: "INTEGER DEFAULT 1",
+    allow_refresh: "INTEGER DEFAULT 1",
+    created_at: "TEXT",
+    expires_at: "TEXT",
+    revoked_at: "TEXT",
+    last_used_at: "TEXT",
+    prefix: "TEXT",
+    key_hash: "TEXT",
+    salt: "TEXT",
+    monthly_quota: "INTEGER",
+    rotated_to: "TEXT",
+  },
+  entities: {
+    last_pulled_at: "varchar(32)",
+    next_poll_at: "varchar(32)",
+    expired: "integer default 0 not null",
+  },
+};
+
+/**
+ * The tables and indexes added to config/whereis.sqlite since its first version.
+ */
+const ADDED_TABLES: string[] = [
+  `CREATE TABLE IF NOT EXISTS subscriptions (
+        id           TEXT NOT NULL PRIMARY KEY,
+        api_key      TEXT NOT NULL,
+        tracking_id  TEXT,
+        callback_url TEXT NOT NULL,
+        secret       TEXT NOT NULL,
+        created_at   TEXT
+    )`,
+  `CREATE INDEX IF NOT EXISTS idx_subscriptions_api_key ON subscriptions (api_key)`,
+  `CREATE INDEX IF NOT EXISTS idx_subscriptions_tracking_id ON subscriptions (tracking_id)`,
+  `CREATE TABLE IF NOT EXISTS webhook_deliveries (
+        id              TEXT NOT NULL PRIMARY KEY,
+        subscription_id TEXT NOT NULL,
+        tracking_id     TEXT,
+        payload         TEXT,
+        status          TEXT,
+        attempts        INTEGER DEFAULT 0,
+        response_code   INTEGER,
+        last_error      TEXT,
+        next_attempt_at TEXT,
+        created_at      TEXT,
+        delivered_at    TEXT
+    )`,
+  `CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_subscription_id ON webhook_deliveries (subscription_id)`,
+  `CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_status ON webhook_deliveries (status, next_attempt_at)`,
+  `CREATE TABLE IF NOT EXISTS entity_changes (
+        seq         INTEGER PRIMARY KEY AUTOINCREMENT,
+        tracking_id TEXT NOT NULL,
+        created_at  TEXT
+    )`,
+  `CREATE INDEX IF NOT EXISTS idx_entity_changes_created_at ON entity_changes (created_at)`,
+  `CREATE INDEX IF NOT EXISTS tokens_idx_prefix ON tokens (prefix)`,
+  `CREATE TABLE IF NOT EXISTS usage_counters (token_id TEXT NOT NULL, day TEXT NOT NULL, metric TEXT NOT NULL, dimension TEXT NOT NULL, count INTEGER NOT NULL DEFAULT 0, PRIMARY KEY (token_id, day, metric, dimension))`,
+  `CREATE INDEX IF NOT EXISTS idx_entities_next_poll_at on entities (next_poll_at)`,
+  `CREATE TABLE IF NOT EXISTS scheduler_leases (name TEXT NOT NULL PRIMARY KEY, owner TEXT NOT NULL, expires_at TEXT NOT NULL)`,
+  `CREATE TABLE IF NOT EXISTS pull_jobs (
+        id              TEXT NOT NULL PRIMARY KEY,
+        operator        TEXT NOT NULL,
+        tracking_ids    TEXT,
+        params          TEXT,
+        status          TEXT,
+        attempts        INTEGER DEFAULT 0,
+        last_error      TEXT,
+        next_attempt_at TEXT,
+        created_at      TEXT,
+        updated_at      TEXT
+    )`,
+  `CREATE INDEX IF NOT EXISTS idx_pull_jobs_status ON pull_jobs (status, next_attempt_at)`,
+  `CREATE TABLE IF NOT EXISTS scheduler_runs (
+        id                   TEXT NOT NULL PRIMARY KEY,
+        instance_id          TEXT,
+        trigger              TEXT,
+        operator             TEXT,
+        tracking_id          TEXT,
+        status               TEXT,
+        started_at           TEXT,
+        ended_at             TEXT,
+        tracking_ids_claimed INTEGER DEFAULT 0,
+        jobs_queued          INTEGER DEFAULT 0,
+        errors               TEXT,
+        batches              TEXT
+    )`,
+  `CREATE INDEX IF NOT EXISTS idx_scheduler_runs_started_at ON scheduler_runs (started_at)`,
+  `CREATE TABLE IF NOT EXISTS carrier_quotas (operator TEXT NOT NULL, quota_window TEXT NOT NULL, window_start TEXT NOT NULL, count INTEGER DEFAULT 0, PRIMARY KEY (operator, quota_window))`,
+  `CREATE TABLE IF NOT EXISTS carrier_credentials (name TEXT NOT NULL PRIMARY KEY, token TEXT, expires_at TEXT, updated_at TEXT, lock_owner TEXT, lock_expires_at TEXT)`,
+  `CREATE TABLE IF NOT EXISTS carrier_accounts (id TEXT NOT NULL PRIMARY KEY, operator TEXT NOT NULL, name TEXT, api_key TEXT, user_id TEXT, secret TEXT NOT NULL, created_at TEXT)`,
+  `CREATE INDEX IF NOT EXISTS carrier_accounts_idx_api_key ON carrier_accounts (operator, api_key)`,
+  `CREATE INDEX IF NOT EXISTS carrier_accounts_idx_user_id ON carrier_accounts (operator, user_id)`,
+  `CREATE TABLE IF NOT EXISTS pull_claims (tracking_id TEXT NOT NULL PRIMARY KEY, owner TEXT NOT NULL, expires_at TEXT NOT NULL)`,
+  `CREATE TABLE IF NOT EXISTS rate_limit_buckets (bucket_key TEXT NOT NULL PRIMARY KEY, tokens REAL NOT NULL, updated_at INTEGER NOT NULL)`,
+];
 
 export class SQLiteWrapper implements DatabaseWrapper {
 
   private readonly db: Database;
+  private readonly changeListeners = new Set<(trackingId: string) => void>();
+  private changePoller?: ReturnType<typeof setInterval>;
+  private lastChangeSeq = 0;
 
   constructor(db: Database) {
     this.db = db;
   }
 
+  /**
+   * Migrates the schema of a database file created from an earlier version of config/whereis.sqlite:
+   * adds the missing columns and creates the missing tables and indexes. Running it again has no effect.
+   *
+   * @returns A Promise that resolves to the number of columns and tables added.
+   */
+  migrateSchema(): Promise<number> {
+    return new Promise((resolve, _reject) => {
+      const tablesStmt = this.db.prepare(`SELECT count(*) AS count FROM sqlite_master WHERE type = 'table'`);
+      try {
+        const tablesBefore = (tablesStmt.get() as { count: number }).count;
+        let added = 0;
+        for (const [table, columns] of Object.entries(ADDED_COLUMNS)) {
+          const infoStmt = this.db.prepare(`PRAGMA table_info(${table})`);
+          let existing: Set<string>;
+          try {
+            existing = new Set(infoStmt.all().map((row) => row.name as string));
+          } finally {
+            infoStmt.finalize();
+          }
+          for (const [column, definition] of Object.entries(columns)) {
+            if (existing.has(column)) continue;
+            try {
+              this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+              added++;
+            } catch (err) {
+              // another process may have added the column in the meantime
+              if (!(err instanceof Error && /duplicate column/i.test(err.message))) throw err;
+            }
+          }
+        }
+        for (const statement of ADDED_TABLES) {
+          this.db.exec(statement);
+        }
+        resolve(added + (tablesStmt.get() as { count: number }).count - tablesBefore);
+      } finally {
+        tablesStmt.finalize();
+      }
+    });
+  }
+
   /**
    * Pings the database to check the connection status.
    *
@@ -42,16 +195,91 @@ export class SQLiteWrapper implements DatabaseWrapper {
 
   /**
    * Checks if a given token is valid by querying the database.
+   * A token is valid if it exists, has not expired and has not been revoked.
    *
    * @param token - The token string to be validated.
    * @returns A Promise that resolves to true if the token is valid, false otherwise.
    */
   async isTokenValid(token: string): Promise<boolean> {
-    return await new Promise((resolve, _reject) => {
-      const stmt = this.db.prepare(`SELECT id FROM tokens WHERE id = ?`);
+    const apiToken = await this.queryToken(token);
+    return apiToken !== undefined && apiToken.isActive();
+  }
+
+  /**
+   * Retrieves an API token and its settings from the tokens table, whether it is active or not.
+   * The candidate rows are looked up by the prefix of the token, then the salted hash of the token
+   * is compared in constant time with the hash of each row.
+   *
+   * @param token - The secret token string to look up.
+   * @returns A Promise that resolves to the ApiToken object, or undefined if the token is not found.
+   */
+  async queryToken(token: string): Promise<ApiToken | undefined> {
+    const rows = await new Promise<Record<string, unknown>[]>((resolve, _reject) => {
+      const stmt = this.db.prepare(
+          `SELECT id, prefix, user_id, rate_limit, rate_burst, monthly_quota, scope_operators, scope_routes, read_only,
+                  allow_fulldata, allow_refresh, created_at, expires_at, revoked_at, last_used_at, rotated_to, key_hash, salt
+           FROM tokens
+           WHERE prefix = ?`,
+      );
+      try {
+        resolve(stmt.all(ApiToken.getPrefix(token)));
+      } finally {
+        stmt.finalize();
+      }
+    });
+
+    let match: Record<string, unknown> | undefined;
+    for (const row of rows) {
+      const hash = await hashApiKey(token, row.salt as string);
+      // every row is compared, so that the duration does not reveal which one matches
+      if (timingSafeEqual(hash, row.key_hash as string) && match === undefined) {
+        match = row;
+      }
+    }
+    return match ? this.toApiToken(match) : undefined;
+  }
+
+  /**
+   * Retrieves an API token and its settings by its identifier, whether it is active or not.
+   *
+   * @param id - The identifier of the token.
+   * @returns A Promise that resolves to the ApiToken object, or undefined if the token is not found.
+   */
+  queryTokenById(id: string): Promise<ApiToken | undefined> {
+    return new Promise((resolve, _reject) => {
+      const stmt = this.db.prepare(
+          `SELECT id, prefix, user_id, rate_limit, rate_burst, monthly_quota, scope_operators, scope_routes, read_only,
+                  allow_fulldata, allow_refresh, created_at, expires_at, revoked_at, last_used_at, rotated_to
+           FROM tokens
+           WHERE id = ?`,
+      );
+      try {
+        const row = stmt.get(id);
+        resolve(row ? this.toApiToken(row) : undefined);
+      } finally {
+        stmt.finalize();
+      }
+    });
+  }
+
+  /**
+   * Retrieves the API tokens, optionally those of a single user.
+   *
+   * @param userId - The user identifier, or undefined to retrieve the tokens of all users.
+   * @returns A Promise that resolves to the ApiToken objects ordered by creation time.
+   */
+  queryTokens(userId?: string): Promise<ApiToken[]> {
+    return new Promise((resolve, _reject) => {
+      const stmt = this.db.prepare(
+          `SELECT id, prefix, user_id, rate_limit, rate_burst, monthly_quota, scope_operators, scope_routes, read_only,
+                  allow_fulldata, allow_refresh, created_at, expires_at, revoked_at, last_used_at, rotated_to
+           FROM tokens
+           WHERE ? IS NULL OR user_id = ?
+           ORDER BY created_at ASC`,
+      );
       try {
-        const row = stmt.get(token);
-        resolve(row !== undefined) ;
+        const rows = stmt.all(userId ?? null, userId ?? null);
+        resolve(rows.map((row) => this.toApiToken(row)));
       } finally {
         stmt.finalize();
       }
@@ -59,24 +287,48 @@ export class SQLiteWrapper implements DatabaseWrapper {
   }
 
   /**
-   * This function attempts to insert a new API key and userId into the tokens table.
+   * This function attempts to insert a new API key with its rate limit, scopes and expiry into the tokens table.
+   * Only the prefix and a salted hash of the secret key are stored.
    * If a token with the same id already exists, the insertion is ignored.
    *
-   * @param apikey - The unique API key.
-   * @param userId - The user identifier associated with the API key.
+   * @param apiToken - The API token to insert, with its identifier and its secret key.
    *
    * @returns A Promise that resolves to the number of rows affected by the insert operation.
    *          Returns 1 if a new token was inserted, or 0 if the token already exists and was ignored.
    */
-  insertToken(apikey: string, userId: string): Promise<number> {
-    return new Promise((resolve, _reject) => {
+  async insertToken(apiToken: ApiToken): Promise<number> {
+    if (!apiToken.key) {
+      throw new AppError("500-01", "ERR-SQLITE-B - The secret of the API key is required");
+    }
+    apiToken.prefix = ApiToken.getPrefix(apiToken.key);
+    const salt = generateSalt();
+    const keyHash = await hashApiKey(apiToken.key, salt);
+
+    return await new Promise((resolve, _reject) => {
       const stmt = this.db.prepare(
           `INSERT OR IGNORE
-           INTO tokens (id, user_id)
-           VALUES (?, ?)`,
+           INTO tokens (id, prefix, key_hash, salt, user_id, rate_limit, rate_burst, monthly_quota, scope_operators, scope_routes,
+                        read_only, allow_fulldata, allow_refresh, created_at, expires_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       );
       try {
-        stmt.run(apikey, userId);
+        stmt.run(
+          apiToken.id,
+          apiToken.prefix,
+          keyHash,
+          salt,
+          apiToken.userId,
+          apiToken.rateLimit ?? null,
+          apiToken.rateBurst ?? null,
+          apiToken.monthlyQuota ?? null,
+          apiToken.operators?.join(",") ?? null,
+          apiToken.routes?.join(",") ?? null,
+          apiToken.readOnly ? 1 : 0,
+          apiToken.allowFullData ? 1 : 0,
+          apiToken.allowRefresh ? 1 : 0,
+          apiToken.createdAt ?? new Date().toISOString(),
+          apiToken.expiresAt ?? null,
+        );
         resolve(this.db.changes);
       } finally {
         stmt.finalize();
@@ -84,6 +336,193 @@ export class SQLiteWrapper implements DatabaseWrapper {
     });
   }
 
+  /**
+   * Hashes the tokens still stored in plaintext, i.e. whose id is the secret key itself.
+   * Each of them gets a new identifier, which the webhook subscriptions of the key now refer to.
+   *
+   * @returns A Promise that resolves to the number of tokens hashed.
+   */
+  async hashPlaintextTokens(): Promise<number> {
+    const keys = await new Promise<string[]>((resolve, _reject) => {
+      const stmt = this.db.prepare(`SELECT id FROM tokens WHERE key_hash IS NULL`);
+      try {
+        resolve(stmt.all().map((row) => row.id as string));
+      } finally {
+        stmt.finalize();
+      }
+    });
+    if (keys.length === 0) return 0;
+
+    const hashedTokens: { key: string; id: string; prefix: string; salt: string; keyHash: string }[] = [];
+    for (const key of keys) {
+      const salt = generateSalt();
+      hashedTokens.push({ key, id: uuidv7.generate(), prefix: ApiToken.getPrefix(key), salt, keyHash: await hashApiKey(key, salt) });
+    }
+
+    const transaction = this.db.transaction(() => {
+      const updateTokenStmt = this.db.prepare(
+          `UPDATE tokens SET id = ?, prefix = ?, key_hash = ?, salt = ? WHERE id = ? AND key_hash IS NULL`,
+      );
+      const updateSubscriptionsStmt = this.db.prepare(`UPDATE subscriptions SET api_key = ? WHERE api_key = ?`);
+      try {
+        let hashed = 0;
+        for (const token of hashedTokens) {
+          // another process may have hashed the token in the meantime
+          if (updateTokenStmt.run(token.id, token.prefix, token.keyHash, token.salt, token.key) > 0) {
+            updateSubscriptionsStmt.run(token.id, token.key);
+            hashed++;
+          }
+        }
+        return hashed;
+      } finally {
+        updateTokenStmt.finalize();
+        updateSubscriptionsStmt.finalize();
+      }
+    });
+    return transaction();
+  }
+
+  /**
+   * Revokes an API token at a given time. A token already revoked earlier keeps its revocation time.
+   *
+   * @param id - The identifier of the token to revoke.
+   * @param revokedAt - The revocation time (ISO 8601), which may be in the future to leave a grace period.
+   * @returns A Promise that resolves to the number of tokens revoked (0 if not found or already revoked).
+   */
+  revokeToken(id: string, revokedAt: string): Promise<number> {
+    return new Promise((resolve, _reject) => {
+      const stmt = this.db.prepare(
+          `UPDATE tokens
+           SET revoked_at = ?
+           WHERE id = ?
+             AND (revoked_at IS NULL OR revoked_at > ?)`,
+      );
+      try {
+        stmt.run(revokedAt, id, revokedAt);
+        resolve(this.db.changes);
+      } finally {
+        stmt.finalize();
+      }
+    });
+  }
+
+  /**
+   * Records the last time an API token was used.
+   *
+   * @param id - The identifier of the token.
+   * @param usedAt - The time of use (ISO 8601).
+   */
+  touchToken(id: string, usedAt: string): Promise<void> {
+    return new Promise((resolve, _reject) => {
+      const stmt = this.db.prepare(`UPDATE tokens SET last_used_at = ? WHERE id = ?`);
+      try {
+        stmt.run(usedAt, id);
+        resolve();
+      } finally {
+        stmt.finalize();
+      }
+    });
+  }
+
+  /**
+   * Adds usage counts to the daily counters of the API keys.
+   *
+   * @param records - The usage counts to add, one per API key, day, metric and dimension.
+   */
+  incrementUsage(records: UsageRecord[]): Promise<void> {
+    return new Promise((resolve, _reject) => {
+      const transaction = this.db.transaction(() => {
+        const stmt = this.db.prepare(
+            `INSERT INTO usage_counters (token_id, day, metric, dimension, count)
+             VALUES (?, ?, ?, ?, ?)
+             ON CONFLICT(token_id, day, metric, dimension) DO UPDATE SET count = count + excluded.count`,
+        );
+        try {
+          for (const record of records) {
+            stmt.run(record.tokenId, record.day, record.metric, record.dimension, record.count);
+          }
+        } finally {
+          stmt.finalize();
+        }
+      });
+      transaction();
+      resolve();
+    });
+  }
+
+  /**
+   * Retrieves the daily usage counters of an API key over a range of days.
+   *
+   * @param tokenId - The identifier of the API key.
+   * @param fromDay - The first day of the range (YYYY-MM-DD).
+   * @param toDay - The last day of the range (YYYY-MM-DD), included.
+   * @param metric - Only retrieve the counters of this metric, all metrics if undefined.
+   * @returns A Promise that resolves to the usage records ordered by day.
+   */
+  queryUsage(tokenId: string, fromDay: string, toDay: string, metric?: string): Promise<UsageRecord[]> {
+    return new Promise((resolve, _reject) => {
+      const stmt = this.db.prepare(
+          `SELECT token_id, day, metric, dimension, count
+           FROM usage_counters
+           WHERE token_id = ?
+             AND day >= ?
+             AND day <= ?
+             AND (? IS NULL OR metric = ?)
+           ORDER BY day ASC, metric ASC, dimension ASC`,
+      );
+      try {
+        const rows = stmt.all(tokenId, fromDay, toDay, metric ?? null, metric ?? null);
+        resolve(rows.map((row) =>
+          new UsageRecord(
+            row.token_id as string,
+            row.day as string,
+            row.metric as string,
+            row.dimension as string,
+            row.count as number,
+          )
+        ));
+      } finally {
+        stmt.finalize();
+      }
+    });
+  }
+
+  /**
+   * Links an API key, and the keys it had replaced, to the API key that replaces it when it is rotated.
+   *
+   * @param oldTokenId - The identifier of the rotated API key.
+   * @param newTokenId - The identifier of the API key that replaces it.
+   * @returns A Promise that resolves to the number of API keys linked.
+   */
+  linkRotatedToken(oldTokenId: string, newTokenId: string): Promise<number> {
+    return new Promise((resolve, _reject) => {
+      const stmt = this.db.prepare(`UPDATE tokens SET rotated_to = ? WHERE id = ? OR rotated_to = ?`);
+      try {
+        resolve(stmt.run(newTokenId, oldTokenId, oldTokenId));
+      } finally {
+        stmt.finalize();
+      }
+    });
+  }
+
+  /**
+   * Transfers the usage counters of an API key to another API key, when the key is rotated.
+   *
+   * @param oldTokenId - The identifier of the API key that owns the counters.
+   * @param newTokenId - The identifier of the API key that will own the counters.
+   * @returns A Promise that resolves to the number of counters transferred.
+   */
+  transferUsage(oldTokenId: string, newTokenId: string): Promise<number> {
+    return new Promise((resolve, _reject) => {
+      const stmt = this.db.prepare(`UPDATE usage_counters SET token_id = ? WHERE token_id = ?`);
+      try {
+        resolve(stmt.run(newTokenId, oldTokenId));
+      } finally {
+        stmt.finalize();
+      }
+    });
+  }
+
   /**
    * Inserts a new entity into the database.
    *
@@ -194,6 +633,16 @@ export class SQLiteWrapper implements DatabaseWrapper {
 
     return await new Promise((resolve, _reject) => {
       const transaction = this.db.transaction(() => {
+        // an entity fed by push stays so
+        const stmt = this.db.prepare(`SELECT use_pull FROM entities WHERE id = ?`);
+        try {
+          const row = stmt.get(trackingId.toString()) as { use_pull: number } | undefined;
+          if (row?.use_pull === 0) {
+            entity.usePull = false;
+          }
+        } finally {
+          stmt.finalize();
+        }
         this.deleteEntityAndEvents(this.db, trackingId);
 
         // insert the entity record ONLY
@@ -234,6 +683,59 @@ export class SQLiteWrapper implements DatabaseWrapper {
     return entity;
   }
 
+  /**
+   * Records the last time an entity was pulled from its carrier and the next time it is polled.
+   *
+   * @param trackingId - The TrackingID of the entity.
+   * @param lastPulledAt - The time of the pull (ISO 8601).
+   * @param nextPollAt - The time of the next poll (ISO 8601), undefined if it is no longer polled.
+   * @returns A Promise that resolves to the number of entities updated.
+   */
+  updatePollSchedule(trackingId: TrackingID, lastPulledAt: string, nextPollAt: string | undefined): Promise<number> {
+    return new Promise((resolve, _reject) => {
+      const stmt = this.db.prepare(`UPDATE entities SET last_pulled_at = ?, next_poll_at = ? WHERE id = ?`);
+      try {
+        resolve(stmt.run(lastPulledAt, nextPollAt ?? null, trackingId.toString()));
+      } finally {
+        stmt.finalize();
+      }
+    });
+  }
+
+  /**
+   * Marks an entity as expired, so that it is no longer polled.
+   *
+   * @param trackingId - The TrackingID of the entity.
+   * @returns A Promise that resolves to the number of entities updated.
+   */
+  expireEntity(trackingId: TrackingID): Promise<number> {
+    return new Promise((resolve, _reject) => {
+      const stmt = this.db.prepare(`UPDATE entities SET expired = 1, next_poll_at = NULL WHERE id = ?`);
+      try {
+        resolve(stmt.run(trackingId.toString()));
+      } finally {
+        stmt.finalize();
+      }
+    });
+  }
+
+  /**
+   * Marks an entity pulled so far as fed by push, so that it is no longer polled.
+   *
+   * @param trackingId - The TrackingID of the entity.
+   * @returns A Promise that resolves to the number of entities updated.
+   */
+  stopPolling(trackingId: TrackingID): Promise<number> {
+    return new Promise((resolve, _reject) => {
+      const stmt = this.db.prepare(`UPDATE entities SET use_pull = 0, next_poll_at = NULL WHERE id = ? AND use_pull = 1`);
+      try {
+        resolve(stmt.run(trackingId.toString()));
+      } finally {
+        stmt.finalize();
+      }
+    });
+  }
+
   /**
    * Queries the database for event IDs associated with a given tracking ID.
    *
@@ -261,16 +763,49 @@ export class SQLiteWrapper implements DatabaseWrapper {
 
 
   /**
-   * Retrieves tracking numbers and their associated parameters for entities that are still in processing.
+   * Claims the tracking numbers and their associated parameters of entities that are still in processing,
+   * not expired and due for a poll, on behalf of a scheduler instance.
    *
-   * @returns A Promise that resolves to a Record object where keys are tracking numbers and values are their associated parameters.
+   * SQLite cannot claim rows concurrently, so the whole work is granted to a single instance at a time
+   * through the "auto-pull" lease of the scheduler_leases table. The due tracking numbers are returned
+   * to the instance holding the lease, the other instances get undefined until the lease is released or expires.
+   *
+   * @param owner - The identifier of the scheduler instance.
+   * @param now - The current time (ISO 8601).
+   * @param leaseUntil - The expiry of the lease (ISO 8601).
+   * @param limit - The maximum number of tracking numbers returned.
+   * @param operator - The operator whose tracking numbers are returned, all operators if undefined.
+   * @returns A Promise that resolves to a Record object where keys are tracking numbers and values are their associated parameters,
+   *   or undefined if another instance holds the lease.
    */
-  async getInProcessingTrackingNums(): Promise<Record<string, Record<string, string>>> {
+  async claimDueTrackingNums(
+    owner: string,
+    now: string,
+    leaseUntil: string,
+    limit: number,
+    operator?: string,
+  ): Promise<Record<string, Record<string, string>> | undefined> {
     return await new Promise((resolve, _reject) => {
       const trackingNums: Record<string, Record<string, string>> = {};
-      const stmt = this.db.prepare(`SELECT id, params FROM entities WHERE completed = 0 AND use_pull= 1`);
+      // take the lease if it is free, expired or already held by the instance, in a single statement
+      const leaseStmt = this.db.prepare(`INSERT INTO scheduler_leases (name, owner, expires_at) VALUES ('auto-pull', ?, ?)
+                                           ON CONFLICT(name) DO UPDATE SET owner = excluded.owner, expires_at = excluded.expires_at
+                                           WHERE scheduler_leases.owner = excluded.owner OR scheduler_leases.expires_at <= ?`);
       try {
-        const rows = stmt.all();
+        if (leaseStmt.run(owner, leaseUntil, now) === 0) {
+          resolve(undefined);
+          return;
+        }
+      } finally {
+        leaseStmt.finalize();
+      }
+
+      const stmt = this.db.prepare(`SELECT id, params FROM entities WHERE completed = 0 AND expired = 0 AND use_pull= 1
+                                      AND (next_poll_at IS NULL OR next_poll_at <= ?)
+                                      AND (? IS NULL OR id LIKE ?)
+                                      ORDER BY next_poll_at LIMIT ?`);
+      try {
+        const rows = stmt.all(now, operator ?? null, `${operator}-%`, limit);
         for (const row of rows) {
           trackingNums[row.id as string] = JSON.parse(row.params as string) as Record<string, string>;
         }
@@ -283,68 +818,1081 @@ export class SQLiteWrapper implements DatabaseWrapper {
   }
 
   /**
-   * Inserts a single entity record into the database.
+   * Extends the lease held by a scheduler instance.
    *
-   * @param db
-   * @param entity - The Entity object to be inserted.
-   * @returns The number of database rows changed by the insert operation.
+   * @param owner - The identifier of the scheduler instance.
+   * @param leaseUntil - The new expiry of the lease (ISO 8601).
+   * @returns A Promise that resolves to the number of leases renewed (0 or 1).
    */
-  private insertEntityRecord(db: Database, entity: Entity): number {
-    const insertEntityStmt = db.prepare(
-        `INSERT INTO entities (uuid, id, type, use_pull, creation_time, completed, additional, params)
-             VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
-    );
-    try {
-      insertEntityStmt.run(
-          entity.uuid,
-          entity.id,
-          entity.type,
-          entity.usePull,
-          entity.getCreationTime(),
-          entity.isCompleted() ? 1 : 0,
-          JSON.stringify(entity.additional ?? {}),
-          JSON.stringify(entity.params ?? {}),
-      );
-    } finally {
-      insertEntityStmt.finalize();
-    }
-    return db.changes;
+  renewClaims(owner: string, leaseUntil: string): Promise<number> {
+    return new Promise((resolve, _reject) => {
+      const stmt = this.db.prepare(`UPDATE scheduler_leases SET expires_at = ? WHERE name = 'auto-pull' AND owner = ?`);
+      try {
+        resolve(stmt.run(leaseUntil, owner));
+      } finally {
+        stmt.finalize();
+      }
+    });
   }
 
   /**
-   * Inserts multiple events into the database within a transaction.
-   *
-   * This method performs a batch insert of event records into the events table.
-   * All insertions are wrapped in a database transaction to ensure atomicity.
-   * If any event fails validation (missing eventId), an error is thrown and the
-   * transaction is rolled back. Individual insert failures are logged but do not
-   * stop the transaction.
+   * Releases the lease held by a scheduler instance.
    *
-   * @param db - The SQLite Database instance to execute the insert operations on.
-   * @param events - An array of Event objects to be inserted into the database.
-   * @param updateMethod - A string indicating the method of update (e.g., "manual-pull" or "auto-pull"),
-   *                       used for logging purposes to track the source of the data update.
-   * @returns The total number of rows successfully inserted into the database. Returns 0 if the
-   *          transaction fails or if no events were successfully inserted.
+   * @param owner - The identifier of the scheduler instance.
+   * @returns A Promise that resolves to the number of leases released (0 or 1).
    */
-  private insertEvents(db: Database, events: Event[], updateMethod:string): number {
-    const transaction = db.transaction(() => {
-      let changes = 0;
-      const insertEventStmt = db.prepare(`
-        INSERT INTO events (event_id, status, what_, when_, where_,
-                            whom_, notes, operator_code, tracking_num, data_provider,
-                            exception_code, exception_desc, notification_code, notification_desc, additional,
-                            source_data)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-      `);
-
+  releaseClaims(owner: string): Promise<number> {
+    return new Promise((resolve, _reject) => {
+      const stmt = this.db.prepare(`DELETE FROM scheduler_leases WHERE name = 'auto-pull' AND owner = ?`);
       try {
-        for (const event of events) {
-          // Validate input
-          if (!event || !event.eventId) {
-            throw new AppError("500-01", `ERR-SQLITE-A - Invalid event object: eventId is required`);
-          }
-
+        resolve(stmt.run(owner));
+      } finally {
+        stmt.finalize();
+      }
+    });
+  }
+
+  /**
+   * Releases a pull job claimed by a scheduler instance. The pull jobs are claimed with the lease
+   * of the scheduler instance (see claimDuePullJobs), so there is no claim of the job to release.
+   *
+   * @param _id - The job identifier.
+   * @param _owner - The identifier of the scheduler instance.
+   * @returns A Promise that resolves to 0.
+   */
+  releasePullJob(_id: string, _owner: string): Promise<number> {
+    return Promise.resolve(0);
+  }
+
+  /**
+   * Inserts a new pull job into the pull_jobs table.
+   *
+   * @param job - The PullJob object to be inserted.
+   * @returns A Promise that resolves to the number of inserted rows (1 on success, 0 otherwise).
+   */
+  insertPullJob(job: PullJob): Promise<number> {
+    return new Promise((resolve, _reject) => {
+      const stmt = this.db.prepare(
+          `INSERT OR IGNORE
+           INTO pull_jobs (id, operator, tracking_ids, params, status, attempts,
+                           last_error, next_attempt_at, created_at, updated_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      );
+      try {
+        stmt.run(
+            job.id,
+            job.operator,
+            JSON.stringify(job.trackingIds),
+            JSON.stringify(job.params),
+            job.status,
+            job.attempts,
+            job.lastError ?? null,
+            job.nextAttemptAt ?? null,
+            job.createdAt,
+            job.updatedAt ?? null,
+        );
+        resolve(this.db.changes);
+      } finally {
+        stmt.finalize();
+      }
+    });
+  }
+
+  /**
+   * Saves the outcome of a failed pull job attempt, or its requeue.
+   *
+   * @param job - The PullJob object containing the updated state.
+   * @returns A Promise that resolves to the number of updated rows.
+   */
+  updatePullJob(job: PullJob): Promise<number> {
+    return new Promise((resolve, _reject) => {
+      const stmt = this.db.prepare(`
+        UPDATE pull_jobs
+        SET status = ?, attempts = ?, last_error = ?, next_attempt_at = ?, updated_at = ?
+        WHERE id = ?
+      `);
+      try {
+        stmt.run(
+            job.status,
+            job.attempts,
+            job.lastError ?? null,
+            job.nextAttemptAt ?? null,
+            job.updatedAt ?? null,
+            job.id,
+        );
+        resolve(this.db.changes);
+      } finally {
+        stmt.finalize();
+      }
+    });
+  }
+
+  /**
+   * Deletes a pull job from the pull_jobs table.
+   *
+   * @param id - The job identifier.
+   * @returns A Promise that resolves to the number of deleted rows (0 or 1).
+   */
+  deletePullJob(id: string): Promise<number> {
+    return new Promise((resolve, _reject) => {
+      const stmt = this.db.prepare(`DELETE FROM pull_jobs WHERE id = ?`);
+      try {
+        resolve(stmt.run(id));
+      } finally {
+        stmt.finalize();
+      }
+    });
+  }
+
+  /**
+   * Retrieves the pending pull jobs whose next attempt is due, if the scheduler instance holds the lease
+   * taken by claimDueTrackingNums: a single instance processes the jobs at a time.
+   *
+   * @param owner - The identifier of the scheduler instance.
+   * @param now - The current time (ISO 8601).
+   * @param _leaseUntil - Unused: the lease is renewed with the claims of the tracking numbers.
+   * @param limit - The maximum number of jobs claimed.
+   * @param operator - The operator whose jobs are claimed, all operators if undefined.
+   * @returns A Promise that resolves to an array of PullJob objects ordered by next attempt time.
+   */
+  claimDuePullJobs(owner: string, now: string, _leaseUntil: string, limit: number, operator?: string): Promise<PullJob[]> {
+    return new Promise((resolve, _reject) => {
+      const leaseStmt = this.db.prepare(`SELECT owner FROM scheduler_leases WHERE name = 'auto-pull' AND owner = ? AND expires_at > ?`);
+      try {
+        if (leaseStmt.all(owner, now).length === 0) {
+          resolve([]);
+          return;
+        }
+      } finally {
+        leaseStmt.finalize();
+      }
+
+      const stmt = this.db.prepare(`
+        SELECT id, operator, tracking_ids, params, status, attempts,
+               last_error, next_attempt_at, created_at, updated_at
+        FROM pull_jobs
+        WHERE status = 'pending' AND next_attempt_at <= ? AND (? IS NULL OR operator = ?)
+        ORDER BY next_attempt_at ASC
+        LIMIT ?
+      `);
+      try {
+        const rows = stmt.all(now, operator ?? null, operator ?? null, limit);
+        resolve(rows.map((row) => this.toPullJob(row)));
+      } finally {
+        stmt.finalize();
+      }
+    });
+  }
+
+  /**
+   * Retrieves a pull job by its identifier.
+   *
+   * @param id - The job identifier.
+   * @returns A Promise that resolves to the PullJob object if found, or undefined otherwise.
+   */
+  queryPullJob(id: string): Promise<PullJob | undefined> {
+    return new Promise((resolve, _reject) => {
+      const stmt = this.db.prepare(`
+        SELECT id, operator, tracking_ids, params, status, attempts,
+               last_error, next_attempt_at, created_at, updated_at
+        FROM pull_jobs
+        WHERE id = ?
+      `);
+      try {
+        const rows = stmt.all(id);
+        resolve(rows.length > 0 ? this.toPullJob(rows[0]) : undefined);
+      } finally {
+        stmt.finalize();
+      }
+    });
+  }
+
+  /**
+   * Retrieves the pull jobs in a status, oldest first.
+   *
+   * @param status - The job status.
+   * @param limit - The maximum number of jobs to return.
+   * @returns A Promise that resolves to an array of PullJob objects ordered by creation time.
+   */
+  queryPullJobs(status: string, limit: number): Promise<PullJob[]> {
+    return new Promise((resolve, _reject) => {
+      const stmt = this.db.prepare(`
+        SELECT id, operator, tracking_ids, params, status, attempts,
+               last_error, next_attempt_at, created_at, updated_at
+        FROM pull_jobs
+        WHERE status = ?
+        ORDER BY created_at ASC
+        LIMIT ?
+      `);
+      try {
+        const rows = stmt.all(status, limit);
+        resolve(rows.map((row) => this.toPullJob(row)));
+      } finally {
+        stmt.finalize();
+      }
+    });
+  }
+
+  /**
+   * Retrieves the tracking IDs of all the pull jobs.
+   *
+   * @returns A Promise that resolves to the tracking IDs.
+   */
+  queryPullJobTrackingIds(): Promise<string[]> {
+    return new Promise((resolve, _reject) => {
+      const stmt = this.db.prepare(`SELECT json_each.value AS id FROM pull_jobs, json_each(pull_jobs.tracking_ids)`);
+      try {
+        const rows = stmt.all();
+        resolve(rows.map((row) => row.id as string));
+      } finally {
+        stmt.finalize();
+      }
+    });
+  }
+
+  /**
+   * Inserts a new scheduler run into the scheduler_runs table.
+   *
+   * @param run - The SchedulerRun object to be inserted.
+   * @returns A Promise that resolves to the number of inserted rows (1 on success, 0 otherwise).
+   */
+  insertSchedulerRun(run: SchedulerRun): Promise<number> {
+    return new Promise((resolve, _reject) => {
+      const stmt = this.db.prepare(
+          `INSERT OR IGNORE
+           INTO scheduler_runs (id, instance_id, trigger, operator, tracking_id, status, started_at, ended_at,
+                                tracking_ids_claimed, jobs_queued, errors, batches)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      );
+      try {
+        stmt.run(
+            run.id,
+            run.instanceId,
+            run.trigger,
+            run.operator ?? null,
+            run.trackingId ?? null,
+            run.status,
+            run.startedAt,
+            run.endedAt ?? null,
+            run.trackingIdsClaimed,
+            run.jobsQueued,
+            JSON.stringify(run.errors),
+            JSON.stringify(run.batches),
+        );
+        resolve(this.db.changes);
+      } finally {
+        stmt.finalize();
+      }
+    });
+  }
+
+  /**
+   * Saves the progress or the outcome of a scheduler run.
+   *
+   * @param run - The SchedulerRun object containing the updated state.
+   * @returns A Promise that resolves to the number of updated rows.
+   */
+  updateSchedulerRun(run: SchedulerRun): Promise<number> {
+    return new Promise((resolve, _reject) => {
+      const stmt = this.db.prepare(`
+        UPDATE scheduler_runs
+        SET status = ?, ended_at = ?, tracking_ids_claimed = ?, jobs_queued = ?, errors = ?, batches = ?
+        WHERE id = ?
+      `);
+      try {
+        stmt.run(
+            run.status,
+            run.endedAt ?? null,
+            run.trackingIdsClaimed,
+            run.jobsQueued,
+            JSON.stringify(run.errors),
+            JSON.stringify(run.batches),
+            run.id,
+        );
+        resolve(this.db.changes);
+      } finally {
+        stmt.finalize();
+      }
+    });
+  }
+
+  /**
+   * Retrieves the most recent scheduler runs.
+   *
+   * @param limit - The maximum number of runs to return.
+   * @returns A Promise that resolves to an array of SchedulerRun objects, most recent first.
+   */
+  querySchedulerRuns(limit: number): Promise<SchedulerRun[]> {
+    return new Promise((resolve, _reject) => {
+      const stmt = this.db.prepare(`
+        SELECT id, instance_id, trigger, operator, tracking_id, status, started_at, ended_at,
+               tracking_ids_claimed, jobs_queued, errors, batches
+        FROM scheduler_runs
+        ORDER BY started_at DESC
+        LIMIT ?
+      `);
+      try {
+        const rows = stmt.all(limit);
+        resolve(rows.map((row) => this.toSchedulerRun(row)));
+      } finally {
+        stmt.finalize();
+      }
+    });
+  }
+
+  /**
+   * Deletes the scheduler runs started before a time.
+   *
+   * @param before - The time (ISO 8601).
+   * @returns A Promise that resolves to the number of deleted rows.
+   */
+  deleteSchedulerRuns(before: string): Promise<number> {
+    return new Promise((resolve, _reject) => {
+      const stmt = this.db.prepare(`DELETE FROM scheduler_runs WHERE started_at < ?`);
+      try {
+        resolve(stmt.run(before));
+      } finally {
+        stmt.finalize();
+      }
+    });
+  }
+
+  /**
+   * Consumes a request from the quota of the data source of an operator in a time window, in a single
+   * statement shared by the API server and the scheduler processes.
+   *
+   * @param operator - The operator code.
+   * @param window - The quota window (second or day).
+   * @param windowStart - The start of the current window (ISO 8601).
+   * @param limit - The maximum number of requests in the window.
+   * @returns A Promise that resolves to 1 if the request was counted, 0 if the limit has been reached.
+   */
+  consumeCarrierQuota(operator: string, window: string, windowStart: string, limit: number): Promise<number> {
+    return new Promise((resolve, _reject) => {
+      const stmt = this.db.prepare(`INSERT INTO carrier_quotas (operator, quota_window, window_start, count) VALUES (?, ?, ?, 1)
+                                      ON CONFLICT(operator, quota_window) DO UPDATE
+                                      SET window_start = excluded.window_start,
+                                          count = CASE WHEN carrier_quotas.window_start = excluded.window_start
+                                                       THEN carrier_quotas.count + 1 ELSE 1 END
+                                      WHERE carrier_quotas.window_start <> excluded.window_start OR carrier_quotas.count < ?`);
+      try {
+        resolve(stmt.run(operator, window, windowStart, limit));
+      } finally {
+        stmt.finalize();
+      }
+    });
+  }
+
+  /**
+   * Retrieves the requests counted in the quota of the data source of an operator in a time window.
+   *
+   * @param operator - The operator code.
+   * @param window - The quota window (second or day).
+   * @param windowStart - The start of the current window (ISO 8601).
+   * @returns A Promise that resolves to the number of requests counted, 0 if none in the current window.
+   */
+  queryCarrierQuotaUsage(operator: string, window: string, windowStart: string): Promise<number> {
+    return new Promise((resolve, _reject) => {
+      const stmt = this.db.prepare(`SELECT count FROM carrier_quotas WHERE operator = ? AND quota_window = ? AND window_start = ?`);
+      try {
+        const row = stmt.get(operator, window, windowStart);
+        resolve(row ? row.count as number : 0);
+      } finally {
+        stmt.finalize();
+      }
+    });
+  }
+
+  /**
+   * Retrieves the cached access token of a carrier API.
+   *
+   * @param name - The name of the credential (ex: fdx).
+   * @returns A Promise that resolves to the CarrierCredential object if found, or undefined otherwise.
+   */
+  queryCarrierCredential(name: string): Promise<CarrierCredential | undefined> {
+    return new Promise((resolve, _reject) => {
+      const stmt = this.db.prepare(`SELECT name, token, expires_at, updated_at FROM carrier_credentials WHERE name = ?`);
+      try {
+        const row = stmt.get(name);
+        if (!row) {
+          resolve(undefined);
+          return;
+        }
+
+        const credential = new CarrierCredential();
+        credential.name = row.name as string;
+        credential.token = row.token as string ?? undefined;
+        credential.expiresAt = row.expires_at as string ?? undefined;
+        credential.updatedAt = row.updated_at as string ?? undefined;
+        resolve(credential);
+      } finally {
+        stmt.finalize();
+      }
+    });
+  }
+
+  /**
+   * Takes the refresh lock of a carrier credential if it is free, expired or already held by the process,
+   * in a single statement.
+   *
+   * @param name - The name of the credential.
+   * @param owner - The identifier of the process refreshing the credential.
+   * @param now - The current time (ISO 8601).
+   * @param lockUntil - The expiry of the lock (ISO 8601).
+   * @returns A Promise that resolves to 1 if the lock was taken, 0 if another process holds it.
+   */
+  lockCarrierCredential(name: string, owner: string, now: string, lockUntil: string): Promise<number> {
+    return new Promise((resolve, _reject) => {
+      const stmt = this.db.prepare(`INSERT INTO carrier_credentials (name, lock_owner, lock_expires_at) VALUES (?, ?, ?)
+                                      ON CONFLICT(name) DO UPDATE
+                                      SET lock_owner = excluded.lock_owner, lock_expires_at = excluded.lock_expires_at
+                                      WHERE carrier_credentials.lock_owner IS NULL
+                                         OR carrier_credentials.lock_owner = excluded.lock_owner
+                                         OR carrier_credentials.lock_expires_at <= ?`);
+      try {
+        resolve(stmt.run(name, owner, lockUntil, now));
+      } finally {
+        stmt.finalize();
+      }
+    });
+  }
+
+  /**
+   * Stores the access token of a carrier API.
+   *
+   * @param credential - The credential with its token and expiry.
+   * @returns A Promise that resolves to the number of rows inserted or updated.
+   */
+  saveCarrierCredential(credential: CarrierCredential): Promise<number> {
+    return new Promise((resolve, _reject) => {
+      const stmt = this.db.prepare(`INSERT INTO carrier_credentials (name, token, expires_at, updated_at) VALUES (?, ?, ?, ?)
+                                      ON CONFLICT(name) DO UPDATE
+                                      SET token = excluded.token, expires_at = excluded.expires_at, updated_at = excluded.updated_at`);
+      try {
+        resolve(stmt.run(credential.name, credential.token ?? null, credential.expiresAt ?? null, credential.updatedAt ?? null));
+      } finally {
+        stmt.finalize();
+      }
+    });
+  }
+
+  /**
+   * Releases the refresh lock of a carrier credential held by a process.
+   *
+   * @param name - The name of the credential.
+   * @param owner - The identifier of the process holding the lock.
+   * @returns A Promise that resolves to the number of locks released.
+   */
+  unlockCarrierCredential(name: string, owner: string): Promise<number> {
+    return new Promise((resolve, _reject) => {
+      const stmt = this.db.prepare(`UPDATE carrier_credentials SET lock_owner = NULL, lock_expires_at = NULL
+                                      WHERE name = ? AND lock_owner = ?`);
+      try {
+        resolve(stmt.run(name, owner));
+      } finally {
+        stmt.finalize();
+      }
+    });
+  }
+
+  /**
+   * Claims the pull of a tracking ID from its carrier if it is not claimed or its claim has expired.
+   *
+   * @param trackingId - The tracking ID.
+   * @param owner - The identifier of the pull.
+   * @param now - The current time (ISO 8601).
+   * @param claimUntil - The expiry of the claim (ISO 8601).
+   * @returns A Promise that resolves to 1 if the pull was claimed, 0 otherwise.
+   */
+  claimPull(trackingId: string, owner: string, now: string, claimUntil: string): Promise<number> {
+    return new Promise((resolve, _reject) => {
+      const stmt = this.db.prepare(`INSERT INTO pull_claims (tracking_id, owner, expires_at) VALUES (?, ?, ?)
+                                      ON CONFLICT(tracking_id) DO UPDATE
+                                      SET owner = excluded.owner, expires_at = excluded.expires_at
+                                      WHERE pull_claims.expires_at <= ?`);
+      try {
+        resolve(stmt.run(trackingId, owner, claimUntil, now));
+      } finally {
+        stmt.finalize();
+      }
+    });
+  }
+
+  /**
+   * Releases the claim of the pull of a tracking ID.
+   *
+   * @param trackingId - The tracking ID.
+   * @param owner - The identifier of the pull holding the claim.
+   * @returns A Promise that resolves to the number of claims released.
+   */
+  releasePull(trackingId: string, owner: string): Promise<number> {
+    return new Promise((resolve, _reject) => {
+      const stmt = this.db.prepare(`DELETE FROM pull_claims WHERE tracking_id = ? AND owner = ?`);
+      try {
+        resolve(stmt.run(trackingId, owner));
+      } finally {
+        stmt.finalize();
+      }
+    });
+  }
+
+  /**
+   * Takes tokens from a rate limiting bucket, refilled for the time elapsed since its last update,
+   * if it holds enough of them. A new bucket starts full.
+   *
+   * @param bucket - The bucket identifier (API key and route).
+   * @param now - The current time in milliseconds.
+   * @param ratePerMs - The refill rate of the bucket, in tokens per millisecond.
+   * @param burst - The bucket size.
+   * @param cost - The number of tokens to take.
+   * @param force - Take the tokens even if the bucket does not hold enough of them, leaving it in debt.
+   * @returns A Promise that resolves to 1 if the tokens were taken, 0 otherwise.
+   */
+  consumeRateLimitTokens(bucket: string, now: number, ratePerMs: number, burst: number, cost: number, force: boolean): Promise<number> {
+    return new Promise((resolve, _reject) => {
+      // the updates of the other processes may be more recent than now
+      const stmt = this.db.prepare(`INSERT INTO rate_limit_buckets (bucket_key, tokens, updated_at)
+                                      SELECT ?, ?, ? WHERE ?
+                                      ON CONFLICT(bucket_key) DO UPDATE
+                                      SET tokens = MIN(?, rate_limit_buckets.tokens + MAX(0, ? - rate_limit_buckets.updated_at) * ?) - ?,
+                                          updated_at = MAX(rate_limit_buckets.updated_at, ?)
+                                      WHERE ? OR MIN(?, rate_limit_buckets.tokens + MAX(0, ? - rate_limit_buckets.updated_at) * ?) >= ?`);
+      try {
+        resolve(stmt.run(
+          bucket, burst - cost, now, force || burst >= cost ? 1 : 0,
+          burst, now, ratePerMs, cost,
+          now,
+          force ? 1 : 0, burst, now, ratePerMs, cost,
+        ));
+      } finally {
+        stmt.finalize();
+      }
+    });
+  }
+
+  /**
+   * Retrieves the state of a rate limiting bucket as of its last update.
+   *
+   * @param bucket - The bucket identifier (API key and route).
+   * @returns A Promise that resolves to the tokens of the bucket and the time of its last update in milliseconds,
+   *   or undefined if the bucket has never been used.
+   */
+  queryRateLimitBucket(bucket: string): Promise<{ tokens: number; updatedAt: number } | undefined> {
+    return new Promise((resolve, _reject) => {
+      const stmt = this.db.prepare(`SELECT tokens, updated_at FROM rate_limit_buckets WHERE bucket_key = ?`);
+      try {
+        const row = stmt.get(bucket);
+        resolve(row ? { tokens: row.tokens as number, updatedAt: row.updated_at as number } : undefined);
+      } finally {
+        stmt.finalize();
+      }
+    });
+  }
+
+  /**
+   * Inserts a new carrier account into the carrier_accounts table.
+   *
+   * @param account - The CarrierAccount object to be inserted, with its encrypted credentials.
+   * @returns A Promise that resolves to the number of inserted rows (1 on success, 0 otherwise).
+   */
+  insertCarrierAccount(account: CarrierAccount): Promise<number> {
+    return new Promise((resolve, _reject) => {
+      const stmt = this.db.prepare(
+          `INSERT OR IGNORE
+           INTO carrier_accounts (id, operator, name, api_key, user_id, secret, created_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      );
+      try {
+        resolve(stmt.run(
+            account.id,
+            account.operator,
+            account.name,
+            account.apiKey ?? null,
+            account.userId ?? null,
+            account.secret,
+            account.createdAt,
+        ));
+      } finally {
+        stmt.finalize();
+      }
+    });
+  }
+
+  /**
+   * Retrieves all the carrier accounts.
+   *
+   * @returns A Promise that resolves to an array of CarrierAccount objects ordered by creation time.
+   */
+  queryCarrierAccounts(): Promise<CarrierAccount[]> {
+    return new Promise((resolve, _reject) => {
+      const stmt = this.db.prepare(`SELECT id, operator, name, api_key, user_id, secret, created_at
+                                      FROM carrier_accounts ORDER BY created_at`);
+      try {
+        const rows = stmt.all();
+        resolve(rows.map((row) => this.toCarrierAccount(row)));
+      } finally {
+        stmt.finalize();
+      }
+    });
+  }
+
+  /**
+   * Retrieves the carrier account used by an API key for an operator: the account of the API key,
+   * else the most recent account of its user.
+   *
+   * @param operator - The operator code.
+   * @param apiKey - The identifier of the API key.
+   * @param userId - The user the API key belongs to.
+   * @returns A Promise that resolves to the CarrierAccount object if found, or undefined otherwise.
+   */
+  queryCarrierAccount(operator: string, apiKey: string, userId: string): Promise<CarrierAccount | undefined> {
+    return new Promise((resolve, _reject) => {
+      const stmt = this.db.prepare(`SELECT id, operator, name, api_key, user_id, secret, created_at
+                                      FROM carrier_accounts
+                                      WHERE operator = ? AND (api_key = ? OR (api_key IS NULL AND user_id = ?))
+                                      ORDER BY api_key IS NULL, created_at DESC
+                                      LIMIT 1`);
+      try {
+        const rows = stmt.all(operator, apiKey, userId);
+        resolve(rows.length > 0 ? this.toCarrierAccount(rows[0]) : undefined);
+      } finally {
+        stmt.finalize();
+      }
+    });
+  }
+
+  /**
+   * Deletes a carrier account.
+   *
+   * @param id - The identifier of the account.
+   * @returns A Promise that resolves to the number of deleted rows.
+   */
+  deleteCarrierAccount(id: string): Promise<number> {
+    return new Promise((resolve, _reject) => {
+      const stmt = this.db.prepare(`DELETE FROM carrier_accounts WHERE id = ?`);
+      try {
+        resolve(stmt.run(id));
+      } finally {
+        stmt.finalize();
+      }
+    });
+  }
+
+  /**
+   * Transfers the carrier accounts of an API key to another API key.
+   *
+   * @param oldApiKey - The identifier of the API key the accounts are bound to.
+   * @param newApiKey - The identifier of the API key the accounts will be bound to.
+   * @returns A Promise that resolves to the number of transferred accounts.
+   */
+  transferCarrierAccounts(oldApiKey: string, newApiKey: string): Promise<number> {
+    return new Promise((resolve, _reject) => {
+      const stmt = this.db.prepare(`UPDATE carrier_accounts SET api_key = ? WHERE api_key = ?`);
+      try {
+        resolve(stmt.run(newApiKey, oldApiKey));
+      } finally {
+        stmt.finalize();
+      }
+    });
+  }
+
+  /**
+   * Inserts a new webhook subscription into the subscriptions table.
+   *
+   * @param subscription - The Subscription object to be inserted.
+   * @returns A Promise that resolves to the number of inserted rows (1 on success, 0 otherwise).
+   */
+  insertSubscription(subscription: Subscription): Promise<number> {
+    return new Promise((resolve, _reject) => {
+      const stmt = this.db.prepare(
+          `INSERT OR IGNORE
+           INTO subscriptions (id, api_key, tracking_id, callback_url, secret, created_at)
+           VALUES (?, ?, ?, ?, ?, ?)`,
+      );
+      try {
+        stmt.run(
+            subscription.id,
+            subscription.apiKey,
+            subscription.trackingId ?? null,
+            subscription.callbackUrl,
+            subscription.secret,
+            subscription.createdAt,
+        );
+        resolve(this.db.changes);
+      } finally {
+        stmt.finalize();
+      }
+    });
+  }
+
+  /**
+   * Retrieves all webhook subscriptions owned by the given API key.
+   *
+   * @param apiKey - The identifier of the API key that owns the subscriptions.
+   * @returns A Promise that resolves to an array of Subscription objects ordered by creation time.
+   */
+  querySubscriptions(apiKey: string): Promise<Subscription[]> {
+    return new Promise((resolve, _reject) => {
+      const stmt = this.db.prepare(`
+        SELECT id, api_key, tracking_id, callback_url, secret, created_at
+        FROM subscriptions
+        WHERE api_key = ?
+        ORDER BY created_at ASC
+      `);
+      try {
+        const rows = stmt.all(apiKey);
+        resolve(rows.map((row) => this.toSubscription(row)));
+      } finally {
+        stmt.finalize();
+      }
+    });
+  }
+
+  /**
+   * Retrieves a webhook subscription by its identifier.
+   *
+   * @param id - The subscription identifier.
+   * @returns A Promise that resolves to the Subscription object, or undefined if not found.
+   */
+  querySubscription(id: string): Promise<Subscription | undefined> {
+    return new Promise((resolve, _reject) => {
+      const stmt = this.db.prepare(`
+        SELECT id, api_key, tracking_id, callback_url, secret, created_at
+        FROM subscriptions
+        WHERE id = ?
+      `);
+      try {
+        const row = stmt.get(id);
+        resolve(row ? this.toSubscription(row) : undefined);
+      } finally {
+        stmt.finalize();
+      }
+    });
+  }
+
+  /**
+   * Retrieves the webhook subscriptions of a tracking ID and the subscriptions without tracking ID
+   * of the API keys allowed to query its operator.
+   *
+   * @param trackingId - The tracking ID of the changed entity.
+   * @param operator - The operator of the tracking ID.
+   * @returns A Promise that resolves to an array of matching Subscription objects.
+   */
+  querySubscriptionsByTrackingId(trackingId: string, operator: string): Promise<Subscription[]> {
+    return new Promise((resolve, _reject) => {
+      const stmt = this.db.prepare(`
+        SELECT s.id, s.api_key, s.tracking_id, s.callback_url, s.secret, s.created_at
+        FROM subscriptions s
+        WHERE s.tracking_id = ?
+           OR (s.tracking_id IS NULL
+               AND EXISTS (SELECT 1
+                           FROM tokens t
+                           WHERE t.id = s.api_key
+                             AND (t.scope_operators IS NULL
+                                  OR instr(',' || t.scope_operators || ',', ',' || ? || ',') > 0)))
+      `);
+      try {
+        const rows = stmt.all(trackingId, operator);
+        resolve(rows.map((row) => this.toSubscription(row)));
+      } finally {
+        stmt.finalize();
+      }
+    });
+  }
+
+  /**
+   * Deletes a webhook subscription owned by the given API key and its delivery history.
+   *
+   * @param id - The subscription identifier.
+   * @param apiKey - The identifier of the API key that owns the subscription.
+   * @returns A Promise that resolves to the number of deleted subscriptions (0 or 1).
+   */
+  deleteSubscription(id: string, apiKey: string): Promise<number> {
+    return new Promise((resolve, _reject) => {
+      const transaction = this.db.transaction(() => {
+        const deleteSubscriptionStmt = this.db.prepare(`DELETE FROM subscriptions WHERE id = ? AND api_key = ?`);
+        let deleted: number;
+        try {
+          deleted = deleteSubscriptionStmt.run(id, apiKey);
+        } finally {
+          deleteSubscriptionStmt.finalize();
+        }
+
+        if (deleted > 0) {
+          const deleteDeliveriesStmt = this.db.prepare(`DELETE FROM webhook_deliveries WHERE subscription_id = ?`);
+          try {
+            deleteDeliveriesStmt.run(id);
+          } finally {
+            deleteDeliveriesStmt.finalize();
+          }
+        }
+        return deleted;
+      });
+
+      resolve(transaction());
+    });
+  }
+
+  /**
+   * Transfers the webhook subscriptions of an API key to another API key, when the key is rotated.
+   *
+   * @param oldApiKey - The identifier of the API key that owns the subscriptions.
+   * @param newApiKey - The identifier of the API key that will own the subscriptions.
+   * @returns A Promise that resolves to the number of subscriptions transferred.
+   */
+  transferSubscriptions(oldApiKey: string, newApiKey: string): Promise<number> {
+    return new Promise((resolve, _reject) => {
+      const stmt = this.db.prepare(`UPDATE subscriptions SET api_key = ? WHERE api_key = ?`);
+      try {
+        resolve(stmt.run(newApiKey, oldApiKey));
+      } finally {
+        stmt.finalize();
+      }
+    });
+  }
+
+  /**
+   * Inserts a new webhook delivery into the webhook_deliveries table.
+   *
+   * @param delivery - The WebhookDelivery object to be inserted.
+   * @returns A Promise that resolves to the number of inserted rows (1 on success, 0 otherwise).
+   */
+  insertDelivery(delivery: WebhookDelivery): Promise<number> {
+    return new Promise((resolve, _reject) => {
+      const stmt = this.db.prepare(
+          `INSERT OR IGNORE
+           INTO webhook_deliveries (id, subscription_id, tracking_id, payload, status, attempts,
+                                    response_code, last_error, next_attempt_at, created_at, delivered_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      );
+      try {
+        stmt.run(
+            delivery.id,
+            delivery.subscriptionId,
+            delivery.trackingId,
+            JSON.stringify(delivery.payload),
+            delivery.status,
+            delivery.attempts,
+            delivery.responseCode ?? null,
+            delivery.lastError ?? null,
+            delivery.nextAttemptAt ?? null,
+            delivery.createdAt,
+            delivery.deliveredAt ?? null,
+        );
+        resolve(this.db.changes);
+      } finally {
+        stmt.finalize();
+      }
+    });
+  }
+
+  /**
+   * Saves the outcome of a webhook delivery attempt.
+   *
+   * @param delivery - The WebhookDelivery object containing the updated state.
+   * @returns A Promise that resolves to the number of updated rows.
+   */
+  updateDelivery(delivery: WebhookDelivery): Promise<number> {
+    return new Promise((resolve, _reject) => {
+      const stmt = this.db.prepare(`
+        UPDATE webhook_deliveries
+        SET status = ?, attempts = ?, response_code = ?, last_error = ?, next_attempt_at = ?, delivered_at = ?
+        WHERE id = ?
+      `);
+      try {
+        stmt.run(
+            delivery.status,
+            delivery.attempts,
+            delivery.responseCode ?? null,
+            delivery.lastError ?? null,
+            delivery.nextAttemptAt ?? null,
+            delivery.deliveredAt ?? null,
+            delivery.id,
+        );
+        resolve(this.db.changes);
+      } finally {
+        stmt.finalize();
+      }
+    });
+  }
+
+  /**
+   * Retrieves the pending webhook deliveries whose next attempt is due.
+   *
+   * @param now - The current time as an ISO 8601 string.
+   * @param limit - The maximum number of deliveries to return.
+   * @returns A Promise that resolves to an array of WebhookDelivery objects ordered by next attempt time.
+   */
+  queryDueDeliveries(now: string, limit: number): Promise<WebhookDelivery[]> {
+    return new Promise((resolve, _reject) => {
+      const stmt = this.db.prepare(`
+        SELECT id, subscription_id, tracking_id, payload, status, attempts,
+               response_code, last_error, next_attempt_at, created_at, delivered_at
+        FROM webhook_deliveries
+        WHERE status = 'pending' AND next_attempt_at <= ?
+        ORDER BY next_attempt_at ASC
+        LIMIT ?
+      `);
+      try {
+        const rows = stmt.all(now, limit);
+        resolve(rows.map((row) => this.toWebhookDelivery(row)));
+      } finally {
+        stmt.finalize();
+      }
+    });
+  }
+
+  /**
+   * Retrieves the most recent deliveries of a webhook subscription.
+   *
+   * @param subscriptionId - The subscription identifier.
+   * @param limit - The maximum number of deliveries to return.
+   * @returns A Promise that resolves to an array of WebhookDelivery objects, most recent first.
+   */
+  queryDeliveries(subscriptionId: string, limit: number): Promise<WebhookDelivery[]> {
+    return new Promise((resolve, _reject) => {
+      const stmt = this.db.prepare(`
+        SELECT id, subscription_id, tracking_id, payload, status, attempts,
+               response_code, last_error, next_attempt_at, created_at, delivered_at
+        FROM webhook_deliveries
+        WHERE subscription_id = ?
+        ORDER BY created_at DESC
+        LIMIT ?
+      `);
+      try {
+        const rows = stmt.all(subscriptionId, limit);
+        resolve(rows.map((row) => this.toWebhookDelivery(row)));
+      } finally {
+        stmt.finalize();
+      }
+    });
+  }
+
+  /**
+   * Announces an entity change by appending it to the entity_changes table,
+   * which is polled by the processes listening for changes.
+   * Changes older than the retention period are removed at the same time.
+   *
+   * @param trackingId - The tracking ID of the changed entity.
+   * @returns A Promise that resolves when the change has been recorded.
+   */
+  publishEntityChange(trackingId: string): Promise<void> {
+    return new Promise((resolve, _reject) => {
+      const now = Date.now();
+      const cutoff = new Date(now - config.stream.changeRetention * 60_000).toISOString();
+      const transaction = this.db.transaction(() => {
+        const insertStmt = this.db.prepare(`INSERT INTO entity_changes (tracking_id, created_at) VALUES (?, ?)`);
+        try {
+          insertStmt.run(trackingId, new Date(now).toISOString());
+        } finally {
+          insertStmt.finalize();
+        }
+
+        const deleteStmt = this.db.prepare(`DELETE FROM entity_changes WHERE created_at < ?`);
+        try {
+          deleteStmt.run(cutoff);
+        } finally {
+          deleteStmt.finalize();
+        }
+      });
+
+      transaction();
+      resolve();
+    });
+  }
+
+  /**
+   * Registers a listener for the entity changes recorded in the entity_changes table.
+   * SQLite has no notification mechanism, so the table is polled while at least one listener is registered.
+   *
+   * @param listener - The function called with the tracking ID of the changed entity.
+   * @returns A Promise that resolves to a function that removes the listener.
+   */
+  listenEntityChanges(listener: (trackingId: string) => void): Promise<() => void> {
+    return new Promise((resolve, _reject) => {
+      if (this.changePoller === undefined) {
+        // only the changes published from now on are reported
+        this.lastChangeSeq = this.queryLastChangeSeq();
+        this.changePoller = setInterval(() => this.pollEntityChanges(), config.stream.pollInterval * 1000);
+      }
+      this.changeListeners.add(listener);
+
+      resolve(() => {
+        this.changeListeners.delete(listener);
+        if (this.changeListeners.size === 0 && this.changePoller !== undefined) {
+          clearInterval(this.changePoller);
+          this.changePoller = undefined;
+        }
+      });
+    });
+  }
+
+  /**
+   * Inserts a single entity record into the database.
+   *
+   * @param db
+   * @param entity - The Entity object to be inserted.
+   * @returns The number of database rows changed by the insert operation.
+   */
+  private insertEntityRecord(db: Database, entity: Entity): number {
+    const insertEntityStmt = db.prepare(
+        `INSERT INTO entities (uuid, id, type, use_pull, creation_time, completed, additional, params, last_pulled_at, next_poll_at, expired)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    );
+    try {
+      insertEntityStmt.run(
+          entity.uuid,
+          entity.id,
+          entity.type,
+          entity.usePull,
+          entity.getCreationTime(),
+          entity.isCompleted() ? 1 : 0,
+          JSON.stringify(entity.additional ?? {}),
+          JSON.stringify(entity.params ?? {}),
+          entity.lastPulledAt ?? null,
+          entity.nextPollAt ?? null,
+          entity.expired ? 1 : 0,
+      );
+    } finally {
+      insertEntityStmt.finalize();
+    }
+    return db.changes;
+  }
+
+  /**
+   * Inserts multiple events into the database within a transaction.
+   *
+   * This method performs a batch insert of event records into the events table.
+   * All insertions are wrapped in a database transaction to ensure atomicity.
+   * If any event fails validation (missing eventId), an error is thrown and the
+   * transaction is rolled back. Individual insert failures are logged but do not
+   * stop the transaction.
+   *
+   * @param db - The SQLite Database instance to execute the insert operations on.
+   * @param events - An array of Event objects to be inserted into the database.
+   * @param updateMethod - A string indicating the method of update (e.g., "manual-pull" or "auto-pull"),
+   *                       used for logging purposes to track the source of the data update.
+   * @returns The total number of rows successfully inserted into the database. Returns 0 if the
+   *          transaction fails or if no events were successfully inserted.
+   */
+  private insertEvents(db: Database, events: Event[], updateMethod:string): number {
+    const transaction = db.transaction(() => {
+      let changes = 0;
+      const insertEventStmt = db.prepare(`
+        INSERT INTO events (event_id, status, what_, when_, where_,
+                            whom_, notes, operator_code, tracking_num, data_provider,
+                            exception_code, exception_desc, notification_code, notification_desc, additional,
+                            source_data)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `);
+
+      try {
+        for (const event of events) {
+          // Validate input
+          if (!event || !event.eventId) {
+            throw new AppError("500-01", `ERR-SQLITE-A - Invalid event object: eventId is required`);
+          }
+
           logger.info(`${whereIsAPI("data_monitor")} ${updateMethod}: Insert new event with ID ${event.eventId}`);
 
           try {
@@ -427,7 +1975,7 @@ export class SQLiteWrapper implements DatabaseWrapper {
   private queryEntityRecord(trackingId: TrackingID): Entity | undefined {
     let entity: Entity | undefined;
     const stmt = this.db.prepare(`
-      SELECT uuid, id, type, use_pull, completed, additional, params, creation_time
+      SELECT uuid, id, type, use_pull, completed, additional, params, creation_time, last_pulled_at, next_poll_at, expired
       FROM entities
       WHERE id = ?
     `);
@@ -442,6 +1990,9 @@ export class SQLiteWrapper implements DatabaseWrapper {
         additional: string;
         params: string;
         creation_time: string;
+        last_pulled_at: string | null;
+        next_poll_at: string | null;
+        expired: number;
       } | undefined;
 
       if (row) {
@@ -454,6 +2005,9 @@ export class SQLiteWrapper implements DatabaseWrapper {
         entity.additional = JSON.parse(row.additional);
         entity.params = JSON.parse(row.params);
         entity.creationTime = row.creation_time;
+        entity.lastPulledAt = row.last_pulled_at ?? undefined;
+        entity.nextPollAt = row.next_poll_at ?? undefined;
+        entity.expired = Boolean(row.expired);
       }
     } finally {
       stmt.finalize();
@@ -461,6 +2015,169 @@ export class SQLiteWrapper implements DatabaseWrapper {
     return entity;
   }
 
+  /**
+   * Queries the sequence number of the last recorded entity change.
+   *
+   * @returns The last sequence number, or 0 if no change has been recorded.
+   */
+  private queryLastChangeSeq(): number {
+    const stmt = this.db.prepare(`SELECT MAX(seq) AS seq FROM entity_changes`);
+    try {
+      const row = stmt.get() as { seq: number | null } | undefined;
+      return row?.seq ?? 0;
+    } finally {
+      stmt.finalize();
+    }
+  }
+
+  /**
+   * Reports the entity changes recorded since the last poll to the registered listeners.
+   */
+  private pollEntityChanges(): void {
+    const stmt = this.db.prepare(`SELECT seq, tracking_id FROM entity_changes WHERE seq > ? ORDER BY seq ASC`);
+    try {
+      const rows = stmt.all(this.lastChangeSeq);
+      for (const row of rows) {
+        this.lastChangeSeq = row.seq as number;
+        for (const listener of this.changeListeners) {
+          listener(row.tracking_id as string);
+        }
+      }
+    } catch (err) {
+      logger.error(`${whereIsAPI("exception")} Failed to poll entity changes: ${err}`);
+    } finally {
+      stmt.finalize();
+    }
+  }
+
+  /**
+   * Creates an ApiToken object from a row of the tokens table.
+   *
+   * @param row - The database row.
+   * @returns The ApiToken object.
+   */
+  private toApiToken(row: Record<string, unknown>): ApiToken {
+    const apiToken = new ApiToken();
+    apiToken.id = row.id as string;
+    apiToken.prefix = (row.prefix as string | null) ?? "";
+    apiToken.userId = row.user_id as string;
+    apiToken.rateLimit = (row.rate_limit as number | null) ?? undefined;
+    apiToken.rateBurst = (row.rate_burst as number | null) ?? undefined;
+    apiToken.monthlyQuota = (row.monthly_quota as number | null) ?? undefined;
+    apiToken.operators = (row.scope_operators as string | null)?.split(",") ?? undefined;
+    apiToken.routes = (row.scope_routes as string | null)?.split(",") ?? undefined;
+    apiToken.readOnly = row.read_only === 1;
+    apiToken.allowFullData = row.allow_fulldata !== 0;
+    apiToken.allowRefresh = row.allow_refresh !== 0;
+    apiToken.createdAt = (row.created_at as string | null) ?? undefined;
+    apiToken.expiresAt = (row.expires_at as string | null) ?? undefined;
+    apiToken.revokedAt = (row.revoked_at as string | null) ?? undefined;
+    apiToken.lastUsedAt = (row.last_used_at as string | null) ?? undefined;
+    apiToken.rotatedTo = (row.rotated_to as string | null) ?? undefined;
+    return apiToken;
+  }
+
+  /**
+   * Creates a Subscription object from a row of the subscriptions table.
+   *
+   * @param row - The database row.
+   * @returns The Subscription object.
+   */
+  private toSubscription(row: Record<string, unknown>): Subscription {
+    const subscription = new Subscription();
+    subscription.id = row.id as string;
+    subscription.apiKey = row.api_key as string;
+    subscription.trackingId = (row.tracking_id as string | null) ?? undefined;
+    subscription.callbackUrl = row.callback_url as string;
+    subscription.secret = row.secret as string;
+    subscription.createdAt = row.created_at as string;
+    return subscription;
+  }
+
+  /**
+   * Creates a SchedulerRun object from a row of the scheduler_runs table.
+   *
+   * @param row - The database row.
+   * @returns The SchedulerRun object.
+   */
+  private toSchedulerRun(row: Record<string, unknown>): SchedulerRun {
+    const run = new SchedulerRun();
+    run.id = row.id as string;
+    run.instanceId = row.instance_id as string;
+    run.trigger = row.trigger as string;
+    run.operator = (row.operator as string | null) ?? undefined;
+    run.trackingId = (row.tracking_id as string | null) ?? undefined;
+    run.status = row.status as string;
+    run.startedAt = row.started_at as string;
+    run.endedAt = (row.ended_at as string | null) ?? undefined;
+    run.trackingIdsClaimed = row.tracking_ids_claimed as number;
+    run.jobsQueued = row.jobs_queued as number;
+    run.errors = JSON.parse((row.errors as string | null) ?? "[]");
+    run.batches = JSON.parse((row.batches as string | null) ?? "[]");
+    return run;
+  }
+
+  /**
+   * Creates a CarrierAccount object from a row of the carrier_accounts table.
+   *
+   * @param row - The database row.
+   * @returns The CarrierAccount object.
+   */
+  private toCarrierAccount(row: Record<string, unknown>): CarrierAccount {
+    const account = new CarrierAccount();
+    account.id = row.id as string;
+    account.operator = row.operator as string;
+    account.name = row.name as string;
+    account.apiKey = (row.api_key as string | null) ?? undefined;
+    account.userId = (row.user_id as string | null) ?? undefined;
+    account.secret = row.secret as string;
+    account.createdAt = row.created_at as string;
+    return account;
+  }
+
+  /**
+   * Creates a PullJob object from a row of the pull_jobs table.
+   *
+   * @param row - The database row.
+   * @returns The PullJob object.
+   */
+  private toPullJob(row: Record<string, unknown>): PullJob {
+    const job = new PullJob();
+    job.id = row.id as string;
+    job.operator = row.operator as string;
+    job.trackingIds = JSON.parse(row.tracking_ids as string);
+    job.params = JSON.parse(row.params as string);
+    job.status = row.status as string;
+    job.attempts = row.attempts as number;
+    job.lastError = (row.last_error as string | null) ?? undefined;
+    job.nextAttemptAt = (row.next_attempt_at as string | null) ?? undefined;
+    job.createdAt = row.created_at as string;
+    job.updatedAt = (row.updated_at as string | null) ?? undefined;
+    return job;
+  }
+
+  /**
+   * Creates a WebhookDelivery object from a row of the webhook_deliveries table.
+   *
+   * @param row - The database row.
+   * @returns The WebhookDelivery object.
+   */
+  private toWebhookDelivery(row: Record<string, unknown>): WebhookDelivery {
+    const delivery = new WebhookDelivery();
+    delivery.id = row.id as string;
+    delivery.subscriptionId = row.subscription_id as string;
+    delivery.trackingId = row.tracking_id as string;
+    delivery.payload = JSON.parse(row.payload as string);
+    delivery.status = row.status as string;
+    delivery.attempts = row.attempts as number;
+    delivery.responseCode = (row.response_code as number | null) ?? undefined;
+    delivery.lastError = (row.last_error as string | null) ?? undefined;
+    delivery.nextAttemptAt = (row.next_attempt_at as string | null) ?? undefined;
+    delivery.createdAt = row.created_at as string;
+    delivery.deliveredAt = (row.delivered_at as string | null) ?? undefined;
+    return delivery;
+  }
+
   /**
    * Queries the database for events associated with a given tracking ID.
    *
@@ -10,7 +10,7 @@
  *  @copyright (c) 2025, the Eagle1 authors
  *  @license BSD 3-Clause License
  */
-import { Entity, TrackingID } from "../main/model.ts";
+import { ApiToken, CarrierAccount, CarrierCredential, Entity, PullJob, SchedulerRun, Subscription, TrackingID, UsageRecord, WebhookDelivery } from "../main/model.ts";
 
 export interface DatabaseWrapper {
 
@@ -21,19 +21,97 @@ export interface DatabaseWrapper {
   ping(): Promise<boolean>;
 
   /**
-   * Validates whether an API token exists and is active in the database.
+   * Validates whether an API token exists and is active (neither expired nor revoked) in the database.
    * @param token - The API token to validate
    * @returns Promise resolving to true if the token is valid, false otherwise
    */
   isTokenValid(token: string): Promise<boolean>;
 
   /**
-   * Inserts a new API key and associates it with a user identifier.
-   * @param apikey - The API key to insert (typically in format 'sk-...')
-   * @param userId - The user identifier to associate with the API key
-   * @returns Promise resolving to the number of rows inserted (0 if key already exists due to conflict, 1 if successfully inserted)
+   * Retrieves an API token and its settings, whether it is active or not.
+   * The salted hash of the token is compared in constant time with the stored hashes.
+   * @param token - The secret API token to look up
+   * @returns Promise resolving to the ApiToken object if found, or undefined if not found
    */
-  insertToken(apikey: string, userId: string): Promise<number>;
+  queryToken(token: string): Promise<ApiToken | undefined>;
+
+  /**
+   * Retrieves an API token and its settings by its identifier, whether it is active or not.
+   * @param id - The identifier of the API token
+   * @returns Promise resolving to the ApiToken object if found, or undefined if not found
+   */
+  queryTokenById(id: string): Promise<ApiToken | undefined>;
+
+  /**
+   * Retrieves the API tokens, optionally those of a single user.
+   * @param userId - The user identifier, or undefined to retrieve the tokens of all users
+   * @returns Promise resolving to the ApiToken objects ordered by creation time
+   */
+  queryTokens(userId?: string): Promise<ApiToken[]>;
+
+  /**
+   * Inserts a new API key with its rate limit, scopes and expiry. Only the prefix and a salted hash of the key are stored.
+   * @param apiToken - The API token to insert, with its identifier and its secret key (typically in format 'sk-...')
+   * @returns Promise resolving to the number of rows inserted (0 if the identifier already exists due to conflict, 1 if successfully inserted)
+   */
+  insertToken(apiToken: ApiToken): Promise<number>;
+
+  /**
+   * Hashes the API tokens still stored in plaintext by a previous version, giving each of them a new identifier.
+   * Runs when the database connection is initialized, and does nothing once every token is hashed.
+   * @returns Promise resolving to the number of tokens hashed
+   */
+  hashPlaintextTokens(): Promise<number>;
+
+  /**
+   * Revokes an API token at a given time. A token already revoked earlier keeps its revocation time.
+   * @param id - The identifier of the API token to revoke
+   * @param revokedAt - The revocation time (ISO 8601), which may be in the future to leave a grace period
+   * @returns Promise resolving to the number of tokens revoked (0 if not found or already revoked)
+   */
+  revokeToken(id: string, revokedAt: string): Promise<number>;
+
+  /**
+   * Records the last time an API token was used.
+   * @param id - The identifier of the API token
+   * @param usedAt - The time of use (ISO 8601)
+   * @returns Promise that resolves when the time is recorded
+   */
+  touchToken(id: string, usedAt: string): Promise<void>;
+
+  /**
+   * Adds usage counts to the daily counters of the API keys.
+   * @param records - The usage counts to add, one per API key, day, metric and dimension
+   * @returns Promise that resolves when the counters are updated
+   */
+  incrementUsage(records: UsageRecord[]): Promise<void>;
+
+  /**
+   * Retrieves the daily usage counters of an API key over a range of days.
+   * @param tokenId - The identifier of the API key
+   * @param fromDay - The first day of the range (YYYY-MM-DD)
+   * @param toDay - The last day of the range (YYYY-MM-DD), included
+   * @param metric - Only retrieve the counters of this metric, all metrics if undefined
+   * @returns Promise resolving to the usage records ordered by day
+   */
+  queryUsage(tokenId: string, fromDay: string, toDay: string, metric?: string): Promise<UsageRecord[]>;
+
+  /**
+   * Links an API key, and the keys it had replaced, to the API key that replaces it when it is rotated,
+   * so that their requests during the grace period count toward the usage of the new key.
+   * @param oldTokenId - The identifier of the rotated API key
+   * @param newTokenId - The identifier of the API key that replaces it
+   * @returns Promise resolving to the number of API keys linked
+   */
+  linkRotatedToken(oldTokenId: string, newTokenId: string): Promise<number>;
+
+  /**
+   * Transfers the usage counters of an API key to another API key, when the key is rotated.
+   * @param oldTokenId - The identifier of the API key that owns the counters
+   * @param newTokenId - The identifier of the API key that will own the counters
+   * @returns Promise resolving to the number of counters transferred
+   */
+  transferUsage(oldTokenId: string, newTokenId: string): Promise<number>;
 
   /**
    * Inserts a new tracking entity into the database.
@@ -47,6 +125,7 @@ export interface DatabaseWrapper {
   /**
    * Completely replaces an existing entity's data with new information.
    * This operation removes all existing events and replaces them with the new entity's events.
+   * An entity fed by push stays so: it is still not polled by the scheduler.
    * @param trackingId - The tracking identifier of the entity to refresh
    * @param entity - The new entity data to replace the existing data
    * @returns Promise resolving to:
@@ -84,15 +163,382 @@ export interface DatabaseWrapper {
   queryEntity(trackingId: TrackingID): Promise<Entity | undefined>;
 
   /**
-   * Retrieves all tracking numbers currently in processing status.
-   * Used for monitoring and managing active shipments that require updates.
-   * @returns Promise resolving to a record mapping tracking numbers to their associated parameters
+   * Records the last time an entity was pulled from its carrier, whether its data changed or not,
+   * and the next time the scheduler pulls it.
+   * @param trackingId - The tracking identifier of the entity
+   * @param lastPulledAt - The time of the pull (ISO 8601)
+   * @param nextPollAt - The time of the next poll (ISO 8601), undefined if the entity is no longer polled
+   * @returns Promise resolving to the number of entities updated (0 if not found)
+   */
+  updatePollSchedule(trackingId: TrackingID, lastPulledAt: string, nextPollAt: string | undefined): Promise<number>;
+
+  /**
+   * Marks an entity as expired: it is abandoned and no longer polled by the scheduler.
+   * A manual pull of the entity stores it again as not expired.
+   * @param trackingId - The tracking identifier of the entity
+   * @returns Promise resolving to the number of entities updated (0 if not found)
+   */
+  expireEntity(trackingId: TrackingID): Promise<number>;
+
+  /**
+   * Marks an entity pulled so far as fed by push: the scheduler no longer polls it.
+   * @param trackingId - The tracking identifier of the entity
+   * @returns Promise resolving to the number of entities updated (0 if not found or already fed by push)
+   */
+  stopPolling(trackingId: TrackingID): Promise<number>;
+
+  /**
+   * Claims the tracking numbers in processing status that are due for a poll, on behalf of a scheduler instance.
+   * The entities without next poll time (never polled) are due, the expired entities are not.
+   * The tracking numbers claimed are not claimed by the other instances until the lease expires,
+   * so that several instances share the due tracking numbers instead of pulling them all.
+   * A database that cannot claim rows concurrently (SQLite) grants the whole work to a single instance at a time.
+   * @param owner - The identifier of the scheduler instance
+   * @param now - The current time (ISO 8601): the entities whose next poll time is at or before it are due
+   * @param leaseUntil - The expiry of the lease (ISO 8601)
+   * @param limit - The maximum number of tracking numbers claimed
+   * @param operator - The operator whose tracking numbers are claimed, all operators if undefined
+   * @returns Promise resolving to a record mapping tracking numbers to their associated parameters,
+   *   undefined if another instance holds the work
    * @example
    * {
    *   "1234567890123": {},
    *   "SF1234567890123": {"phonenum": "1234567890"}
    * }
    */
-  getInProcessingTrackingNums(): Promise<Record<string, Record<string, string>>>;
+  claimDueTrackingNums(
+    owner: string,
+    now: string,
+    leaseUntil: string,
+    limit: number,
+    operator?: string,
+  ): Promise<Record<string, Record<string, string>> | undefined>;
+
+  /**
+   * Extends the lease of the tracking numbers and pull jobs claimed by a scheduler instance (heartbeat).
+   * @param owner - The identifier of the scheduler instance
+   * @param leaseUntil - The new expiry of the lease (ISO 8601)
+   * @returns Promise resolving to the number of claims renewed
+   */
+  renewClaims(owner: string, leaseUntil: string): Promise<number>;
+
+  /**
+   * Releases the tracking numbers and pull jobs claimed by a scheduler instance once it has processed them.
+   * @param owner - The identifier of the scheduler instance
+   * @returns Promise resolving to the number of claims released
+   */
+  releaseClaims(owner: string): Promise<number>;
+
+  /**
+   * Releases a pull job claimed by a scheduler instance without processing it, so that the next run claims it.
+   * @param id - The job identifier
+   * @param owner - The identifier of the scheduler instance
+   * @returns Promise resolving to the number of claims released
+   */
+  releasePullJob(id: string, owner: string): Promise<number>;
+
+  /**
+   * Inserts a new pull job of the scheduler.
+   * @param job - The job to insert
+   * @returns Promise resolving to the number of rows inserted
+   */
+  insertPullJob(job: PullJob): Promise<number>;
+
+  /**
+   * Saves the outcome of a failed pull job attempt, or its requeue (status, attempts, error and timestamps).
+   * @param job - The job to update
+   * @returns Promise resolving to the number of rows updated
+   */
+  updatePullJob(job: PullJob): Promise<number>;
+
+  /**
+   * Deletes a pull job once it has succeeded.
+   * @param id - The job identifier
+   * @returns Promise resolving to the number of jobs deleted (0 or 1)
+   */
+  deletePullJob(id: string): Promise<number>;
+
+  /**
+   * Claims the pending pull jobs whose next attempt is due, on behalf of a scheduler instance,
+   * with the same lease as the tracking numbers (see claimDueTrackingNums).
+   * @param owner - The identifier of the scheduler instance
+   * @param now - The current time (ISO 8601)
+   * @param leaseUntil - The expiry of the lease (ISO 8601)
+   * @param limit - The maximum number of jobs claimed
+   * @param operator - The operator whose jobs are claimed, all operators if undefined
+   * @returns Promise resolving to the jobs claimed ordered by next attempt time, empty if another instance holds the work
+   */
+  claimDuePullJobs(owner: string, now: string, leaseUntil: string, limit: number, operator?: string): Promise<PullJob[]>;
+
+  /**
+   * Retrieves a pull job by its identifier.
+   * @param id - The job identifier
+   * @returns Promise resolving to the PullJob object if found, or undefined if not found
+   */
+  queryPullJob(id: string): Promise<PullJob | undefined>;
+
+  /**
+   * Retrieves the pull jobs in a status, oldest first.
+   * @param status - The job status (pending or dead)
+   * @param limit - The maximum number of jobs to return
+   * @returns Promise resolving to the jobs ordered by creation time
+   */
+  queryPullJobs(status: string, limit: number): Promise<PullJob[]>;
+
+  /**
+   * Retrieves the tracking IDs of all the pull jobs, pending or dead,
+   * which are not queued again until their job is done or requeued.
+   * @returns Promise resolving to the tracking IDs (ex: fdx-779879860040)
+   */
+  queryPullJobTrackingIds(): Promise<string[]>;
+
+  /**
+   * Inserts a new scheduler run.
+   * @param run - The run to insert
+   * @returns Promise resolving to the number of rows inserted
+   */
+  insertSchedulerRun(run: SchedulerRun): Promise<number>;
+
+  /**
+   * Saves the progress or the outcome of a scheduler run (status, counts, errors and batches).
+   * @param run - The run to update
+   * @returns Promise resolving to the number of rows updated
+   */
+  updateSchedulerRun(run: SchedulerRun): Promise<number>;
+
+  /**
+   * Retrieves the most recent scheduler runs.
+   * @param limit - The maximum number of runs to return
+   * @returns Promise resolving to the runs, most recent first
+   */
+  querySchedulerRuns(limit: number): Promise<SchedulerRun[]>;
+
+  /**
+   * Deletes the scheduler runs started before a time.
+   * @param before - The time (ISO 8601)
+   * @returns Promise resolving to the number of runs deleted
+   */
+  deleteSchedulerRuns(before: string): Promise<number>;
+
+  /**
+   * Consumes a request from the quota of the data source of an operator in a time window,
+   * unless the limit of the window has been reached. The count restarts with each new window.
+   * @param operator - The operator code
+   * @param window - The quota window (second or day)
+   * @param windowStart - The start of the current window (ISO 8601)
+   * @param limit - The maximum number of requests in the window
+   * @returns Promise resolving to 1 if the request was counted, 0 if the limit has been reached
+   */
+  consumeCarrierQuota(operator: string, window: string, windowStart: string, limit: number): Promise<number>;
+
+  /**
+   * Retrieves the requests counted in the quota of the data source of an operator in a time window.
+   * @param operator - The operator code
+   * @param window - The quota window (second or day)
+   * @param windowStart - The start of the current window (ISO 8601)
+   * @returns Promise resolving to the number of requests counted, 0 if none in the current window
+   */
+  queryCarrierQuotaUsage(operator: string, window: string, windowStart: string): Promise<number>;
+
+  /**
+   * Retrieves the cached access token of a carrier API.
+   * @param name - The name of the credential (ex: fdx)
+   * @returns Promise resolving to the credential, or undefined if none has been cached
+   */
+  queryCarrierCredential(name: string): Promise<CarrierCredential | undefined>;
+
+  /**
+   * Takes the refresh lock of a carrier credential if it is free, expired or already held by the process.
+   * @param name - The name of the credential
+   * @param owner - The identifier of the process refreshing the credential
+   * @param now - The current time (ISO 8601)
+   * @param lockUntil - The expiry of the lock (ISO 8601)
+   * @returns Promise resolving to 1 if the lock was taken, 0 if another process holds it
+   */
+  lockCarrierCredential(name: string, owner: string, now: string, lockUntil: string): Promise<number>;
+
+  /**
+   * Stores the access token of a carrier API.
+   * @param credential - The credential with its token and expiry
+   * @returns Promise resolving to the number of rows inserted or updated
+   */
+  saveCarrierCredential(credential: CarrierCredential): Promise<number>;
+
+  /**
+   * Releases the refresh lock of a carrier credential held by a process.
+   * @param name - The name of the credential
+   * @param owner - The identifier of the process holding the lock
+   * @returns Promise resolving to the number of locks released
+   */
+  unlockCarrierCredential(name: string, owner: string): Promise<number>;
+
+  /**
+   * Claims the pull of a tracking ID from its carrier if it is not claimed or its claim has expired,
+   * so that the other processes wait for the pull instead of requesting the carrier again.
+   * @param trackingId - The tracking ID (ex: fdx-779879860040)
+   * @param owner - The identifier of the pull
+   * @param now - The current time (ISO 8601)
+   * @param claimUntil - The expiry of the claim (ISO 8601)
+   * @returns Promise resolving to 1 if the pull was claimed, 0 otherwise
+   */
+  claimPull(trackingId: string, owner: string, now: string, claimUntil: string): Promise<number>;
+
+  /**
+   * Releases the claim of the pull of a tracking ID.
+   * @param trackingId - The tracking ID
+   * @param owner - The identifier of the pull holding the claim
+   * @returns Promise resolving to the number of claims released
+   */
+  releasePull(trackingId: string, owner: string): Promise<number>;
+
+  /**
+   * Takes tokens from a rate limiting bucket, refilled for the time elapsed since its last update,
+   * if it holds enough of them. A new bucket starts full.
+   * @param bucket - The bucket identifier (API key and route)
+   * @param now - The current time in milliseconds
+   * @param ratePerMs - The refill rate of the bucket, in tokens per millisecond
+   * @param burst - The bucket size
+   * @param cost - The number of tokens to take
+   * @param force - Take the tokens even if the bucket does not hold enough of them, leaving it in debt
+   * @returns Promise resolving to 1 if the tokens were taken, 0 otherwise
+   */
+  consumeRateLimitTokens(bucket: string, now: number, ratePerMs: number, burst: number, cost: number, force: boolean): Promise<number>;
+
+  /**
+   * Retrieves the state of a rate limiting bucket as of its last update.
+   * @param bucket - The bucket identifier (API key and route)
+   * @returns Promise resolving to the tokens of the bucket and the time of its last update in milliseconds,
+   *   or undefined if the bucket has never been used
+   */
+  queryRateLimitBucket(bucket: string): Promise<{ tokens: number; updatedAt: number } | undefined>;
+
+  /**
+   * Inserts a new carrier account.
+   * @param account - The account to insert, with its encrypted credentials
+   * @returns Promise resolving to the number of rows inserted
+   */
+  insertCarrierAccount(account: CarrierAccount): Promise<number>;
+
+  /**
+   * Retrieves all the carrier accounts.
+   * @returns Promise resolving to the accounts ordered by creation time
+   */
+  queryCarrierAccounts(): Promise<CarrierAccount[]>;
+
+  /**
+   * Retrieves the carrier account used by an API key for an operator: the account of the API key,
+   * else the account of its user.
+   * @param operator - The operator code
+   * @param apiKey - The identifier of the API key
+   * @param userId - The user the API key belongs to
+   * @returns Promise resolving to the account, or undefined if the global account of the operator is used
+   */
+  queryCarrierAccount(operator: string, apiKey: string, userId: string): Promise<CarrierAccount | undefined>;
+
+  /**
+   * Deletes a carrier account.
+   * @param id - The identifier of the account
+   * @returns Promise resolving to the number of rows deleted
+   */
+  deleteCarrierAccount(id: string): Promise<number>;
+
+  /**
+   * Transfers the carrier accounts of an API key to another API key, when the key is rotated.
+   * @param oldApiKey - The identifier of the API key the accounts are bound to
+   * @param newApiKey - The identifier of the API key the accounts will be bound to
+   * @returns Promise resolving to the number of accounts transferred
+   */
+  transferCarrierAccounts(oldApiKey: string, newApiKey: string): Promise<number>;
+
+  /**
+   * Inserts a new webhook subscription.
+   * @param subscription - The subscription to insert
+   * @returns Promise resolving to the number of rows inserted
+   */
+  insertSubscription(subscription: Subscription): Promise<number>;
+
+  /**
+   * Retrieves all webhook subscriptions owned by an API key.
+   * @param apiKey - The identifier of the API key that owns the subscriptions
+   * @returns Promise resolving to the subscriptions ordered by creation time
+   */
+  querySubscriptions(apiKey: string): Promise<Subscription[]>;
+
+  /**
+   * Retrieves a webhook subscription by its identifier.
+   * @param id - The subscription identifier
+   * @returns Promise resolving to the Subscription object if found, or undefined if not found
+   */
+  querySubscription(id: string): Promise<Subscription | undefined>;
+
+  /**
+   * Retrieves the webhook subscriptions to notify when an entity changes: the subscriptions of its tracking ID
+   * and the subscriptions without tracking ID of the API keys allowed to query its operator.
+   * @param trackingId - The tracking ID of the changed entity (ex: fdx-779879860040)
+   * @param operator - The operator of the tracking ID (ex: fdx)
+   * @returns Promise resolving to the matching subscriptions
+   */
+  querySubscriptionsByTrackingId(trackingId: string, operator: string): Promise<Subscription[]>;
+
+  /**
+   * Deletes a webhook subscription owned by an API key together with its delivery history.
+   * @param id - The subscription identifier
+   * @param apiKey - The identifier of the API key that owns the subscription
+   * @returns Promise resolving to the number of subscriptions deleted (0 or 1)
+   */
+  deleteSubscription(id: string, apiKey: string): Promise<number>;
+
+  /**
+   * Transfers the webhook subscriptions of an API key to another API key, when the key is rotated.
+   * @param oldApiKey - The identifier of the API key that owns the subscriptions
+   * @param newApiKey - The identifier of the API key that will own the subscriptions
+   * @returns Promise resolving to the number of subscriptions transferred
+   */
+  transferSubscriptions(oldApiKey: string, newApiKey: string): Promise<number>;
+
+  /**
+   * Inserts a new webhook delivery.
+   * @param delivery - The delivery to insert
+   * @returns Promise resolving to the number of rows inserted
+   */
+  insertDelivery(delivery: WebhookDelivery): Promise<number>;
+
+  /**
+   * Saves the outcome of a delivery attempt (status, attempts, response code, error and timestamps).
+   * @param delivery - The delivery to update
+   * @returns Promise resolving to the number of rows updated
+   */
+  updateDelivery(delivery: WebhookDelivery): Promise<number>;
+
+  /**
+   * Retrieves the pending webhook deliveries whose next attempt is due.
+   * @param now - The current time as an ISO 8601 string
+   * @param limit - The maximum number of deliveries to return
+   * @returns Promise resolving to the due deliveries ordered by next attempt time
+   */
+  queryDueDeliveries(now: string, limit: number): Promise<WebhookDelivery[]>;
+
+  /**
+   * Retrieves the most recent deliveries of a webhook subscription.
+   * @param subscriptionId - The subscription identifier
+   * @param limit - The maximum number of deliveries to return
+   * @returns Promise resolving to the deliveries, most recent first
+   */
+  queryDeliveries(subscriptionId: string, limit: number): Promise<WebhookDelivery[]>;
+
+  /**
+   * Announces to every process sharing the database that the events of an entity have changed.
+   * @param trackingId - The tracking ID of the changed entity (ex: fdx-779879860040)
+   * @returns Promise resolving when the change has been published
+   */
+  publishEntityChange(trackingId: string): Promise<void>;
+
+  /**
+   * Registers a listener called with the tracking ID of every changed entity,
+   * including the changes published by other processes (eg: the scheduler).
+   * @param listener - The function called with the tracking ID of the changed entity
+   * @returns Promise resolving to a function that removes the listener
+   */
+  listenEntityChanges(listener: (trackingId: string) => void): Promise<() => void>;
 
 }
\ No newline at end of file
@@ -34,10 +34,22 @@ export async function initConnection() {
       await Deno.copyFile(src_file, db_file);
     }
     const db = new Database(db_file);
-    dbClient = new SQLiteWrapper(db);
+    const sqliteClient = new SQLiteWrapper(db);
+    // the database file may have been created from an earlier version of config/whereis.sqlite
+    const migrated = await sqliteClient.migrateSchema();
+    if (migrated > 0) {
+      logger.info(`${whereIsAPI("startup")} ${migrated} column(s) and table(s) added to the SQLite database`);
+    }
+    dbClient = sqliteClient;
     logger.info(`${whereIsAPI("startup")} SQLite database is ready`);
   }
   isInitialized = true;
+
+  // one-time migration of the API keys stored in plaintext by a previous version
+  const hashed = await dbClient.hashPlaintextTokens();
+  if (hashed > 0) {
+    logger.info(`${whereIsAPI("startup")} ${hashed} API key(s) stored in plaintext have been hashed`);
+  }
 }
 
 async function initPgConnection() : Promise<postgres.Sql> {
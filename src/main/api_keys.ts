@@ -0,0 +1,105 @@
+/**
+ * @file api_keys.ts
+ * @description Lifecycle of the Whereis API keys, shared by the api_key command-line utility
+ * and the admin routes: generation, revocation and rotation.
+ *
+ * @copyright (c) 2025, the Eagle1 authors
+ * @license BSD 3-Clause License
+ */
+
+import { v7 as uuidv7 } from "@std/uuid";
+import { config } from "../../config.ts";
+import { getDbClient } from "../db/dbutil.ts";
+import { transferCarrierAccounts } from "./carrier_accounts.ts";
+import { ApiToken, AppError } from "./model.ts";
+
+/**
+ * Generates a unique, URL-safe API key with a given length.
+ * Exported to enable dedicated unit tests for bounds/validation and output format.
+ */
+export function generateApiKey(length: number = 48): string {
+  if (!Number.isInteger(length) || length < 16 || length > 128) {
+    throw new RangeError(
+      "API key length must be an integer between 16 and 128.",
+    );
+  }
+
+  const chars =
+    "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789";
+
+  // Use rejection sampling to avoid modulo bias when mapping random bytes to characters.
+  const maxUnbiased = Math.floor(256 / chars.length) * chars.length;
+  const keyChars: string[] = [];
+
+  while (keyChars.length < length) {
+    const randomBytes = crypto.getRandomValues(
+      new Uint8Array(length - keyChars.length),
+    );
+
+    for (const byte of randomBytes) {
+      if (byte >= maxUnbiased) {
+        continue;
+      }
+      keyChars.push(chars[byte % chars.length]);
+      if (keyChars.length === length) {
+        break;
+      }
+    }
+  }
+
+  return `sk-${keyChars.join("")}`;
+}
+
+/**
+ * Revokes an API key immediately.
+ *
+ * @param id - The identifier of the API key to revoke.
+ * @returns true if the key was revoked, false if it does not exist or was already revoked.
+ */
+export async function revokeApiKey(id: string): Promise<boolean> {
+  return await getDbClient().revokeToken(id, new Date().toISOString()) > 0;
+}
+
+/**
+ * Replaces an API key with a new one carrying the same user, rate limit, quota, scopes and expiry.
+ * The webhook subscriptions, the usage counters and the carrier accounts of the old key are transferred to the new key.
+ * The old key remains valid during the grace period, so that its clients can switch to the new key, and its requests
+ * count toward the usage and the monthly quota of the new key.
+ *
+ * @param id - The identifier of the API key to rotate.
+ * @param gracePeriod - How long the old key remains valid, in seconds.
+ * @returns The new API token, with its secret key.
+ * @throws {AppError} Throws a 404 error if the key does not exist or is no longer active.
+ */
+export async function rotateApiKey(
+  id: string,
+  gracePeriod: number = config.apiKey.rotationGracePeriod,
+): Promise<ApiToken> {
+  const oldToken = await getDbClient().queryTokenById(id);
+  if (oldToken === undefined || !oldToken.isActive()) {
+    throw new AppError("404-06", "ERR-KEYS-A: API_KEY");
+  }
+
+  const newToken = new ApiToken();
+  newToken.id = uuidv7.generate();
+  newToken.key = generateApiKey();
+  newToken.userId = oldToken.userId;
+  newToken.rateLimit = oldToken.rateLimit;
+  newToken.rateBurst = oldToken.rateBurst;
+  newToken.monthlyQuota = oldToken.monthlyQuota;
+  newToken.operators = oldToken.operators;
+  newToken.routes = oldToken.routes;
+  newToken.readOnly = oldToken.readOnly;
+  newToken.allowFullData = oldToken.allowFullData;
+  newToken.allowRefresh = oldToken.allowRefresh;
+  newToken.createdAt = new Date().toISOString();
+  newToken.expiresAt = oldToken.expiresAt;
+  await getDbClient().insertToken(newToken);
+  await getDbClient().transferSubscriptions(id, newToken.id);
+  await getDbClient().transferUsage(id, newToken.id);
+  await getDbClient().linkRotatedToken(id, newToken.id);
+  await transferCarrierAccounts(id, newToken.id);
+
+  await getDbClient().revokeToken(id, new Date(Date.now() + gracePeriod * 1000).toISOString());
+  return newToken;
+}
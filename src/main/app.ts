@@ -23,6 +23,7 @@ import {
 } from "./model.ts";
 
 import { registerOperatorModule, setOperatorStatus } from "./gateway.ts";
+import { getConfiguredAccounts } from "./carrier_accounts.ts";
 import { whereIsAPI, logger } from "../tools/logger.ts";
 import { initConnection } from "../db/dbutil.ts";
 
@@ -124,8 +125,11 @@ export async function loadMetaData(): Promise<void> {
  *
  * Currently, it initializes the status for three operators:
  * - 'eg1': Activated unconditionally (push-based operator).
- * - 'fdx': Activated if FDX_CLIENT_ID and FDX_CLIENT_SECRET are set.
- * - 'sfex': Activated if SFEX_PARTNER_ID and SFEX_CHECK_WORD are set.
+ * - 'fdx': Activated if the credentials of one of its accounts are set (eg. FDX_CLIENT_ID and FDX_CLIENT_SECRET).
+ * - 'sfex': Activated if the credentials of one of its accounts are set (eg. SFEX_PARTNER_ID and SFEX_CHECK_WORD).
+ *
+ * The accounts are those of operators.jsonc in the selected environment (CARRIER_ENV). The FedEx and
+ * SF Express modules are created for each carrier account (see carrier_accounts.ts).
  *
  * @returns {void} This function doesn't return a value.
  */
@@ -133,13 +137,13 @@ export function initializeOperatorStatus(): void {
   setOperatorStatus("eg1", true);
   registerOperatorModule("eg1", new Eg1());
 
-  if (Deno.env.get("FDX_CLIENT_ID") && Deno.env.get("FDX_CLIENT_SECRET")) {
+  if (getConfiguredAccounts("fdx").length > 0) {
     setOperatorStatus("fdx", true);
-    registerOperatorModule("fdx", new Fdx());
+    registerOperatorModule("fdx", new Fdx(), (account) => new Fdx(account));
   }
 
-  if (Deno.env.get("SFEX_PARTNER_ID") && Deno.env.get("SFEX_CHECK_WORD")) {
+  if (getConfiguredAccounts("sfex").length > 0) {
     setOperatorStatus("sfex", true);
-    registerOperatorModule("sfex", new Sfex());
+    registerOperatorModule("sfex", new Sfex(), (account) => new Sfex(account));
   }
 }
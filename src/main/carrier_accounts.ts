@@ -0,0 +1,340 @@
+/**
+ * @file carrier_accounts.ts
+ * @description Carrier accounts used to request the data sources of the operators.
+ *
+ * The global accounts of an operator are set in operators.jsonc (`accounts`), each with its environment
+ * (production or sandbox), the URLs of the carrier API and the environment variables holding its credentials.
+ * Only the accounts of the environment selected by CARRIER_ENV (`environment` by default) are used. A pull
+ * uses the first account available (`accountSelection`: failover) or the next one in turn (round-robin), and
+ * moves to the next account if its circuit breaker is open or its quota is used up. Each account has its own
+ * quota, circuit breaker and access token; the first account keeps those of the operator.
+ *
+ * An API key or a user may also have its own account (eg. the FedEx account of a business unit, with its own
+ * quota and billing). The pulls requested with an API key use the account set for the key, else the account
+ * of its user, else the global accounts. The pulls of the scheduler use the global accounts. The credentials
+ * of these accounts are stored encrypted with CARRIER_CREDENTIALS_KEY, and the accounts resolved are kept in
+ * the memory of each process for `cacheTtl` seconds.
+ *
+ * @copyright (c) 2025, the Eagle1 authors
+ * @license BSD 3-Clause License
+ */
+
+import { v7 as uuidv7 } from "@std/uuid";
+
+import { config } from "../../config.ts";
+import { getDbClient } from "../db/dbutil.ts";
+import { decryptSecret, encryptSecret } from "../tools/util.ts";
+import { CarrierQuotaStatus, getCarrierQuotaStatus, isCarrierQuotaExhausted, QuotaPriority } from "./carrier_quota.ts";
+import { CircuitBreakerStatus, getCircuitBreakerStatus, isCircuitOpen } from "./circuit_breaker.ts";
+import { ApiToken, CarrierAccount, Entity, OperatorRegistry } from "./model.ts";
+
+/** The credentials of the carrier API required by each operator supporting carrier accounts */
+export const CARRIER_CREDENTIAL_FIELDS: Record<string, string[]> = {
+  fdx: ["clientId", "clientSecret"],
+  sfex: ["partnerId", "checkWord"],
+};
+
+/**
+ * The environment of a carrier API.
+ */
+export type CarrierEnvironment = "production" | "sandbox";
+
+/**
+ * A carrier account with its decrypted credentials, used by the operator modules.
+ */
+export type ResolvedCarrierAccount = {
+  /** The identifier of the account: its name for a global account, its UUID for the account of an API key */
+  id: string;
+  /** The environment of the carrier API */
+  environment: CarrierEnvironment;
+  /** The key of the quota, the circuit breaker and the access token of the account */
+  bucket: string;
+  /** The URLs of the carrier API (eg. apiUrl and trackApiUrl for fdx) */
+  urls: Record<string, string>;
+  /** The credentials of the carrier API (eg. clientId and clientSecret for fdx) */
+  credentials: Record<string, string>;
+  /** The maximum number of requests per second of the account, that of the operator if undefined */
+  requestsPerSecond?: number;
+  /** The maximum number of requests per day of the account, that of the operator if undefined */
+  requestsPerDay?: number;
+};
+
+/**
+ * A global account of an operator, as reported by GET /v0/operators.
+ */
+export type CarrierAccountStatus = {
+  /** The name of the account */
+  name: string;
+  /** The environment of the carrier API */
+  environment: CarrierEnvironment;
+  /** Whether the credentials of the account are set */
+  configured: boolean;
+  /** Whether the account is configured, its circuit breaker is not open and its daily quota is not exhausted */
+  healthy: boolean;
+  /** The circuit breaker of the account */
+  circuitBreaker: CircuitBreakerStatus;
+  /** The quota of the account, null if it has none */
+  quota: CarrierQuotaStatus | null;
+};
+
+/** The accounts resolved by operator and API key, undefined for the global accounts */
+const resolved: Map<string, { account?: ResolvedCarrierAccount; expiresAt: number }> = new Map();
+
+/** The number of pulls of each operator using round-robin, which gives the account of the next pull */
+const rotations: Map<string, number> = new Map();
+
+/**
+ * Gets the environment of the carrier APIs used by the application.
+ *
+ * @returns The environment set by CARRIER_ENV, else `environment`.
+ */
+export function getCarrierEnvironment(): CarrierEnvironment {
+  const environment = Deno.env.get("CARRIER_ENV") ?? config.carrierAccounts.environment;
+  return environment === "sandbox" ? "sandbox" : "production";
+}
+
+/**
+ * Gets the global accounts of an operator in the selected environment, in the order of operators.jsonc,
+ * with the credentials read from their environment variables.
+ *
+ * @param operator - The operator code.
+ * @returns The accounts, empty if the operator has none in this environment.
+ */
+export function getOperatorAccounts(operator: string): ResolvedCarrierAccount[] {
+  const environment = getCarrierEnvironment();
+  const entries = OperatorRegistry.getAccounts(operator).filter((entry) =>
+    (entry["environment"] === "sandbox" ? "sandbox" : "production") === environment
+  );
+  return entries.map((entry, idx) => {
+    const credentials: Record<string, string> = {};
+    for (const [field, variable] of Object.entries(toStrings(entry["credentials"]))) {
+      const value = Deno.env.get(variable);
+      if (value) credentials[field] = value;
+    }
+    const name = String(entry["name"] ?? idx + 1);
+    return {
+      id: name,
+      environment,
+      bucket: idx === 0 ? operator : `${operator}:${name}`,
+      urls: toStrings(entry["urls"]),
+      credentials,
+      requestsPerSecond: typeof entry["requestsPerSecond"] === "number" ? entry["requestsPerSecond"] : undefined,
+      requestsPerDay: typeof entry["requestsPerDay"] === "number" ? entry["requestsPerDay"] : undefined,
+    };
+  });
+}
+
+/**
+ * Checks if all the credentials of a carrier account are set.
+ *
+ * @param operator - The operator code.
+ * @param account - The account.
+ * @returns true if the account can request the data source.
+ */
+export function isAccountConfigured(operator: string, account: ResolvedCarrierAccount): boolean {
+  return (CARRIER_CREDENTIAL_FIELDS[operator] ?? []).every((field) => account.credentials[field]);
+}
+
+/**
+ * Gets the global accounts of an operator in the selected environment whose credentials are set.
+ *
+ * @param operator - The operator code.
+ * @returns The accounts, in the order of operators.jsonc.
+ */
+export function getConfiguredAccounts(operator: string): ResolvedCarrierAccount[] {
+  return getOperatorAccounts(operator).filter((account) => isAccountConfigured(operator, account));
+}
+
+/**
+ * Gets the global accounts of an operator a pull tries in turn: the configured accounts whose circuit
+ * breaker is not open first, in the order of operators.jsonc (failover) or starting from the next one
+ * (round-robin), then the others, which fail fast.
+ *
+ * @param operator - The operator code.
+ * @returns The configured accounts, empty if the operator has none.
+ */
+export function selectOperatorAccounts(operator: string): ResolvedCarrierAccount[] {
+  const accounts = getConfiguredAccounts(operator);
+  const available = accounts.filter((account) => !isCircuitOpen(account.bucket));
+  if (available.length > 1 && OperatorRegistry.getAccountSelection(operator) === "round-robin") {
+    const rotation = rotations.get(operator) ?? 0;
+    rotations.set(operator, rotation + 1);
+    const start = rotation % available.length;
+    available.push(...available.splice(0, start));
+  }
+  return [...available, ...accounts.filter((account) => !available.includes(account))];
+}
+
+/**
+ * Gets the status of the global accounts of an operator.
+ *
+ * @param operator - The operator code.
+ * @returns The status of each account, in the order of operators.jsonc.
+ */
+export async function getOperatorAccountStatus(operator: string): Promise<CarrierAccountStatus[]> {
+  const statuses: CarrierAccountStatus[] = [];
+  for (const account of getOperatorAccounts(operator)) {
+    const configured = isAccountConfigured(operator, account);
+    const circuitBreaker = getCircuitBreakerStatus(account.bucket);
+    statuses.push({
+      name: account.id,
+      environment: account.environment,
+      configured,
+      healthy: configured && circuitBreaker.state !== "open" &&
+        !await isCarrierQuotaExhausted(operator, "user", account),
+      circuitBreaker,
+      quota: await getCarrierQuotaStatus(operator, account),
+    });
+  }
+  return statuses;
+}
+
+/**
+ * Checks if the circuit breakers of all the configured global accounts of an operator are open.
+ *
+ * @param operator - The operator code.
+ * @returns true if no account can request the data source.
+ */
+export function isOperatorCircuitOpen(operator: string): boolean {
+  const accounts = getConfiguredAccounts(operator);
+  return accounts.length === 0 ? isCircuitOpen(operator) : accounts.every((account) => isCircuitOpen(account.bucket));
+}
+
+/**
+ * Checks if the daily quotas of all the configured global accounts of an operator are exhausted.
+ *
+ * @param operator - The operator code.
+ * @param priority - The priority of the requests.
+ * @returns true if no more request of this priority is accepted today.
+ */
+export async function isOperatorQuotaExhausted(operator: string, priority: QuotaPriority): Promise<boolean> {
+  const accounts = getConfiguredAccounts(operator);
+  if (accounts.length === 0) return await isCarrierQuotaExhausted(operator, priority);
+
+  for (const account of accounts) {
+    if (!await isCarrierQuotaExhausted(operator, priority, account)) return false;
+  }
+  return true;
+}
+
+/**
+ * Creates a carrier account for an API key or for a user.
+ *
+ * @param operator - The operator code.
+ * @param name - The display name of the account.
+ * @param owner - The API key, or the user whose API keys use the account.
+ * @param credentials - The credentials of the carrier API, encrypted before they are stored.
+ * @returns The account created.
+ */
+export async function createCarrierAccount(
+  operator: string,
+  name: string,
+  owner: { apiKey?: string; userId?: string },
+  credentials: Record<string, string>,
+): Promise<CarrierAccount> {
+  const account = new CarrierAccount();
+  account.id = uuidv7.generate();
+  account.operator = operator;
+  account.name = name;
+  account.apiKey = owner.apiKey;
+  account.userId = owner.apiKey === undefined ? owner.userId : undefined;
+  account.secret = await encryptSecret(JSON.stringify(credentials));
+  account.createdAt = new Date().toISOString();
+  await getDbClient().insertCarrierAccount(account);
+  resolved.clear();
+  return account;
+}
+
+/**
+ * Transfers the carrier accounts of a rotated API key to the key replacing it.
+ *
+ * @param oldApiKey - The identifier of the rotated API key.
+ * @param newApiKey - The identifier of the new API key.
+ * @returns The number of accounts transferred.
+ */
+export async function transferCarrierAccounts(oldApiKey: string, newApiKey: string): Promise<number> {
+  const transferred = await getDbClient().transferCarrierAccounts(oldApiKey, newApiKey);
+  resolved.clear();
+  return transferred;
+}
+
+/**
+ * Deletes a carrier account: the API keys using it fall back to the account of their user or to the global account.
+ *
+ * @param id - The identifier of the account.
+ * @returns true if the account was deleted, false if it does not exist.
+ */
+export async function deleteCarrierAccount(id: string): Promise<boolean> {
+  const deleted = await getDbClient().deleteCarrierAccount(id) > 0;
+  resolved.clear();
+  return deleted;
+}
+
+/**
+ * Resolves the carrier account used by an API key for an operator.
+ *
+ * @param operator - The operator code.
+ * @param apiToken - The API key of the request, undefined for the public routes (eg. GET /v0/status/:id).
+ * @returns The account with its credentials and the URLs of the first global account, or undefined if the global
+ *   accounts of the operator are used.
+ * @throws {AppError} Throws a 500 error if the credentials of the account cannot be decrypted.
+ */
+export async function resolveCarrierAccount(
+  operator: string,
+  apiToken?: ApiToken,
+): Promise<ResolvedCarrierAccount | undefined> {
+  if (apiToken === undefined || CARRIER_CREDENTIAL_FIELDS[operator] === undefined) return undefined;
+
+  const key = `${operator} ${apiToken.id}`;
+  const cached = resolved.get(key);
+  if (cached !== undefined && cached.expiresAt > Date.now()) {
+    return cached.account;
+  }
+
+  const account = await getDbClient().queryCarrierAccount(operator, apiToken.id, apiToken.userId);
+  let result: ResolvedCarrierAccount | undefined;
+  if (account !== undefined) {
+    const global = getOperatorAccounts(operator)[0];
+    result = {
+      id: account.id,
+      environment: getCarrierEnvironment(),
+      bucket: `${operator}:${account.id}`,
+      urls: global?.urls ?? {},
+      credentials: JSON.parse(await decryptSecret(account.secret)) as Record<string, string>,
+    };
+  }
+  resolved.set(key, { account: result, expiresAt: Date.now() + config.carrierAccounts.cacheTtl * 1000 });
+  return result;
+}
+
+/**
+ * Records on the events pulled from a carrier the account they were pulled with.
+ *
+ * @param entities - The entities pulled.
+ * @param updateMethod - The update method of the pull, which tells the pulled events from the generated ones.
+ * @param account - The carrier account of the pull.
+ */
+export function recordCarrierAccount(entities: Entity[], updateMethod: string, account: ResolvedCarrierAccount): void {
+  for (const entity of entities) {
+    for (const event of entity.events) {
+      if (event.additional?.updateMethod === updateMethod) {
+        event.additional.carrierAccount = account.id;
+      }
+    }
+  }
+}
+
+/**
+ * Reads the string values of an object of operators.jsonc.
+ *
+ * @param value - The object.
+ * @returns Its string values, empty if it is not an object.
+ */
+function toStrings(value: unknown): Record<string, string> {
+  if (typeof value !== "object" || value === null) return {};
+  return Object.fromEntries(
+    Object.entries(value as Record<string, unknown>).filter((entry): entry is [string, string] =>
+      typeof entry[1] === "string"
+    ),
+  );
+}
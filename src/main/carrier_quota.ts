@@ -0,0 +1,186 @@
+/**
+ * @file carrier_quota.ts
+ * @description Request quotas of the carrier data sources, one per carrier account: at most `requestsPerSecond`
+ * and `requestsPerDay` (UTC) requests, set in operators.jsonc for the operator or for each of its global accounts.
+ * The requests are counted in the database,
+ * so that the API server and the scheduler processes share the same budget.
+ * The requests of the clients have priority over the background pulls of the scheduler, which may only
+ * use `backgroundShare` of each quota. A request over the per-second quota waits for the next second,
+ * up to `maxWait` seconds, and a request over the per-day quota is rejected. The requests sent with the
+ * carrier accounts (see carrier_accounts.ts) are counted apart, the first global account of an operator
+ * using the quota of the operator.
+ *
+ * @copyright (c) 2025, the Eagle1 authors
+ * @license BSD 3-Clause License
+ */
+
+import { config } from "../../config.ts";
+import { getDbClient } from "../db/dbutil.ts";
+import { logger, whereIsAPI } from "../tools/logger.ts";
+import { ResolvedCarrierAccount } from "./carrier_accounts.ts";
+import { AppError, OperatorRegistry } from "./model.ts";
+
+/**
+ * The priority of a request to a carrier: requested by a client, or pulled in the background by the scheduler.
+ */
+export type QuotaPriority = "user" | "background";
+
+/**
+ * The quota of the data source of an operator, as reported by GET /v0/operators.
+ */
+export type CarrierQuotaStatus = {
+  /** The maximum number of requests per second, 0 for no limit */
+  requestsPerSecond: number;
+  /** The requests left in the current second, if limited */
+  remainingThisSecond?: number;
+  /** The maximum number of requests per day (UTC), 0 for no limit */
+  requestsPerDay: number;
+  /** The requests left today, if limited */
+  remainingToday?: number;
+  /** The requests left today to the background pulls of the scheduler, if limited */
+  backgroundRemainingToday?: number;
+  /** When the daily quota is reset (next midnight UTC) */
+  resetAt: string;
+};
+
+/**
+ * Gets the priority of the requests of a pull: the pulls of the scheduler run in the background.
+ *
+ * @param updateMethod - The update method of the pull (eg. manual-pull, auto-pull).
+ * @returns The priority of the requests.
+ */
+export function getQuotaPriority(updateMethod: string): QuotaPriority {
+  return updateMethod === "auto-pull" ? "background" : "user";
+}
+
+/**
+ * Counts a request to the data source of an operator in its quotas, waiting for the next second
+ * while the per-second quota is used up.
+ *
+ * @param operator - The operator code.
+ * @param priority - The priority of the request.
+ * @param account - The carrier account of the request, undefined for the quota of the operator.
+ * @throws {AppError} Throws a 503 error if the quota of the account is still used up after `maxWait` seconds,
+ *   or if its daily quota is exhausted.
+ */
+export async function acquireCarrierQuota(
+  operator: string,
+  priority: QuotaPriority,
+  account?: ResolvedCarrierAccount,
+): Promise<void> {
+  const bucket = account?.bucket ?? operator;
+  const { requestsPerSecond, requestsPerDay } = getQuota(operator, account);
+
+  if (requestsPerSecond > 0) {
+    const deadline = Date.now() + config.carrierQuota.maxWait * 1000;
+    const limit = getLimit(requestsPerSecond, priority);
+    for (;;) {
+      const second = Math.floor(Date.now() / 1000) * 1000;
+      const consumed = await getDbClient().consumeCarrierQuota(bucket, "second", new Date(second).toISOString(), limit);
+      if (consumed > 0) break;
+      if (second + 1000 > deadline) {
+        throw new AppError("503-02", `ERR-QUOTA-A: QUOTA_EXCEEDED[${bucket}]: ${limit} requests per second`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, second + 1000 - Date.now()));
+    }
+  }
+
+  if (requestsPerDay > 0) {
+    const limit = getLimit(requestsPerDay, priority);
+    const consumed = await getDbClient().consumeCarrierQuota(bucket, "day", getDayStart(), limit);
+    if (consumed === 0) {
+      logger.warn(`${whereIsAPI("data_monitor")} Daily quota of ${bucket} exhausted for the ${priority} requests (${limit})`);
+      throw new AppError("503-02", `ERR-QUOTA-B: QUOTA_EXHAUSTED[${bucket}]: ${limit} requests per day`);
+    }
+  }
+}
+
+/**
+ * Checks if the daily quota of an operator or of one of its carrier accounts is exhausted for the requests of a priority.
+ *
+ * @param operator - The operator code.
+ * @param priority - The priority of the requests.
+ * @param account - The carrier account, undefined for the quota of the operator.
+ * @returns true if no more request of this priority is accepted today.
+ */
+export async function isCarrierQuotaExhausted(
+  operator: string,
+  priority: QuotaPriority,
+  account?: ResolvedCarrierAccount,
+): Promise<boolean> {
+  const { requestsPerDay } = getQuota(operator, account);
+  if (requestsPerDay === 0) return false;
+
+  const used = await getDbClient().queryCarrierQuotaUsage(account?.bucket ?? operator, "day", getDayStart());
+  return used >= getLimit(requestsPerDay, priority);
+}
+
+/**
+ * Gets the quota of the data source of an operator or of one of its carrier accounts and the requests left.
+ *
+ * @param operator - The operator code.
+ * @param account - The carrier account, undefined for the quota of the operator.
+ * @returns The status of the quota, or null if there is no quota.
+ */
+export async function getCarrierQuotaStatus(
+  operator: string,
+  account?: ResolvedCarrierAccount,
+): Promise<CarrierQuotaStatus | null> {
+  const bucket = account?.bucket ?? operator;
+  const { requestsPerSecond, requestsPerDay } = getQuota(operator, account);
+  if (requestsPerSecond === 0 && requestsPerDay === 0) return null;
+
+  const dayStart = getDayStart();
+  const second = new Date(Math.floor(Date.now() / 1000) * 1000).toISOString();
+  const usedThisSecond = requestsPerSecond > 0 ? await getDbClient().queryCarrierQuotaUsage(bucket, "second", second) : 0;
+  const usedToday = requestsPerDay > 0 ? await getDbClient().queryCarrierQuotaUsage(bucket, "day", dayStart) : 0;
+  return {
+    requestsPerSecond,
+    remainingThisSecond: requestsPerSecond > 0 ? Math.max(0, requestsPerSecond - usedThisSecond) : undefined,
+    requestsPerDay,
+    remainingToday: requestsPerDay > 0 ? Math.max(0, requestsPerDay - usedToday) : undefined,
+    backgroundRemainingToday: requestsPerDay > 0
+      ? Math.max(0, getLimit(requestsPerDay, "background") - usedToday)
+      : undefined,
+    resetAt: new Date(Date.parse(dayStart) + 86400000).toISOString(),
+  };
+}
+
+/**
+ * Gets the quotas of a carrier account, those of the operator if the account does not set them.
+ *
+ * @param operator - The operator code.
+ * @param account - The carrier account, undefined for the quota of the operator.
+ * @returns The maximum numbers of requests per second and per day, 0 for no limit.
+ */
+function getQuota(operator: string, account?: ResolvedCarrierAccount): { requestsPerSecond: number; requestsPerDay: number } {
+  return {
+    requestsPerSecond: Math.floor(
+      account?.requestsPerSecond ?? OperatorRegistry.getRequestsPerSecond(operator, config.carrierQuota.requestsPerSecond),
+    ),
+    requestsPerDay: Math.floor(
+      account?.requestsPerDay ?? OperatorRegistry.getRequestsPerDay(operator, config.carrierQuota.requestsPerDay),
+    ),
+  };
+}
+
+/**
+ * Computes the requests of a priority accepted in a quota window: the background requests only
+ * use `backgroundShare` of the quota, at least one request.
+ *
+ * @param quota - The quota of the window.
+ * @param priority - The priority of the requests.
+ * @returns The maximum number of requests counted in the window.
+ */
+function getLimit(quota: number, priority: QuotaPriority): number {
+  return priority === "user" ? quota : Math.max(1, Math.floor(quota * config.carrierQuota.backgroundShare));
+}
+
+/**
+ * Gets the start of the current daily quota window.
+ *
+ * @returns Today's midnight UTC (ISO 8601).
+ */
+function getDayStart(): string {
+  return `${new Date().toISOString().substring(0, 10)}T00:00:00.000Z`;
+}
@@ -0,0 +1,111 @@
+/**
+ * @file circuit_breaker.ts
+ * @description Circuit breakers of the carrier data sources, one per operator.
+ * A breaker is closed while the data source answers. It opens after `failureThreshold` consecutive
+ * failed requests (network errors, timeouts, 5xx or 429 responses once the retries are exhausted),
+ * so that the requests to the operator fail fast instead of waiting for the data source.
+ * After `cooldown` seconds the breaker is half-open: the next requests are sent to the data source,
+ * the first success closes the breaker and the first failure opens it again.
+ * The breakers are kept in the memory of each process (API server and scheduler).
+ *
+ * @copyright (c) 2025, the Eagle1 authors
+ * @license BSD 3-Clause License
+ */
+
+import { config } from "../../config.ts";
+import { logger, whereIsAPI } from "../tools/logger.ts";
+
+/**
+ * The state of the circuit breaker of an operator.
+ */
+export type CircuitState = "closed" | "open" | "half-open";
+
+/**
+ * The circuit breaker of an operator, as reported by GET /v0/operators.
+ */
+export type CircuitBreakerStatus = {
+  /** The state of the breaker */
+  state: CircuitState;
+  /** The consecutive failures of the data source */
+  failures: number;
+  /** When the breaker opened, if it is not closed */
+  openedAt?: string;
+  /** When the breaker lets the requests through again, if it is open */
+  retryAt?: string;
+};
+
+type Breaker = {
+  failures: number;
+  openedAt?: number;
+};
+
+const breakers: Map<string, Breaker> = new Map();
+
+/**
+ * Gets the status of the circuit breaker of an operator.
+ *
+ * @param operator - The operator code.
+ * @returns The status of the breaker.
+ */
+export function getCircuitBreakerStatus(operator: string): CircuitBreakerStatus {
+  const breaker = breakers.get(operator);
+  if (breaker?.openedAt === undefined) {
+    return { state: "closed", failures: breaker?.failures ?? 0 };
+  }
+
+  const retryAt = breaker.openedAt + config.circuitBreaker.cooldown * 1000;
+  if (Date.now() < retryAt) {
+    return {
+      state: "open",
+      failures: breaker.failures,
+      openedAt: new Date(breaker.openedAt).toISOString(),
+      retryAt: new Date(retryAt).toISOString(),
+    };
+  }
+  return { state: "half-open", failures: breaker.failures, openedAt: new Date(breaker.openedAt).toISOString() };
+}
+
+/**
+ * Checks if the circuit breaker of an operator is open, i.e. if its data source must not be requested.
+ *
+ * @param operator - The operator code.
+ * @returns true if the breaker is open.
+ */
+export function isCircuitOpen(operator: string): boolean {
+  return getCircuitBreakerStatus(operator).state === "open";
+}
+
+/**
+ * Records a request that the data source of an operator answered, and closes its breaker.
+ *
+ * @param operator - The operator code.
+ */
+export function recordSuccess(operator: string): void {
+  const breaker = breakers.get(operator);
+  if (breaker === undefined) return;
+
+  if (breaker.openedAt !== undefined) {
+    logger.info(`${whereIsAPI("data_monitor")} Circuit breaker of ${operator} closed`);
+  }
+  breakers.delete(operator);
+}
+
+/**
+ * Records a failed request to the data source of an operator, and opens its breaker
+ * if the failures reach the threshold or if the breaker is half-open.
+ *
+ * @param operator - The operator code.
+ */
+export function recordFailure(operator: string): void {
+  const breaker = breakers.get(operator) ?? { failures: 0 };
+  breaker.failures++;
+  breakers.set(operator, breaker);
+
+  const state = getCircuitBreakerStatus(operator).state;
+  if ((state === "closed" && breaker.failures >= config.circuitBreaker.failureThreshold) || state === "half-open") {
+    breaker.openedAt = Date.now();
+    logger.error(
+      `${whereIsAPI("exception")} Circuit breaker of ${operator} opened after ${breaker.failures} consecutive failures`,
+    );
+  }
+}
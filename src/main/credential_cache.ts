@@ -0,0 +1,210 @@
+/**
+ * @file credential_cache.ts
+ * @description Cache of the access tokens of the carrier APIs (eg. FedEx OAuth), shared by the API server
+ * workers and the scheduler processes. A token is kept in the memory of each process, and in a credential
+ * store (the database by default, ie. the database file with SQLite) so that the other processes reuse it
+ * instead of fetching their own, including after a restart. A token is refreshed `expiryMargin` seconds
+ * before it expires, by a single process at a time: the process holding the refresh lock of the credential
+ * fetches the new token while the others wait for it in the store. The lock expires after `lockDuration`
+ * seconds, so that a process that died while refreshing does not block the others.
+ *
+ * @copyright (c) 2025, the Eagle1 authors
+ * @license BSD 3-Clause License
+ */
+
+import { v7 as uuidv7 } from "@std/uuid";
+
+import { config } from "../../config.ts";
+import { getDbClient } from "../db/dbutil.ts";
+import { logger, whereIsAPI } from "../tools/logger.ts";
+import { AppError, CarrierCredential } from "./model.ts";
+
+/**
+ * An access token fetched from a carrier API.
+ */
+export type FetchedCredential = {
+  /** The access token */
+  token: string;
+  /** The lifetime of the token, in seconds */
+  expiresIn: number;
+};
+
+/**
+ * Fetches a new access token from a carrier API.
+ */
+export type CredentialFetcher = () => Promise<FetchedCredential>;
+
+/**
+ * The storage of the carrier credentials shared by the processes, with the refresh locks.
+ */
+export interface CredentialStore {
+  /**
+   * Retrieves a stored credential.
+   * @param name - The name of the credential (ex: fdx)
+   * @returns The credential, or undefined if none is stored
+   */
+  get(name: string): Promise<CarrierCredential | undefined>;
+
+  /**
+   * Takes the refresh lock of a credential if it is free, expired or already held by the process.
+   * @param name - The name of the credential
+   * @param owner - The identifier of the process
+   * @param lockUntil - The expiry of the lock (ISO 8601)
+   * @returns true if the lock was taken
+   */
+  lock(name: string, owner: string, lockUntil: string): Promise<boolean>;
+
+  /**
+   * Stores a credential.
+   * @param credential - The credential with its token and expiry
+   */
+  save(credential: CarrierCredential): Promise<void>;
+
+  /**
+   * Releases the refresh lock of a credential held by the process.
+   * @param name - The name of the credential
+   * @param owner - The identifier of the process
+   */
+  unlock(name: string, owner: string): Promise<void>;
+}
+
+/**
+ * The credential store backed by the database of the application.
+ */
+export class DbCredentialStore implements CredentialStore {
+  async get(name: string): Promise<CarrierCredential | undefined> {
+    return await getDbClient().queryCarrierCredential(name);
+  }
+
+  async lock(name: string, owner: string, lockUntil: string): Promise<boolean> {
+    return await getDbClient().lockCarrierCredential(name, owner, new Date().toISOString(), lockUntil) > 0;
+  }
+
+  async save(credential: CarrierCredential): Promise<void> {
+    await getDbClient().saveCarrierCredential(credential);
+  }
+
+  async unlock(name: string, owner: string): Promise<void> {
+    await getDbClient().unlockCarrierCredential(name, owner);
+  }
+}
+
+/** The identifier of the process in the refresh locks */
+const OWNER = uuidv7.generate();
+
+let store: CredentialStore = new DbCredentialStore();
+
+/** The tokens cached in the memory of the process, by credential name */
+const credentials: Map<string, CarrierCredential> = new Map();
+
+/** The token loads in progress in the process, shared by the concurrent callers */
+const loads: Map<string, Promise<string>> = new Map();
+
+/**
+ * Replaces the credential store, eg. by a store shared with other applications.
+ *
+ * @param credentialStore - The new store.
+ */
+export function setCredentialStore(credentialStore: CredentialStore): void {
+  store = credentialStore;
+  credentials.clear();
+}
+
+/**
+ * Gets a valid access token of a carrier API: from the memory of the process, else from the credential
+ * store, else from the carrier once the refresh lock of the credential has been taken.
+ *
+ * @param name - The name of the credential (ex: fdx).
+ * @param fetchCredential - Fetches a new token from the carrier.
+ * @returns The access token.
+ * @throws {AppError} Throws a 500 error if the token is still being refreshed by another process after twice `lockDuration`.
+ * @throws {Error} The error of the carrier if the token cannot be fetched.
+ */
+export async function getCarrierToken(name: string, fetchCredential: CredentialFetcher): Promise<string> {
+  const cached = credentials.get(name);
+  if (cached?.token !== undefined && isValid(cached)) {
+    return cached.token;
+  }
+
+  let load = loads.get(name);
+  if (load === undefined) {
+    load = loadToken(name, fetchCredential);
+    loads.set(name, load);
+  }
+  try {
+    return await load;
+  } finally {
+    if (loads.get(name) === load) loads.delete(name);
+  }
+}
+
+/**
+ * Loads a valid token from the credential store, or refreshes it if the process takes the refresh lock,
+ * or waits for the process holding the lock to store it.
+ *
+ * @param name - The name of the credential.
+ * @param fetchCredential - Fetches a new token from the carrier.
+ * @returns The access token.
+ */
+async function loadToken(name: string, fetchCredential: CredentialFetcher): Promise<string> {
+  const deadline = Date.now() + config.credentialCache.lockDuration * 2000;
+  for (;;) {
+    const stored = await store.get(name);
+    if (stored?.token !== undefined && isValid(stored)) {
+      credentials.set(name, stored);
+      return stored.token;
+    }
+
+    const lockUntil = new Date(Date.now() + config.credentialCache.lockDuration * 1000).toISOString();
+    if (await store.lock(name, OWNER, lockUntil)) {
+      try {
+        return await refreshToken(name, fetchCredential);
+      } finally {
+        await store.unlock(name, OWNER);
+      }
+    }
+
+    if (Date.now() >= deadline) {
+      throw new AppError("500-02", `ERR-CREDENTIAL-A: TOKEN_REFRESH_TIMEOUT[${name}]`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, config.credentialCache.pollInterval));
+  }
+}
+
+/**
+ * Fetches a new token while holding the refresh lock, unless another process stored one before the lock was taken.
+ *
+ * @param name - The name of the credential.
+ * @param fetchCredential - Fetches a new token from the carrier.
+ * @returns The access token.
+ */
+async function refreshToken(name: string, fetchCredential: CredentialFetcher): Promise<string> {
+  const stored = await store.get(name);
+  if (stored?.token !== undefined && isValid(stored)) {
+    credentials.set(name, stored);
+    return stored.token;
+  }
+
+  const fetched = await fetchCredential();
+  const now = Date.now();
+  const credential = new CarrierCredential();
+  credential.name = name;
+  credential.token = fetched.token;
+  credential.expiresAt = new Date(now + fetched.expiresIn * 1000).toISOString();
+  credential.updatedAt = new Date(now).toISOString();
+  await store.save(credential);
+  credentials.set(name, credential);
+  logger.info(`${whereIsAPI("data_monitor")} Access token of ${name} refreshed, valid until ${credential.expiresAt}`);
+  return credential.token;
+}
+
+/**
+ * Checks if a token is valid for at least `expiryMargin` seconds.
+ *
+ * @param credential - The credential.
+ * @returns true if the token can be used.
+ */
+function isValid(credential: CarrierCredential): boolean {
+  return credential.expiresAt !== undefined &&
+    Date.parse(credential.expiresAt) - config.credentialCache.expiryMargin * 1000 > Date.now();
+}
@@ -7,9 +7,16 @@
  * @license BSD 3-Clause License
  */
 
-import { HonoRequest } from "hono/request";
+import { v7 as uuidv7 } from "@std/uuid";
+
+import { config } from "../../config.ts";
+import { getDbClient } from "../db/dbutil.ts";
 import { AppError, Entity, OperatorRegistry, TrackingID } from "./model.ts";
-import { OperatorModule } from "./operator.ts";
+import { OperatorModule, PushResult } from "./operator.ts";
+import { ResolvedCarrierAccount, selectOperatorAccounts } from "./carrier_accounts.ts";
+import { isCircuitOpen } from "./circuit_breaker.ts";
+import { getNextPollAt } from "./polling.ts";
+import { logger, whereIsAPI } from "../tools/logger.ts";
 
 // Define a type for the operator status
 type OperatorStatus = {
@@ -22,6 +29,17 @@ const operatorStatus: OperatorStatus = {};
 // Registry for operator modules
 const operatorModules: Record<string, OperatorModule> = {};
 
+/**
+ * Creates the module of an operator requesting its data source with a carrier account.
+ */
+export type OperatorModuleFactory = (account: ResolvedCarrierAccount) => OperatorModule;
+
+// Registry for the factories of the operator modules supporting carrier accounts
+const operatorModuleFactories: Record<string, OperatorModuleFactory> = {};
+
+// The operator modules of the carrier accounts, by operator code and account identifier
+const accountModules: Map<string, OperatorModule> = new Map();
+
 /**
  * Checks if a given operator is active.
  *
@@ -51,9 +69,13 @@ export function setOperatorStatus(operator: string, status: boolean): void {
  *
  * @param {string} operatorCode - The operator code to register
  * @param {OperatorModule} module - The operator module implementing the OperatorModule interface
+ * @param {OperatorModuleFactory} factory - Creates the module of a carrier account, if the operator supports them
  */
-export function registerOperatorModule(operatorCode: string, module: OperatorModule): void {
+export function registerOperatorModule(operatorCode: string, module: OperatorModule, factory?: OperatorModuleFactory): void {
   operatorModules[operatorCode] = module;
+  if (factory) {
+    operatorModuleFactories[operatorCode] = factory;
+  }
 }
 
 export function validateTrackingNum(operator: string, trackingNum: string): void {
@@ -62,10 +84,39 @@ export function validateTrackingNum(operator: string, trackingNum: string): void
   operatorModule.validateTrackingNum(trackingNum);
 }
 
-export function getExtraParams(operator: string, req: HonoRequest): Record<string, string> {
+/**
+ * An operator that may own a tracking number without operator prefix.
+ */
+export type OperatorCandidate = {
+  operator: string;
+  confidence: number;
+};
+
+/**
+ * Detects the operators that may own a tracking number without operator prefix
+ * by asking every active operator module.
+ *
+ * @param {string} trackingNum - The tracking number without operator prefix (e.g., "779879860040").
+ * @returns {OperatorCandidate[]} The matching operators, the most likely first.
+ */
+export function detectOperators(trackingNum: string): OperatorCandidate[] {
+  const candidates: OperatorCandidate[] = [];
+  for (const operator of OperatorRegistry.getActiveOperatorCodes()) {
+    const operatorModule = operatorModules[operator];
+    if (!operatorModule || !isOperatorActive(operator)) continue;
+
+    const confidence = operatorModule.detectTrackingNum(trackingNum);
+    if (confidence > 0) {
+      candidates.push({ operator, confidence });
+    }
+  }
+  return candidates.sort((a, b) => b.confidence - a.confidence);
+}
+
+export function getExtraParams(operator: string, params: Record<string, string>): Record<string, string> {
   const operatorModule = getOperatorModule(operator);
 
-  return operatorModule.getExtraParams(req.query());
+  return operatorModule.getExtraParams(params);
 }
 
 export function validateParams(operator: string, trackingId: TrackingID, params: Record<string, string>): boolean {
@@ -80,21 +131,210 @@ export function validateStoredEntity(operator: string, entity: Entity, params: R
   return operatorModule.validateStoredEntity(entity, params);
 }
 
+/**
+ * Handles the entities pulled from a carrier (eg: stores them in the database).
+ * Called once per pull, whatever the number of callers sharing it.
+ */
+export type PullHandler = (entities: Entity[]) => Promise<void>;
+
+/** The pulls in flight keyed by tracking ID and parameters, shared by the concurrent callers */
+const pullsInFlight: Map<string, Promise<Entity | undefined>> = new Map();
+
 /**
  * Asynchronously retrieves the location information for a given tracking ID.
  * Supports different carriers (SF Express and FedEx) and handles their specific implementations.
  *
+ * Concurrent requests for the same tracking ID and parameters share a single pull: a tracking ID
+ * already being pulled is not requested from the carrier again, its caller awaits the pull in flight
+ * instead, and the pulled entity is handled once, by the handler of the caller that started the pull.
+ * Across processes (eg. the scheduler and the API server workers), the pull of a tracking ID is claimed
+ * in the database: a tracking ID being pulled by another process is awaited until that process has stored it
+ * (see pullUnclaimed).
+ *
+ * Without the carrier account of an API key, the pull uses the global accounts of the operator, moving
+ * to the next account while the circuit breaker of an account is open or its quota is used up.
+ *
  * @param {string} operator - The carrier code (e.g., "sfex" for SF Express or "fdx" for FedEx)
  * @param {TrackingID} trackingIds - The tracking identifier containing carrier and tracking number
  * @param {Record<string, string>} extraParams - Additional parameters for SF Express tracking requests
  * @param {string} updateMethod - The method to use for updating tracking information
- * @returns {Promise<Entity[]>} A promise that resolves to the tracking entities
+ * @param {PullHandler} onPulled - Handles the entities pulled by this call before they are returned to every caller
+ * @param {ResolvedCarrierAccount} account - The carrier account of the request, undefined for the global accounts
+ * @returns {Promise<Entity[]>} A promise that resolves to the tracking entities, stamped with the time of the pull
+ *   and the time of their next poll
+ * @throws {AppError} Throws a 503 error while the circuit breakers of the accounts are open or their quotas used up
  * @async
  */
-export async function requestWhereIs(operator: string, trackingIds: TrackingID[], extraParams: Record<string, string>, updateMethod: string,): Promise<Entity[]> {
-  const operatorModule = getOperatorModule(operator);
+export async function requestWhereIs(
+  operator: string,
+  trackingIds: TrackingID[],
+  extraParams: Record<string, string>,
+  updateMethod: string,
+  onPulled?: PullHandler,
+  account?: ResolvedCarrierAccount,
+): Promise<Entity[]> {
+  getOperatorModule(operator);
+
+  // join the pulls in flight of the same carrier account, pull the other tracking IDs
+  const paramsKey = JSON.stringify([account?.id ?? null, ...Object.entries(extraParams).sort()]);
+  const sharedPulls: Promise<Entity | undefined>[] = [];
+  const trackingIdsToPull: TrackingID[] = [];
+  for (const trackingId of trackingIds) {
+    const sharedPull = pullsInFlight.get(`${trackingId.toString()} ${paramsKey}`);
+    if (sharedPull) {
+      sharedPulls.push(sharedPull);
+    } else {
+      trackingIdsToPull.push(trackingId);
+    }
+  }
+
+  let entities: Entity[] = [];
+  if (trackingIdsToPull.length > 0) {
+    const pull = pullUnclaimed(operator, trackingIdsToPull, extraParams, updateMethod, onPulled, account);
+    const keys = trackingIdsToPull.map((trackingId) => `${trackingId.toString()} ${paramsKey}`);
+    for (const [idx, key] of keys.entries()) {
+      const id = trackingIdsToPull[idx].toString();
+      const entityPull = pull.then((pulled) => pulled.find((entity) => entity.id === id));
+      // a failed pull is reported to the callers awaiting it
+      entityPull.catch(() => {});
+      pullsInFlight.set(key, entityPull);
+    }
+
+    try {
+      entities = await pull;
+    } finally {
+      for (const key of keys) {
+        pullsInFlight.delete(key);
+      }
+    }
+  }
+
+  for (const entity of await Promise.all(sharedPulls)) {
+    if (entity !== undefined) {
+      entities.push(entity);
+    }
+  }
+  return entities;
+}
+
+/**
+ * Pulls tracking IDs from the data source of an operator, unless another process is pulling them.
+ * The tracking IDs whose pull is claimed by this call are pulled, and their claims released once the pulled
+ * entities have been handled. The others are awaited: their entity is read from the database once the process
+ * holding their claim has stored it, or they are pulled by this call once their claim has been released
+ * (or has expired) without a matching entity being stored, eg. when the carrier has no data for them.
+ *
+ * @param {string} operator - The carrier code
+ * @param {TrackingID[]} trackingIds - The tracking IDs to pull
+ * @param {Record<string, string>} extraParams - Additional parameters of the carrier
+ * @param {string} updateMethod - The method to use for updating tracking information
+ * @param {PullHandler} onPulled - Handles the entities pulled by this call
+ * @param {ResolvedCarrierAccount} account - The carrier account of the pull, undefined for the global accounts
+ * @returns {Promise<Entity[]>} A promise that resolves to the entities pulled by this call or by another process
+ * @throws {AppError} Throws a 400 error if an entity stored by another process does not match the parameters
+ */
+async function pullUnclaimed(
+  operator: string,
+  trackingIds: TrackingID[],
+  extraParams: Record<string, string>,
+  updateMethod: string,
+  onPulled?: PullHandler,
+  account?: ResolvedCarrierAccount,
+): Promise<Entity[]> {
+  const owner = uuidv7.generate();
+  const since = new Date().toISOString();
+  const entities: Entity[] = [];
+  let awaited = trackingIds;
+  for (;;) {
+    const claimed: TrackingID[] = [];
+    const claimUntil = new Date(Date.now() + config.pullClaim.duration * 1000).toISOString();
+    for (const trackingId of awaited) {
+      if (await getDbClient().claimPull(trackingId.toString(), owner, new Date().toISOString(), claimUntil) > 0) {
+        claimed.push(trackingId);
+      }
+    }
+
+    // the tracking IDs pulled and stored by another process since the call, including those whose claim
+    // has just been released by that process
+    const stored: TrackingID[] = [];
+    try {
+      for (const trackingId of awaited) {
+        const entity = await getDbClient().queryEntity(trackingId);
+        // Throws AppError if the entity does not match the parameters
+        if (entity?.lastPulledAt !== undefined && entity.lastPulledAt >= since &&
+          validateStoredEntity(operator, entity, extraParams)) {
+          entities.push(entity);
+          stored.push(trackingId);
+        }
+      }
+      const toPull = claimed.filter((trackingId) => !stored.includes(trackingId));
+      if (toPull.length > 0) {
+        entities.push(...await pullFromSource(operator, toPull, extraParams, updateMethod, onPulled, account));
+      }
+    } finally {
+      for (const trackingId of claimed) {
+        await getDbClient().releasePull(trackingId.toString(), owner);
+      }
+    }
+
+    awaited = awaited.filter((trackingId) => !claimed.includes(trackingId) && !stored.includes(trackingId));
+    if (awaited.length === 0) {
+      return entities;
+    }
+    await new Promise((resolve) => setTimeout(resolve, config.pullClaim.pollInterval));
+  }
+}
+
+/**
+ * Pulls tracking IDs from the data source of an operator and hands the entities to the handler of the pull.
+ *
+ * @param {string} operator - The carrier code
+ * @param {TrackingID[]} trackingIds - The tracking IDs to pull
+ * @param {Record<string, string>} extraParams - Additional parameters of the carrier
+ * @param {string} updateMethod - The method to use for updating tracking information
+ * @param {PullHandler} onPulled - Handles the entities pulled
+ * @param {ResolvedCarrierAccount} account - The carrier account of the pull, undefined for the global accounts
+ * @returns {Promise<Entity[]>} A promise that resolves to the tracking entities, stamped with the time of the pull
+ *   and the time of their next poll by the scheduler
+ */
+async function pullFromSource(
+  operator: string,
+  trackingIds: TrackingID[],
+  extraParams: Record<string, string>,
+  updateMethod: string,
+  onPulled?: PullHandler,
+  account?: ResolvedCarrierAccount,
+): Promise<Entity[]> {
+  const accounts: (ResolvedCarrierAccount | undefined)[] = account ? [account] : selectOperatorAccounts(operator);
+  if (accounts.length === 0) {
+    accounts.push(undefined);
+  }
 
-  return await operatorModule.pullFromSource(trackingIds, extraParams, updateMethod);
+  let entities: Entity[] = [];
+  for (const [idx, candidate] of accounts.entries()) {
+    try {
+      entities = await getOperatorModule(operator, true, candidate).pullFromSource(trackingIds, extraParams, updateMethod);
+      break;
+    } catch (err) {
+      // a 503 error tells that the data source cannot be requested with this account for now
+      if (idx === accounts.length - 1 || !(err instanceof AppError) || !err.code.startsWith("503-")) {
+        throw err;
+      }
+      logger.warn(
+        `${whereIsAPI("data_monitor")} Account ${candidate?.id} of ${operator} unavailable (${err.uniqueString}), trying ${accounts[idx + 1]?.id}`,
+      );
+    }
+  }
+  const now = Date.now();
+  const lastPulledAt = new Date(now).toISOString();
+  for (const entity of entities) {
+    entity.lastPulledAt = lastPulledAt;
+    entity.nextPollAt = getNextPollAt(operator, entity, now);
+  }
+  if (onPulled) {
+    await onPulled(entities);
+  }
+  return entities;
 }
 
 /**
@@ -112,7 +352,91 @@ export function processPushData(operator: string, trackingData: Record<string, u
   return operatorModule.processPushData(trackingData);
 }
 
-export function getOperatorModule(operator: string): OperatorModule {
+/**
+ * Checks if the pushes of an active operator are authenticated by their signature instead of an API key.
+ *
+ * @param operator - The operator code
+ * @returns true if the operator signs its pushes
+ */
+export function isPushSigned(operator: string): boolean {
+  return operatorModules[operator]?.verifyPushSignature !== undefined && isOperatorActive(operator);
+}
+
+/**
+ * Verifies the signature of a push of an operator signing its pushes.
+ *
+ * @param operator - The operator code
+ * @param headers - The headers of the push request, with lowercase names
+ * @param body - The raw body of the push request
+ * @throws {AppError} Throws a 401 error if the signature is missing or invalid
+ */
+export async function verifyPushSignature(operator: string, headers: Record<string, string>, body: string): Promise<void> {
+  const operatorModule = getOperatorModule(operator);
+  if (!operatorModule.verifyPushSignature) {
+    throw new AppError("404-02", `ERR-GATEWAY-F: PUSH_NOT_SIGNED[${operator}]`);
+  }
+  await operatorModule.verifyPushSignature(headers, body);
+}
+
+/**
+ * Builds the reply to a push: the acknowledgement expected by the operator if it defines one, else the push result.
+ *
+ * @param operator - The operator code
+ * @param result - The outcome of the push
+ * @returns The body of the reply
+ */
+export function acknowledgePush(operator: string, result: PushResult): Record<string, unknown> {
+  const operatorModule = getOperatorModule(operator);
+
+  return operatorModule.acknowledgePush ? operatorModule.acknowledgePush(result) : result;
+}
+
+/**
+ * Builds the reply to a failed push in the format expected by the operator, if it defines an acknowledgement.
+ *
+ * @param operator - The operator code
+ * @param error - The error failing the push
+ * @returns The body of the reply, or undefined if the operator is inactive or has no acknowledgement format
+ */
+export function acknowledgePushError(operator: string, error: AppError): Record<string, unknown> | undefined {
+  const operatorModule = operatorModules[operator];
+  if (!operatorModule?.acknowledgePush || !isOperatorActive(operator)) {
+    return undefined;
+  }
+  return operatorModule.acknowledgePush(error);
+}
+
+/**
+ * Subscribes a tracking ID to the pushes of its operator.
+ *
+ * @param trackingId - The tracking ID to subscribe
+ * @param extraParams - The carrier-specific parameters of the tracking ID
+ * @param account - The carrier account of the request, undefined for the global accounts
+ * @throws {AppError} Throws a 404 error if the operator does not support push subscriptions
+ */
+export async function registerPush(
+  trackingId: TrackingID,
+  extraParams: Record<string, string>,
+  account?: ResolvedCarrierAccount,
+): Promise<void> {
+  const operatorModule = getOperatorModule(trackingId.operator, false, account);
+  if (!operatorModule.registerPush) {
+    throw new AppError("404-02", `ERR-GATEWAY-G: PUSH_REGISTRATION_NOT_SUPPORTED[${trackingId.operator}]`);
+  }
+  await operatorModule.registerPush(trackingId, extraParams);
+}
+
+/**
+ * Gets the module of an active operator.
+ *
+ * @param {string} operator - The operator code
+ * @param {boolean} pull - Whether the module is about to request the data source of the operator.
+ *   The request then fails fast while the circuit breaker of the account is open.
+ * @param {ResolvedCarrierAccount} account - The carrier account requesting the data source, undefined for the default module
+ * @returns {OperatorModule} The operator module
+ * @throws {AppError} Throws a 503 error if the data source is requested while the circuit breaker is open.
+ */
+export function getOperatorModule(operator: string, pull: boolean = false, account?: ResolvedCarrierAccount): OperatorModule {
   const operatorModule = operatorModules[operator];
   if (!operatorModule) {
     throw new AppError("500-01", `ERR-GATEWAY-C: Operator module not found: ${operator}`);
@@ -120,5 +444,22 @@ export function getOperatorModule(operator: string): OperatorModule {
   if (!isOperatorActive(operator)) {
     throw new AppError("500-01", "ERR-GATEWAY-A: INACTIVE_OPERATOR");
   }
-  return operatorModule;
+  if (pull && isCircuitOpen(account?.bucket ?? operator)) {
+    throw new AppError("503-01", `ERR-GATEWAY-D: CIRCUIT_OPEN[${account?.bucket ?? operator}]`);
+  }
+  if (account === undefined) {
+    return operatorModule;
+  }
+
+  const key = `${operator} ${account.id}`;
+  let accountModule = accountModules.get(key);
+  if (!accountModule) {
+    const factory = operatorModuleFactories[operator];
+    if (!factory) {
+      throw new AppError("500-01", `ERR-GATEWAY-E: Operator does not support carrier accounts: ${operator}`);
+    }
+    accountModule = factory(account);
+    accountModules.set(key, accountModule);
+  }
+  return accountModule;
 }
\ No newline at end of file
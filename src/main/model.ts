@@ -6,7 +6,7 @@
  * @license BSD 3-Clause License
  */
 
-import { validateTrackingNum } from "./gateway.ts";
+import { detectOperators, validateTrackingNum } from "./gateway.ts";
 
 export class StatusCode {
   /** @private Singleton instance of StatusCode */
@@ -214,6 +214,32 @@ export class TrackingID {
     return new TrackingID(lowerCaseOperator, trackingNum);
   }
 
+  /**
+   * Parses a tracking ID string like parse(), but also accepts a tracking number without operator prefix.
+   * The operator of such a tracking number is detected, and the tracking number is routed to it
+   * when exactly one operator matches.
+   * @param {string} strTrackingID - The tracking ID (e.g., "fdx-123456789012") or tracking number (e.g., "123456789012").
+   * @returns {TrackingID} The parsed TrackingID object.
+   * @throws {AppError} "400-05" if no operator matches, "400-12" if several operators match.
+   */
+  static parseOrDetect(strTrackingID: string): TrackingID {
+    const trimmedID = strTrackingID.trim();
+    if (trimmedID === "" || trimmedID.includes("-")) {
+      return TrackingID.parse(trimmedID);
+    }
+
+    const candidates = detectOperators(trimmedID);
+    if (candidates.length === 0) {
+      throw new AppError("400-05", "ERR-MODEL-D: OPERATOR_NOT_DETECTED");
+    }
+    if (candidates.length > 1) {
+      const operators = candidates.map((candidate) => candidate.operator).join(",");
+      throw new AppError("400-12", `ERR-MODEL-E: AMBIGUOUS_OPERATOR[${operators}]`);
+    }
+
+    return TrackingID.parse(`${candidates[0].operator}-${trimmedID}`);
+  }
+
 }
 
 /**
@@ -239,6 +265,16 @@ export class Entity {
   additional: Record<string, unknown>;
   /** Parameters associated with the object. ex:{phonenum:'1234'} */
   params: Record<string, string>;
+  /** Last time the object was pulled from its data source (ISO 8601), undefined if it never was */
+  lastPulledAt?: string;
+  /** Next time the scheduler pulls the object from its data source (ISO 8601), undefined if it is not polled */
+  nextPollAt?: string;
+  /** Indicates if the object is abandoned: no new event for too long, it is no longer polled until a manual refresh */
+  expired: boolean = false;
+  /** Whether the data served is older than the max-age of the request, set when answering a request */
+  stale?: boolean;
+  /** The error code of the failed refresh when the stored data is served instead, set when answering a request */
+  upstreamError?: string;
   /** List of events associated with the object */
   events: Event[] = [];
 
@@ -276,12 +312,21 @@ export class Entity {
       additionalData.isCrossBorder = true;
     }
 
+    // polling state and freshness of the data, kept out of the stored additional metadata
+    const freshness = {
+      ...(this.expired && {expired: true}),
+      ...(this.lastPulledAt !== undefined && {lastPulledAt: this.lastPulledAt}),
+      ...(this.stale !== undefined && {stale: this.stale}),
+      ...(this.upstreamError !== undefined && {upstreamError: this.upstreamError}),
+    };
+    const additional = {...additionalData, ...freshness};
+
     const entity = {
       id: this.id,
       type: this.type,
       uuid: this.uuid,
       createdAt: this.getCreationTime(),
-      ...(Object.keys(additionalData).length > 0 && {additional: additionalData}),
+      ...(Object.keys(additional).length > 0 && {additional}),
     };
 
     const events = this.events?.map((event) => event.toJSON(fullData)) || [];
@@ -437,6 +482,8 @@ export class Entity {
       when: lastEvent.when,
       where: lastEvent.where,
       notes: lastEvent.notes,
+      // the stored status is served after a failed refresh
+      ...(this.upstreamError !== undefined && {stale: true, upstreamError: this.upstreamError}),
     };
   }
 
@@ -577,6 +624,503 @@ export class Event {
   }
 }
 
+/**
+ * A class representing an API key of the tokens table and its settings.
+ * The secret key itself is never stored: the table holds a salted hash of it and its visible prefix.
+ */
+export class ApiToken {
+  /** The routes an API key can be scoped to */
+  static readonly ROUTES = ["whereis", "status", "detect", "push", "subscriptions", "usage", "admin"];
+  /** Maximum length of the visible prefix of an API key */
+  static readonly PREFIX_LENGTH = 11;
+
+  /** The identifier of the API key, which is not secret. ex: 0198c7c6-5b6e-7c4e-a9d5-1f2e3d4c5b6a */
+  id: string;
+  /** The visible prefix of the API key, used for lookup and display. ex: sk-AbCdEfGh */
+  prefix: string;
+  /** The secret API key, only known when the key is created. ex: sk-AbCdEfGh... */
+  key?: string;
+  /** The user the API key belongs to */
+  userId: string;
+  /** Sustained rate limit of the API key, in requests per minute. ex: 60 */
+  rateLimit?: number;
+  /** Maximum burst of the API key, in requests. ex: 20 */
+  rateBurst?: number;
+  /** Maximum number of requests of the API key per calendar month (UTC), unlimited if undefined. ex: 100000 */
+  monthlyQuota?: number;
+  /** Operators the API key may query, all operators if undefined. ex: ["eg1"] */
+  operators?: string[];
+  /** Routes the API key may call, all routes if undefined. ex: ["whereis", "status"] */
+  routes?: string[];
+  /** Whether the API key is denied pushing data */
+  readOnly: boolean;
+  /** Whether the API key may request the raw data of the carriers (fulldata=true) */
+  allowFullData: boolean;
+  /** Whether the API key may force a pull from the carriers (refresh=true) */
+  allowRefresh: boolean;
+  /** Creation time of the API key (ISO 8601) */
+  createdAt?: string;
+  /** Expiry time of the API key (ISO 8601), never expires if undefined */
+  expiresAt?: string;
+  /** Revocation time of the API key (ISO 8601), possibly in the future during the grace period of a rotation */
+  revokedAt?: string;
+  /** Last time the API key authenticated a request (ISO 8601) */
+  lastUsedAt?: string;
+  /** Identifier of the API key that replaced this key when it was rotated */
+  rotatedTo?: string;
+
+  constructor() {
+    this.id = "";
+    this.prefix = "";
+    this.userId = "";
+    this.readOnly = false;
+    this.allowFullData = true;
+    this.allowRefresh = true;
+  }
+
+  /**
+   * Checks whether the API key is active, i.e. neither expired nor revoked.
+   * @param now - The current time (ISO 8601).
+   * @returns true if the API key is active.
+   */
+  isActive(now: string = new Date().toISOString()): boolean {
+    return (this.expiresAt === undefined || this.expiresAt > now) &&
+      (this.revokedAt === undefined || this.revokedAt > now);
+  }
+
+  /**
+   * Gets the identifier of the API key whose usage counters and monthly quota the requests of this key count toward:
+   * the key that replaced it if it has been rotated, so that the old key does not get its own quota during the grace period.
+   * @returns The identifier of the API key.
+   */
+  getUsageTokenId(): string {
+    return this.rotatedTo ?? this.id;
+  }
+
+  /**
+   * Checks whether the API key may call a route. The admin route must be granted explicitly.
+   * @param route - The route, i.e. the first path segment after the version. ex: "whereis"
+   * @returns true if the route is allowed.
+   */
+  isRouteAllowed(route: string): boolean {
+    if (route === "push" && this.readOnly) return false;
+    if (route === "admin") return this.routes?.includes(route) ?? false;
+    return this.routes === undefined || this.routes.includes(route);
+  }
+
+  /**
+   * Returns the visible prefix of an API key: its first characters, but never more than half of it.
+   * @param key - The secret API key.
+   * @returns The prefix. ex: "sk-AbCdEfGh"
+   */
+  static getPrefix(key: string): string {
+    return key.substring(0, Math.min(ApiToken.PREFIX_LENGTH, Math.floor(key.length / 2)));
+  }
+
+  /**
+   * Converts the API token to a JSON object. The secret key is only included when it is known, i.e. at creation.
+   * @returns The JSON representation of the API token.
+   */
+  toJSON(): Record<string, unknown> {
+    return {
+      id: this.id,
+      prefix: this.prefix,
+      key: this.key,
+      userId: this.userId,
+      rateLimit: this.rateLimit,
+      rateBurst: this.rateBurst,
+      monthlyQuota: this.monthlyQuota,
+      operators: this.operators,
+      routes: this.routes,
+      readOnly: this.readOnly,
+      allowFullData: this.allowFullData,
+      allowRefresh: this.allowRefresh,
+      createdAt: this.createdAt,
+      expiresAt: this.expiresAt,
+      revokedAt: this.revokedAt,
+      lastUsedAt: this.lastUsedAt,
+      rotatedTo: this.rotatedTo,
+      active: this.isActive(),
+    };
+  }
+
+  /**
+   * Checks whether the API key may query the tracking IDs of an operator.
+   * @param operator - The operator code. ex: "fdx"
+   * @returns true if the operator is allowed.
+   */
+  isOperatorAllowed(operator: string): boolean {
+    return this.operators === undefined || this.operators.includes(operator);
+  }
+}
+
+/**
+ * A class representing a webhook subscription registered by an API key.
+ * A subscription without tracking ID receives the updates of all entities of the operators the API key may query.
+ */
+export class Subscription {
+  /** Unique identifier of the subscription */
+  id: string;
+  /** The identifier of the API key that owns the subscription */
+  apiKey: string;
+  /** The tracking ID to watch, undefined for all entities of the operators of the API key. ex: fdx-779879860040 */
+  trackingId?: string;
+  /** The URL that receives the webhook deliveries */
+  callbackUrl: string;
+  /** The secret used to sign the webhook deliveries */
+  secret: string;
+  /** Timestamp of when the subscription was created */
+  createdAt: string;
+
+  constructor() {
+    this.id = "";
+    this.apiKey = "";
+    this.callbackUrl = "";
+    this.secret = "";
+    this.createdAt = "";
+  }
+
+  /**
+   * Converts the Subscription instance to a JSON-compatible object.
+   * @param {boolean} [includeSecret=false] - Whether to include the signing secret.
+   * @returns {Record<string, unknown>} A structured object representing the subscription.
+   */
+  public toJSON(includeSecret: boolean = false): Record<string, unknown> {
+    return {
+      id: this.id,
+      trackingId: this.trackingId ?? null,
+      callbackUrl: this.callbackUrl,
+      createdAt: this.createdAt,
+      ...(includeSecret && { secret: this.secret }),
+    };
+  }
+}
+
+/**
+ * A class representing one webhook delivery of a subscription and its delivery history.
+ */
+export class WebhookDelivery {
+  /** Unique identifier of the delivery */
+  id: string;
+  /** The subscription the delivery belongs to */
+  subscriptionId: string;
+  /** The tracking ID of the updated entity */
+  trackingId: string;
+  /** The JSON body sent to the callback URL */
+  payload: Record<string, unknown>;
+  /** Delivery status. ex: pending | delivered | failed */
+  status: string;
+  /** Number of delivery attempts so far */
+  attempts: number;
+  /** HTTP status code returned by the callback URL on the last attempt */
+  responseCode?: number;
+  /** Error message of the last failed attempt */
+  lastError?: string;
+  /** Timestamp of the next delivery attempt */
+  nextAttemptAt?: string;
+  /** Timestamp of when the delivery was created */
+  createdAt: string;
+  /** Timestamp of when the delivery succeeded */
+  deliveredAt?: string;
+
+  constructor() {
+    this.id = "";
+    this.subscriptionId = "";
+    this.trackingId = "";
+    this.payload = {};
+    this.status = "pending";
+    this.attempts = 0;
+    this.createdAt = "";
+  }
+
+  /**
+   * Converts the WebhookDelivery instance to a JSON-compatible object without its payload.
+   * @returns {Record<string, unknown>} A structured object representing the delivery.
+   */
+  public toJSON(): Record<string, unknown> {
+    return {
+      id: this.id,
+      trackingId: this.trackingId,
+      status: this.status,
+      attempts: this.attempts,
+      responseCode: this.responseCode ?? null,
+      lastError: this.lastError ?? null,
+      nextAttemptAt: this.nextAttemptAt ?? null,
+      createdAt: this.createdAt,
+      deliveredAt: this.deliveredAt ?? null,
+    };
+  }
+}
+
+/**
+ * A class representing a pull job of the scheduler: a tracking ID, or a batch of tracking IDs
+ * pulled together (eg. fdx), retried with exponential backoff until it succeeds or is dead-lettered.
+ */
+export class PullJob {
+  /** Unique identifier of the job */
+  id: string;
+  /** The operator code. ex: fdx */
+  operator: string;
+  /** The tracking IDs pulled by the job. ex: ["fdx-779879860040"] */
+  trackingIds: string[];
+  /** The additional parameters of the pull (eg. phone number for sfex) */
+  params: Record<string, string>;
+  /** Job status. ex: pending | dead */
+  status: string;
+  /** Number of failed attempts so far */
+  attempts: number;
+  /** Error message of the last failed attempt */
+  lastError?: string;
+  /** Timestamp of the next attempt, undefined once dead */
+  nextAttemptAt?: string;
+  /** Timestamp of when the job was created */
+  createdAt: string;
+  /** Timestamp of the last failed attempt or requeue */
+  updatedAt?: string;
+
+  constructor() {
+    this.id = "";
+    this.operator = "";
+    this.trackingIds = [];
+    this.params = {};
+    this.status = "pending";
+    this.attempts = 0;
+    this.createdAt = "";
+  }
+
+  /**
+   * Converts the PullJob instance to a JSON-compatible object without its parameters,
+   * which may carry personal data (eg. phone number).
+   * @returns {Record<string, unknown>} A structured object representing the job.
+   */
+  public toJSON(): Record<string, unknown> {
+    return {
+      id: this.id,
+      operator: this.operator,
+      trackingIds: this.trackingIds,
+      status: this.status,
+      attempts: this.attempts,
+      lastError: this.lastError ?? null,
+      nextAttemptAt: this.nextAttemptAt ?? null,
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt ?? null,
+    };
+  }
+}
+
+/**
+ * A batch of a scheduler run: the pull of a job (a tracking ID, or a batch of tracking IDs pulled together),
+ * or of the tracking ID of a manual sync.
+ */
+export type SchedulerBatch = {
+  /** The pull job, if the batch was queued */
+  jobId?: string;
+  /** The operator code. ex: fdx */
+  operator: string;
+  /** The tracking IDs pulled. ex: ["fdx-779879860040"] */
+  trackingIds: string[];
+  /** The outcome of the pull. ex: succeeded | failed | skipped */
+  status: string;
+  /** Timestamp of when the pull started */
+  startedAt: string;
+  /** Timestamp of when the pull ended, or timed out */
+  endedAt?: string;
+  /** Number of entities whose events changed */
+  entitiesChanged: number;
+  /** Number of events inserted */
+  eventsInserted: number;
+  /** Number of events deleted */
+  eventsDeleted: number;
+  /** The errors of the pull and of the entities stored */
+  errors: string[];
+};
+
+/**
+ * A class representing a run of the scheduler: a cron run, or a sync triggered by an administrator.
+ */
+export class SchedulerRun {
+  /** Unique identifier of the run */
+  id: string;
+  /** The identifier of the process (scheduler or API server instance) that ran it */
+  instanceId: string;
+  /** What started the run. ex: cron | manual */
+  trigger: string;
+  /** The operator of a manual sync */
+  operator?: string;
+  /** The tracking ID of a manual sync */
+  trackingId?: string;
+  /** Run status. ex: running | completed | failed | skipped */
+  status: string;
+  /** Timestamp of when the run started */
+  startedAt: string;
+  /** Timestamp of when the run ended */
+  endedAt?: string;
+  /** Number of due tracking IDs claimed */
+  trackingIdsClaimed: number;
+  /** Number of pull jobs queued */
+  jobsQueued: number;
+  /** The errors of the run, outside of its batches */
+  errors: string[];
+  /** The batches pulled */
+  batches: SchedulerBatch[];
+
+  constructor() {
+    this.id = "";
+    this.instanceId = "";
+    this.trigger = "cron";
+    this.status = "running";
+    this.startedAt = "";
+    this.trackingIdsClaimed = 0;
+    this.jobsQueued = 0;
+    this.errors = [];
+    this.batches = [];
+  }
+
+  /**
+   * Converts the SchedulerRun instance to a JSON-compatible object, with the totals of its batches.
+   * @returns {Record<string, unknown>} A structured object representing the run.
+   */
+  public toJSON(): Record<string, unknown> {
+    const total = (field: "entitiesChanged" | "eventsInserted" | "eventsDeleted") =>
+      this.batches.reduce((sum, batch) => sum + batch[field], 0);
+    return {
+      id: this.id,
+      instanceId: this.instanceId,
+      trigger: this.trigger,
+      operator: this.operator ?? null,
+      trackingId: this.trackingId ?? null,
+      status: this.status,
+      startedAt: this.startedAt,
+      endedAt: this.endedAt ?? null,
+      trackingIdsClaimed: this.trackingIdsClaimed,
+      jobsQueued: this.jobsQueued,
+      trackingIdsPulled: this.batches
+        .filter((batch) => batch.status !== "skipped")
+        .reduce((sum, batch) => sum + batch.trackingIds.length, 0),
+      entitiesChanged: total("entitiesChanged"),
+      eventsInserted: total("eventsInserted"),
+      eventsDeleted: total("eventsDeleted"),
+      operators: this.getOperatorSummaries(),
+      errors: this.errors,
+      batches: this.batches,
+    };
+  }
+
+  /**
+   * Sums up the batches of the run by operator, which are processed in parallel.
+   * @returns {Record<string, Record<string, unknown>>} The batches by outcome, the tracking IDs pulled,
+   *   and the start and end of the batches of each operator.
+   */
+  private getOperatorSummaries(): Record<string, Record<string, unknown>> {
+    const summaries: Record<string, Record<string, unknown>> = {};
+    for (const batch of this.batches) {
+      const summary = summaries[batch.operator] ??= {
+        succeeded: 0,
+        failed: 0,
+        skipped: 0,
+        trackingIdsPulled: 0,
+        startedAt: batch.startedAt,
+        endedAt: batch.endedAt ?? null,
+      };
+      summary[batch.status] = (summary[batch.status] as number ?? 0) + 1;
+      if (batch.status !== "skipped") {
+        summary.trackingIdsPulled = (summary.trackingIdsPulled as number) + batch.trackingIds.length;
+      }
+      if (batch.startedAt < (summary.startedAt as string)) summary.startedAt = batch.startedAt;
+      if (batch.endedAt && batch.endedAt > ((summary.endedAt as string | null) ?? "")) summary.endedAt = batch.endedAt;
+    }
+    return summaries;
+  }
+}
+
+/**
+ * A class representing the access token of a carrier API (eg. FedEx OAuth), cached and shared by the processes.
+ */
+export class CarrierCredential {
+  /** The name of the credential. ex: fdx */
+  name: string;
+  /** The access token, undefined until it has been fetched */
+  token?: string;
+  /** Timestamp of when the token expires */
+  expiresAt?: string;
+  /** Timestamp of when the token was fetched */
+  updatedAt?: string;
+
+  constructor() {
+    this.name = "";
+  }
+}
+
+/**
+ * A class representing the carrier account of an API key or of a user (eg. the FedEx account of a business unit),
+ * whose credentials are used instead of the global account of the operator.
+ */
+export class CarrierAccount {
+  /** Unique identifier of the account */
+  id: string;
+  /** The operator code. ex: fdx */
+  operator: string;
+  /** The display name of the account. ex: FedEx account of the EMEA business unit */
+  name: string;
+  /** The identifier of the API key using the account */
+  apiKey?: string;
+  /** The user whose API keys use the account, unless an account is set for the key itself */
+  userId?: string;
+  /** The credentials of the carrier API (eg. clientId and clientSecret for fdx), encrypted */
+  secret: string;
+  /** Timestamp of when the account was created */
+  createdAt: string;
+
+  constructor() {
+    this.id = "";
+    this.operator = "";
+    this.name = "";
+    this.secret = "";
+    this.createdAt = "";
+  }
+
+  /**
+   * Converts the CarrierAccount instance to a JSON-compatible object without its credentials.
+   * @returns {Record<string, unknown>} A structured object representing the account.
+   */
+  public toJSON(): Record<string, unknown> {
+    return {
+      id: this.id,
+      operator: this.operator,
+      name: this.name,
+      apiKey: this.apiKey ?? null,
+      userId: this.userId ?? null,
+      createdAt: this.createdAt,
+    };
+  }
+}
+
+/**
+ * A class representing a usage counter of an API key for one day.
+ * The metrics are "request" (by route), "db-hit" and "manual-pull" (by operator)
+ * and "push" (events pushed, by operator).
+ */
+export class UsageRecord {
+  /** The identifier of the API key */
+  tokenId: string;
+  /** The UTC day of the usage. ex: 2025-07-16 */
+  day: string;
+  /** The counted metric. ex: request | db-hit | manual-pull | push */
+  metric: string;
+  /** The route or the operator the metric is counted for. ex: whereis, fdx */
+  dimension: string;
+  /** The count for the day */
+  count: number;
+
+  constructor(tokenId: string = "", day: string = "", metric: string = "", dimension: string = "", count: number = 0) {
+    this.tokenId = tokenId;
+    this.day = day;
+    this.metric = metric;
+    this.dimension = dimension;
+    this.count = count;
+  }
+}
+
 export class AppError extends Error {
   code: string;
   uniqueString?: string;
@@ -797,6 +1341,143 @@ export class OperatorRegistry {
     return 1;
   }
 
+  /**
+   * Gets the maximum age of the stored data of an operator, beyond which it is refreshed before answering.
+   * @param {string} operator - The operator code.
+   * @param {number} defaultValue - The value returned if the operator does not specify it.
+   * @returns {number} The maximum age in seconds.
+   */
+  public static getMaxAge(operator: string, defaultValue: number): number {
+    return this.getSeconds(operator, "maxAge", defaultValue);
+  }
+
+  /**
+   * Gets the minimum interval between two pulls of a tracking ID requested by the clients of an operator.
+   * @param {string} operator - The operator code.
+   * @param {number} defaultValue - The value returned if the operator does not specify it.
+   * @returns {number} The minimum interval in seconds.
+   */
+  public static getMinRefreshInterval(operator: string, defaultValue: number): number {
+    return this.getSeconds(operator, "minRefreshInterval", defaultValue);
+  }
+
+  /**
+   * Gets the default interval between two polls of a tracking ID of an operator by the scheduler.
+   * @param {string} operator - The operator code.
+   * @param {number} defaultValue - The value returned if the operator does not specify it.
+   * @returns {number} The interval in seconds.
+   */
+  public static getPollInterval(operator: string, defaultValue: number): number {
+    return this.getSeconds(operator, "pollInterval", defaultValue);
+  }
+
+  /**
+   * Gets the maximum interval between two polls of a tracking ID of an operator by the scheduler.
+   * @param {string} operator - The operator code.
+   * @param {number} defaultValue - The value returned if the operator does not specify it.
+   * @returns {number} The maximum interval in seconds.
+   */
+  public static getMaxPollInterval(operator: string, defaultValue: number): number {
+    return this.getSeconds(operator, "maxPollInterval", defaultValue);
+  }
+
+  /**
+   * Gets the time without new event after which an in-process tracking ID of an operator is expired.
+   * @param {string} operator - The operator code.
+   * @param {number} defaultValue - The value returned if the operator does not specify it.
+   * @returns {number} The time in seconds.
+   */
+  public static getExpireAfter(operator: string, defaultValue: number): number {
+    return this.getSeconds(operator, "expireAfter", defaultValue);
+  }
+
+  /**
+   * Gets the interval between two polls of a tracking ID of an operator by its last status.
+   * @param {string} operator - The operator code.
+   * @param {number} status - The last status of the tracking ID.
+   * @param {Record<string, number>} defaultValues - The intervals by status used if the operator does not specify them.
+   * @returns {number | undefined} The interval in seconds, or undefined if none is specified for the status.
+   */
+  public static getStatusPollInterval(operator: string, status: number, defaultValues: Record<string, number>): number | undefined {
+    const intervals = this.instance.data.get(operator)?.statusPollIntervals as Record<string, unknown> | undefined;
+    const value = intervals?.[status] ?? defaultValues[status];
+    return typeof value === 'number' && value >= 0 ? value : undefined;
+  }
+
+  /**
+   * Gets the number of pull jobs of an operator processed in parallel by a scheduler run.
+   * @param {string} operator - The operator code.
+   * @param {number} defaultValue - The value returned if the operator does not specify it.
+   * @returns {number} The number of workers, at least 1.
+   */
+  public static getSyncConcurrency(operator: string, defaultValue: number): number {
+    return Math.max(1, Math.floor(this.getSeconds(operator, "syncConcurrency", defaultValue)));
+  }
+
+  /**
+   * Gets the maximum number of pull jobs of an operator started per second by a scheduler run.
+   * @param {string} operator - The operator code.
+   * @param {number} defaultValue - The value returned if the operator does not specify it.
+   * @returns {number} The number of jobs per second, 0 for no limit.
+   */
+  public static getSyncRequestsPerSecond(operator: string, defaultValue: number): number {
+    return this.getSeconds(operator, "syncRequestsPerSecond", defaultValue);
+  }
+
+  /**
+   * Gets the time after which a scheduler run starts no more pull jobs of an operator.
+   * @param {string} operator - The operator code.
+   * @param {number} defaultValue - The value returned if the operator does not specify it.
+   * @returns {number} The time in seconds.
+   */
+  public static getSyncTimeout(operator: string, defaultValue: number): number {
+    return this.getSeconds(operator, "syncTimeout", defaultValue);
+  }
+
+  /**
+   * Gets the maximum number of requests per second accepted by the data source of an operator.
+   * @param {string} operator - The operator code.
+   * @param {number} defaultValue - The value returned if the operator does not specify it.
+   * @returns {number} The number of requests per second, 0 for no limit.
+   */
+  public static getRequestsPerSecond(operator: string, defaultValue: number): number {
+    return Math.floor(this.getSeconds(operator, "requestsPerSecond", defaultValue));
+  }
+
+  /**
+   * Gets the maximum number of requests per day (UTC) accepted by the data source of an operator.
+   * @param {string} operator - The operator code.
+   * @param {number} defaultValue - The value returned if the operator does not specify it.
+   * @returns {number} The number of requests per day, 0 for no limit.
+   */
+  public static getRequestsPerDay(operator: string, defaultValue: number): number {
+    return Math.floor(this.getSeconds(operator, "requestsPerDay", defaultValue));
+  }
+
+  /**
+   * Gets the accounts of the data source of an operator, as set in operators.jsonc.
+   * @param {string} operator - The operator code.
+   * @returns {Record<string, unknown>[]} The account entries, empty if the operator does not specify them.
+   */
+  public static getAccounts(operator: string): Record<string, unknown>[] {
+    const accounts = this.instance.data.get(operator)?.["accounts"];
+    return Array.isArray(accounts) ? accounts.filter((account) => typeof account === "object" && account !== null) : [];
+  }
+
+  /**
+   * Gets how the pulls of an operator choose between its accounts.
+   * @param {string} operator - The operator code.
+   * @returns {"failover" | "round-robin"} failover (the first available account, by default) or round-robin.
+   */
+  public static getAccountSelection(operator: string): "failover" | "round-robin" {
+    return this.instance.data.get(operator)?.["accountSelection"] === "round-robin" ? "round-robin" : "failover";
+  }
+
+  private static getSeconds(operator: string, name: string, defaultValue: number): number {
+    const value = this.instance.data.get(operator)?.[name];
+    return typeof value === 'number' && value >= 0 ? value : defaultValue;
+  }
+
   /**
    * Gets all active operator codes.
    * @returns {string[]} An array of all operator codes.
@@ -0,0 +1,41 @@
+/**
+ * @file notifier.ts
+ * @description Announces the changes of tracking entities once they are stored in the database:
+ * the change is published through the database layer so that the live streams of every
+ * API server process see it, and the webhook subscribers are notified of the new events.
+ *
+ * @copyright (c) 2025, the Eagle1 authors
+ * @license BSD 3-Clause License
+ */
+
+import { getDbClient } from "../db/dbutil.ts";
+import { logger, whereIsAPI } from "../tools/logger.ts";
+import { Entity } from "./model.ts";
+import { notifySubscribers } from "./webhook.ts";
+
+/**
+ * Announces that events have been added to or removed from an entity.
+ * Nothing is announced when no event changed. Errors are logged and never thrown,
+ * so a failing notification never breaks the update of the entity.
+ *
+ * @param entity - The entity that has been inserted or updated.
+ * @param eventIdsNew - The identifiers of the events added to the entity.
+ * @param eventIdsRemoved - The identifiers of the events removed from the entity.
+ * @param updateMethod - The update method (auto-pull, manual-pull or push).
+ */
+export async function notifyEntityChanged(
+  entity: Entity,
+  eventIdsNew: string[],
+  eventIdsRemoved: string[],
+  updateMethod: string,
+): Promise<void> {
+  if (eventIdsNew.length === 0 && eventIdsRemoved.length === 0) return;
+
+  try {
+    await getDbClient().publishEntityChange(entity.id);
+  } catch (err) {
+    logger.error(`${whereIsAPI("exception")} Failed to publish the change of ${entity.id}: ${err}`);
+  }
+
+  await notifySubscribers(entity, eventIdsNew, updateMethod);
+}
@@ -6,7 +6,20 @@
  * @license BSD 3-Clause License
  */
 
-import { Entity, TrackingID } from "./model.ts";
+import { AppError, Entity, TrackingID } from "./model.ts";
+
+/**
+ * The outcome of a push, as replied by POST /v0/push/:operator.
+ */
+export type PushResult = {
+  eventsReceived: number;
+  eventsAdded: number;
+  eventsDuplicate: number;
+  createdTrackingIds: string[];
+  updatedTrackingIds: string[];
+  unchangedTrackingIds: string[];
+  failedTrackingIds: string[];
+};
 
 /**
  * Interface that all operator modules must implement.
@@ -15,13 +28,50 @@ import { Entity, TrackingID } from "./model.ts";
 export interface OperatorModule {
     validateTrackingNum(trackingNum: string): void;
 
+    /**
+     * Estimates how likely a tracking number without operator prefix belongs to this operator.
+     * @returns A confidence between 0 (not a tracking number of this operator) and 1
+     */
+    detectTrackingNum(trackingNum: string): number;
+
     getExtraParams(params: Record<string, string>): Record<string, string>;
 
     validateParams(trackingId: TrackingID, params: Record<string, string>): boolean;
 
+    /**
+     * Checks that the parameters of a request match those of the stored entity.
+     * @returns true if they match, false if the entity was stored without parameters (eg. created by a push):
+     *   it must then be pulled with the parameters of the request, which the carrier checks
+     * @throws {AppError} Throws a 400 error if they do not match
+     */
     validateStoredEntity(entity: Entity, params: Record<string, string>): boolean;
 
     pullFromSource(trackingIds: TrackingID[], extraParams: Record<string, string>, updateMethod: string): Promise<Entity[]>;
 
     processPushData(jsonData: Record<string, unknown>): Entity[];
+
+    /**
+     * Verifies the signature of a push, for the operators whose pushes are authenticated by their
+     * signature instead of an API key (eg. the FedEx webhooks).
+     * @param headers - The headers of the push request, with lowercase names
+     * @param body - The raw body of the push request
+     * @throws {AppError} Throws a 401 error if the signature is missing or invalid
+     */
+    verifyPushSignature?(headers: Record<string, string>, body: string): Promise<void>;
+
+    /**
+     * Builds the acknowledgement of a push in the format expected by the operator (eg. SF Express),
+     * replied instead of the push result or of the error response.
+     * @param outcome - The outcome of the push, or the error failing it (eg. an invalid signature)
+     * @returns The body of the reply
+     */
+    acknowledgePush?(outcome: PushResult | AppError): Record<string, unknown>;
+
+    /**
+     * Subscribes a tracking ID to the pushes of the operator (eg. the SF Express route pushes).
+     * @param trackingId - The tracking ID to subscribe
+     * @param extraParams - The carrier-specific parameters of the tracking ID
+     * @throws {AppError} Throws an error if the operator refuses the subscription
+     */
+    registerPush?(trackingId: TrackingID, extraParams: Record<string, string>): Promise<void>;
 }
\ No newline at end of file
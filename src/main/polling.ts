@@ -0,0 +1,78 @@
+/**
+ * @file polling.ts
+ * @description Adaptive polling schedule of the tracking IDs pulled by the scheduler.
+ * Each in-process entity is due for its next poll after an interval that depends on its last status
+ * (eg. a shipment out for delivery is polled more often than one waiting for customs clearance)
+ * and grows while no new event is received, up to a maximum. The intervals are set per operator
+ * in operators.jsonc, with defaults in config.polling.
+ * An entity without new event for too long (eg. a label never used or a lost parcel) is expired:
+ * it is no longer polled, until a manual refresh reactivates it.
+ *
+ * @copyright (c) 2025, the Eagle1 authors
+ * @license BSD 3-Clause License
+ */
+
+import { config } from "../../config.ts";
+import { Entity, OperatorRegistry } from "./model.ts";
+
+/**
+ * Computes the interval until the next poll of a tracking ID.
+ *
+ * The interval of the last status of the entity is used if the operator (or config.polling) specifies one,
+ * else the poll interval of the operator. It is doubled for every `slowdownAfter` seconds elapsed since
+ * the last event, and capped by the maximum poll interval of the operator.
+ *
+ * @param operator - The operator code.
+ * @param entity - The entity pulled, undefined if the carrier returned no data for the tracking ID.
+ * @param now - The current time in milliseconds.
+ * @returns The interval in seconds.
+ */
+export function getPollInterval(operator: string, entity?: Entity, now: number = Date.now()): number {
+  const lastEvent = entity?.lastEvent();
+  const maxInterval = OperatorRegistry.getMaxPollInterval(operator, config.polling.maxInterval);
+  let interval = (lastEvent && OperatorRegistry.getStatusPollInterval(operator, lastEvent.status, config.polling.statusIntervals)) ??
+    OperatorRegistry.getPollInterval(operator, config.polling.interval);
+
+  const lastEventAt = lastEvent?.when ? Date.parse(lastEvent.when) : NaN;
+  if (!Number.isNaN(lastEventAt) && config.polling.slowdownAfter > 0) {
+    const idlePeriods = Math.floor((now - lastEventAt) / 1000 / config.polling.slowdownAfter);
+    // no need to compute 2^idlePeriods beyond the maximum
+    for (let i = 0; i < idlePeriods && interval < maxInterval; i++) {
+      interval *= 2;
+    }
+  }
+  return Math.min(interval, maxInterval);
+}
+
+/**
+ * Computes the next time the scheduler pulls a tracking ID.
+ *
+ * @param operator - The operator code.
+ * @param entity - The entity pulled, undefined if the carrier returned no data for the tracking ID.
+ * @param now - The time of the pull in milliseconds.
+ * @returns The time of the next poll (ISO 8601), or undefined if the entity is completed and no longer polled.
+ */
+export function getNextPollAt(operator: string, entity?: Entity, now: number = Date.now()): string | undefined {
+  if (entity?.isCompleted()) {
+    return undefined;
+  }
+  return new Date(now + getPollInterval(operator, entity, now) * 1000).toISOString();
+}
+
+/**
+ * Checks if an in-process entity is abandoned, i.e. if it received no new event for longer than
+ * the expiry time of its operator.
+ *
+ * @param operator - The operator code.
+ * @param entity - The entity.
+ * @param now - The current time in milliseconds.
+ * @returns true if the entity must be expired.
+ */
+export function isExpired(operator: string, entity: Entity, now: number = Date.now()): boolean {
+  const lastEvent = entity.lastEvent();
+  const lastEventAt = lastEvent?.when ? Date.parse(lastEvent.when) : NaN;
+  if (entity.isCompleted() || Number.isNaN(lastEventAt)) {
+    return false;
+  }
+  return now - lastEventAt > OperatorRegistry.getExpireAfter(operator, config.polling.expireAfter) * 1000;
+}
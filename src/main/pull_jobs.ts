@@ -0,0 +1,257 @@
+/**
+ * @file pull_jobs.ts
+ * @description Durable queue of the pull jobs of the scheduler. Each due tracking ID (or each batch
+ * of tracking IDs pulled together, eg. fdx) becomes a job stored in the database, processed with its
+ * own timeout. The operators are processed in parallel, each by a pool of workers whose concurrency,
+ * start rate and time budget per run are set in operators.jsonc, within the share of the carrier quota
+ * left to the background pulls (see carrier_quota.ts). A failed job is retried with exponential backoff on the next scheduler runs, and is
+ * dead-lettered once the maximum number of attempts has been reached: its tracking IDs are no longer
+ * pulled until an administrator requeues it (POST /v0/admin/jobs/requeue). A job that succeeds is deleted.
+ *
+ * @copyright (c) 2025, the Eagle1 authors
+ * @license BSD 3-Clause License
+ */
+
+import { v7 as uuidv7 } from "@std/uuid";
+
+import { config } from "../../config.ts";
+import { getDbClient } from "../db/dbutil.ts";
+import { logger, whereIsAPI } from "../tools/logger.ts";
+import { isOperatorCircuitOpen, isOperatorQuotaExhausted } from "./carrier_accounts.ts";
+import { AppError, OperatorRegistry, PullJob } from "./model.ts";
+
+/**
+ * Processes the pull of a job, eg. requests the carrier and stores the entities.
+ */
+export type PullJobHandler = (job: PullJob) => Promise<void>;
+
+/**
+ * The outcome of a pull job processed by a scheduler run.
+ */
+export type PullJobResult = {
+  /** The job, with its attempts and status updated */
+  job: PullJob;
+  /** The outcome: succeeded, failed, or skipped (left pending without counting an attempt) */
+  status: "succeeded" | "failed" | "skipped";
+  /** When the attempt started */
+  startedAt: string;
+  /** When the attempt ended, or timed out */
+  endedAt: string;
+  /** The error of the attempt or the reason of the skip, undefined if it succeeded */
+  error?: string;
+};
+
+/**
+ * Queues a pull job, due immediately.
+ *
+ * @param operator - The operator code.
+ * @param trackingIds - The tracking IDs pulled by the job (ex: fdx-779879860040).
+ * @param params - The additional parameters of the pull (eg. phone number for sfex).
+ * @returns The job queued.
+ */
+export async function enqueuePullJob(
+  operator: string,
+  trackingIds: string[],
+  params: Record<string, string>,
+): Promise<PullJob> {
+  const now = new Date().toISOString();
+  const job = new PullJob();
+  job.id = uuidv7.generate();
+  job.operator = operator;
+  job.trackingIds = trackingIds;
+  job.params = params;
+  job.nextAttemptAt = now;
+  job.createdAt = now;
+  await getDbClient().insertPullJob(job);
+  return job;
+}
+
+/**
+ * Claims the due pull jobs on behalf of a scheduler instance and processes them, the operators in parallel.
+ *
+ * @param owner - The identifier of the scheduler instance.
+ * @param leaseUntil - The expiry of the lease of the jobs claimed (ISO 8601).
+ * @param handler - The function processing the pull of a job.
+ * @param operator - The operator whose jobs are processed, all operators if undefined.
+ * @returns The outcomes of the jobs claimed, by operator and in claim order.
+ */
+export async function processDuePullJobs(
+  owner: string,
+  leaseUntil: string,
+  handler: PullJobHandler,
+  operator?: string,
+): Promise<PullJobResult[]> {
+  const jobs = await getDbClient().claimDuePullJobs(owner, new Date().toISOString(), leaseUntil, config.scheduler.claimLimit, operator);
+  logger.info(`${whereIsAPI("data_monitor")} --> Claiming due pull jobs: ${jobs.length}`);
+
+  const jobsByOperator: Map<string, PullJob[]> = new Map();
+  for (const job of jobs) {
+    jobsByOperator.set(job.operator, [...jobsByOperator.get(job.operator) ?? [], job]);
+  }
+  const results = await Promise.all(
+    [...jobsByOperator].map(([code, operatorJobs]) => processOperatorJobs(owner, code, operatorJobs, handler)),
+  );
+  return results.flat();
+}
+
+/**
+ * Processes the pull jobs of an operator with a pool of `syncConcurrency` workers, starting at most
+ * `syncRequestsPerSecond` jobs per second. The jobs not started within the `syncTimeout` of the operator,
+ * while its circuit breaker is open or once its daily quota is exhausted for the background pulls, are skipped: they are left pending for the next run, without
+ * counting an attempt, and their claim is released so that they are not held until the lease expires.
+ *
+ * @param owner - The identifier of the scheduler instance holding the claims of the jobs.
+ * @param operator - The operator code.
+ * @param jobs - The jobs of the operator.
+ * @param handler - The function processing the pull of a job.
+ * @returns The outcomes of the jobs, in the order of the jobs.
+ */
+async function processOperatorJobs(
+  owner: string,
+  operator: string,
+  jobs: PullJob[],
+  handler: PullJobHandler,
+): Promise<PullJobResult[]> {
+  const concurrency = OperatorRegistry.getSyncConcurrency(operator, config.scheduler.concurrency);
+  const requestsPerSecond = OperatorRegistry.getSyncRequestsPerSecond(operator, config.scheduler.requestsPerSecond);
+  const startMs = Date.now();
+  const deadline = startMs + OperatorRegistry.getSyncTimeout(operator, config.scheduler.operatorTimeout) * 1000;
+  logger.info(
+    `${whereIsAPI("data_monitor")} Processing ${jobs.length} ${operator.toUpperCase()} pull jobs with ${concurrency} workers`,
+  );
+
+  const results: PullJobResult[] = new Array(jobs.length);
+  let next = 0;
+  let nextStartMs = startMs;
+  const worker = async () => {
+    while (next < jobs.length) {
+      const idx = next++;
+      const job = jobs[idx];
+      // space the starts of the jobs of the operator
+      if (requestsPerSecond > 0) {
+        const waitMs = nextStartMs - Date.now();
+        nextStartMs = Math.max(nextStartMs, Date.now()) + 1000 / requestsPerSecond;
+        if (waitMs > 0) {
+          await new Promise((resolve) => setTimeout(resolve, waitMs));
+        }
+      }
+
+      const now = new Date().toISOString();
+      if (Date.now() >= deadline) {
+        results[idx] = { job, status: "skipped", startedAt: now, endedAt: now, error: `SYNC_TIMEOUT[${operator}]: skipped` };
+      } else if (isOperatorCircuitOpen(operator)) {
+        results[idx] = { job, status: "skipped", startedAt: now, endedAt: now, error: `CIRCUIT_OPEN[${operator}]: skipped` };
+      } else if (await isOperatorQuotaExhausted(operator, "background")) {
+        results[idx] = { job, status: "skipped", startedAt: now, endedAt: now, error: `QUOTA_EXHAUSTED[${operator}]: skipped` };
+      } else {
+        results[idx] = await attemptPullJob(job, handler);
+        continue;
+      }
+      await getDbClient().releasePullJob(job.id, owner).catch((err) => {
+        logger.error(`${whereIsAPI("exception")} Failed to release pull job ${job.id}: ${err}`);
+      });
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, jobs.length) }, worker));
+
+  const count = (status: string) => results.filter((result) => result.status === status).length;
+  logger.info(
+    `${whereIsAPI("data_monitor")} Finished ${operator.toUpperCase()} pull jobs in ${Date.now() - startMs} ms: ${count("succeeded")} succeeded, ${count("failed")} failed, ${count("skipped")} skipped`,
+  );
+  return results;
+}
+
+/**
+ * Requeues a dead pull job: it is due immediately, with its attempts reset.
+ *
+ * @param id - The job identifier.
+ * @returns The job requeued, or undefined if no dead job has this identifier.
+ */
+export async function requeuePullJob(id: string): Promise<PullJob | undefined> {
+  const job = await getDbClient().queryPullJob(id);
+  if (job === undefined || job.status !== "dead") {
+    return undefined;
+  }
+
+  job.status = "pending";
+  job.attempts = 0;
+  job.updatedAt = new Date().toISOString();
+  job.nextAttemptAt = job.updatedAt;
+  await getDbClient().updatePullJob(job);
+  logger.info(`${whereIsAPI("data_monitor")} Pull job ${job.id} requeued (${job.trackingIds.join(", ")})`);
+  return job;
+}
+
+/**
+ * Processes a pull job within the job timeout and saves the outcome. A job that succeeds is deleted.
+ * A failure schedules the next attempt with exponential backoff, or dead-letters the job once the
+ * maximum number of attempts has been reached.
+ *
+ * @param job - The job to process.
+ * @param handler - The function processing the pull of the job.
+ * @returns The outcome of the attempt.
+ */
+async function attemptPullJob(job: PullJob, handler: PullJobHandler): Promise<PullJobResult> {
+  const startedAt = new Date().toISOString();
+  try {
+    await withTimeout(handler(job), config.scheduler.jobTimeout * 1000);
+    await getDbClient().deletePullJob(job.id);
+    logger.info(
+      `${whereIsAPI("data_monitor")} Finished pull job ${job.id} (${job.operator.toUpperCase()}, ${job.trackingIds.length} tracking numbers) in ${Date.now() - Date.parse(startedAt)} ms`,
+    );
+    return { job, status: "succeeded", startedAt, endedAt: new Date().toISOString() };
+  } catch (err) {
+    job.lastError = (err instanceof AppError ? err.getMessage() : err instanceof Error ? err.message : String(err))
+      .substring(0, 512);
+  }
+
+  job.attempts += 1;
+  job.updatedAt = new Date().toISOString();
+  if (job.attempts >= config.scheduler.maxJobAttempts) {
+    job.status = "dead";
+    job.nextAttemptAt = undefined;
+    logger.warn(
+      `${whereIsAPI("alert")} Pull job ${job.id} (${job.trackingIds.join(", ")}) dead after ${job.attempts} attempts: ${job.lastError}`,
+    );
+  } else {
+    job.nextAttemptAt = new Date(Date.now() + getRetryDelay(job.attempts)).toISOString();
+    logger.warn(
+      `${whereIsAPI("data_monitor")} Pull job ${job.id} failed (attempt ${job.attempts}), retry at ${job.nextAttemptAt}: ${job.lastError}`,
+    );
+  }
+  await getDbClient().updatePullJob(job);
+  return { job, status: "failed", startedAt, endedAt: job.updatedAt, error: job.lastError };
+}
+
+/**
+ * Rejects if a promise does not settle in time. The promise is not cancelled: a pull that
+ * completes after its timeout still stores its entities.
+ *
+ * @param promise - The promise.
+ * @param timeout - The timeout in milliseconds.
+ * @returns The value of the promise.
+ */
+async function withTimeout<T>(promise: Promise<T>, timeout: number): Promise<T> {
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  try {
+    return await Promise.race([
+      promise,
+      new Promise<never>((_, reject) => {
+        timeoutId = setTimeout(() => reject(new Error(`Pull job timed out after ${timeout} ms`)), timeout);
+      }),
+    ]);
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Computes the delay before the next attempt: the base delay doubled after each attempt, plus up to 10% jitter.
+ *
+ * @param attempts - The number of attempts made so far.
+ * @returns The delay in milliseconds.
+ */
+function getRetryDelay(attempts: number): number {
+  const delay = config.scheduler.jobRetryBaseDelay * 1000 * 2 ** (attempts - 1);
+  return Math.round(delay + Math.random() * delay * 0.1);
+}
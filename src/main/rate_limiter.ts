@@ -0,0 +1,67 @@
+/**
+ * @file rate_limiter.ts
+ * @description Token bucket rate limiting per API key and route.
+ * Each bucket holds up to `burst` tokens and is refilled continuously at `requestsPerMinute`
+ * tokens per minute. A request is accepted while its bucket holds enough tokens for it.
+ * The buckets are kept in the database, one per API key and route, so that the API server processes
+ * (eg. the isolates of `deno serve --parallel`) share the same limits.
+ *
+ * @copyright (c) 2025, the Eagle1 authors
+ * @license BSD 3-Clause License
+ */
+
+import { getDbClient } from "../db/dbutil.ts";
+
+/**
+ * The outcome of a rate-limited operation on a bucket.
+ */
+export type RateLimitResult = {
+  /** Whether the request is accepted */
+  allowed: boolean;
+  /** The bucket size */
+  limit: number;
+  /** The whole tokens left in the bucket */
+  remaining: number;
+  /** Seconds until the bucket is full again */
+  resetSeconds: number;
+  /** Seconds until the request can be retried, 0 if it is accepted */
+  retryAfterSeconds: number;
+};
+
+/**
+ * Takes tokens from the bucket of an API key and route.
+ *
+ * @param key - The bucket identifier (API key and route).
+ * @param requestsPerMinute - The refill rate of the bucket.
+ * @param burst - The bucket size.
+ * @param cost - The number of tokens to take.
+ * @param force - Take the tokens even if the bucket does not hold enough of them, leaving it in debt.
+ *   Used to charge the cost of a request once it is known.
+ * @returns The outcome of the operation.
+ */
+export async function consumeTokens(
+  key: string,
+  requestsPerMinute: number,
+  burst: number,
+  cost: number,
+  force: boolean = false,
+): Promise<RateLimitResult> {
+  const now = Date.now();
+  const ratePerMs = requestsPerMinute / 60_000;
+  // the settings of the API key may have changed, the bucket is refilled up to the current burst
+  const allowed = await getDbClient().consumeRateLimitTokens(key, now, ratePerMs, burst, cost, force) > 0;
+
+  // the tokens left, refilled for the time elapsed since the last update by another process
+  const bucket = await getDbClient().queryRateLimitBucket(key);
+  const tokens = bucket === undefined
+    ? burst
+    : Math.min(burst, bucket.tokens + Math.max(0, now - bucket.updatedAt) * ratePerMs);
+
+  return {
+    allowed,
+    limit: burst,
+    remaining: Math.max(0, Math.floor(tokens)),
+    resetSeconds: Math.ceil((burst - tokens) / ratePerMs / 1000),
+    retryAfterSeconds: allowed ? 0 : Math.max(1, Math.ceil((cost - tokens) / ratePerMs / 1000)),
+  };
+}
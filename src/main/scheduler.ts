@@ -1,37 +1,44 @@
 /**
  * @file scheduler.ts
  * @description Scheduler for synchronizing tracking routes with external data.
- * This module sets up a cron job to periodically fetch in-process tracking numbers,
- * query their latest status, and update the database accordingly. It handles
- * database transactions and error logging to ensure data consistency.
+ * This module sets up a cron job to periodically fetch the in-process tracking numbers due for a poll,
+ * query their latest status, and update the database accordingly (see sync.ts). Each tracking number is scheduled
+ * for its next poll according to its last status, or expired once abandoned (see polling.ts).
+ * Each due tracking number (or batch) is pulled by a durable job, retried until it succeeds or is dead-lettered.
+ * When several instances run (eg. one per container), each one claims a share of the due tracking
+ * numbers and jobs with a lease. Every run is recorded in the scheduler run history.
  *
  * @copyright (c) 2025, the Eagle1 authors
  * @license BSD 3-Clause License
  */
 
+import { config } from "../../config.ts";
 import { getDbClient } from "../db/dbutil.ts";
 import { whereIsAPI, logger } from "../tools/logger.ts";
-import { requestWhereIs } from "./gateway.ts";
-import { AppError, Entity, OperatorRegistry, TrackingID } from "./model.ts";
 import { initApp } from "./app.ts";
-import { postAction } from "./post_actions.ts";
+import { retryDueDeliveries } from "./webhook.ts";
+import { handleError, INSTANCE_ID, startSchedulerRun, syncRoutes } from "./sync.ts";
 
 await initApp();
 
-// Add process exit handlers for better logging
-Deno.addSignalListener("SIGTERM", () => {
-  logger.info(
-    `${whereIsAPI("startup")} Scheduler received SIGTERM, shutting down gracefully`,
-  );
-  Deno.exit(0);
-});
+logger.info(`${whereIsAPI("startup")} Scheduler instance ${INSTANCE_ID} started`);
 
-Deno.addSignalListener("SIGINT", () => {
+/**
+ * Releases the claims of this instance, so that the other instances take over its work, then exits.
+ */
+function shutdown(signal: string): void {
   logger.info(
-    `${whereIsAPI("startup")} Scheduler received SIGINT, shutting down gracefully`,
+    `${whereIsAPI("startup")} Scheduler received ${signal}, shutting down gracefully`,
   );
-  Deno.exit(0);
-});
+  getDbClient().releaseClaims(INSTANCE_ID)
+    .catch((err) => handleError(err, "releaseClaims"))
+    .finally(() => Deno.exit(0));
+}
+
+// Add process exit handlers for better logging
+Deno.addSignalListener("SIGTERM", () => shutdown("SIGTERM"));
+
+Deno.addSignalListener("SIGINT", () => shutdown("SIGINT"));
 
 // Log uncaught errors
 globalThis.addEventListener("error", (event) => {
@@ -57,29 +64,19 @@ globalThis.addEventListener("unhandledrejection", (event) => {
 const intervalStr = Deno.env.get("APP_PULL_INTERVAL");
 const parsed = Number.parseInt(intervalStr ?? "", 10);
 const interval = Number.isFinite(parsed) && parsed > 0 ? parsed : 5;
-const MILLISECONDS_PER_MINUTE = 60_000;
 
 Deno.cron("Sync routes", { minute: { every: interval } }, async () => {
-  const timeout = (interval / 2) * MILLISECONDS_PER_MINUTE;
   logger.info(
-    `${whereIsAPI("startup")} ==> syncRoutes cron job started every ${interval} min, times out after ${timeout / MILLISECONDS_PER_MINUTE} min`,
+    `${whereIsAPI("startup")} ==> syncRoutes cron job started every ${interval} min, pull jobs time out after ${config.scheduler.jobTimeout} s`,
   );
-
-  let timeoutId: ReturnType<typeof setTimeout> | undefined;
   try {
-    await Promise.race([
-      syncRoutes(),
-      new Promise<void>((_, reject) => {
-        timeoutId = setTimeout(
-          () => reject(new Error("syncRoutes timed out")),
-          timeout,
-        );
-      }),
-    ]);
-  } finally {
-    if (timeoutId !== undefined) {
-      clearTimeout(timeoutId);
-    }
+    const run = await startSchedulerRun("cron");
+    await syncRoutes(run);
+    // purge the history of the old runs
+    const before = new Date(Date.now() - config.scheduler.runRetention * 86_400_000).toISOString();
+    await getDbClient().deleteSchedulerRuns(before);
+  } catch (err) {
+    handleError(err, "syncRoutes");
   }
   logger.info(`${whereIsAPI("startup")} --> syncRoutes cron job ended`);
 }).catch((err) => {
@@ -87,230 +84,14 @@ Deno.cron("Sync routes", { minute: { every: interval } }, async () => {
 });
 
 /**
- * Synchronizes tracking routes by fetching in-process tracking numbers,
- * querying their status, and updating the database if new events are found.
- * Handles database transactions and ensures proper rollback on errors.
- *
- * Different operators are processed differently:
- *  - SFEX: Processed individually with their specific params (e.g., phone number)
- *  - FDX: Processed in batches of up to 30, with no additional params required
- *
- * @throws {Error} If an error occurs during database operations or external requests.
+ * Retries the webhook deliveries whose previous attempt failed, every minute.
  */
-async function syncRoutes() {
-  let inProcessTrackingNums: Record<string, unknown> = {};
+Deno.cron("Retry webhook deliveries", { minute: { every: 1 } }, async () => {
   try {
-    inProcessTrackingNums = await getDbClient().getInProcessingTrackingNums();
-    logger.info(
-      `${whereIsAPI("data_monitor")} --> Fetching in-process tracking numbers: ${Object.keys(inProcessTrackingNums).length}`,
-    );
-
-    // Group tracking numbers by operator
-    const groupedTrackingNums = groupTrackingNumsByOperator(
-      inProcessTrackingNums,
-    );
-    for (const [operator, trackingNums] of Object.entries(
-      groupedTrackingNums,
-    )) {
-      const batchSize = OperatorRegistry.getBatchSize(operator);
-      if (batchSize <= 0) {
-        logger.error(
-          `${whereIsAPI("exception")} Invalid batch size for operator ${operator}, skipping`,
-        );
-        continue;
-      }
-      const trackingIdBatches: Record<string, unknown>[] = getTrackingIdBatches(
-        trackingNums,
-        batchSize,
-      );
-
-      for (let idx = 0; idx < trackingIdBatches.length; idx++) {
-        const trackingIds: Record<string, unknown> = trackingIdBatches[idx];
-        const startMs = Date.now();
-
-        try {
-          if (Object.keys(trackingIds).length === 1) {
-            // Process tracking numbers one by one (eg: sfex)
-            const [id] = Object.keys(trackingIds);
-            logger.info(
-              `${whereIsAPI("data_monitor")} Process auto-pull for trackingId: ${id}`,
-            );
-            await processTrackingIds(
-              operator,
-              [TrackingID.parse(id)],
-              trackingIds[id] as Record<string, string>,
-            );
-          } else {
-            // Process tracking numbers in batches (eg: fdx)
-            const ids = Object.keys(trackingIds).map((id) =>
-              TrackingID.parse(id),
-            );
-            logger.info(
-              `${whereIsAPI("data_monitor")} Processing (${operator.toUpperCase()} batch ${idx + 1}/${trackingIdBatches.length}) with ${ids.length} tracking numbers`,
-            );
-            await processTrackingIds(operator, ids, {});
-          }
-
-          const duration = Date.now() - startMs;
-          logger.info(
-            `${whereIsAPI("data_monitor")} Finished (${operator.toUpperCase()} batch ${idx + 1}) in ${duration} ms`,
-          );
-        } catch (err) {
-          handleError(err, `syncRoutes batch ${idx} for ${operator}`);
-        }
-      }
-    }
+    await retryDueDeliveries();
   } catch (err) {
-    handleError(err, "syncRoutes");
+    handleError(err, "retryDueDeliveries");
   }
-}
-
-/**
- * Groups tracking numbers by operator.
- * @param inProcessTrackingNums Record of tracking numbers with their parameters
- * @returns Record of operators with their corresponding tracking numbers and parameters
- */
-function groupTrackingNumsByOperator(
-  inProcessTrackingNums: Record<string, unknown>,
-): Record<string, Record<string, unknown>> {
-  const groupedByOperator: Record<string, Record<string, unknown>> = {};
-
-  for (const [id, params] of Object.entries(inProcessTrackingNums)) {
-    if (!id.includes("-")) {
-      logger.warn(
-        `${whereIsAPI("sync")} Skipping malformed tracking ID without operator separator: ${id}`,
-      );
-      continue;
-    }
-
-    const [operator] = id.split("-");
-    if (!operator) {
-      logger.warn(
-        `${whereIsAPI("sync")} Skipping malformed tracking ID with empty operator: ${id}`,
-      );
-      continue;
-    }
-
-    if (!groupedByOperator[operator]) {
-      groupedByOperator[operator] = {};
-    }
-
-    groupedByOperator[operator][id] = params;
-  }
-
-  return groupedByOperator;
-}
-
-function getTrackingIdBatches(
-  trackingIds: Record<string, unknown>,
-  batchSize: number,
-): Record<string, unknown>[] {
-  const batches: Record<string, unknown>[] = [];
-  const ids = Object.keys(trackingIds);
-
-  // Create batches of tracking IDs with their parameters
-  for (let i = 0; i < ids.length; i += batchSize) {
-    const batch: Record<string, unknown> = {};
-    const batchIds = ids.slice(i, i + batchSize);
-
-    for (const id of batchIds) {
-      batch[id] = trackingIds[id];
-    }
-
-    batches.push(batch);
-  }
-  return batches;
-}
-
-/**
- * Processes tracking IDs by fetching their latest status from an external provider,
- * comparing with existing database records, and updating the database if changes are detected.
- *
- * This function performs three main steps:
- * 1. Fetches the latest tracking status from the external data provider
- * 2. Compares event IDs between the database and freshly fetched data
- * 3. Updates the database only if new events are found or existing events are removed
- *
- * @param operator - The shipping operator identifier (e.g., "sfex", "fdx")
- * @param trackingIds - Array of tracking IDs to process
- * @param params - Additional parameters required by the operator (e.g., phone number for SFEX)
- * @returns A promise that resolves when all tracking IDs have been processed and database updates are complete
- *
- * @async
- */
-async function processTrackingIds(
-  operator: string,
-  trackingIds: TrackingID[],
-  params: Record<string, string>,
-): Promise<void> {
-  const updateMethod = "auto-pull";
-  // step 1: fetch latest status from external data provider
-  const entities: Entity[] = await requestWhereIs(
-    operator,
-    trackingIds,
-    params,
-    updateMethod,
-  );
-  if (entities.length === 0) return;
-
-  // step 2: compare eventIds in the database and fresh eventIds
-  for (const entity of entities) {
-    try {
-      const eventIdsInDb: string[] = await getDbClient().queryEventIds(
-        TrackingID.parse(entity.id),
-      );
-      // update the database on-demand
-      const { dataChanged, eventIdsNew, eventIdsToBeRemoved } =
-        entity.compare(eventIdsInDb);
-      if (dataChanged) {
-        await getDbClient().updateEntity(
-          entity,
-          updateMethod,
-          eventIdsNew,
-          eventIdsToBeRemoved,
-        );
-      }
-      // post-processing
-      await postAction(entity);
-    } catch (err) {
-      handleError(err, `processTrackingIds entity ${entity.id}`);
-    }
-  }
-}
-
-/**
- * Centralized error handler for scheduled tasks.
- *
- * This function handles different types of errors appropriately:
- * - AppError with 4xx status: Treated as user errors, not logged (user-facing issues)
- * - AppError with 5xx status: Logged as server errors (system issues)
- * - Generic Error: Logged with full details including stack trace and cause
- * - Unknown errors: Logged as strings
- *
- * @param err - The error to handle (can be AppError, Error, or unknown type)
- * @param context - A string describing where the error occurred (e.g., function name)
- */
-function handleError(err: unknown, context: string): void {
-  // ignore the UserError
-  if (err instanceof AppError) {
-    if (err.getHttpStatusCode() >= 500) {
-      logger.error(
-        `${whereIsAPI("exception")} ${context}: ${err.getMessage()}`,
-      );
-    }
-  } else {
-    if (err instanceof Error) {
-      logger.error(`${whereIsAPI("exception")} ${context}: ${err.message}`);
-      if (err.stack) {
-        logger.error(`${whereIsAPI("exception")} Stack trace: ${err.stack}`);
-      }
-      if (err.cause) {
-        logger.error(`${whereIsAPI("exception")} Caused by: ${err.cause}`);
-      }
-    } else {
-      logger.error(
-        `${whereIsAPI("exception")} Unknown error in ${context}: ${String(err)}`,
-      );
-    }
-  }
-}
+}).catch((err) => {
+  handleError(err, "Deno.cron: Retry webhook deliveries");
+});
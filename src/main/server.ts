@@ -8,13 +8,45 @@
  */
 
 import { cors } from "hono/cors";
+import { streamSSE } from "hono/streaming";
 import { Context, Hono, HonoRequest, Next } from "hono";
 import { ContentfulStatusCode } from "hono/utils/http-status";
+import { config } from "../../config.ts";
 import { getDbClient } from "../db/dbutil.ts";
 import { whereIsAPI, logger } from "../tools/logger.ts";
-import { getExtraParams, processPushData, requestWhereIs, validateParams, validateStoredEntity } from "./gateway.ts";
-import { ApiParams, Entity, OperatorRegistry, TrackingID, AppError } from "./model.ts";
+import {
+  acknowledgePush,
+  acknowledgePushError,
+  detectOperators,
+  getExtraParams,
+  isPushSigned,
+  processPushData,
+  registerPush,
+  requestWhereIs,
+  validateParams,
+  validateStoredEntity,
+  verifyPushSignature,
+} from "./gateway.ts";
+import { PushResult } from "./operator.ts";
+import { ApiParams, ApiToken, Entity, OperatorRegistry, TrackingID, AppError, SchedulerRun, Subscription } from "./model.ts";
 import { postAction } from "./post_actions.ts";
+import { generateSecret, isValidCallbackUrl } from "./webhook.ts";
+import { notifyEntityChanged } from "./notifier.ts";
+import { consumeTokens, RateLimitResult } from "./rate_limiter.ts";
+import {
+  CARRIER_CREDENTIAL_FIELDS,
+  createCarrierAccount,
+  deleteCarrierAccount,
+  getOperatorAccountStatus,
+  resolveCarrierAccount,
+} from "./carrier_accounts.ts";
+import { getCarrierQuotaStatus } from "./carrier_quota.ts";
+import { getCircuitBreakerStatus } from "./circuit_breaker.ts";
+import { revokeApiKey, rotateApiKey } from "./api_keys.ts";
+import { requeuePullJob } from "./pull_jobs.ts";
+import { handleError, startSchedulerRun, syncRoutes, syncTrackingId } from "./sync.ts";
+import { getMonthlyRequests, getUsageReport, recordUsage, toDay, UsageCounts } from "./usage.ts";
+import { v7 as uuidv7 } from "@std/uuid";
 
 declare module "hono" {
   // noinspection JSUnusedGlobalSymbols
@@ -26,6 +58,19 @@ declare module "hono" {
      */
     sendError: (appError: AppError) => Response;
   }
+
+  interface ContextVariableMap {
+    /** The API token of the authenticated request with its settings */
+    apiToken: ApiToken;
+    /** Number of tracking IDs served by the request, used to compute its rate limit cost */
+    trackedIds: number;
+    /** Number of tracking IDs pulled from the carriers by the request, used to compute its rate limit cost */
+    carrierRequests: number;
+    /** Usage counts of the request by metric and dimension, recorded by meterUsage */
+    usage: UsageCounts;
+    /** Operator of the push request, whose errors are replied in the acknowledgement format of the operator */
+    pushOperator: string;
+  }
 }
 
 /**
@@ -33,8 +78,7 @@ declare module "hono" {
  */
 const app = new Hono();
 
-const RESTRICTED_CLIENT_TOKEN = "eagle1";
-// Bearer Auth middleware
+// Bearer Auth middleware, which also enforces the scopes of the API key
 const customBearerAuth = async (c: Context, next: Next) => {
   const authHeader = c.req.header("Authorization");
   if (!authHeader || !authHeader.startsWith("Bearer ")) {
@@ -42,40 +86,156 @@ const customBearerAuth = async (c: Context, next: Next) => {
   }
 
   const token = authHeader.split(" ")[1];
-  const isValidToken = await getDbClient().isTokenValid(token); // verify the token
-  if (!isValidToken) {
+  const apiToken = await getDbClient().queryToken(token); // verify the token
+  if (!apiToken) {
     throw new AppError("401-02", "ERR-SERVER-G: TOKEN_VALIDATION");
   }
+  const now = new Date();
+  if (!apiToken.isActive(now.toISOString())) {
+    throw new AppError("401-03", "ERR-SERVER-AJ: TOKEN_EXPIRED_OR_REVOKED");
+  }
+  // record the use of the key, at most once per interval to spare the database
+  if (
+    apiToken.lastUsedAt === undefined ||
+    now.getTime() - new Date(apiToken.lastUsedAt).getTime() >= config.apiKey.lastUsedInterval * 1000
+  ) {
+    await getDbClient().touchToken(apiToken.id, now.toISOString());
+  }
 
-  if (token === RESTRICTED_CLIENT_TOKEN) {
-    const path = c.req.path;
-    // Handle /vx/whereis/ and /vx/push/ paths
-    const isWhereisPath = /^\/v\d+\/whereis\/.+$/.test(path);
-    const isPushPath = /^\/v\d+\/push\/.+$/.test(path);
-    if (isWhereisPath) {
-      // Extract tracking ID from the URL
-      const trackingId = c.req.param("id") ?? "";
-      const idx = trackingId.trim().indexOf("-");
-      if (idx !== -1) {
-        const operatorCode = trackingId.substring(0, idx);
-        if (operatorCode !== 'eg1') {
-          // The client API key is not authorized for this request.
-          throw new AppError("403-01", "ERR-SERVER-H: CLIENT_AUTHORIZATION");
-        }
-      }
-    } else if (isPushPath) {
-      // The client API key is not authorized for this request.
-      throw new AppError("403-01", "ERR-SERVER-I: CLIENT_AUTHORIZATION");
-    }
+  // the route is the first path segment after the version. eg: "whereis" in /v0/whereis/:id
+  const route = c.req.path.split("/")[2] ?? "";
+  if (route === "push" && apiToken.readOnly) {
+    // The client API key is read-only.
+    throw new AppError("403-01", "ERR-SERVER-I: CLIENT_AUTHORIZATION");
+  }
+  if (!apiToken.isRouteAllowed(route)) {
+    // The client API key is not authorized for this route.
+    throw new AppError("403-01", `ERR-SERVER-Q: CLIENT_AUTHORIZATION[${route}]`);
+  }
+  if (c.req.query("fulldata") === "true" && !apiToken.allowFullData) {
+    throw new AppError("403-01", "ERR-SERVER-AH: CLIENT_AUTHORIZATION[fulldata]");
+  }
+  if (c.req.query("refresh") === "true" && !apiToken.allowRefresh) {
+    throw new AppError("403-01", "ERR-SERVER-AI: CLIENT_AUTHORIZATION[refresh]");
+  }
+
+  const operator = getRequestedOperator(c, route);
+  if (operator !== undefined && !apiToken.isOperatorAllowed(operator)) {
+    // The client API key is not authorized for this operator.
+    throw new AppError("403-01", `ERR-SERVER-H: CLIENT_AUTHORIZATION[${operator}]`);
   }
 
   // if token is valid
+  c.set("apiToken", apiToken);
+  await next();
+};
+
+// Rate limit middleware, registered after customBearerAuth
+const rateLimit = async (c: Context, next: Next) => {
+  const apiToken = c.get("apiToken");
+  const requestsPerMinute = apiToken.rateLimit ?? config.rateLimit.requestsPerMinute;
+  const burst = apiToken.rateBurst ?? config.rateLimit.burst;
+  // one bucket per API key and route. eg: "sk-xxx GET whereis"
+  const route = c.req.path.split("/")[2] ?? "";
+  const bucketKey = `${apiToken.id} ${c.req.method} ${route}`;
+
+  // take the cost of a database hit up front, the rest is charged once the cost of the request is known
+  const { dbCost, carrierCost } = config.rateLimit;
+  let result = await consumeTokens(bucketKey, requestsPerMinute, burst, dbCost);
+  if (!result.allowed) {
+    setRateLimitHeaders(c, result);
+    c.header("Retry-After", result.retryAfterSeconds.toString());
+    throw new AppError("429-01", `ERR-SERVER-AG: RATE_LIMIT[${c.req.method} ${route}]`);
+  }
+
+  try {
+    await next();
+  } finally {
+    const trackedIds = Math.max(1, c.get("trackedIds") ?? 1);
+    const carrierRequests = c.get("carrierRequests") ?? 0;
+    const remainingCost = (trackedIds - 1) * dbCost + carrierRequests * (carrierCost - dbCost);
+    if (remainingCost > 0) {
+      result = await consumeTokens(bucketKey, requestsPerMinute, burst, remainingCost, true);
+    }
+    setRateLimitHeaders(c, result);
+  }
+};
+
+// Usage metering middleware, registered after rateLimit: enforces the monthly quota of the API key
+// and records the usage of the request once it is served, on the key that replaced it if it has been rotated
+const meterUsage = async (c: Context, next: Next) => {
+  const apiToken = c.get("apiToken");
+  const usageTokenId = apiToken.getUsageTokenId();
+  if (apiToken.monthlyQuota !== undefined && await getMonthlyRequests(usageTokenId) >= apiToken.monthlyQuota) {
+    throw new AppError("429-02", "ERR-SERVER-AO: MONTHLY_QUOTA");
+  }
+
+  const route = c.req.path.split("/")[2] ?? "";
+  countUsage(c, "request", route, 1);
+  try {
+    await next();
+  } finally {
+    await recordUsage(usageTokenId, c.get("usage"));
+  }
+};
+
+// Push auth middleware: the pushes of the operators signing them (eg. the FedEx webhooks) are authenticated
+// by their signature, without API key, rate limit nor usage; the others by an API key with the push scope
+const pushAuth = async (c: Context, next: Next) => {
+  const operator = c.req.param("operator") ?? "";
+  c.set("pushOperator", operator);
+  if (!isPushSigned(operator)) {
+    await customBearerAuth(c, () => rateLimit(c, () => meterUsage(c, next)));
+    return;
+  }
+
+  await verifyPushSignature(operator, c.req.header(), await c.req.text());
   await next();
 };
 
+/**
+ * Gets the operator targeted by the path of a request, if any: the operator of the tracking ID
+ * of the whereis routes (detected if the tracking number has no prefix), or the pushing operator.
+ * Invalid tracking IDs are left to the route handler, which reports them.
+ *
+ * @param c - The Hono context object.
+ * @param route - The route of the request. eg: "whereis"
+ * @returns The operator code, or undefined if the request does not target a single operator.
+ */
+function getRequestedOperator(c: Context, route: string): string | undefined {
+  if (route === "push") {
+    return c.req.param("operator");
+  }
+  const trackingId = route === "whereis" ? c.req.param("id")?.trim() : undefined;
+  if (!trackingId) {
+    return undefined;
+  }
+  const idx = trackingId.indexOf("-");
+  if (idx !== -1) {
+    return trackingId.substring(0, idx);
+  }
+  try {
+    return TrackingID.parseOrDetect(trackingId).operator;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Sets the X-RateLimit-* headers of the response.
+ *
+ * @param c - The Hono context object.
+ * @param result - The state of the bucket of the request.
+ */
+function setRateLimitHeaders(c: Context, result: RateLimitResult): void {
+  c.header("X-RateLimit-Limit", result.limit.toString());
+  c.header("X-RateLimit-Remaining", result.remaining.toString());
+  c.header("X-RateLimit-Reset", result.resetSeconds.toString());
+}
+
 app.use("/*", cors({
       origin: "*",
-      allowMethods: ["GET", "POST", "OPTIONS"],
+      allowMethods: ["GET", "POST", "DELETE", "OPTIONS"],
       allowHeaders: ["Content-Type", "Authorization"],
       credentials: true,
     }));
@@ -102,20 +262,42 @@ app.use("*", async (c: Context, next: Next) => {
 // url syntax validation middleware
 app.use("*", async (c: Context, next: Next) => {
   const pathName = new URL(c.req.url).pathname;
+  // POST /v0/whereis and POST /v0/status carry the tracking IDs in the request body
   if (
+    c.req.method === "GET" && (
     pathName.endsWith("/whereis/") ||
     pathName.endsWith("/whereis") ||
     pathName.endsWith("/status/") ||
-    pathName.endsWith("/status")
+    pathName.endsWith("/status") ||
+    pathName.endsWith("/detect/") ||
+    pathName.endsWith("/detect"))
   ) {
     throw new AppError("400-01", "ERR-SERVER-E: TRACKING_ID");
   }
   await next();
 });
 
-app.use("/v0/whereis/:id", customBearerAuth);
+app.use("/v0/whereis/:id", customBearerAuth, rateLimit, meterUsage);
 
-app.use("/v0/push/:operator", customBearerAuth);
+app.use("/v0/whereis/:id/stream", customBearerAuth, rateLimit, meterUsage);
+
+app.use("/v0/whereis", customBearerAuth, rateLimit, meterUsage);
+
+app.use("/v0/status", customBearerAuth, rateLimit, meterUsage);
+
+app.use("/v0/push/:operator", pushAuth);
+
+app.use("/v0/push/:operator/register", customBearerAuth, rateLimit, meterUsage);
+
+app.use("/v0/detect/:trackingNum", customBearerAuth, rateLimit, meterUsage);
+
+app.use("/v0/subscriptions", customBearerAuth, rateLimit, meterUsage);
+
+app.use("/v0/subscriptions/:id", customBearerAuth, rateLimit, meterUsage);
+
+app.use("/v0/usage", customBearerAuth, rateLimit, meterUsage);
+
+app.use("/v0/admin/*", customBearerAuth, rateLimit, meterUsage);
 
 /**
  * GET /v0/status/:id? - Retrieves the status for a given tracking ID
@@ -133,6 +315,8 @@ app.use("/v0/push/:operator", customBearerAuth);
  *
  * Query Parameters:
  *   - id: The tracking ID of the shipment (optional, can be part of the URL path)
+ *   - max-age: Maximum age of the stored data in seconds, older data is refreshed first
+ *   - strict: Fail if the refresh fails, instead of serving the stored status with stale=true and upstreamError
  *   - Additional carrier-specific parameters may be required (e.g., phonenum for sfex)
  *
  * Example usage:
@@ -142,7 +326,7 @@ app.use("/v0/push/:operator", customBearerAuth);
 app.get("/v0/status/:id?", async (c: Context) => {
   const [trackingID, extraParams] = parseURL(c.req);
 
-  const status = await getStatus(trackingID, extraParams);
+  const status = await getStatus(c, trackingID, extraParams);
 
   return c.body(JSON.stringify(status, null, 2), 200, {
     "Content-Type": "application/json; charset=utf-8",
@@ -154,7 +338,13 @@ app.get("/v0/status/:id?", async (c: Context) => {
  *
  * This endpoint returns information about all logistics carriers/operators currently
  * supported by the system. It provides metadata about each operator including their
- * code, display name, and operational status.
+ * code, display name, and operational status, the state of the circuit breaker of
+ * its data source in the API server process ("closed", "open" or "half-open"), and the
+ * quota of its data source shared by the API server and the scheduler with the requests
+ * left (null if the data source has no quota). The circuit breaker and the quota are those of the
+ * first account of the operator; every account of the selected environment (see operators.jsonc)
+ * is listed with its own, and is healthy if its credentials are set, its circuit breaker is not
+ * open and its daily quota is not exhausted.
  *
  * @param c - The Hono context object containing request and response information.
  * @returns A Response object with JSON containing the list of active operators.
@@ -169,17 +359,47 @@ app.get("/v0/status/:id?", async (c: Context) => {
  *       {
  *         "code": "fdx",
  *         "name": "FedEx",
- *         "active": true
+ *         "active": true,
+ *         "circuitBreaker": {
+ *           "state": "open",
+ *           "failures": 5,
+ *           "openedAt": "2025-07-16T08:12:30.000Z",
+ *           "retryAt": "2025-07-16T08:13:00.000Z"
+ *         },
+ *         "quota": {
+ *           "requestsPerSecond": 10,
+ *           "remainingThisSecond": 10,
+ *           "requestsPerDay": 100000,
+ *           "remainingToday": 99412,
+ *           "backgroundRemainingToday": 79412,
+ *           "resetAt": "2025-07-17T00:00:00.000Z"
+ *         },
+ *         "accounts": [
+ *           {
+ *             "name": "production",
+ *             "environment": "production",
+ *             "configured": true,
+ *             "healthy": false,
+ *             "circuitBreaker": { "state": "open", ... },
+ *             "quota": { ... }
+ *           }
+ *         ]
  *       },
  *       {
  *         "code": "sfex",
  *         "name": "SF Express",
- *         "active": true
+ *         "active": true,
+ *         "circuitBreaker": { "state": "closed", "failures": 0 },
+ *         "quota": { ... },
+ *         "accounts": [ ... ]
  *       },
  *       {
  *         "code": "eg1",
  *         "name": "Eagle1",
- *         "active": true
+ *         "active": true,
+ *         "circuitBreaker": { "state": "closed", "failures": 0 },
+ *         "quota": null,
+ *         "accounts": []
  *       }
  *     ]
  *   }
@@ -193,15 +413,424 @@ app.get("/v0/status/:id?", async (c: Context) => {
  *   - Validating operator codes before submitting tracking queries
  *   - Monitoring system capabilities and operator availability
  */
-app.get("/v0/operators", (c: Context) => {
+app.get("/v0/operators", async (c: Context) => {
   const output = {
-    operators: OperatorRegistry.getActiveOperators(),
+    operators: await Promise.all(OperatorRegistry.getActiveOperators().map(async (operator) => ({
+      ...operator,
+      circuitBreaker: getCircuitBreakerStatus(operator.code),
+      quota: await getCarrierQuotaStatus(operator.code),
+      accounts: await getOperatorAccountStatus(operator.code),
+    }))),
   };
   return c.json(output, 200, {
     "Content-Type": "application/json; charset=utf-8",
   });
 });
 
+/**
+ * GET /v0/detect/:trackingNum - Detects the operators of a tracking number without operator prefix
+ * Requires Bearer token authentication
+ *
+ * Every active operator estimates how likely the tracking number is one of its own, using the
+ * format and the check digit of its tracking numbers. The matching operators are returned
+ * ranked by confidence. When exactly one operator matches, "trackingId" is the tracking ID the
+ * prefix-less tracking number is routed to by /v0/whereis and /v0/status; otherwise it is null.
+ *
+ * Response Format:
+ *   {
+ *     "trackingNum": "779879860040",
+ *     "trackingId": "fdx-779879860040",
+ *     "candidates": [
+ *       { "operator": "fdx", "trackingId": "fdx-779879860040", "confidence": 0.9 }
+ *     ]
+ *   }
+ *
+ * Example usage:
+ *   GET /v0/detect/779879860040
+ */
+app.get("/v0/detect/:trackingNum", (c: Context) => {
+  const trackingNum = (c.req.param("trackingNum") ?? "").trim();
+  const candidates = detectOperators(trackingNum).map((candidate) => ({
+    operator: candidate.operator,
+    trackingId: `${candidate.operator}-${trackingNum}`,
+    confidence: candidate.confidence,
+  }));
+
+  return c.json({
+    trackingNum,
+    trackingId: candidates.length === 1 ? candidates[0].trackingId : null,
+    candidates,
+  }, 200, {
+    "Content-Type": "application/json; charset=utf-8",
+  });
+});
+
+/**
+ * POST /v0/subscriptions - Registers a webhook subscription
+ * Requires Bearer token authentication
+ *
+ * Request Body:
+ *   {
+ *     "callbackUrl": "https://example.com/whereis-hook",
+ *     "trackingId": "fdx-779879860040"
+ *   }
+ *
+ * The callback URL receives a signed HTTP POST request every time new events are stored for
+ * the tracking ID. Without tracking ID, the subscription receives the updates of all entities of the operators
+ * the API key may query.
+ * The signing secret is only returned in the response of this request.
+ */
+app.post("/v0/subscriptions", async (c: Context) => {
+  let requestBody: Record<string, unknown>;
+  try {
+    requestBody = await c.req.json();
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new AppError("400-09", `ERR-SERVER-J: INVALID_JSON: ${errorMessage}`);
+  }
+
+  const callbackUrl = requestBody?.callbackUrl;
+  if (typeof callbackUrl !== "string" || !isValidCallbackUrl(callbackUrl)) {
+    throw new AppError("400-11", "ERR-SERVER-AA: CALLBACK_URL");
+  }
+
+  const trackingId = requestBody.trackingId;
+  if (trackingId !== undefined && trackingId !== null && typeof trackingId !== "string") {
+    throw new AppError("400-09", "ERR-SERVER-AB: TRACKING_ID");
+  }
+
+  // Throws AppError if the tracking ID is invalid
+  const trackingID = trackingId ? TrackingID.parse(trackingId) : undefined;
+  const apiToken = c.get("apiToken");
+  if (trackingID && !apiToken.isOperatorAllowed(trackingID.operator)) {
+    // An API key limited to some operators can only watch the tracking IDs of these operators.
+    throw new AppError("403-01", "ERR-SERVER-B: CLIENT_AUTHORIZATION");
+  }
+
+  const subscription = new Subscription();
+  subscription.id = uuidv7.generate();
+  subscription.apiKey = apiToken.id;
+  subscription.trackingId = trackingID?.toString();
+  subscription.callbackUrl = callbackUrl;
+  subscription.secret = generateSecret();
+  subscription.createdAt = new Date().toISOString();
+  await getDbClient().insertSubscription(subscription);
+
+  return c.json(subscription.toJSON(true), 201, {
+    "Content-Type": "application/json; charset=utf-8",
+  });
+});
+
+/**
+ * GET /v0/subscriptions - Lists the webhook subscriptions of the API key
+ * Requires Bearer token authentication
+ */
+app.get("/v0/subscriptions", async (c: Context) => {
+  const subscriptions = await getDbClient().querySubscriptions(c.get("apiToken").id);
+  return c.json({
+    subscriptions: subscriptions.map((subscription) => subscription.toJSON()),
+  }, 200, {
+    "Content-Type": "application/json; charset=utf-8",
+  });
+});
+
+/**
+ * GET /v0/subscriptions/:id - Retrieves a webhook subscription and its most recent deliveries
+ * Requires Bearer token authentication
+ */
+app.get("/v0/subscriptions/:id", async (c: Context) => {
+  const subscription = await getDbClient().querySubscription(c.req.param("id") ?? "");
+  if (!subscription || subscription.apiKey !== c.get("apiToken").id) {
+    throw new AppError("404-05", "ERR-SERVER-AC: SUBSCRIPTION_NOT_FOUND");
+  }
+
+  const deliveries = await getDbClient().queryDeliveries(subscription.id, 20);
+  return c.json({
+    ...subscription.toJSON(),
+    deliveries: deliveries.map((delivery) => delivery.toJSON()),
+  }, 200, {
+    "Content-Type": "application/json; charset=utf-8",
+  });
+});
+
+/**
+ * DELETE /v0/subscriptions/:id - Deletes a webhook subscription and its delivery history
+ * Requires Bearer token authentication
+ */
+app.delete("/v0/subscriptions/:id", async (c: Context) => {
+  const deleted = await getDbClient().deleteSubscription(c.req.param("id") ?? "", c.get("apiToken").id);
+  if (deleted === 0) {
+    throw new AppError("404-05", "ERR-SERVER-AD: SUBSCRIPTION_NOT_FOUND");
+  }
+  return c.body(null, 204);
+});
+
+/**
+ * GET /v0/usage - Retrieves the usage of the calling API key, aggregated by day and by month
+ * Requires Bearer token authentication
+ *
+ * Query Parameters:
+ *   - from: The first day of the report (YYYY-MM-DD), defaults to the first day of the current month
+ *   - to: The last day of the report (YYYY-MM-DD), defaults to today
+ *
+ * Example usage:
+ *   GET /v0/usage?from=2025-06-01&to=2025-07-31
+ */
+app.get("/v0/usage", async (c: Context) => {
+  return await sendUsageReport(c, c.get("apiToken"));
+});
+
+/**
+ * GET /v0/admin/keys/:id/usage - Retrieves the usage of any API key, with the same parameters as GET /v0/usage
+ * Requires Bearer token authentication with the admin scope
+ */
+app.get("/v0/admin/keys/:id/usage", async (c: Context) => {
+  const apiToken = await getDbClient().queryTokenById(c.req.param("id") ?? "");
+  if (apiToken === undefined) {
+    throw new AppError("404-06", "ERR-SERVER-AP: API_KEY_NOT_FOUND");
+  }
+  return await sendUsageReport(c, apiToken);
+});
+
+/**
+ * GET /v0/admin/keys - Lists the API keys by identifier and prefix, optionally those of one user (?user=)
+ * Requires Bearer token authentication with the admin scope
+ */
+app.get("/v0/admin/keys", async (c: Context) => {
+  const apiTokens = await getDbClient().queryTokens(c.req.query("user"));
+  return c.json({
+    keys: apiTokens.map((apiToken) => apiToken.toJSON()),
+  }, 200, {
+    "Content-Type": "application/json; charset=utf-8",
+  });
+});
+
+/**
+ * POST /v0/admin/keys/revoke - Revokes an API key immediately, given its identifier
+ * Requires Bearer token authentication with the admin scope
+ */
+app.post("/v0/admin/keys/revoke", async (c: Context) => {
+  const { id } = await parseAdminKeyRequest(c);
+  if (!await revokeApiKey(id)) {
+    throw new AppError("404-06", "ERR-SERVER-AK: API_KEY_NOT_FOUND");
+  }
+  return c.body(null, 204);
+});
+
+/**
+ * POST /v0/admin/keys/rotate - Replaces an API key with a new one carrying the same settings
+ * Requires Bearer token authentication with the admin scope
+ *
+ * The old key remains valid during the grace period (gracePeriod in seconds, defaults to config.apiKey.rotationGracePeriod).
+ * The new key is returned in clear text only once.
+ */
+app.post("/v0/admin/keys/rotate", async (c: Context) => {
+  const { id, gracePeriod } = await parseAdminKeyRequest(c);
+  const newToken = await rotateApiKey(id, gracePeriod);
+  return c.json(newToken.toJSON(), 201, {
+    "Content-Type": "application/json; charset=utf-8",
+  });
+});
+
+/**
+ * GET /v0/admin/jobs - Lists the pull jobs of the scheduler, the 100 oldest first
+ * Requires Bearer token authentication with the admin scope
+ *
+ * Query Parameters:
+ *   - status: The job status, pending or dead (default)
+ *
+ * Example usage:
+ *   GET /v0/admin/jobs?status=dead
+ */
+app.get("/v0/admin/jobs", async (c: Context) => {
+  const status = c.req.query("status") ?? "dead";
+  if (status !== "pending" && status !== "dead") {
+    throw new AppError("400-03", `ERR-SERVER-AS: JOB_STATUS[${status}]`);
+  }
+  const jobs = await getDbClient().queryPullJobs(status, 100);
+  return c.json({
+    jobs: jobs.map((job) => job.toJSON()),
+  }, 200, {
+    "Content-Type": "application/json; charset=utf-8",
+  });
+});
+
+/**
+ * POST /v0/admin/jobs/requeue - Requeues a dead pull job, given its identifier: {"id": "0198c7c6-..."}
+ * Requires Bearer token authentication with the admin scope
+ *
+ * The job is due immediately, with its attempts reset.
+ */
+app.post("/v0/admin/jobs/requeue", async (c: Context) => {
+  let requestBody: Record<string, unknown>;
+  try {
+    requestBody = await c.req.json();
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new AppError("400-09", `ERR-SERVER-AT: INVALID_JSON: ${errorMessage}`);
+  }
+
+  const id = requestBody?.id;
+  if (typeof id !== "string" || id === "") {
+    throw new AppError("400-09", "ERR-SERVER-AU: JOB_ID");
+  }
+  const job = await requeuePullJob(id);
+  if (job === undefined) {
+    throw new AppError("404-07", "ERR-SERVER-AV: JOB_NOT_FOUND");
+  }
+  return c.json(job.toJSON(), 200, {
+    "Content-Type": "application/json; charset=utf-8",
+  });
+});
+
+/**
+ * GET /v0/admin/scheduler/runs - Lists the most recent scheduler runs with their batches
+ * Requires Bearer token authentication with the admin scope
+ *
+ * Query Parameters:
+ *   - limit: The maximum number of runs, from 1 to 100 (default 20)
+ *
+ * Example usage:
+ *   GET /v0/admin/scheduler/runs?limit=5
+ */
+app.get("/v0/admin/scheduler/runs", async (c: Context) => {
+  const limitParam = c.req.query("limit") ?? "20";
+  const limit = Number(limitParam);
+  if (!Number.isInteger(limit) || limit < 1 || limit > 100) {
+    throw new AppError("400-03", `ERR-SERVER-BA: RUN_LIMIT[${limitParam}]`);
+  }
+  const runs = await getDbClient().querySchedulerRuns(limit);
+  return c.json({
+    runs: runs.map((run) => run.toJSON()),
+  }, 200, {
+    "Content-Type": "application/json; charset=utf-8",
+  });
+});
+
+/**
+ * POST /v0/admin/scheduler/sync - Triggers an immediate sync for an operator or a single tracking ID
+ * Requires Bearer token authentication with the admin scope
+ *
+ * Request body: {"operator": "fdx"} pulls the due tracking IDs and pull jobs of the operator,
+ * {"trackingId": "fdx-779879860040"} pulls a stored tracking ID whether it is due or not.
+ * The sync runs in the background: the run is returned in running status, and its outcome is
+ * listed by GET /v0/admin/scheduler/runs. The sync of an operator is skipped while another instance
+ * holds the work (SQLite).
+ */
+app.post("/v0/admin/scheduler/sync", async (c: Context) => {
+  let requestBody: Record<string, unknown>;
+  try {
+    requestBody = await c.req.json();
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new AppError("400-09", `ERR-SERVER-AW: INVALID_JSON: ${errorMessage}`);
+  }
+
+  const operator = requestBody?.operator;
+  const trackingId = requestBody?.trackingId;
+  if ((typeof operator === "string") === (typeof trackingId === "string")) {
+    throw new AppError("400-09", "ERR-SERVER-AX: SYNC_TARGET");
+  }
+
+  let run: SchedulerRun;
+  // the sync runs in the background, its errors are recorded in the run
+  if (typeof trackingId === "string") {
+    const trackingID = TrackingID.parse(trackingId);
+    const entity = await getDbClient().queryEntity(trackingID);
+    if (entity === undefined) {
+      throw new AppError("404-08", `ERR-SERVER-AY: TRACKING_ID_NOT_FOUND[${trackingID.toString()}]`);
+    }
+    run = await startSchedulerRun("manual", trackingID.operator, trackingID.toString());
+    syncTrackingId(run, trackingID, entity.params).catch((err) => handleError(err, "syncTrackingId"));
+  } else {
+    if (!OperatorRegistry.include(operator as string)) {
+      throw new AppError("400-04", `ERR-SERVER-AZ: OPERATOR_CODE[${operator}]`);
+    }
+    run = await startSchedulerRun("manual", operator as string);
+    syncRoutes(run).catch((err) => handleError(err, "syncRoutes"));
+  }
+  return c.json(run.toJSON(), 202, {
+    "Content-Type": "application/json; charset=utf-8",
+  });
+});
+
+/**
+ * GET /v0/admin/carrier-accounts - Lists the carrier accounts of the API keys and users, without their credentials
+ * Requires Bearer token authentication with the admin scope
+ */
+app.get("/v0/admin/carrier-accounts", async (c: Context) => {
+  const accounts = await getDbClient().queryCarrierAccounts();
+  return c.json({
+    accounts: accounts.map((account) => account.toJSON()),
+  }, 200, {
+    "Content-Type": "application/json; charset=utf-8",
+  });
+});
+
+/**
+ * POST /v0/admin/carrier-accounts - Creates the carrier account of an API key or of a user
+ * Requires Bearer token authentication with the admin scope
+ *
+ * Request body:
+ *   {
+ *     "operator": "fdx",
+ *     "name": "FedEx account of the EMEA business unit",
+ *     "apiKey": "0198c7c6-5b6e-7c4e-a9d5-1f2e3d4c5b6a",
+ *     "credentials": { "clientId": "...", "clientSecret": "..." }
+ *   }
+ * An account is set either for an API key (apiKey) or for all the API keys of a user (userId).
+ * The credentials required are clientId and clientSecret for fdx, partnerId and checkWord for sfex.
+ * They are stored encrypted and never returned.
+ */
+app.post("/v0/admin/carrier-accounts", async (c: Context) => {
+  let requestBody: Record<string, unknown>;
+  try {
+    requestBody = await c.req.json();
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new AppError("400-09", `ERR-SERVER-BB: INVALID_JSON: ${errorMessage}`);
+  }
+
+  const { operator, name, apiKey, userId, credentials } = requestBody ?? {};
+  const fields = CARRIER_CREDENTIAL_FIELDS[operator as string];
+  if (typeof operator !== "string" || fields === undefined) {
+    throw new AppError("400-04", `ERR-SERVER-BC: OPERATOR_CODE[${operator}]`);
+  }
+  if ((typeof apiKey === "string") === (typeof userId === "string") || apiKey === "" || userId === "") {
+    throw new AppError("400-09", "ERR-SERVER-BD: ACCOUNT_OWNER");
+  }
+  const secrets = (typeof credentials === "object" && credentials !== null ? credentials : {}) as Record<string, unknown>;
+  if (!fields.every((field) => typeof secrets[field] === "string" && secrets[field] !== "")) {
+    throw new AppError("400-09", `ERR-SERVER-BE: CREDENTIALS[${fields.join(", ")}]`);
+  }
+  if (typeof apiKey === "string" && await getDbClient().queryTokenById(apiKey) === undefined) {
+    throw new AppError("404-06", "ERR-SERVER-BF: API_KEY_NOT_FOUND");
+  }
+
+  const account = await createCarrierAccount(
+    operator,
+    typeof name === "string" ? name : "",
+    { apiKey: apiKey as string | undefined, userId: userId as string | undefined },
+    Object.fromEntries(fields.map((field) => [field, secrets[field] as string])),
+  );
+  return c.json(account.toJSON(), 201, {
+    "Content-Type": "application/json; charset=utf-8",
+  });
+});
+
+/**
+ * DELETE /v0/admin/carrier-accounts/:id - Deletes a carrier account
+ * Requires Bearer token authentication with the admin scope
+ *
+ * The API keys using the account fall back to the account of their user or to the global account of the operator.
+ */
+app.delete("/v0/admin/carrier-accounts/:id", async (c: Context) => {
+  if (!await deleteCarrierAccount(c.req.param("id") ?? "")) {
+    throw new AppError("404-09", "ERR-SERVER-BG: CARRIER_ACCOUNT_NOT_FOUND");
+  }
+  return c.body(null, 204);
+});
+
 /**
  * GET /static/:filename - Serves static HTML and YAML files
  *
@@ -271,6 +900,17 @@ app.get("/v0/:filename", async (c: Context) => {
 /**
  * GET /v0/whereis/:id - Retrieves location information for a tracking ID
  * Requires Bearer token authentication
+ *
+ * Query Parameters:
+ *   - fulldata: Include the raw data from the logistics data source
+ *   - refresh: Pull the latest data from the carrier, at most once per minimum refresh interval of the operator
+ *   - max-age: Maximum age of the stored data in seconds, older data is refreshed first (defaults to the operator max-age)
+ *   - strict: Fail if the refresh fails, instead of serving the stored data
+ *
+ * The response reports the freshness of the data in entity.additional: lastPulledAt and stale, and
+ * expired=true if the shipment is abandoned and no longer pulled automatically until refresh=true.
+ * When the refresh fails with a 5xx error, the stored data is served with stale=true and the
+ * error code in upstreamError, unless strict=true is requested.
  */
 app.get("/v0/whereis/:id", async (c: Context) => {
   const start = performance.now();
@@ -279,9 +919,7 @@ app.get("/v0/whereis/:id", async (c: Context) => {
   const refresh = queryParams.refresh === "true";
   const fullData = queryParams.fulldata === "true";
 
-  const entity: Entity | undefined = refresh
-      ? await refreshEntityFromProvider(trackingID, extraParams)
-      : await getEntityFromDbOrProvider(trackingID, extraParams);
+  const entity: Entity | undefined = await getEntityFromDbOrProvider(c, trackingID, extraParams, refresh);
 
   if (!entity) {
     throw new AppError("404-01", `ERR-SERVER-D: Received empty data from source ${trackingID.operator}`);
@@ -304,9 +942,153 @@ app.get("/v0/whereis/:id", async (c: Context) => {
 });
 
 
-app.post("/v0/push/:operator", async (c: Context) => {
-  const operator = c.req.param("operator");
-  // Validate operator
+/**
+ * GET /v0/whereis/:id/stream - Streams the live updates of a tracking ID as Server-Sent Events
+ * Requires Bearer token authentication
+ *
+ * The stream starts with a "snapshot" event carrying the current entity, in the same format as
+ * GET /v0/whereis/:id. It then sends an "event-added" event with the event data for every event
+ * added to the entity, and an "event-removed" event with the event ID for every event removed from it.
+ * A comment is sent regularly to keep the connection alive.
+ *
+ * The changes are announced through the database layer, so the updates made by the scheduler,
+ * which runs in a separate process, are streamed too.
+ *
+ * Query Parameters:
+ *   - fulldata: Include the raw data from the logistics data source
+ *   - Additional carrier-specific parameters may be required (e.g., phonenum for sfex)
+ */
+app.get("/v0/whereis/:id/stream", async (c: Context) => {
+  const [trackingID, extraParams, queryParams] = parseURL(c.req);
+  const fullData = queryParams.fulldata === "true";
+
+  const entity = await getEntityFromDbOrProvider(c, trackingID, extraParams);
+  if (!entity) {
+    throw new AppError("404-01", `ERR-SERVER-AE: Received empty data from source ${trackingID.operator}`);
+  }
+
+  return streamSSE(c, async (stream) => {
+    let eventIdsKnown = entity.eventIds();
+    await stream.writeSSE({ event: "snapshot", data: JSON.stringify(entity.toJSON(fullData)) });
+
+    // send the changes one after the other, in the order they are announced
+    let sending = Promise.resolve();
+    const sendChanges = async () => {
+      const latest = await getDbClient().queryEntity(trackingID);
+      if (!latest || stream.aborted) return;
+
+      const { eventIdsNew, eventIdsToBeRemoved } = latest.compare(eventIdsKnown);
+      eventIdsKnown = latest.eventIds();
+      for (const event of latest.events.filter((event) => eventIdsNew.includes(event.eventId))) {
+        await stream.writeSSE({ event: "event-added", id: event.eventId, data: JSON.stringify(event.toJSON(fullData)) });
+      }
+      for (const eventId of eventIdsToBeRemoved) {
+        await stream.writeSSE({ event: "event-removed", id: eventId, data: JSON.stringify({ eventId }) });
+      }
+    };
+
+    const unlisten = await getDbClient().listenEntityChanges((changedId: string) => {
+      if (changedId !== trackingID.toString()) return;
+      sending = sending.then(sendChanges).catch((err) => {
+        logger.error(`${whereIsAPI("exception")} Failed to stream the changes of ${changedId}: ${err}`);
+      });
+    });
+
+    try {
+      while (!stream.aborted) {
+        await stream.sleep(config.stream.heartbeatInterval * 1000);
+        await stream.write(": keep-alive\n\n");
+      }
+    } finally {
+      unlisten();
+    }
+  });
+});
+
+/**
+ * POST /v0/whereis - Retrieves location information for many tracking IDs in one request
+ * Requires Bearer token authentication
+ *
+ * Request Body:
+ *   {
+ *     "trackingIds": ["fdx-779879860040", "sfex-SF3182998070266"],
+ *     "params": { "sfex-SF3182998070266": { "phonenum": "6993" } }
+ *   }
+ *
+ * Query Parameters:
+ *   - fulldata: Include the raw data from the logistics data source
+ *   - refresh: Force a request to get the latest data from logistics data source
+ *   - max-age: Maximum age of the stored data in seconds, older data is refreshed first
+ *   - strict: Report a failed refresh as an error of the tracking ID, instead of serving the stored data
+ *
+ * Tracking IDs missing from the database are grouped by operator and pulled in batches
+ * of the operator's batch size (eg: 30 for fdx). Results and errors are keyed by tracking ID.
+ */
+app.post("/v0/whereis", async (c: Context) => {
+  const start = performance.now();
+  const [batchItems, errors, queryParams] = await parseBatchRequest(c.req, c.get("apiToken"), "whereis");
+
+  const refresh = queryParams.refresh === "true";
+  const fullData = queryParams.fulldata === "true";
+
+  c.set("trackedIds", batchItems.length);
+  const entities = await getEntitiesFromDbOrProvider(c, batchItems, refresh, errors);
+
+  const results: Record<string, unknown> = {};
+  for (const [id, entity] of Object.entries(entities)) {
+    results[id] = entity.toJSON(fullData);
+  }
+
+  const elapsed = performance.now() - start;
+  return c.json({
+    results,
+    errors: formatBatchErrors(errors),
+    processingTimeMs: Number(elapsed.toFixed(2)),
+  }, 200, {
+    "Content-Type": "application/json; charset=utf-8",
+  });
+});
+
+/**
+ * POST /v0/status - Retrieves the latest status for many tracking IDs in one request
+ * Requires Bearer token authentication
+ *
+ * Accepts the same request body as POST /v0/whereis and returns the last status of each
+ * tracking ID, keyed by tracking ID, together with the per-ID errors.
+ */
+app.post("/v0/status", async (c: Context) => {
+  const [batchItems, errors] = await parseBatchRequest(c.req, c.get("apiToken"), "status");
+
+  c.set("trackedIds", batchItems.length);
+  const entities = await getEntitiesFromDbOrProvider(c, batchItems, false, errors);
+
+  const results: Record<string, unknown> = {};
+  for (const [id, entity] of Object.entries(entities)) {
+    results[id] = entity.getLastStatus();
+  }
+
+  return c.json({
+    results,
+    errors: formatBatchErrors(errors),
+  }, 200, {
+    "Content-Type": "application/json; charset=utf-8",
+  });
+});
+
+/**
+ * POST /v0/push/:operator - Receives the tracking events pushed by an operator
+ * Requires Bearer token authentication with the push scope, or the signature of the operator
+ * for the operators signing their pushes (eg. the fdx-signature header of the FedEx webhooks,
+ * the msgDigest of the SF Express route pushes)
+ *
+ * The body is JSON, or form-urlencoded for the operators pushing forms (eg. SF Express).
+ * The events are stored with the entities of their tracking IDs. An entity pushed is fed by push
+ * from then on: the scheduler no longer polls it and its stored data is not stale.
+ * The reply is the push result, or the acknowledgement expected by the operator (eg. SF Express).
+ */
+app.post("/v0/push/:operator", async (c: Context) => {
+  const operator = c.req.param("operator");
+  // Validate operator
   if (!operator || !OperatorRegistry.getActiveOperatorCodes().includes(operator)) {
     throw new AppError("400-02", `ERR-SERVER-C: INVALID_OPERATOR: ${operator}`);
   }
@@ -314,7 +1096,9 @@ app.post("/v0/push/:operator", async (c: Context) => {
   // Parse request body
   let requestBody: Record<string, unknown>;
   try {
-    requestBody = await c.req.json();
+    requestBody = (c.req.header("content-type") ?? "").startsWith("application/x-www-form-urlencoded")
+      ? Object.fromEntries(new URLSearchParams(await c.req.text()))
+      : await c.req.json();
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
     throw new AppError("400-04", `ERR-SERVER-A: INVALID_JSON: ${errorMessage}`);
@@ -349,12 +1133,16 @@ app.post("/v0/push/:operator", async (c: Context) => {
         if (changes.entityInserted > 0) {
           createdTrackingIds.push(entity.id);
           eventsAdded += entityEventCount;
+          await notifyEntityChanged(entity, entity.eventIds(), [], "push");
         } else {
           unchangedTrackingIds.push(entity.id);
           eventsDuplicate += entityEventCount;
         }
       } else {
-        // Existing entity — append new events only
+        // Existing entity — stop polling it if it was pulled so far, and append new events only
+        if (!entity.usePull) {
+          await getDbClient().stopPolling(TrackingID.parse(entity.id));
+        }
         const { dataChanged, eventIdsNew } = entity.compare(eventIdsInDb);
         if (dataChanged && eventIdsNew.length > 0) {
           const updateResult = await getDbClient().updateEntity(entity, "push", eventIdsNew, []);
@@ -362,6 +1150,7 @@ app.post("/v0/push/:operator", async (c: Context) => {
             updatedTrackingIds.push(entity.id);
             eventsAdded += updateResult.eventsInserted;
             eventsDuplicate += entityEventCount - updateResult.eventsInserted;
+            await notifyEntityChanged(entity, eventIdsNew, [], "push");
           } else {
             unchangedTrackingIds.push(entity.id);
             eventsDuplicate += entityEventCount;
@@ -379,7 +1168,9 @@ app.post("/v0/push/:operator", async (c: Context) => {
     }
   }
 
-  const result = {
+  countUsage(c, "push", operator, eventsReceived);
+
+  const result: PushResult = {
     eventsReceived,
     eventsAdded,
     eventsDuplicate,
@@ -388,7 +1179,71 @@ app.post("/v0/push/:operator", async (c: Context) => {
     unchangedTrackingIds,
     failedTrackingIds,
   };
-  return c.json(result, 200, {
+  return c.json(acknowledgePush(operator, result), 200, {
+    "Content-Type": "application/json; charset=utf-8",
+  });
+});
+
+/**
+ * POST /v0/push/:operator/register - Registers a tracking ID for the pushes of its operator (eg. sfex)
+ * Requires Bearer token authentication with the push scope
+ *
+ * Request Body:
+ *   {
+ *     "trackingId": "sfex-SF1234567890123",
+ *     "phonenum": "1234"
+ *   }
+ *
+ * The carrier-specific parameters of the body must be strings, and those required by the operator present
+ * (eg. phonenum for sfex), else the request is rejected before reaching the carrier.
+ * The tracking ID is pulled first, with the carrier-specific parameters of the body, so that it is stored
+ * with them. Once registered, it is fed by push: the scheduler no longer polls it. The tracking ID is pulled
+ * and registered with the carrier account of the API key, if it has one for the operator.
+ */
+app.post("/v0/push/:operator/register", async (c: Context) => {
+  const operator = c.req.param("operator");
+  if (!operator || !OperatorRegistry.getActiveOperatorCodes().includes(operator)) {
+    throw new AppError("400-02", `ERR-SERVER-C: INVALID_OPERATOR: ${operator}`);
+  }
+
+  let requestBody: Record<string, unknown>;
+  try {
+    requestBody = await c.req.json();
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new AppError("400-09", `ERR-SERVER-J: INVALID_JSON: ${errorMessage}`);
+  }
+  if (typeof requestBody !== "object" || requestBody === null || Array.isArray(requestBody)) {
+    throw new AppError("400-09", "ERR-SERVER-BJ: REQUEST_BODY");
+  }
+
+  const { trackingId, ...rawParams } = requestBody;
+  if (typeof trackingId !== "string") {
+    throw new AppError("400-09", "ERR-SERVER-AB: TRACKING_ID");
+  }
+  // Throws AppError if the tracking ID is invalid
+  const trackingID = TrackingID.parse(trackingId);
+  if (trackingID.operator !== operator) {
+    throw new AppError("400-09", `ERR-SERVER-BH: OPERATOR_MISMATCH[${trackingID.operator}]`);
+  }
+  const invalidParams = Object.keys(rawParams).filter((key) => typeof rawParams[key] !== "string");
+  if (invalidParams.length > 0) {
+    throw new AppError("400-03", `ERR-SERVER-BK: PARAMS[${invalidParams.join(",")}]`);
+  }
+  const extraParams = getExtraParams(operator, rawParams as Record<string, string>);
+  // Throws AppError if a parameter required by the operator is missing (eg. phonenum for sfex)
+  validateParams(operator, trackingID, extraParams);
+
+  const entity = await getEntityFromDbOrProvider(c, trackingID, extraParams);
+  if (!entity) {
+    throw new AppError("404-01", `ERR-SERVER-D: Received empty data from source ${trackingID.operator}`);
+  }
+
+  const account = await resolveCarrierAccount(operator, c.get("apiToken"));
+  await registerPush(trackingID, extraParams, account);
+  await getDbClient().stopPolling(trackingID);
+
+  return c.json({ trackingId: trackingID.toString(), registeredAt: new Date().toISOString() }, 201, {
     "Content-Type": "application/json; charset=utf-8",
   });
 });
@@ -418,6 +1273,23 @@ app.get("/app-health", async (c: Context) => {
 });
 
 // error handling
+/**
+ * Sends the error of a push in the acknowledgement format of the pushing operator (eg. SF Express),
+ * which expects it instead of the error response to stop or retry its pushes.
+ *
+ * @param c - The Hono context object.
+ * @param err - The error failing the push.
+ * @returns The response, or undefined if the request is not a push or the operator has no acknowledgement format.
+ */
+function sendPushError(c: Context, err: AppError): Response | undefined {
+  const operator = c.get("pushOperator");
+  const acknowledgement = operator === undefined ? undefined : acknowledgePushError(operator, err);
+  if (acknowledgement === undefined) {
+    return undefined;
+  }
+  return c.json(acknowledgement, err.getHttpStatusCode() as ContentfulStatusCode);
+}
+
 app.onError((err: unknown, c: Context) => {
   if (err instanceof AppError) {
     const statusCode = err.getHttpStatusCode();
@@ -428,7 +1300,7 @@ app.onError((err: unknown, c: Context) => {
       logger.error(`${whereIsAPI("exception")} Request URL: ${c.req.url}`);
       logger.error(`${whereIsAPI("exception")} Error message: ${err.getMessage()}`);
     }
-    return c.sendError(err);
+    return sendPushError(c, err) ?? c.sendError(err);
   }
 
   const errorMessage = err instanceof Error ? err.message : String(err);
@@ -439,79 +1311,438 @@ app.onError((err: unknown, c: Context) => {
   if (errorStack) logger.error(`${whereIsAPI("exception")} Stack trace: ${errorStack}`);
   if (errorCause) logger.error(`${whereIsAPI("exception")} Caused by: ${errorCause}`);
 
+  const pushError = sendPushError(c, new AppError("500-01", "ERR-SERVER-BI: PUSH_FAILED"));
+  if (pushError) {
+    return pushError;
+  }
   return c.json({
     message: "Internal Server Error",
     code: "500",
   }, 500);
 });
 
-async function refreshEntityFromProvider(trackingID: TrackingID, parsedParams: Record<string, string>): Promise<Entity | undefined> {
-  const entities = await requestWhereIs(trackingID.operator, [trackingID], parsedParams, "manual-pull");
-  if (entities.length === 1) {
-    await getDbClient().refreshEntity(trackingID, entities[0] as Entity);
-
-    // post-processing
-    postAction(entities[0]);
+/**
+ * Pulls an entity from its carrier, with the carrier account of the API key, and stores it in the database.
+ * The public routes without API key (GET /v0/status/:id) pull with the global accounts of the operator.
+ *
+ * @param c - The Hono context object, used to count the requests sent to the carrier.
+ * @param trackingID - The tracking ID of the entity.
+ * @param parsedParams - The carrier-specific parameters of the request.
+ * @returns A promise that resolves to the entity, or undefined if the carrier has no data for it.
+ */
+async function pullEntityFromProvider(c: Context, trackingID: TrackingID, parsedParams: Record<string, string>): Promise<Entity | undefined> {
+  countCarrierRequests(c, trackingID.operator, 1);
+  const apiToken: ApiToken | undefined = c.get("apiToken");
+  const account = await resolveCarrierAccount(trackingID.operator, apiToken);
+  const entities = await requestWhereIs(trackingID.operator, [trackingID], parsedParams, "manual-pull", storePulledEntities, account);
+  for (const entity of entities) {
+    entity.stale = false;
   }
   return entities.length === 0 ? undefined : entities[0];
 }
 
-async function getEntityFromDbOrProvider(trackingID: TrackingID, parsedParams: Record<string, string>): Promise<Entity | undefined> {
-  let entity = await getDbClient().queryEntity(trackingID);
+/**
+ * Retrieves an entity from the database, or from its carrier if it is not stored yet.
+ * The stored entity is refreshed from the carrier first if refresh is requested or its data is too old (see shouldRefresh).
+ * If the refresh fails, the stored entity is served instead unless strict=true is requested (see serveStaleOnError).
+ *
+ * @param c - The Hono context object, used to read the max-age and to count the requests sent to the carrier.
+ * @param trackingID - The tracking ID of the entity.
+ * @param parsedParams - The carrier-specific parameters of the request.
+ * @param refresh - Whether refresh=true is requested.
+ * @returns A promise that resolves to the entity, or undefined if the carrier has no data for it.
+ */
+async function getEntityFromDbOrProvider(
+  c: Context,
+  trackingID: TrackingID,
+  parsedParams: Record<string, string>,
+  refresh: boolean = false,
+): Promise<Entity | undefined> {
+  parseMaxAge(c);
+  const entity = await getDbClient().queryEntity(trackingID);
 
-  if (entity) {
-    // Throws AppError if validation fails
-    validateStoredEntity(trackingID.operator, entity, parsedParams);
-  } else {
-    const entities = await requestWhereIs(trackingID.operator, [trackingID], parsedParams, "manual-pull");
-    if (entities.length === 1) {
-      entity = entities[0];
-      await getDbClient().insertEntity(entity as Entity);
+  // Throws AppError if validation fails. An entity stored without parameters is pulled with those of the request.
+  const validated = entity !== undefined && validateStoredEntity(trackingID.operator, entity, parsedParams);
+  if (entity && validated && !shouldRefresh(c, entity, trackingID.operator, refresh)) {
+    countUsage(c, "db-hit", trackingID.operator, 1);
+    return entity;
+  }
+
+  try {
+    return await pullEntityFromProvider(c, trackingID, parsedParams);
+  } catch (err) {
+    if (entity === undefined || !validated || !serveStaleOnError(c, entity, err)) {
+      throw err;
+    }
+    countUsage(c, "db-hit", trackingID.operator, 1);
+    return entity;
+  }
+}
+
+/**
+ * Decides whether a stored entity is served after its refresh failed (stale-on-error).
+ * It is served when the carrier failed with a 5xx error (including an open circuit breaker),
+ * unless strict=true is requested. The entity is then flagged as stale with the error code of the carrier.
+ *
+ * @param c - The Hono context object.
+ * @param entity - The entity stored in the database.
+ * @param err - The error of the refresh.
+ * @returns true if the stored entity is served, false if the error is reported.
+ */
+function serveStaleOnError(c: Context, entity: Entity, err: unknown): boolean {
+  if (c.req.query("strict") === "true" || !(err instanceof AppError) || err.getHttpStatusCode() < 500) {
+    return false;
+  }
+
+  entity.stale = true;
+  entity.upstreamError = err.code;
+  logger.warn(`${whereIsAPI("data_monitor")} Serving the stored data of ${entity.id} after a failed refresh: ${err.getMessage()}`);
+  return true;
+}
+
+/**
+ * Stores the entities pulled on demand in the database: a new entity is inserted, a stored entity is
+ * replaced by its latest data. Called once per pull, even when concurrent requests share the pull.
+ * Errors are logged per entity, so that an entity that failed to be stored is still served.
+ *
+ * @param entities - The entities pulled from a carrier.
+ */
+async function storePulledEntities(entities: Entity[]): Promise<void> {
+  for (const entity of entities) {
+    try {
+      const trackingID = TrackingID.parse(entity.id);
+      const eventIdsInDb = await getDbClient().queryEventIds(trackingID);
+      let eventIdsNew: string[] = [];
+      let eventIdsRemoved: string[] = [];
+      if (eventIdsInDb.length === 0) {
+        const changes = await getDbClient().insertEntity(entity);
+        eventIdsNew = changes.entityInserted > 0 ? entity.eventIds() : [];
+      } else {
+        await getDbClient().refreshEntity(trackingID, entity);
+        ({ eventIdsNew, eventIdsToBeRemoved: eventIdsRemoved } = entity.compare(eventIdsInDb));
+      }
 
       // post-processing
       postAction(entity);
+      await notifyEntityChanged(entity, eventIdsNew, eventIdsRemoved, "manual-pull");
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : String(err);
+      logger.error(`${whereIsAPI("exception")} Failed to store entity ${entity.id}: ${errorMessage}`);
     }
   }
+}
+
+/**
+ * Decides whether an entity stored in the database is refreshed from its carrier before answering,
+ * and flags it as stale when it is served as it is although its data is older than the max-age.
+ *
+ * The stored data is refreshed when refresh=true is requested, or when it is older than the max-age of
+ * the request (the max-age of its operator by default). Completed and expired entities are only refreshed
+ * on request, and a tracking ID is not pulled again within the minimum refresh interval of its operator.
+ * A refresh reactivates an expired entity (see polling.ts).
+ *
+ * @param c - The Hono context object.
+ * @param entity - The entity stored in the database.
+ * @param operator - The operator code of the entity.
+ * @param refresh - Whether refresh=true is requested.
+ * @returns true if the entity must be pulled from its carrier, false if it is served from the database.
+ */
+function shouldRefresh(c: Context, entity: Entity, operator: string, refresh: boolean): boolean {
+  const age = entity.lastPulledAt === undefined ? undefined : (Date.now() - Date.parse(entity.lastPulledAt)) / 1000;
+  // the entities fed by push are not stale, the entities never pulled are
+  const stale = !entity.isCompleted() && !entity.expired && entity.usePull &&
+    (age === undefined || age > getMaxAge(c, operator));
+  const throttled = age !== undefined &&
+    age < OperatorRegistry.getMinRefreshInterval(operator, config.freshness.minRefreshInterval);
+  if ((refresh || stale) && !throttled) {
+    return true;
+  }
 
-  return entity;
+  entity.stale = stale;
+  return false;
+}
+
+/**
+ * Gets the maximum age of the stored data of an operator for a request: the max-age query parameter,
+ * or the max-age of the operator by default. API keys that may not force a refresh cannot lower it,
+ * nor the requests without API key of the public routes (GET /v0/status/:id).
+ *
+ * @param c - The Hono context object.
+ * @param operator - The operator code.
+ * @returns The maximum age in seconds.
+ */
+function getMaxAge(c: Context, operator: string): number {
+  const maxAge = OperatorRegistry.getMaxAge(operator, config.freshness.maxAge);
+  const requested = parseMaxAge(c);
+  if (requested === undefined) {
+    return maxAge;
+  }
+  const apiToken: ApiToken | undefined = c.get("apiToken");
+  return apiToken?.allowRefresh ? requested : Math.max(requested, maxAge);
+}
+
+/**
+ * Parses the max-age query parameter of a request.
+ *
+ * @param c - The Hono context object.
+ * @returns The maximum age in seconds, or undefined if it is not specified.
+ * @throws {AppError} Throws a 400 error if the max-age is not a non-negative integer.
+ */
+function parseMaxAge(c: Context): number | undefined {
+  const maxAge = c.req.query("max-age");
+  if (maxAge === undefined) {
+    return undefined;
+  }
+  if (!/^\d+$/.test(maxAge)) {
+    throw new AppError("400-03", `ERR-SERVER-AR: MAX_AGE[${maxAge}]`);
+  }
+  return Number(maxAge);
 }
 
 /**
  * Retrieves the status for a given tracking ID from the database or carrier.
- * This function first attempts to fetch the status from the database. If not found,
- * it requests the status from the data provider and updates the database accordingly.
+ * This function first attempts to fetch the status from the database, refreshing it if its data is too old.
+ * If not found, it requests the status from the data provider and updates the database accordingly.
  *
+ * @param c - The Hono context object, used to read the max-age and to count the requests sent to the carrier.
  * @param trackingID - The tracking ID object containing carrier and tracking number information.
  * @param queryParams - Additional query parameters, which may include carrier-specific information.
  * @returns A promise that resolves to:
  *          - The last important status of the entity if found.
- *          - An error code string if an error occurs (e.g., "400-03" for mismatched phone number).
  *          - undefined if no status is found.
- * @throws Will throw an error if there's an issue with database operations.
+ * @throws {AppError} Throws a 404 error if the data provider has no data for the tracking ID.
  */
-async function getStatus(trackingID: TrackingID, queryParams: Record<string, string>): Promise<Record<string, unknown> | undefined> {
-  // Try to get entity from database first
-  let entity = await getDbClient().queryEntity(trackingID);
-  if (entity) {
-    // Throws AppError if validation fails
-    validateStoredEntity(trackingID.operator, entity, queryParams);
-    // Return the last status if found
-    return entity.getLastStatus();
+async function getStatus(c: Context, trackingID: TrackingID, queryParams: Record<string, string>): Promise<Record<string, unknown> | undefined> {
+  const entity = await getEntityFromDbOrProvider(c, trackingID, queryParams);
+  if (!entity) {
+    throw new AppError("404-01", `ERR-SERVER-K: Received empty data from source ${trackingID.operator}`); // Not found in data provider
   }
 
-  // If not in database, request from data provider
-  const result: Entity[] = await requestWhereIs(trackingID.operator, [trackingID], queryParams, "manual-pull");
-  if (result.length === 0) {
-    throw new AppError("404-01", `ERR-SERVER-K: Received empty data from source ${trackingID.operator}`); // Not found in data provider
+  return entity.getLastStatus();
+}
+
+/**
+ * A tracking ID of a batch request together with its operator-specific parameters.
+ */
+type BatchItem = {
+  trackingID: TrackingID;
+  extraParams: Record<string, string>;
+};
+
+/**
+ * Retrieves entities for many tracking IDs from the database or their carriers.
+ *
+ * Tracking IDs found in the database are validated and returned as they are, unless they must be
+ * refreshed (see shouldRefresh). The remaining ones are grouped by operator and requested from the
+ * data provider in batches of the operator's batch size, then stored in the database.
+ * A failure only affects the tracking IDs it belongs to, whose stored entities are served
+ * instead unless strict=true is requested (see serveStaleOnError).
+ *
+ * @param c - The Hono context object, used to read the max-age and to count the requests sent to the carriers.
+ * @param batchItems - The parsed tracking IDs with their extra parameters.
+ * @param refresh - Whether refresh=true is requested.
+ * @param errors - The per-ID errors collected so far; new errors are added to it.
+ * @returns A promise that resolves to the retrieved entities keyed by tracking ID.
+ */
+async function getEntitiesFromDbOrProvider(
+  c: Context,
+  batchItems: BatchItem[],
+  refresh: boolean,
+  errors: Record<string, AppError>,
+): Promise<Record<string, Entity>> {
+  const entities: Record<string, Entity> = {};
+  const itemsToPull: Record<string, BatchItem[]> = {};
+  // the stored entities to refresh, served if their refresh fails
+  const storedEntities: Record<string, Entity> = {};
+
+  parseMaxAge(c);
+
+  // step 1: look up the database first
+  for (const item of batchItems) {
+    const id = item.trackingID.toString();
+    try {
+      const entity = await getDbClient().queryEntity(item.trackingID);
+      // Throws AppError if validation fails. An entity stored without parameters is pulled with those of the request.
+      const validated = entity !== undefined && validateStoredEntity(item.trackingID.operator, entity, item.extraParams);
+      if (entity && validated && !shouldRefresh(c, entity, item.trackingID.operator, refresh)) {
+        countUsage(c, "db-hit", item.trackingID.operator, 1);
+        entities[id] = entity;
+      } else {
+        if (entity && validated) {
+          storedEntities[id] = entity;
+        }
+        const operator = item.trackingID.operator;
+        if (!itemsToPull[operator]) {
+          itemsToPull[operator] = [];
+        }
+        itemsToPull[operator].push(item);
+      }
+    } catch (err) {
+      errors[id] = toBatchError(err, id);
+    }
+  }
+
+  // step 2: pull the missing tracking IDs from the data providers in batches
+  for (const [operator, items] of Object.entries(itemsToPull)) {
+    const batchSize = OperatorRegistry.getBatchSize(operator);
+    const account = await resolveCarrierAccount(operator, c.get("apiToken"));
+    for (let i = 0; i < items.length; i += batchSize) {
+      const batch = items.slice(i, i + batchSize);
+      // Operators processed one by one (eg: sfex) need the params of that tracking ID
+      const extraParams = batch.length === 1 ? batch[0].extraParams : {};
+      countCarrierRequests(c, operator, batch.length);
+      try {
+        const pulled = await requestWhereIs(
+          operator,
+          batch.map((item) => item.trackingID),
+          extraParams,
+          "manual-pull",
+          storePulledEntities,
+          account,
+        );
+        for (const entity of pulled) {
+          entity.stale = false;
+          entities[entity.id] = entity;
+        }
+      } catch (err) {
+        for (const item of batch) {
+          const id = item.trackingID.toString();
+          const stored = storedEntities[id];
+          if (stored && serveStaleOnError(c, stored, err)) {
+            countUsage(c, "db-hit", operator, 1);
+            entities[id] = stored;
+          } else {
+            errors[id] = toBatchError(err, id);
+          }
+        }
+      }
+
+      for (const item of batch) {
+        const id = item.trackingID.toString();
+        if (!entities[id] && !errors[id]) {
+          errors[id] = new AppError("404-01", `ERR-SERVER-U: Received empty data from source ${operator}`);
+        }
+      }
+    }
+  }
+
+  return entities;
+}
+
+/**
+ * Parses the body and query parameters of a batch request.
+ *
+ * @param req - The Hono request object containing the JSON body and query parameters.
+ * @param apiToken - The API token of the request, whose operator scope applies to every tracking ID.
+ * @param endpoint - The API endpoint used to look up the valid parameters (eg: "whereis").
+ * @returns A tuple containing the valid tracking IDs with their extra parameters, the errors of the
+ *   invalid tracking IDs keyed by tracking ID, and the query parameters.
+ * @throws {AppError} Throws an `AppError` if the request body or the query parameters are invalid.
+ */
+async function parseBatchRequest(req: HonoRequest, apiToken: ApiToken, endpoint: string): Promise<[BatchItem[], Record<string, AppError>, Record<string, string>]> {
+  let requestBody: Record<string, unknown>;
+  try {
+    requestBody = await req.json();
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new AppError("400-09", `ERR-SERVER-R: INVALID_JSON: ${errorMessage}`);
   }
 
-  entity = result[0] as Entity;
-  await getDbClient().insertEntity(entity);
+  const trackingIds = requestBody?.trackingIds;
+  if (!Array.isArray(trackingIds) || trackingIds.length === 0 || trackingIds.some((id) => typeof id !== "string")) {
+    throw new AppError("400-09", "ERR-SERVER-S: TRACKING_IDS");
+  }
+  if (trackingIds.length > config.app.batchLimit) {
+    throw new AppError("400-10", `ERR-SERVER-T: ${trackingIds.length} > ${config.app.batchLimit}`);
+  }
+
+  const params = requestBody.params ?? {};
+  if (typeof params !== "object" || Array.isArray(params)) {
+    throw new AppError("400-09", "ERR-SERVER-V: PARAMS");
+  }
+
+  // Only the common parameters are accepted in the query string of a batch request
+  const queryParams = req.query();
+  const invalidQueryParams = validateQueryParams(queryParams, new Set(ApiParams.getParamNames(endpoint, "")));
+  if (invalidQueryParams.length > 0) {
+    throw new AppError("400-03", "ERR-SERVER-W: " + invalidQueryParams.join(","));
+  }
+
+  const batchItems: BatchItem[] = [];
+  const errors: Record<string, AppError> = {};
+  const seen = new Set<string>();
+  for (const rawId of trackingIds as string[]) {
+    let id = rawId.trim();
+    try {
+      const trackingID = TrackingID.parseOrDetect(id);
+      id = trackingID.toString();
+      if (seen.has(id)) continue;
+      seen.add(id);
+      if (!apiToken.isOperatorAllowed(trackingID.operator)) {
+        throw new AppError("403-01", `ERR-SERVER-AF: CLIENT_AUTHORIZATION[${trackingID.operator}]`);
+      }
 
-  // post-processing
-  postAction(entity);
+      const rawParams = (params as Record<string, unknown>)[rawId] ?? (params as Record<string, unknown>)[id] ?? {};
+      if (typeof rawParams !== "object" || rawParams === null || Array.isArray(rawParams)) {
+        throw new AppError("400-03", `ERR-SERVER-Z: PARAMS[${id}]`);
+      }
+      const idParams: Record<string, string> = {};
+      for (const [key, value] of Object.entries(rawParams)) {
+        idParams[key] = String(value);
+      }
+      const extraParams = getExtraParams(trackingID.operator, idParams);
+      const success = validateParams(trackingID.operator, trackingID, extraParams);
+      if (success) {
+        const validParamsSet: string[] = ApiParams.getParamNames(endpoint, trackingID.operator);
+        const invalidParams = validateQueryParams(idParams, new Set(validParamsSet));
+        if (invalidParams.length > 0) {
+          throw new AppError("400-03", "ERR-SERVER-X: " + invalidParams.join(","));
+        }
+      }
 
-  return (entity).getLastStatus();
+      batchItems.push({ trackingID, extraParams });
+    } catch (err) {
+      errors[id] = toBatchError(err, id);
+    }
+  }
+
+  return [batchItems, errors, queryParams];
+}
+
+/**
+ * Converts an error raised while processing one tracking ID of a batch request into an AppError.
+ * Server-side errors are logged since they are reported in the response body instead of being thrown.
+ *
+ * @param err - The error to convert.
+ * @param id - The tracking ID the error belongs to.
+ * @returns The AppError to report for the tracking ID.
+ */
+function toBatchError(err: unknown, id: string): AppError {
+  const appError = err instanceof AppError
+    ? err
+    : new AppError("500-01", `ERR-SERVER-Y: ${err instanceof Error ? err.message : String(err)}`);
+
+  if (appError.getHttpStatusCode() >= 500) {
+    logger.error(`${whereIsAPI("exception")} Batch request failed for ${id}: ${appError.getMessage()}`);
+  }
+  return appError;
+}
+
+/**
+ * Formats the per-ID errors of a batch request in the same shape as an error response.
+ *
+ * @param errors - The errors keyed by tracking ID.
+ * @returns The error code and message of each tracking ID.
+ */
+function formatBatchErrors(errors: Record<string, AppError>): Record<string, { error: string; message: string }> {
+  const output: Record<string, { error: string; message: string }> = {};
+  for (const [id, appError] of Object.entries(errors)) {
+    output[id] = {
+      error: appError.code,
+      message: appError.getMessage(),
+    };
+  }
+  return output;
 }
 
 /**
@@ -526,11 +1757,11 @@ async function getStatus(trackingID: TrackingID, queryParams: Record<string, str
 function parseURL(req: HonoRequest): [TrackingID, Record<string, string>, Record<string, string>] {
   // Carrier-TrackingNumber
   const id = req.param("id") ?? "";
-  const trackingID = TrackingID.parse(id);
+  const trackingID = TrackingID.parseOrDetect(id);
 
   const queryParams = req.query();
   const operator: string = trackingID.operator;
-  const extraParams = getExtraParams(operator, req);
+  const extraParams = getExtraParams(operator, queryParams);
 
   const success = validateParams(operator, trackingID, extraParams);
   if (success) {
@@ -544,6 +1775,101 @@ function parseURL(req: HonoRequest): [TrackingID, Record<string, string>, Record
   return [trackingID, extraParams, queryParams];
 }
 
+/**
+ * Counts the tracking IDs requested from the carriers, which weigh more than database hits in the rate limit
+ * and are metered by operator.
+ *
+ * @param c - The Hono context object.
+ * @param operator - The operator code of the carrier.
+ * @param count - The number of tracking IDs requested from the carrier.
+ */
+function countCarrierRequests(c: Context, operator: string, count: number): void {
+  c.set("carrierRequests", (c.get("carrierRequests") ?? 0) + count);
+  countUsage(c, "manual-pull", operator, count);
+}
+
+/**
+ * Adds to the usage counts of the request, recorded by the meterUsage middleware once the request is served.
+ *
+ * @param c - The Hono context object.
+ * @param metric - The usage metric: request, db-hit, manual-pull or push.
+ * @param dimension - The route or operator the usage is counted for.
+ * @param count - The amount to add.
+ */
+function countUsage(c: Context, metric: string, dimension: string, count: number): void {
+  const usage = c.get("usage") ?? {};
+  usage[metric] = usage[metric] ?? {};
+  usage[metric][dimension] = (usage[metric][dimension] ?? 0) + count;
+  c.set("usage", usage);
+}
+
+/**
+ * Parses the body of the admin requests on an API key: {"id": "0198c7c6-...", "gracePeriod": 3600}.
+ *
+ * @param c - The Hono context object.
+ * @returns The identifier of the API key and the optional grace period in seconds.
+ * @throws {AppError} Throws a 400 error if the body is invalid.
+ */
+async function parseAdminKeyRequest(c: Context): Promise<{ id: string; gracePeriod?: number }> {
+  let requestBody: Record<string, unknown>;
+  try {
+    requestBody = await c.req.json();
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new AppError("400-09", `ERR-SERVER-AL: INVALID_JSON: ${errorMessage}`);
+  }
+
+  const id = requestBody?.id;
+  const gracePeriod = requestBody?.gracePeriod;
+  if (typeof id !== "string" || id === "") {
+    throw new AppError("400-09", "ERR-SERVER-AM: KEY_ID");
+  }
+  if (gracePeriod !== undefined && (typeof gracePeriod !== "number" || gracePeriod < 0)) {
+    throw new AppError("400-09", "ERR-SERVER-AN: GRACE_PERIOD");
+  }
+  return { id, gracePeriod };
+}
+
+/**
+ * Sends the usage report of an API key over the days of the from/to query parameters,
+ * with its monthly quota and the requests left in the current month.
+ *
+ * @param c - The Hono context object.
+ * @param apiToken - The API key to report on.
+ * @returns A Response object with the daily and monthly aggregates.
+ * @throws {AppError} Throws a 400 error if a day is invalid.
+ */
+async function sendUsageReport(c: Context, apiToken: ApiToken): Promise<Response> {
+  const today = toDay(new Date());
+  const from = c.req.query("from") ?? `${today.substring(0, 7)}-01`;
+  const to = c.req.query("to") ?? today;
+  for (const day of [from, to]) {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(day) || isNaN(Date.parse(day))) {
+      throw new AppError("400-03", `ERR-SERVER-AQ: USAGE_PERIOD[${day}]`);
+    }
+  }
+  if (from > to) {
+    throw new AppError("400-03", `ERR-SERVER-AQ: USAGE_PERIOD[${from}..${to}]`);
+  }
+
+  const { daily, monthly } = await getUsageReport(apiToken.getUsageTokenId(), from, to);
+  const used = await getMonthlyRequests(apiToken.getUsageTokenId());
+  return c.json({
+    id: apiToken.id,
+    from,
+    to,
+    quota: {
+      monthly: apiToken.monthlyQuota ?? null,
+      used,
+      remaining: apiToken.monthlyQuota === undefined ? null : Math.max(0, apiToken.monthlyQuota - used),
+    },
+    daily,
+    monthly,
+  }, 200, {
+    "Content-Type": "application/json; charset=utf-8",
+  });
+}
+
 function validateQueryParams(params: Record<string, string>, validParams: Set<string>): string[] {
   const invalidParams: string[] = [];
 
@@ -0,0 +1,434 @@
+/**
+ * @file sync.ts
+ * @description Synchronization of the tracking routes with the carriers, run by the scheduler cron job
+ * and by the syncs triggered by an administrator (POST /v0/admin/scheduler/sync).
+ * Each run claims the in-process tracking numbers due for a poll, queues their pull jobs (see pull_jobs.ts),
+ * and processes the due jobs, the operators in parallel: each job queries the latest status of its tracking
+ * numbers and updates the database if new events are found. Each tracking number is scheduled for its next
+ * poll according to its last status, or expired once abandoned (see polling.ts).
+ * Every run is recorded with its batches (GET /v0/admin/scheduler/runs): the tracking IDs pulled,
+ * the entities changed, the events inserted and deleted, and the errors.
+ *
+ * @copyright (c) 2025, the Eagle1 authors
+ * @license BSD 3-Clause License
+ */
+
+import { v7 as uuidv7 } from "@std/uuid";
+import { config } from "../../config.ts";
+import { getDbClient } from "../db/dbutil.ts";
+import { whereIsAPI, logger } from "../tools/logger.ts";
+import { requestWhereIs } from "./gateway.ts";
+import { AppError, Entity, OperatorRegistry, SchedulerBatch, SchedulerRun, TrackingID } from "./model.ts";
+import { postAction } from "./post_actions.ts";
+import { notifyEntityChanged } from "./notifier.ts";
+import { getNextPollAt, isExpired } from "./polling.ts";
+import { enqueuePullJob, processDuePullJobs } from "./pull_jobs.ts";
+
+/**
+ * The identifier of this process (scheduler or API server instance), which owns the tracking IDs it claims.
+ * Several instances (eg. one per container) share the due tracking IDs through their claims.
+ */
+export const INSTANCE_ID = uuidv7.generate();
+
+/**
+ * The outcome of the pull of a batch, added up while its entities are stored.
+ */
+type SyncStats = Pick<SchedulerBatch, "entitiesChanged" | "eventsInserted" | "eventsDeleted" | "errors">;
+
+/**
+ * Records the start of a scheduler run.
+ *
+ * @param trigger - What started the run (cron or manual).
+ * @param operator - The operator of a manual sync, all operators if undefined.
+ * @param trackingId - The tracking ID of a manual sync.
+ * @returns The run, in running status.
+ */
+export async function startSchedulerRun(trigger: string, operator?: string, trackingId?: string): Promise<SchedulerRun> {
+  const run = new SchedulerRun();
+  run.id = uuidv7.generate();
+  run.instanceId = INSTANCE_ID;
+  run.trigger = trigger;
+  run.operator = operator;
+  run.trackingId = trackingId;
+  run.startedAt = new Date().toISOString();
+  await getDbClient().insertSchedulerRun(run);
+  return run;
+}
+
+/**
+ * Synchronizes tracking routes by claiming the in-process tracking numbers due for a poll,
+ * queuing their pull jobs, and processing the due jobs with a pool of workers per operator: each job
+ * queries the status of its tracking numbers and updates the database if new events are found (see pull_jobs.ts).
+ * The tracking numbers already queued (pending or dead job) are not queued again.
+ * The claims are leased to this instance and renewed while it runs, then released, so that the
+ * scheduler instances of several containers do not pull the same tracking numbers. The run is skipped
+ * if another instance holds the whole work (SQLite).
+ *
+ * Different operators are queued differently:
+ *  - SFEX: One job per tracking number with its specific params (e.g., phone number)
+ *  - FDX: One job per batch of up to 30, with no additional params required
+ *
+ * Errors are recorded in the run and logged, never thrown.
+ *
+ * @param run - The run, restricted to the tracking numbers and jobs of its operator if any.
+ */
+export async function syncRoutes(run: SchedulerRun): Promise<void> {
+  let inProcessTrackingNums: Record<string, unknown> | undefined = {};
+  let skipped = false;
+  const leaseUntil = () => new Date(Date.now() + config.scheduler.leaseDuration * 1000).toISOString();
+  // renew the lease of the claimed tracking IDs and jobs while they are processed
+  const heartbeat = setInterval(() => {
+    getDbClient().renewClaims(INSTANCE_ID, leaseUntil()).catch((err) => handleError(err, "renewClaims"));
+  }, config.scheduler.heartbeatInterval * 1000);
+  try {
+    // the tracking IDs pulled by a client request to the API server process are rescheduled too
+    inProcessTrackingNums = await getDbClient().claimDueTrackingNums(
+      INSTANCE_ID,
+      new Date().toISOString(),
+      leaseUntil(),
+      config.scheduler.claimLimit,
+      run.operator,
+    );
+    if (inProcessTrackingNums === undefined) {
+      logger.info(`${whereIsAPI("data_monitor")} --> Due tracking numbers held by another instance, run ${run.id} skipped`);
+      skipped = true;
+      return;
+    }
+    run.trackingIdsClaimed = Object.keys(inProcessTrackingNums).length;
+    logger.info(
+      `${whereIsAPI("data_monitor")} --> Claiming due in-process tracking numbers: ${run.trackingIdsClaimed}`,
+    );
+    const queuedTrackingNums = new Set(await getDbClient().queryPullJobTrackingIds());
+    for (const id of queuedTrackingNums) {
+      delete inProcessTrackingNums[id];
+    }
+
+    // Group tracking numbers by operator
+    const groupedTrackingNums = groupTrackingNumsByOperator(
+      inProcessTrackingNums,
+    );
+    for (const [operator, trackingNums] of Object.entries(
+      groupedTrackingNums,
+    )) {
+      const batchSize = OperatorRegistry.getBatchSize(operator);
+      if (batchSize <= 0) {
+        logger.error(
+          `${whereIsAPI("exception")} Invalid batch size for operator ${operator}, skipping`,
+        );
+        run.errors.push(`Invalid batch size for operator ${operator}`);
+        continue;
+      }
+      const trackingIdBatches: Record<string, unknown>[] = getTrackingIdBatches(
+        trackingNums,
+        batchSize,
+      );
+
+      for (const trackingIds of trackingIdBatches) {
+        const ids = Object.keys(trackingIds);
+        // the tracking numbers processed one by one (eg: sfex) keep their params
+        const params = ids.length === 1 ? trackingIds[ids[0]] as Record<string, string> : {};
+        await enqueuePullJob(operator, ids, params);
+      }
+      run.jobsQueued += trackingIdBatches.length;
+      logger.info(
+        `${whereIsAPI("data_monitor")} Queued ${trackingIdBatches.length} ${operator.toUpperCase()} pull jobs`,
+      );
+    }
+
+    const jobStats: Map<string, SyncStats> = new Map();
+    const results = await processDuePullJobs(INSTANCE_ID, leaseUntil(), async (job) => {
+      logger.info(
+        `${whereIsAPI("data_monitor")} Processing pull job ${job.id} (${job.operator.toUpperCase()}) with ${job.trackingIds.length} tracking numbers`,
+      );
+      const stats = newSyncStats();
+      jobStats.set(job.id, stats);
+      await processTrackingIds(job.operator, job.trackingIds.map((id) => TrackingID.parse(id)), job.params, stats);
+    }, run.operator);
+
+    run.batches = results.map(({ job, status, startedAt, endedAt, error }) => {
+      const stats = jobStats.get(job.id) ?? newSyncStats();
+      return {
+        jobId: job.id,
+        operator: job.operator,
+        trackingIds: job.trackingIds,
+        // a job whose entities failed to be stored has failed too
+        status: status === "succeeded" && stats.errors.length > 0 ? "failed" : status,
+        startedAt,
+        endedAt,
+        ...stats,
+        errors: error === undefined ? stats.errors : [...stats.errors, error],
+      };
+    });
+  } catch (err) {
+    handleError(err, "syncRoutes");
+    run.errors.push(getErrorMessage(err));
+  } finally {
+    clearInterval(heartbeat);
+    await getDbClient().releaseClaims(INSTANCE_ID).catch((err) => handleError(err, "releaseClaims"));
+    await endSchedulerRun(run, skipped);
+  }
+}
+
+/**
+ * Synchronizes a single stored tracking ID immediately, whether it is due or not, with its stored parameters.
+ * Errors are recorded in the run and logged, never thrown: the run fails if the tracking ID could not be
+ * pulled or stored.
+ *
+ * @param run - The run.
+ * @param trackingId - The tracking ID.
+ * @param params - The additional parameters of the pull (eg. phone number for sfex).
+ */
+export async function syncTrackingId(run: SchedulerRun, trackingId: TrackingID, params: Record<string, string>): Promise<void> {
+  const stats = newSyncStats();
+  const startedAt = new Date().toISOString();
+  try {
+    await processTrackingIds(trackingId.operator, [trackingId], params, stats);
+  } catch (err) {
+    handleError(err, `syncTrackingId ${trackingId.toString()}`);
+    stats.errors.push(getErrorMessage(err));
+  }
+  run.errors.push(...stats.errors);
+  run.batches = [{
+    operator: trackingId.operator,
+    trackingIds: [trackingId.toString()],
+    status: stats.errors.length > 0 ? "failed" : "succeeded",
+    startedAt,
+    endedAt: new Date().toISOString(),
+    ...stats,
+  }];
+  await endSchedulerRun(run);
+}
+
+/**
+ * Records the end of a scheduler run: it failed if it has errors outside of its batches.
+ *
+ * @param run - The run.
+ * @param skipped - Whether the run has been skipped, another instance holding the work.
+ */
+async function endSchedulerRun(run: SchedulerRun, skipped: boolean = false): Promise<void> {
+  run.status = skipped ? "skipped" : run.errors.length > 0 ? "failed" : "completed";
+  run.endedAt = new Date().toISOString();
+  await getDbClient().updateSchedulerRun(run).catch((err) => handleError(err, "updateSchedulerRun"));
+}
+
+/**
+ * Creates the empty outcome of a batch.
+ */
+function newSyncStats(): SyncStats {
+  return { entitiesChanged: 0, eventsInserted: 0, eventsDeleted: 0, errors: [] };
+}
+
+/**
+ * Groups tracking numbers by operator.
+ * @param inProcessTrackingNums Record of tracking numbers with their parameters
+ * @returns Record of operators with their corresponding tracking numbers and parameters
+ */
+function groupTrackingNumsByOperator(
+  inProcessTrackingNums: Record<string, unknown>,
+): Record<string, Record<string, unknown>> {
+  const groupedByOperator: Record<string, Record<string, unknown>> = {};
+
+  for (const [id, params] of Object.entries(inProcessTrackingNums)) {
+    if (!id.includes("-")) {
+      logger.warn(
+        `${whereIsAPI("sync")} Skipping malformed tracking ID without operator separator: ${id}`,
+      );
+      continue;
+    }
+
+    const [operator] = id.split("-");
+    if (!operator) {
+      logger.warn(
+        `${whereIsAPI("sync")} Skipping malformed tracking ID with empty operator: ${id}`,
+      );
+      continue;
+    }
+
+    if (!groupedByOperator[operator]) {
+      groupedByOperator[operator] = {};
+    }
+
+    groupedByOperator[operator][id] = params;
+  }
+
+  return groupedByOperator;
+}
+
+function getTrackingIdBatches(
+  trackingIds: Record<string, unknown>,
+  batchSize: number,
+): Record<string, unknown>[] {
+  const batches: Record<string, unknown>[] = [];
+  const ids = Object.keys(trackingIds);
+
+  // Create batches of tracking IDs with their parameters
+  for (let i = 0; i < ids.length; i += batchSize) {
+    const batch: Record<string, unknown> = {};
+    const batchIds = ids.slice(i, i + batchSize);
+
+    for (const id of batchIds) {
+      batch[id] = trackingIds[id];
+    }
+
+    batches.push(batch);
+  }
+  return batches;
+}
+
+/**
+ * Processes tracking IDs by fetching their latest status from an external provider,
+ * comparing with existing database records, and updating the database if changes are detected.
+ *
+ * This function performs three main steps:
+ * 1. Fetches the latest tracking status from the external data provider, and reschedules the tracking IDs
+ *    without data from the carrier, or expires them if they are abandoned
+ * 2. Compares event IDs between the database and freshly fetched data
+ * 3. Updates the database only if new events are found or existing events are removed
+ *
+ * Steps 2 and 3 are the handler of the pull, so that a pull shared with a concurrent client request
+ * for the same tracking ID updates the database once.
+ *
+ * @param operator - The shipping operator identifier (e.g., "sfex", "fdx")
+ * @param trackingIds - Array of tracking IDs to process
+ * @param params - Additional parameters required by the operator (e.g., phone number for SFEX)
+ * @param stats - The outcome of the batch, added up
+ * @returns A promise that resolves when all tracking IDs have been processed and database updates are complete
+ *
+ * @async
+ */
+async function processTrackingIds(
+  operator: string,
+  trackingIds: TrackingID[],
+  params: Record<string, string>,
+  stats: SyncStats,
+): Promise<void> {
+  // step 1: fetch latest status from external data provider
+  const entities = await requestWhereIs(
+    operator,
+    trackingIds,
+    params,
+    "auto-pull",
+    (pulled) => storeAutoPulledEntities(pulled, stats),
+  );
+
+  // the tracking IDs without data from the carrier are polled again after the default interval, unless abandoned
+  const now = Date.now();
+  for (const trackingId of trackingIds) {
+    if (entities.some((entity) => entity.id === trackingId.toString())) continue;
+    try {
+      const stored = await getDbClient().queryEntity(trackingId);
+      if (stored && isExpired(operator, stored, now)) {
+        await expireEntity(trackingId, stored);
+      } else {
+        await getDbClient().updatePollSchedule(trackingId, new Date(now).toISOString(), getNextPollAt(operator, undefined, now));
+      }
+    } catch (err) {
+      handleError(err, `processTrackingIds tracking ID ${trackingId.toString()}`);
+      stats.errors.push(`${trackingId.toString()}: ${getErrorMessage(err)}`);
+    }
+  }
+}
+
+/**
+ * Updates the database with the entities pulled by the scheduler, and expires the abandoned ones.
+ *
+ * @param entities - The entities pulled from the external data provider
+ * @param stats - The outcome of the batch, added up
+ * @returns A promise that resolves when the database updates are complete
+ */
+async function storeAutoPulledEntities(entities: Entity[], stats: SyncStats): Promise<void> {
+  const updateMethod = "auto-pull";
+  // step 2: compare eventIds in the database and fresh eventIds
+  for (const entity of entities) {
+    try {
+      const trackingID = TrackingID.parse(entity.id);
+      await getDbClient().updatePollSchedule(trackingID, entity.lastPulledAt as string, entity.nextPollAt);
+      const eventIdsInDb: string[] = await getDbClient().queryEventIds(trackingID);
+      // step 3: update the database on-demand
+      const { dataChanged, eventIdsNew, eventIdsToBeRemoved } =
+        entity.compare(eventIdsInDb);
+      if (dataChanged) {
+        await getDbClient().updateEntity(
+          entity,
+          updateMethod,
+          eventIdsNew,
+          eventIdsToBeRemoved,
+        );
+        stats.entitiesChanged++;
+        stats.eventsInserted += eventIdsNew.length;
+        stats.eventsDeleted += eventIdsToBeRemoved.length;
+        await notifyEntityChanged(entity, eventIdsNew, eventIdsToBeRemoved, updateMethod);
+      }
+      // post-processing
+      await postAction(entity);
+
+      if (isExpired(trackingID.operator, entity)) {
+        await expireEntity(trackingID, entity);
+      }
+    } catch (err) {
+      handleError(err, `processTrackingIds entity ${entity.id}`);
+      stats.errors.push(`${entity.id}: ${getErrorMessage(err)}`);
+    }
+  }
+}
+
+/**
+ * Expires an abandoned entity, i.e. stops auto-pulling it until a manual refresh reactivates it.
+ *
+ * @param trackingID - The tracking ID of the entity
+ * @param entity - The entity, whose last event is logged
+ */
+async function expireEntity(trackingID: TrackingID, entity: Entity): Promise<void> {
+  await getDbClient().expireEntity(trackingID);
+  logger.info(
+    `${whereIsAPI("data_monitor")} Expired ${trackingID.toString()}: no new event since ${entity.lastEvent()?.when}, auto-pull stopped`,
+  );
+}
+
+/**
+ * Gets the message of an error, as recorded in the scheduler runs.
+ *
+ * @param err - The error (can be AppError, Error, or unknown type)
+ * @returns The message.
+ */
+function getErrorMessage(err: unknown): string {
+  if (err instanceof AppError) return err.getMessage();
+  return err instanceof Error ? err.message : String(err);
+}
+
+/**
+ * Centralized error handler for scheduled tasks.
+ *
+ * This function handles different types of errors appropriately:
+ * - AppError with 4xx status: Treated as user errors, not logged (user-facing issues)
+ * - AppError with 5xx status: Logged as server errors (system issues)
+ * - Generic Error: Logged with full details including stack trace and cause
+ * - Unknown errors: Logged as strings
+ *
+ * @param err - The error to handle (can be AppError, Error, or unknown type)
+ * @param context - A string describing where the error occurred (e.g., function name)
+ */
+export function handleError(err: unknown, context: string): void {
+  // ignore the UserError
+  if (err instanceof AppError) {
+    if (err.getHttpStatusCode() >= 500) {
+      logger.error(
+        `${whereIsAPI("exception")} ${context}: ${err.getMessage()}`,
+      );
+    }
+  } else {
+    if (err instanceof Error) {
+      logger.error(`${whereIsAPI("exception")} ${context}: ${err.message}`);
+      if (err.stack) {
+        logger.error(`${whereIsAPI("exception")} Stack trace: ${err.stack}`);
+      }
+      if (err.cause) {
+        logger.error(`${whereIsAPI("exception")} Caused by: ${err.cause}`);
+      }
+    } else {
+      logger.error(
+        `${whereIsAPI("exception")} Unknown error in ${context}: ${String(err)}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * @file usage.ts
+ * @description Usage metering of the API keys. Each authenticated request adds to the daily
+ * counters of its API key: the requests by route, the tracking IDs served from the database
+ * ("db-hit") or pulled from the carriers ("manual-pull") by operator, and the events pushed
+ * ("push") by operator. The counters are aggregated by day and by month for GET /v0/usage,
+ * and the requests of the current month are checked against the monthly quota of the key.
+ *
+ * @copyright (c) 2025, the Eagle1 authors
+ * @license BSD 3-Clause License
+ */
+
+import { getDbClient } from "../db/dbutil.ts";
+import { logger, whereIsAPI } from "../tools/logger.ts";
+import { UsageRecord } from "./model.ts";
+
+/**
+ * Usage counts of a request: metric -> dimension (route or operator) -> count.
+ */
+export type UsageCounts = Record<string, Record<string, number>>;
+
+/**
+ * The usage of an API key over a period (a day or a month).
+ */
+export type UsageAggregate = {
+  /** The day (YYYY-MM-DD) or the month (YYYY-MM) */
+  period: string;
+  /** Requests by route */
+  requests: Record<string, number>;
+  /** Tracking IDs served from the database, by operator */
+  dbHits: Record<string, number>;
+  /** Tracking IDs pulled from the carriers, by operator */
+  carrierPulls: Record<string, number>;
+  /** Events pushed, by operator */
+  pushEvents: Record<string, number>;
+};
+
+/** The field of UsageAggregate each metric is reported in */
+const METRIC_FIELDS: Record<string, "requests" | "dbHits" | "carrierPulls" | "pushEvents"> = {
+  "request": "requests",
+  "db-hit": "dbHits",
+  "manual-pull": "carrierPulls",
+  "push": "pushEvents",
+};
+
+/**
+ * Adds the usage counts of a request to the counters of the current day.
+ * Errors are logged and never thrown, so that metering never fails a request.
+ *
+ * @param tokenId - The identifier of the API key.
+ * @param counts - The usage counts of the request.
+ */
+export async function recordUsage(tokenId: string, counts: UsageCounts): Promise<void> {
+  const day = toDay(new Date());
+  const records: UsageRecord[] = [];
+  for (const [metric, dimensions] of Object.entries(counts)) {
+    for (const [dimension, count] of Object.entries(dimensions)) {
+      if (count > 0) {
+        records.push(new UsageRecord(tokenId, day, metric, dimension, count));
+      }
+    }
+  }
+  if (records.length === 0) return;
+
+  try {
+    await getDbClient().incrementUsage(records);
+  } catch (err) {
+    logger.error(`${whereIsAPI("exception")} Failed to record the usage of API key ${tokenId}: ${err}`);
+  }
+}
+
+/**
+ * Counts the requests of an API key in the current calendar month (UTC).
+ *
+ * @param tokenId - The identifier of the API key.
+ * @returns The number of requests of the month.
+ */
+export async function getMonthlyRequests(tokenId: string): Promise<number> {
+  const today = toDay(new Date());
+  const records = await getDbClient().queryUsage(tokenId, `${today.substring(0, 7)}-01`, today, "request");
+  return records.reduce((total, record) => total + record.count, 0);
+}
+
+/**
+ * Aggregates the usage of an API key by day and by month over a range of days.
+ *
+ * @param tokenId - The identifier of the API key.
+ * @param fromDay - The first day of the range (YYYY-MM-DD).
+ * @param toDay - The last day of the range (YYYY-MM-DD), included.
+ * @returns The daily and monthly aggregates, ordered by period. Periods without usage are omitted.
+ */
+export async function getUsageReport(
+  tokenId: string,
+  fromDay: string,
+  toDay: string,
+): Promise<{ daily: UsageAggregate[]; monthly: UsageAggregate[] }> {
+  const records = await getDbClient().queryUsage(tokenId, fromDay, toDay);
+  const daily = new Map<string, UsageAggregate>();
+  const monthly = new Map<string, UsageAggregate>();
+  for (const record of records) {
+    const field = METRIC_FIELDS[record.metric];
+    if (field === undefined) continue;
+    for (const [aggregates, period] of [[daily, record.day], [monthly, record.day.substring(0, 7)]] as const) {
+      let aggregate = aggregates.get(period);
+      if (aggregate === undefined) {
+        aggregate = { period, requests: {}, dbHits: {}, carrierPulls: {}, pushEvents: {} };
+        aggregates.set(period, aggregate);
+      }
+      aggregate[field][record.dimension] = (aggregate[field][record.dimension] ?? 0) + record.count;
+    }
+  }
+  return { daily: [...daily.values()], monthly: [...monthly.values()] };
+}
+
+/**
+ * Formats a date as a UTC day.
+ *
+ * @param date - The date.
+ * @returns The day. ex: 2025-07-16
+ */
+export function toDay(date: Date): string {
+  return date.toISOString().substring(0, 10);
+}
@@ -0,0 +1,337 @@
+/**
+ * @file webhook.ts
+ * @description Webhook notifications for tracking entities. When new events are stored
+ * for an entity (auto-pull, manual-pull or push), a delivery is recorded for every
+ * matching subscription and sent to its callback URL as a signed HTTP POST request.
+ * Failed deliveries are retried with exponential backoff by the scheduler.
+ * The callback URLs must be https URLs of public hosts: a delivery is not sent to a host resolving to a
+ * loopback, private or link-local address, and redirects are not followed. The delivery connects to the
+ * address that has been checked, so that the host cannot be resolved again to another address in between.
+ *
+ * Each delivery carries the following headers:
+ *  - X-Whereis-Delivery: the delivery identifier
+ *  - X-Whereis-Timestamp: the UNIX timestamp (in seconds) of the attempt
+ *  - X-Whereis-Signature: sha256=<hex HMAC-SHA256 of "<timestamp>.<body>" keyed with the subscription secret>
+ *
+ * @copyright (c) 2025, the Eagle1 authors
+ * @license BSD 3-Clause License
+ */
+
+import { encodeHex } from "@std/encoding";
+import { v7 as uuidv7 } from "@std/uuid";
+
+import { config } from "../../config.ts";
+import { getDbClient } from "../db/dbutil.ts";
+import { logger, whereIsAPI } from "../tools/logger.ts";
+import { Entity, Subscription, TrackingID, WebhookDelivery } from "./model.ts";
+
+/**
+ * Records and sends a webhook delivery to every subscription watching the entity.
+ * Nothing is sent when no event was added. Errors are logged and never thrown,
+ * so a failing webhook never breaks the update of the entity.
+ *
+ * @param entity - The entity that has been inserted or updated.
+ * @param eventIdsNew - The identifiers of the events added to the entity.
+ * @param updateMethod - The update method (auto-pull, manual-pull or push).
+ */
+export async function notifySubscribers(entity: Entity, eventIdsNew: string[], updateMethod: string): Promise<void> {
+  if (eventIdsNew.length === 0) return;
+
+  try {
+    const subscriptions = await getDbClient().querySubscriptionsByTrackingId(
+      entity.id,
+      TrackingID.parse(entity.id).operator,
+    );
+    if (subscriptions.length === 0) return;
+
+    const newIds = new Set(eventIdsNew);
+    const events = (entity.events ?? []).filter((event) => newIds.has(event.eventId));
+    const now = new Date().toISOString();
+
+    const deliveries: WebhookDelivery[] = [];
+    for (const subscription of subscriptions) {
+      const delivery = new WebhookDelivery();
+      delivery.id = uuidv7.generate();
+      delivery.subscriptionId = subscription.id;
+      delivery.trackingId = entity.id;
+      delivery.payload = {
+        subscriptionId: subscription.id,
+        deliveryId: delivery.id,
+        trackingId: entity.id,
+        updateMethod: updateMethod,
+        entity: entity.toJSON(),
+        newEvents: events.map((event) => event.toJSON()),
+      };
+      delivery.nextAttemptAt = now;
+      delivery.createdAt = now;
+      await getDbClient().insertDelivery(delivery);
+      deliveries.push(delivery);
+    }
+
+    // the first attempt is not awaited: a slow callback URL must not delay the update
+    for (let i = 0; i < deliveries.length; i++) {
+      attemptDelivery(subscriptions[i], deliveries[i]).catch((err) => {
+        logger.error(`${whereIsAPI("exception")} Webhook delivery ${deliveries[i].id} failed: ${err}`);
+      });
+    }
+  } catch (err) {
+    logger.error(`${whereIsAPI("exception")} Failed to notify subscribers of ${entity.id}: ${err}`);
+  }
+}
+
+/**
+ * Retries the pending webhook deliveries whose next attempt is due.
+ * Deliveries of deleted subscriptions are marked as failed.
+ */
+export async function retryDueDeliveries(): Promise<void> {
+  const deliveries = await getDbClient().queryDueDeliveries(new Date().toISOString(), config.webhook.retryBatchSize);
+  for (const delivery of deliveries) {
+    const subscription = await getDbClient().querySubscription(delivery.subscriptionId);
+    if (subscription === undefined) {
+      delivery.status = "failed";
+      delivery.lastError = "Subscription not found";
+      delivery.nextAttemptAt = undefined;
+      await getDbClient().updateDelivery(delivery);
+      continue;
+    }
+    await attemptDelivery(subscription, delivery);
+  }
+}
+
+/**
+ * Sends a delivery to the callback URL of its subscription and saves the outcome.
+ * A 2xx response marks the delivery as delivered. Any other outcome schedules the next
+ * attempt with exponential backoff, or marks the delivery as failed once the maximum
+ * number of attempts has been reached.
+ *
+ * @param subscription - The subscription the delivery belongs to.
+ * @param delivery - The delivery to send.
+ */
+async function attemptDelivery(subscription: Subscription, delivery: WebhookDelivery): Promise<void> {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const signature = await sign(subscription.secret, `${timestamp}.${body}`);
+
+  delivery.attempts += 1;
+  try {
+    const address = await checkCallbackHost(subscription.callbackUrl);
+    const status = await postToAddress(subscription.callbackUrl, address, {
+      "Content-Type": "application/json",
+      "User-Agent": "Whereis-Webhook/0",
+      "X-Whereis-Delivery": delivery.id,
+      "X-Whereis-Timestamp": timestamp,
+      "X-Whereis-Signature": `sha256=${signature}`,
+    }, body);
+
+    delivery.responseCode = status;
+    delivery.lastError = status >= 200 && status < 300 ? undefined : `HTTP ${status}`;
+  } catch (err) {
+    delivery.responseCode = undefined;
+    delivery.lastError = err instanceof Error ? err.message : String(err);
+  }
+
+  if (delivery.lastError === undefined) {
+    delivery.status = "delivered";
+    delivery.deliveredAt = new Date().toISOString();
+    delivery.nextAttemptAt = undefined;
+  } else if (delivery.attempts >= config.webhook.maxAttempts) {
+    delivery.status = "failed";
+    delivery.nextAttemptAt = undefined;
+    logger.warn(
+      `${whereIsAPI("alert")} Webhook delivery ${delivery.id} to ${subscription.callbackUrl} failed after ${delivery.attempts} attempts: ${delivery.lastError}`,
+    );
+  } else {
+    delivery.nextAttemptAt = new Date(Date.now() + getRetryDelay(delivery.attempts)).toISOString();
+  }
+
+  await getDbClient().updateDelivery(delivery);
+}
+
+/**
+ * Computes the delay before the next attempt: the base delay doubled after each attempt, plus up to 10% jitter.
+ *
+ * @param attempts - The number of attempts made so far.
+ * @returns The delay in milliseconds.
+ */
+function getRetryDelay(attempts: number): number {
+  const delay = config.webhook.retryBaseDelay * 1000 * 2 ** (attempts - 1);
+  return Math.round(delay + Math.random() * delay * 0.1);
+}
+
+/**
+ * Computes the hex-encoded HMAC-SHA256 signature of a message.
+ *
+ * @param secret - The signing secret of the subscription.
+ * @param message - The message to sign.
+ * @returns The hex-encoded signature.
+ */
+async function sign(secret: string, message: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(message));
+  return encodeHex(new Uint8Array(signature));
+}
+
+/**
+ * Checks that a callback URL is an https URL whose host is not a loopback, private or link-local address.
+ * The host names are checked once resolved, when the deliveries are sent (see checkCallbackHost).
+ *
+ * @param callbackUrl - The callback URL of a webhook subscription.
+ * @returns true if the callback URL is valid, false otherwise.
+ */
+export function isValidCallbackUrl(callbackUrl: string): boolean {
+  try {
+    const url = new URL(callbackUrl);
+    const host = url.hostname.replace(/^\[|\]$/g, "");
+    return url.protocol === "https:" && host !== "localhost" && !host.endsWith(".localhost") && !isNonPublicAddress(host);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Checks that the host of a callback URL only resolves to public addresses, so that the deliveries cannot
+ * reach the internal network of the server.
+ *
+ * @param callbackUrl - The callback URL of a webhook subscription.
+ * @returns The address to send the delivery to, the host itself if it is an IP address.
+ * @throws {Error} If the URL is not valid or its host resolves to a non-public address or to no address.
+ */
+async function checkCallbackHost(callbackUrl: string): Promise<string> {
+  if (!isValidCallbackUrl(callbackUrl)) {
+    throw new Error(`Invalid callback URL: ${callbackUrl}`);
+  }
+  const host = new URL(callbackUrl).hostname.replace(/^\[|\]$/g, "");
+  if (/^[\d.]+$/.test(host) || host.includes(":")) return host;
+
+  const addresses: string[] = [];
+  for (const recordType of ["A", "AAAA"] as const) {
+    try {
+      addresses.push(...await Deno.resolveDns(host, recordType));
+    } catch {
+      // no record of this type
+    }
+  }
+  if (addresses.length === 0) {
+    throw new Error(`Cannot resolve the callback host ${host}`);
+  }
+  const address = addresses.find(isNonPublicAddress);
+  if (address !== undefined) {
+    throw new Error(`The callback host ${host} resolves to the non-public address ${address}`);
+  }
+  return addresses[0];
+}
+
+/**
+ * Sends an HTTP POST request to the callback URL through a connection to the given address.
+ * The TLS certificate is verified against the host of the URL, which is also sent as the Host header.
+ * Only the status line of the response is read, and redirects are not followed.
+ *
+ * @param callbackUrl - The callback URL of a webhook subscription.
+ * @param address - The IP address of the host of the callback URL, as checked by checkCallbackHost.
+ * @param headers - The headers of the request.
+ * @param body - The body of the request.
+ * @returns The HTTP status code of the response.
+ * @throws {Error} If the connection fails, times out or the response is not an HTTP response.
+ */
+async function postToAddress(
+  callbackUrl: string,
+  address: string,
+  headers: Record<string, string>,
+  body: string,
+): Promise<number> {
+  const url = new URL(callbackUrl);
+  const payload = new TextEncoder().encode(body);
+  const head = [
+    `POST ${url.pathname}${url.search} HTTP/1.1`,
+    `Host: ${url.host}`,
+    ...Object.entries(headers).map(([name, value]) => `${name}: ${value}`),
+    `Content-Length: ${payload.length}`,
+    "Connection: close",
+  ].join("\r\n") + "\r\n\r\n";
+  const request = new Uint8Array([...new TextEncoder().encode(head), ...payload]);
+
+  const signal = AbortSignal.timeout(config.http.timeout * 1000);
+  const tcpConn = await Deno.connect({ hostname: address, port: Number(url.port || 443), signal });
+  let conn: Deno.Conn = tcpConn;
+  // closing the connection interrupts a pending read or write
+  const onTimeout = () => conn.close();
+  signal.addEventListener("abort", onTimeout);
+  try {
+    conn = await Deno.startTls(tcpConn, { hostname: url.hostname.replace(/^\[|\]$/g, "") });
+    for (let written = 0; written < request.length;) {
+      written += await conn.write(request.subarray(written));
+    }
+
+    const decoder = new TextDecoder();
+    const buffer = new Uint8Array(1024);
+    let response = "";
+    while (!response.includes("\r\n")) {
+      const read = await conn.read(buffer);
+      if (read === null) break;
+      response += decoder.decode(buffer.subarray(0, read), { stream: true });
+    }
+    const status = response.match(/^HTTP\/1\.[01] (\d{3})\b/);
+    if (status === null) {
+      throw new Error(`Invalid HTTP response from ${url.host}`);
+    }
+    return Number(status[1]);
+  } catch (err) {
+    throw signal.aborted ? new Error(`Timeout of the request to ${url.host}`) : err;
+  } finally {
+    signal.removeEventListener("abort", onTimeout);
+    try {
+      conn.close();
+    } catch {
+      // already closed by the timeout or by a failed TLS handshake
+    }
+  }
+}
+
+/**
+ * Checks if an IP address is a loopback, private, link-local, shared, multicast or unspecified address.
+ *
+ * @param address - An IPv4 or IPv6 address, or a host name.
+ * @returns true if the address is not public, false for a public address or a host name.
+ */
+export function isNonPublicAddress(address: string): boolean {
+  const ipv4 = address.match(/^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/);
+  if (ipv4) {
+    const [a, b] = [Number(ipv4[1]), Number(ipv4[2])];
+    return a === 0 || a === 10 || a === 127 || a >= 224 ||
+      (a === 100 && b >= 64 && b <= 127) ||   // shared address space
+      (a === 169 && b === 254) ||             // link-local, including the cloud metadata services
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168);
+  }
+  if (!address.includes(":")) {
+    return false;
+  }
+
+  const ipv6 = address.toLowerCase();
+  const mapped = ipv6.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) {
+    return isNonPublicAddress(mapped[1]);
+  }
+  return ipv6 === "::" || ipv6 === "::1" || ipv6.startsWith("::ffff:") ||
+    /^f[cd]/.test(ipv6) ||        // unique local
+    /^fe[89ab]/.test(ipv6) ||     // link-local
+    ipv6.startsWith("ff");        // multicast
+}
+
+/**
+ * Generates a random signing secret for a new subscription.
+ *
+ * @returns The signing secret, prefixed with "whsec_".
+ */
+export function generateSecret(): string {
+  const bytes = new Uint8Array(24);
+  crypto.getRandomValues(bytes);
+  return `whsec_${encodeHex(bytes)}`;
+}
@@ -2,7 +2,8 @@
  * @file util.ts
  * @description Utilities for loading JSON files and calculating MD5 hashes.
  * Provides functions to read JSON from filesystem and generate MD5 checksums
- * from JSON objects using Deno's crypto module.
+ * from JSON objects using Deno's crypto module, and the outbound HTTP requests
+ * with their timeout, retry and circuit breaker policies.
  *
  * @copyright (c) 2025, the Eagle1 authors
  * @license BSD 3-Clause License
@@ -10,27 +11,126 @@
 
 import {crypto} from "@std/crypto";
 import {parse} from "@std/jsonc";
+import {decodeBase64, encodeBase64} from "@std/encoding";
 import {AppError} from "../main/model.ts";
+import {isCircuitOpen, recordFailure, recordSuccess} from "../main/circuit_breaker.ts";
+import {logger, whereIsAPI} from "./logger.ts";
+import {config} from "../../config.ts";
 
-export async function httpGet(url: string, headers: Record<string, string>): Promise<Response> {
-  const controller = new AbortController();
-  const timer = setTimeout(() => controller.abort(), 10000);
-  return await fetch(url, {
-    method: "GET",
-    headers: headers,
-    signal: controller.signal
-  }).finally(() => clearTimeout(timer));
+/**
+ * Options of an outbound HTTP request.
+ */
+export type HttpOptions = {
+  /** The timeout of each attempt, in seconds (default: config.http.timeout) */
+  timeout?: number;
+  /** The retries after a network error, a timeout, a 5xx or 429 response (default: 0) */
+  maxRetries?: number;
+  /** The operator whose circuit breaker guards the request, if the request is sent to a carrier */
+  circuitBreaker?: string;
+  /** How redirects are handled (default: follow) */
+  redirect?: RequestRedirect;
+};
+
+export async function httpGet(
+  url: string,
+  headers: Record<string, string>,
+  options: HttpOptions = {},
+): Promise<Response> {
+  return await httpRequest(url, { method: "GET", headers: headers }, options);
 }
 
-export async function httpPost(url: string, headers: Record<string, string>, body: string| URLSearchParams): Promise<Response> {
-  const controller = new AbortController();
-  const timer = setTimeout(() => controller.abort(), 10000);
-  return await fetch(url, {
-    method: "POST",
-    headers: headers,
-    body: body,
-    signal: controller.signal
-  }).finally(() => clearTimeout(timer));
+export async function httpPost(
+  url: string,
+  headers: Record<string, string>,
+  body: string | URLSearchParams,
+  options: HttpOptions = {},
+): Promise<Response> {
+  return await httpRequest(url, { method: "POST", headers: headers, body: body }, options);
+}
+
+/**
+ * Sends an HTTP request, retrying it with exponential backoff and jitter after a network error,
+ * a timeout, a 5xx or 429 response. The Retry-After header of the response is honoured,
+ * unless it asks to wait longer than config.http.retryMaxDelay.
+ * When the request is guarded by the circuit breaker of an operator, it fails fast while the breaker
+ * is open, and its outcome is recorded once the retries are exhausted.
+ *
+ * @param url - The URL of the request.
+ * @param init - The method, headers and body of the request.
+ * @param options - The timeout, retries and circuit breaker of the request.
+ * @returns The response of the last attempt.
+ * @throws {AppError} Throws a 503 error if the circuit breaker of the operator is open.
+ * @throws {AppError} Throws a 500 error if no response was received from the carrier of the circuit breaker.
+ * @throws {Error} The error of the last attempt if no response was received from any other server.
+ */
+async function httpRequest(url: string, init: RequestInit, options: HttpOptions): Promise<Response> {
+  const operator = options.circuitBreaker;
+  if (operator !== undefined && isCircuitOpen(operator)) {
+    throw new AppError("503-01", `ERR-UTIL-H: CIRCUIT_OPEN[${operator}]`);
+  }
+
+  const maxRetries = options.maxRetries ?? 0;
+  for (let attempt = 0;; attempt++) {
+    let response: Response | undefined;
+    let error: unknown;
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), (options.timeout ?? config.http.timeout) * 1000);
+    try {
+      response = await fetch(url, { ...init, redirect: options.redirect ?? "follow", signal: controller.signal });
+    } catch (err) {
+      error = err;
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (response !== undefined && response.status < 500 && response.status !== 429) {
+      if (operator !== undefined) recordSuccess(operator);
+      return response;
+    }
+
+    const delay = attempt < maxRetries ? getRetryDelay(attempt, response) : undefined;
+    if (delay === undefined) {
+      if (operator === undefined) {
+        if (response !== undefined) return response;
+        throw error;
+      }
+      recordFailure(operator);
+      if (response !== undefined) return response;
+      // the carriers being unreachable is reported like their error responses
+      throw new AppError("500-02", `ERR-UTIL-I: ${init.method} ${new URL(url).host}: ${error}`);
+    }
+
+    const reason = response !== undefined ? `HTTP ${response.status}` : String(error);
+    logger.warn(
+      `${whereIsAPI("data_monitor")} ${init.method} ${new URL(url).host} failed (${reason}), retry ${attempt + 1}/${maxRetries} in ${delay} ms`,
+    );
+    await response?.body?.cancel();
+    await new Promise((resolve) => setTimeout(resolve, delay));
+  }
+}
+
+/**
+ * Computes the delay before the next attempt of a request: the Retry-After header of the response
+ * if any, else an exponential backoff from config.http.retryBaseDelay with random jitter.
+ *
+ * @param attempt - The number of the failed attempt, from 0.
+ * @param response - The response of the failed attempt, undefined after a network error or a timeout.
+ * @returns The delay in milliseconds, or undefined if the response asks to wait longer than config.http.retryMaxDelay.
+ */
+function getRetryDelay(attempt: number, response?: Response): number | undefined {
+  const retryAfter = response?.headers.get("Retry-After");
+  if (retryAfter) {
+    // delay in seconds or HTTP date
+    const seconds = Number(retryAfter);
+    const delay = Number.isNaN(seconds) ? Date.parse(retryAfter) - Date.now() : seconds * 1000;
+    if (!Number.isNaN(delay)) {
+      return delay <= config.http.retryMaxDelay ? Math.max(0, delay) : undefined;
+    }
+  }
+
+  // half of the backoff is random, so that the clients of a failing carrier do not retry all at once
+  const backoff = Math.min(config.http.retryMaxDelay, config.http.retryBaseDelay * 2 ** attempt);
+  return Math.round(backoff / 2 + Math.random() * backoff / 2);
 }
 
 /**
@@ -92,6 +192,109 @@ export async function jsonToMd5(
   return hashArray.map((b) => b.toString(16).padStart(2, "0")).join("");
 }
 
+/**
+ * Computes the salted SHA-256 hash of an API key.
+ *
+ * @param key - The secret API key.
+ * @param salt - The random salt stored with the hash.
+ * @returns A Promise that resolves to the hash as a hex string.
+ */
+export async function hashApiKey(key: string, salt: string): Promise<string> {
+  const data = new TextEncoder().encode(`${salt}:${key}`);
+  const hashBuffer = await crypto.subtle.digest("SHA-256", data);
+  const hashArray = Array.from(new Uint8Array(hashBuffer));
+  return hashArray.map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Generates a random salt for hashing an API key.
+ *
+ * @returns The salt as a hex string of 32 characters.
+ */
+export function generateSalt(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return Array.from(bytes).map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Compares two strings in constant time, so that the comparison of a secret
+ * does not reveal through its duration how many leading characters match.
+ *
+ * @param a - The first string.
+ * @param b - The second string.
+ * @returns true if both strings are equal.
+ */
+export function timingSafeEqual(a: string, b: string): boolean {
+  const bytesA = new TextEncoder().encode(a);
+  const bytesB = new TextEncoder().encode(b);
+  // compare every byte of the longest string, whatever the lengths
+  const length = Math.max(bytesA.length, bytesB.length);
+  let diff = bytesA.length ^ bytesB.length;
+  for (let i = 0; i < length; i++) {
+    diff |= (bytesA[i] ?? 0) ^ (bytesB[i] ?? 0);
+  }
+  return diff === 0;
+}
+
+/**
+ * Encrypts a secret with AES-256-GCM and the key of the CARRIER_CREDENTIALS_KEY environment variable.
+ *
+ * @param plaintext - The secret.
+ * @returns A Promise that resolves to the random IV and the ciphertext, base64 encoded and separated by a dot.
+ * @throws {AppError} Throws a 500 error if the encryption key is not set or invalid.
+ */
+export async function encryptSecret(plaintext: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv: iv },
+    await getSecretKey(),
+    new TextEncoder().encode(plaintext),
+  );
+  return `${encodeBase64(iv)}.${encodeBase64(ciphertext)}`;
+}
+
+/**
+ * Decrypts a secret encrypted by encryptSecret.
+ *
+ * @param encrypted - The random IV and the ciphertext, base64 encoded and separated by a dot.
+ * @returns A Promise that resolves to the secret.
+ * @throws {AppError} Throws a 500 error if the encryption key is not set or invalid, or if the secret cannot be decrypted.
+ */
+export async function decryptSecret(encrypted: string): Promise<string> {
+  const [iv, ciphertext] = encrypted.split(".");
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: new Uint8Array(decodeBase64(iv)) },
+      await getSecretKey(),
+      new Uint8Array(decodeBase64(ciphertext ?? "")),
+    );
+    return new TextDecoder().decode(plaintext);
+  } catch (err) {
+    if (err instanceof AppError) throw err;
+    throw new AppError("500-01", `ERR-UTIL-K: Failed to decrypt secret: ${err}`);
+  }
+}
+
+/**
+ * Imports the encryption key of the secrets from the CARRIER_CREDENTIALS_KEY environment variable
+ * (32 random bytes, base64 encoded, eg. `openssl rand -base64 32`).
+ *
+ * @returns A Promise that resolves to the AES-256-GCM key.
+ * @throws {AppError} Throws a 500 error if the key is not set or is not 32 bytes long.
+ */
+async function getSecretKey(): Promise<CryptoKey> {
+  let key = new Uint8Array(0);
+  try {
+    key = new Uint8Array(decodeBase64(Deno.env.get("CARRIER_CREDENTIALS_KEY") ?? ""));
+  } catch {
+    // reported below as an invalid key
+  }
+  if (key.length !== 32) {
+    throw new AppError("500-01", "ERR-UTIL-J: CARRIER_CREDENTIALS_KEY must be 32 bytes, base64 encoded");
+  }
+  return await crypto.subtle.importKey("raw", key, "AES-GCM", false, ["encrypt", "decrypt"]);
+}
+
 /**
  * Formats a timezone offset into a string representation.
  *
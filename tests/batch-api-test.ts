@@ -0,0 +1,73 @@
+/**
+ * @file batch-api-test.ts
+ * @description This file contains integration tests for the batch "whereis" and "status" API endpoints.
+ * It sends HTTP POST requests to /v0/whereis and /v0/status with several tracking IDs in the request body
+ * and verifies that each tracking ID is reported either in the results or in the errors of the response.
+ *
+ * @copyright (c) 2025, the Eagle1 authors
+ * @license BSD 3-Clause License
+ */
+import { assert } from "@std/assert";
+import { WHEREIS_API_URL } from "./main-test.ts";
+import { assertErrorCode } from "./main-test.ts";
+import { getResponseJSON, httpPost } from "../src/tools/util.ts";
+
+const testData = [
+  {
+    "input": { "trackingIds": ["eg1-012301230123", "fake-SF3122082959115", "XX3122082959115"] },
+    "output": {
+      "results": ["eg1-012301230123"],
+      "errors": { "fake-SF3122082959115": "400-04", "XX3122082959115": "400-05" },
+    },
+    "memo": "Valid and invalid tracking IDs in one request.",
+  },
+  {
+    "input": { "trackingIds": [] },
+    "output": { "error": "400-09" },
+    "memo": "Missing tracking IDs.",
+  },
+];
+
+export function batchApiTest() {
+  const apiKey = Deno.env.get("WHEREIS_API_KEY");
+
+  for (const endpoint of ["whereis", "status"]) {
+    Deno.test(`Test batch ${endpoint} API`, async () => {
+      for (const data of testData) {
+        const response = await httpPost(
+          `${WHEREIS_API_URL}/v0/${endpoint}`,
+          {
+            "Authorization": `Bearer ${apiKey}`,
+            "Content-Type": "application/json",
+          },
+          JSON.stringify(data["input"]),
+        );
+        const responseJSON = await getResponseJSON(response, "500TB - Test");
+        const output = data["output"] as Record<string, unknown>;
+
+        if ("error" in output) {
+          assertErrorCode(response.status, responseJSON, output);
+          continue;
+        }
+
+        assert(
+          response.status === 200,
+          `Expected HTTP 200, but received ${response.status} with body ${JSON.stringify(responseJSON)}`,
+        );
+
+        const results = responseJSON["results"] as Record<string, unknown>;
+        for (const id of output["results"] as string[]) {
+          assert(id in results, `Expected result for ${id} in ${JSON.stringify(responseJSON)}`);
+        }
+
+        const errors = responseJSON["errors"] as Record<string, Record<string, unknown>>;
+        for (const [id, code] of Object.entries(output["errors"] as Record<string, string>)) {
+          assert(
+            errors[id]?.error === code,
+            `Expected error ${code} for ${id}, but got ${JSON.stringify(errors[id])}`,
+          );
+        }
+      }
+    });
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * @file carrier-accounts-test.ts
+ * @description This file contains unit tests for the failover between the global carrier accounts of an operator.
+ * It registers a test operator with two accounts, whose module fails with a 503 error on the first account,
+ * and verifies that the pulls fail over to the second account, skip the account whose circuit breaker is
+ * open, and do not fail over from the carrier account of an API key.
+ *
+ * @copyright (c) 2025, the Eagle1 authors
+ * @license BSD 3-Clause License
+ */
+import { assert, assertRejects } from "@std/assert";
+import { config } from "../config.ts";
+import { getCarrierEnvironment, ResolvedCarrierAccount } from "../src/main/carrier_accounts.ts";
+import { recordFailure, recordSuccess } from "../src/main/circuit_breaker.ts";
+import { registerOperatorModule, requestWhereIs, setOperatorStatus } from "../src/main/gateway.ts";
+import { AppError, Entity, OperatorRegistry, TrackingID } from "../src/main/model.ts";
+import { OperatorModule } from "../src/main/operator.ts";
+
+const OPERATOR = "test";
+
+/**
+ * The module of the test operator: the data source is only available with the backup account.
+ */
+class TestOperator implements OperatorModule {
+  /** The accounts requested by the pulls, in order */
+  static requestedAccounts: string[] = [];
+
+  constructor(private readonly account?: ResolvedCarrierAccount) {}
+
+  validateTrackingNum(_trackingNum: string): void {}
+
+  detectTrackingNum(_trackingNum: string): number {
+    return 0;
+  }
+
+  getExtraParams(_params: Record<string, string>): Record<string, string> {
+    return {};
+  }
+
+  validateParams(_trackingId: TrackingID, _params: Record<string, string>): boolean {
+    return true;
+  }
+
+  validateStoredEntity(_entity: Entity, _params: Record<string, string>): boolean {
+    return true;
+  }
+
+  processPushData(_jsonData: Record<string, unknown>): Entity[] {
+    return [];
+  }
+
+  pullFromSource(trackingIds: TrackingID[], _extraParams: Record<string, string>, _updateMethod: string): Promise<Entity[]> {
+    TestOperator.requestedAccounts.push(this.account?.id ?? "");
+    if (this.account?.id !== "backup") {
+      return Promise.reject(new AppError("503-01", `ERR-TEST-A: CARRIER_UNAVAILABLE[${this.account?.id}]`));
+    }
+    return Promise.resolve(trackingIds.map((trackingId) => {
+      const entity = new Entity();
+      entity.id = trackingId.toString();
+      entity.additional = { account: this.account?.id };
+      return entity;
+    }));
+  }
+}
+
+export function carrierAccountsTest() {
+  const environment = getCarrierEnvironment();
+  OperatorRegistry.initialize({
+    [OPERATOR]: {
+      active: true,
+      accounts: [
+        { name: "primary", environment, credentials: {} },
+        { name: "backup", environment, credentials: {} },
+      ],
+    },
+  });
+  setOperatorStatus(OPERATOR, true);
+  registerOperatorModule(OPERATOR, new TestOperator(), (account) => new TestOperator(account));
+
+  Deno.test("Test failover between the carrier accounts", async () => {
+    TestOperator.requestedAccounts = [];
+    const entities = await requestWhereIs(OPERATOR, [TrackingID.parse(`${OPERATOR}-1001`)], {}, "manual-pull");
+    assert(
+      entities.length === 1 && entities[0].additional?.account === "backup",
+      `Expected the entity pulled with the backup account, but got ${JSON.stringify(entities)}`,
+    );
+    assert(
+      TestOperator.requestedAccounts.join(",") === "primary,backup",
+      `Expected the primary then the backup account, but got ${TestOperator.requestedAccounts}`,
+    );
+  });
+
+  Deno.test("Test carrier account with an open circuit breaker", async () => {
+    TestOperator.requestedAccounts = [];
+    // the bucket of the first account of an operator is the operator code
+    for (let i = 0; i < config.circuitBreaker.failureThreshold; i++) {
+      recordFailure(OPERATOR);
+    }
+    try {
+      await requestWhereIs(OPERATOR, [TrackingID.parse(`${OPERATOR}-1002`)], {}, "manual-pull");
+      assert(
+        TestOperator.requestedAccounts.join(",") === "backup",
+        `Expected the backup account only, but got ${TestOperator.requestedAccounts}`,
+      );
+    } finally {
+      recordSuccess(OPERATOR);
+    }
+  });
+
+  Deno.test("Test carrier account of an API key without failover", async () => {
+    TestOperator.requestedAccounts = [];
+    const account: ResolvedCarrierAccount = {
+      id: "0192f3a4-5b6c-7d8e-9f00-112233445566",
+      environment,
+      bucket: `${OPERATOR}:key`,
+      urls: {},
+      credentials: {},
+    };
+    await assertRejects(
+      () => requestWhereIs(OPERATOR, [TrackingID.parse(`${OPERATOR}-1003`)], {}, "manual-pull", undefined, account),
+      AppError,
+    );
+    assert(
+      TestOperator.requestedAccounts.join(",") === account.id,
+      `Expected the account of the API key only, but got ${TestOperator.requestedAccounts}`,
+    );
+  });
+}
@@ -0,0 +1,71 @@
+/**
+ * @file circuit-breaker-test.ts
+ * @description This file contains unit tests for the circuit breakers of the carrier data sources.
+ * It tests that a breaker opens after the configured number of consecutive failures, that a success
+ * closes it, and that a half-open breaker opens again on the first failure.
+ *
+ * @copyright (c) 2025, the Eagle1 authors
+ * @license BSD 3-Clause License
+ */
+import { assert } from "@std/assert";
+import { config } from "../config.ts";
+import {
+  getCircuitBreakerStatus,
+  isCircuitOpen,
+  recordFailure,
+  recordSuccess,
+} from "../src/main/circuit_breaker.ts";
+
+export function circuitBreakerTest() {
+  Deno.test("Test circuit breaker opening and closing", () => {
+    const operator = "test-breaker";
+    for (let i = 1; i < config.circuitBreaker.failureThreshold; i++) {
+      recordFailure(operator);
+    }
+    let status = getCircuitBreakerStatus(operator);
+    assert(
+      status.state === "closed" && status.failures === config.circuitBreaker.failureThreshold - 1,
+      `Expected a closed breaker below the threshold, but got ${JSON.stringify(status)}`,
+    );
+
+    recordFailure(operator);
+    status = getCircuitBreakerStatus(operator);
+    assert(status.state === "open" && status.retryAt !== undefined, `Expected an open breaker, but got ${JSON.stringify(status)}`);
+    assert(isCircuitOpen(operator), "Expected the requests to be rejected by the open breaker");
+
+    recordSuccess(operator);
+    status = getCircuitBreakerStatus(operator);
+    assert(status.state === "closed" && status.failures === 0, `Expected a closed breaker, but got ${JSON.stringify(status)}`);
+  });
+
+  Deno.test("Test half-open circuit breaker", () => {
+    const operator = "test-breaker-half-open";
+    const cooldown = config.circuitBreaker.cooldown;
+    // the breaker is half-open as soon as it opens
+    config.circuitBreaker.cooldown = 0;
+    try {
+      for (let i = 0; i < config.circuitBreaker.failureThreshold; i++) {
+        recordFailure(operator);
+      }
+      let status = getCircuitBreakerStatus(operator);
+      assert(status.state === "half-open", `Expected a half-open breaker, but got ${JSON.stringify(status)}`);
+      assert(!isCircuitOpen(operator), "Expected the requests to be let through by the half-open breaker");
+      const openedAt = status.openedAt;
+
+      // a single failure opens the half-open breaker again
+      recordFailure(operator);
+      status = getCircuitBreakerStatus(operator);
+      assert(
+        status.failures === config.circuitBreaker.failureThreshold + 1 && status.openedAt !== undefined &&
+          status.openedAt >= openedAt!,
+        `Expected the breaker to open again, but got ${JSON.stringify(status)}`,
+      );
+
+      recordSuccess(operator);
+      status = getCircuitBreakerStatus(operator);
+      assert(status.state === "closed", `Expected a closed breaker, but got ${JSON.stringify(status)}`);
+    } finally {
+      config.circuitBreaker.cooldown = cooldown;
+    }
+  });
+}
@@ -0,0 +1,52 @@
+/**
+ * @file detect-api-test.ts
+ * @description This file contains integration tests for the "detect" API endpoint.
+ * It sends HTTP GET requests to /v0/detect/:trackingNum with tracking numbers without operator prefix
+ * and verifies the detected tracking ID.
+ *
+ * @copyright (c) 2025, the Eagle1 authors
+ * @license BSD 3-Clause License
+ */
+import { assert } from "@std/assert";
+import { WHEREIS_API_URL } from "./main-test.ts";
+import { isOperatorActive } from "../src/main/gateway.ts";
+import { getResponseJSON, httpGet } from "../src/tools/util.ts";
+
+const testData = [
+  {
+    "input": { "trackingNum": "779879860040" },
+    "output": { "trackingId": "fdx-779879860040" },
+    "memo": "FedEx Express tracking number with a valid mod-11 check digit.",
+  },
+  {
+    "input": { "trackingNum": "SF3182998070266" },
+    "output": { "trackingId": "sfex-SF3182998070266" },
+    "memo": "SF Express tracking number.",
+  },
+  {
+    "input": { "trackingNum": "XX3122082959115" },
+    "output": { "trackingId": null },
+    "memo": "Tracking number that matches no operator.",
+  },
+];
+
+export function detectApiTest() {
+  const apiKey = Deno.env.get("WHEREIS_API_KEY");
+
+  Deno.test("Test detect API", async () => {
+    for (const data of testData) {
+      const expected = data["output"]["trackingId"];
+      // Ignore tests for non-active operators
+      if (expected !== null && !isOperatorActive(expected.split("-")[0])) continue;
+
+      const response = await httpGet(`${WHEREIS_API_URL}/v0/detect/${data["input"]["trackingNum"]}`, {
+        "Authorization": `Bearer ${apiKey}`,
+      });
+      const responseJSON = await getResponseJSON(response, "500TD - Test");
+      assert(
+        responseJSON.trackingId === expected,
+        `Expected tracking ID ${expected}, but got ${JSON.stringify(responseJSON)}`,
+      );
+    }
+  });
+}
@@ -0,0 +1,73 @@
+/**
+ * @file detect-tracking-num-test.ts
+ * @description This file contains unit tests for the detection of FedEx tracking numbers without operator prefix.
+ * It tests the Fdx.detectTrackingNum() method, which checks the mod-11 check digit of the 12-digit Express
+ * tracking numbers and the mod-10 check digit of the 15, 20 and 22-digit Ground and SSCC tracking numbers.
+ *
+ * @copyright (c) 2025, the Eagle1 authors
+ * @license BSD 3-Clause License
+ */
+import { assert } from "@std/assert";
+import { Fdx } from "../src/connectors/operator/fdx.ts";
+
+const testData = [
+  {
+    "input": { "trackingNum": "779879860040" },
+    "output": { "confidence": 0.9 },
+    "memo": "Express tracking number with a valid mod-11 check digit.",
+  },
+  {
+    "input": { "trackingNum": "779879860041" },
+    "output": { "confidence": 0.2 },
+    "memo": "Express tracking number with an invalid mod-11 check digit.",
+  },
+  {
+    "input": { "trackingNum": "123456789012343" },
+    "output": { "confidence": 0.8 },
+    "memo": "Ground tracking number with a valid mod-10 check digit.",
+  },
+  {
+    "input": { "trackingNum": "123456789012344" },
+    "output": { "confidence": 0.2 },
+    "memo": "Ground tracking number with an invalid mod-10 check digit.",
+  },
+  {
+    "input": { "trackingNum": "00012345678901234560" },
+    "output": { "confidence": 0.8 },
+    "memo": "SSCC tracking number with a valid mod-10 check digit.",
+  },
+  {
+    "input": { "trackingNum": "9612345123456789012343" },
+    "output": { "confidence": 0.8 },
+    "memo": "Ground barcode with a valid mod-10 check digit of its last 15 digits.",
+  },
+  {
+    "input": { "trackingNum": "1212345123456789012343" },
+    "output": { "confidence": 0.2 },
+    "memo": "22-digit tracking number not starting with 96.",
+  },
+  {
+    "input": { "trackingNum": "1234567890123" },
+    "output": { "confidence": 0.2 },
+    "memo": "Numeric tracking number without check digit format.",
+  },
+  {
+    "input": { "trackingNum": "SF3182998070266" },
+    "output": { "confidence": 0 },
+    "memo": "Non-numeric tracking number.",
+  },
+];
+
+export function detectTrackingNumTest() {
+  Deno.test("Test detection of FedEx tracking numbers", () => {
+    const fdx = new Fdx();
+    for (const data of testData) {
+      const trackingNum = data["input"]["trackingNum"];
+      const confidence = fdx.detectTrackingNum(trackingNum);
+      assert(
+        confidence === data["output"]["confidence"],
+        `Expected confidence ${data["output"]["confidence"]} for ${trackingNum} (${data["memo"]}), but got ${confidence}`,
+      );
+    }
+  });
+}
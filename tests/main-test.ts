@@ -14,6 +14,7 @@ import {
   loadEnv,
   loadMetaData,
 } from "../src/main/app.ts";
+import { initConnection } from "../src/db/dbutil.ts";
 
 export function getHttpStatusFromErrorCode(errorCode: string): number {
   const match = errorCode.match(/^(\d{3})/);
@@ -76,6 +77,14 @@ export function assertErrorCode(
 await loadEnv();
 await loadMetaData();
 
+// The carrier quotas and the pull jobs of the tests are stored in a temporary SQLite database,
+// created from config/whereis.sqlite, rather than in the database of the server.
+const testDbDir = await Deno.makeTempDir({ prefix: "whereis-test-" });
+Deno.env.set("DB_TYPE", "sqlite");
+Deno.env.set("DB_FILE_DIR", testDbDir);
+await initConnection();
+globalThis.addEventListener("unload", () => Deno.removeSync(testDbDir, { recursive: true }));
+
 initializeOperatorStatus(); // initialize operator status
 
 export const WHEREIS_API_URL = Deno.env.get("WHEREIS_API_URL");
@@ -87,7 +96,27 @@ import { getEventsFromFdxTest } from "./get-fdx-events-test.ts";
 import { getRoutesFromSfexTest } from "./get-sfex-routes-test.ts";
 import { whereisApiTest } from "./whereis-api-test.ts";
 import { statusApiTest } from "./status-api-test.ts";
-import { pushDataTest } from "./push-data-test.ts";
+import { pushDataTest, pushRegisterTest } from "./push-data-test.ts";
+import { batchApiTest } from "./batch-api-test.ts";
+import { subscriptionApiTest } from "./subscription-api-test.ts";
+import { detectApiTest } from "./detect-api-test.ts";
+import { detectTrackingNumTest } from "./detect-tracking-num-test.ts";
+import { rateLimiterTest } from "./rate-limiter-test.ts";
+import { circuitBreakerTest } from "./circuit-breaker-test.ts";
+import { pollingTest } from "./polling-test.ts";
+import { pullJobsTest } from "./pull-jobs-test.ts";
+import { carrierAccountsTest } from "./carrier-accounts-test.ts";
+import { pushSignatureTest } from "./push-signature-test.ts";
+import { pullClaimsTest } from "./pull-claims-test.ts";
+
+detectTrackingNumTest();
+rateLimiterTest();
+circuitBreakerTest();
+pollingTest();
+pullJobsTest();
+carrierAccountsTest();
+pushSignatureTest();
+pullClaimsTest();
 
 if (isOperatorActive("fdx")) {
   getTokenFromFdXTest();
@@ -103,7 +132,17 @@ if (WHEREIS_API_URL !== undefined) {
 
   statusApiTest();
 
+  batchApiTest();
+
+  subscriptionApiTest();
+
+  detectApiTest();
+
   if (isOperatorActive("eg1")) {
     pushDataTest();
   }
+
+  if (isOperatorActive("sfex")) {
+    pushRegisterTest();
+  }
 }
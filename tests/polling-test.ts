@@ -0,0 +1,129 @@
+/**
+ * @file polling-test.ts
+ * @description This file contains unit tests for the adaptive polling schedule of the scheduler.
+ * It tests the getPollInterval() and getNextPollAt() functions: the interval depends on the last status
+ * of the entity, doubles for every period without new event, is capped by the maximum interval, and
+ * the completed entities are no longer polled. It also tests the isExpired() function, which gives up on the
+ * entities without new event for longer than the expiry time.
+ * The tests use an operator without polling settings in operators.jsonc, whose intervals are those of config.polling.
+ *
+ * @copyright (c) 2025, the Eagle1 authors
+ * @license BSD 3-Clause License
+ */
+import { assert } from "@std/assert";
+import { config } from "../config.ts";
+import { Entity, Event } from "../src/main/model.ts";
+import { getNextPollAt, getPollInterval, isExpired } from "../src/main/polling.ts";
+
+const OPERATOR = "test";
+
+/**
+ * Creates an entity whose last event has the given status.
+ *
+ * @param status - The status of the last event.
+ * @param idleSeconds - The time elapsed since the last event, in seconds.
+ * @param now - The current time in milliseconds.
+ * @returns The entity.
+ */
+function createEntity(status: number, idleSeconds: number, now: number): Entity {
+  const event = new Event();
+  event.eventId = `ev_${OPERATOR}-123-${status}`;
+  event.status = status;
+  event.when = new Date(now - idleSeconds * 1000).toISOString();
+
+  const entity = new Entity();
+  entity.id = `${OPERATOR}-123`;
+  entity.events = [event];
+  return entity;
+}
+
+export function pollingTest() {
+  Deno.test("Test poll interval of the tracking IDs", () => {
+    const now = Date.now();
+    const { interval, statusIntervals, slowdownAfter, maxInterval } = config.polling;
+    const testData = [
+      {
+        "input": { "entity": undefined },
+        "output": { "interval": interval },
+        "memo": "Tracking ID without data.",
+      },
+      {
+        "input": { "entity": createEntity(3100, 0, now) },
+        "output": { "interval": interval },
+        "memo": "Status without its own interval.",
+      },
+      {
+        "input": { "entity": createEntity(3450, 0, now) },
+        "output": { "interval": statusIntervals["3450"] },
+        "memo": "Status with its own interval.",
+      },
+      {
+        "input": { "entity": createEntity(3450, 2 * slowdownAfter + 60, now) },
+        "output": { "interval": Math.min(statusIntervals["3450"] * 4, maxInterval) },
+        "memo": "Interval doubled for every period without new event.",
+      },
+      {
+        "input": { "entity": createEntity(3000, 10 * slowdownAfter, now) },
+        "output": { "interval": maxInterval },
+        "memo": "Interval capped by the maximum interval.",
+      },
+    ];
+
+    for (const data of testData) {
+      const result = getPollInterval(OPERATOR, data["input"]["entity"], now);
+      assert(
+        result === data["output"]["interval"],
+        `Expected interval ${data["output"]["interval"]} (${data["memo"]}), but got ${result}`,
+      );
+    }
+  });
+
+  Deno.test("Test next poll of the tracking IDs", () => {
+    const now = Date.now();
+    const entity = createEntity(3450, 0, now);
+    const nextPollAt = getNextPollAt(OPERATOR, entity, now);
+    const expected = new Date(now + config.polling.statusIntervals["3450"] * 1000).toISOString();
+    assert(nextPollAt === expected, `Expected next poll at ${expected}, but got ${nextPollAt}`);
+
+    const completed = createEntity(3500, 0, now);
+    assert(
+      getNextPollAt(OPERATOR, completed, now) === undefined,
+      "Expected no next poll for a completed entity",
+    );
+  });
+
+  Deno.test("Test expiry of the abandoned tracking IDs", () => {
+    const now = Date.now();
+    const { expireAfter } = config.polling;
+    const testData = [
+      {
+        "input": { "entity": createEntity(3100, expireAfter + 60, now) },
+        "output": { "expired": true },
+        "memo": "No new event for longer than the expiry time.",
+      },
+      {
+        "input": { "entity": createEntity(3100, expireAfter - 60, now) },
+        "output": { "expired": false },
+        "memo": "New event within the expiry time.",
+      },
+      {
+        "input": { "entity": createEntity(3500, expireAfter + 60, now) },
+        "output": { "expired": false },
+        "memo": "Completed entity, no longer polled anyway.",
+      },
+      {
+        "input": { "entity": new Entity() },
+        "output": { "expired": false },
+        "memo": "Entity without event.",
+      },
+    ];
+
+    for (const data of testData) {
+      const result = isExpired(OPERATOR, data["input"]["entity"], now);
+      assert(
+        result === data["output"]["expired"],
+        `Expected expired ${data["output"]["expired"]} (${data["memo"]}), but got ${result}`,
+      );
+    }
+  });
+}
@@ -0,0 +1,140 @@
+/**
+ * @file pull-claims-test.ts
+ * @description This file contains unit tests for the claims of the carrier pulls shared by the processes.
+ * It simulates another process (eg. the scheduler) holding the claim of the pull of a tracking ID of a test
+ * operator, and verifies that a client pull of the same tracking ID awaits the entity stored by that process
+ * instead of requesting the carrier again, and pulls the tracking ID itself once the claim has been released
+ * without any entity stored.
+ *
+ * @copyright (c) 2025, the Eagle1 authors
+ * @license BSD 3-Clause License
+ */
+import { assert } from "@std/assert";
+import { config } from "../config.ts";
+import { getDbClient } from "../src/db/dbutil.ts";
+import { registerOperatorModule, requestWhereIs, setOperatorStatus } from "../src/main/gateway.ts";
+import { Entity, Event, OperatorRegistry, TrackingID } from "../src/main/model.ts";
+import { OperatorModule } from "../src/main/operator.ts";
+
+const OPERATOR = "claimtest";
+const OTHER_PROCESS = "pull-claims-test";
+
+/**
+ * Creates an entity of the test operator with a single event.
+ *
+ * @param trackingId - The tracking ID of the entity.
+ * @param pulledBy - Who pulled the entity, saved in its additional data.
+ * @returns The entity, stamped with the time of its pull.
+ */
+function createEntity(trackingId: string, pulledBy: string): Entity {
+  const now = new Date().toISOString();
+  const event = new Event();
+  event.eventId = `ev_${trackingId}-3000`;
+  event.operatorCode = OPERATOR;
+  event.trackingNum = trackingId.split("-")[1];
+  event.status = 3000;
+  event.when = now;
+  event.sourceData = {};
+
+  const entity = new Entity();
+  entity.id = trackingId;
+  entity.usePull = true;
+  entity.events = [event];
+  entity.additional = { pulledBy };
+  entity.lastPulledAt = now;
+  return entity;
+}
+
+/**
+ * The module of the test operator, counting the pulls requested from its data source.
+ */
+class TestOperator implements OperatorModule {
+  /** The tracking IDs requested from the data source, in order */
+  static requestedIds: string[] = [];
+
+  validateTrackingNum(_trackingNum: string): void {}
+
+  detectTrackingNum(_trackingNum: string): number {
+    return 0;
+  }
+
+  getExtraParams(_params: Record<string, string>): Record<string, string> {
+    return {};
+  }
+
+  validateParams(_trackingId: TrackingID, _params: Record<string, string>): boolean {
+    return true;
+  }
+
+  validateStoredEntity(_entity: Entity, _params: Record<string, string>): boolean {
+    return true;
+  }
+
+  processPushData(_jsonData: Record<string, unknown>): Entity[] {
+    return [];
+  }
+
+  pullFromSource(trackingIds: TrackingID[], _extraParams: Record<string, string>, _updateMethod: string): Promise<Entity[]> {
+    TestOperator.requestedIds.push(...trackingIds.map((trackingId) => trackingId.toString()));
+    return Promise.resolve(trackingIds.map((trackingId) => createEntity(trackingId.toString(), "client")));
+  }
+}
+
+/**
+ * Waits for a few polls of the claims by the pending pulls.
+ */
+async function waitForPolls(): Promise<void> {
+  await new Promise((resolve) => setTimeout(resolve, config.pullClaim.pollInterval * 3));
+}
+
+export function pullClaimsTest() {
+  OperatorRegistry.initialize({ [OPERATOR]: { active: true } });
+  setOperatorStatus(OPERATOR, true);
+  registerOperatorModule(OPERATOR, new TestOperator());
+
+  Deno.test("Test pull awaited from another process", async () => {
+    TestOperator.requestedIds = [];
+    const trackingId = `${OPERATOR}-2001`;
+    const claimUntil = new Date(Date.now() + config.pullClaim.duration * 1000).toISOString();
+    await getDbClient().claimPull(trackingId, OTHER_PROCESS, new Date().toISOString(), claimUntil);
+    try {
+      const pull = requestWhereIs(OPERATOR, [TrackingID.parse(trackingId)], {}, "manual-pull");
+      await waitForPolls();
+
+      // the other process stores the entity it pulled, then releases the claim
+      await getDbClient().insertEntity(createEntity(trackingId, "scheduler"));
+      await getDbClient().releasePull(trackingId, OTHER_PROCESS);
+      const entities = await pull;
+      assert(
+        entities.length === 1 && entities[0].additional?.pulledBy === "scheduler",
+        `Expected the entity pulled by the other process, but got ${JSON.stringify(entities)}`,
+      );
+      assert(TestOperator.requestedIds.length === 0, `Expected no pull, but got ${TestOperator.requestedIds}`);
+    } finally {
+      await getDbClient().releasePull(trackingId, OTHER_PROCESS);
+    }
+  });
+
+  Deno.test("Test pull of a tracking ID released without data", async () => {
+    TestOperator.requestedIds = [];
+    const trackingId = `${OPERATOR}-2002`;
+    const claimUntil = new Date(Date.now() + config.pullClaim.duration * 1000).toISOString();
+    await getDbClient().claimPull(trackingId, OTHER_PROCESS, new Date().toISOString(), claimUntil);
+    try {
+      const pull = requestWhereIs(OPERATOR, [TrackingID.parse(trackingId)], {}, "manual-pull");
+      await waitForPolls();
+      assert(TestOperator.requestedIds.length === 0, "Expected no pull while the other process holds the claim");
+
+      // the carrier had no data for the other process
+      await getDbClient().releasePull(trackingId, OTHER_PROCESS);
+      const entities = await pull;
+      assert(
+        entities.length === 1 && entities[0].additional?.pulledBy === "client",
+        `Expected the entity pulled by the client, but got ${JSON.stringify(entities)}`,
+      );
+      assert(TestOperator.requestedIds.join(",") === trackingId, `Expected a single pull, but got ${TestOperator.requestedIds}`);
+    } finally {
+      await getDbClient().releasePull(trackingId, OTHER_PROCESS);
+    }
+  });
+}
@@ -0,0 +1,111 @@
+/**
+ * @file pull-jobs-test.ts
+ * @description This file contains unit tests for the durable queue of the pull jobs of the scheduler.
+ * It queues a job of a test operator in the database and processes it: a failed job is retried with
+ * exponential backoff, dead-lettered once the maximum number of attempts has been reached, and deleted
+ * once it succeeds after being requeued. A sync of the test operator is skipped while another scheduler
+ * instance holds the lease of the work.
+ *
+ * @copyright (c) 2025, the Eagle1 authors
+ * @license BSD 3-Clause License
+ */
+import { assert } from "@std/assert";
+import { config } from "../config.ts";
+import { getDbClient } from "../src/db/dbutil.ts";
+import { PullJob } from "../src/main/model.ts";
+import { enqueuePullJob, processDuePullJobs, PullJobResult, requeuePullJob } from "../src/main/pull_jobs.ts";
+import { startSchedulerRun, syncRoutes } from "../src/main/sync.ts";
+
+const OPERATOR = "test";
+const OWNER = "pull-jobs-test";
+
+/**
+ * Runs the pull jobs of the test operator like a scheduler instance: claims the due jobs, processes them
+ * and releases the claims, so that the job can be claimed again by the next run.
+ *
+ * @param job - The job.
+ * @param succeed - Whether the pull of the job succeeds.
+ * @returns The outcome of the job, undefined if it was not due.
+ */
+async function processJob(job: PullJob, succeed: boolean): Promise<PullJobResult | undefined> {
+  const leaseUntil = new Date(Date.now() + config.scheduler.leaseDuration * 1000).toISOString();
+  // takes the lease of the scheduler instance, which the claims of the pull jobs require with SQLite
+  await getDbClient().claimDueTrackingNums(OWNER, new Date().toISOString(), leaseUntil, 0, OPERATOR);
+  try {
+    const results = await processDuePullJobs(OWNER, leaseUntil, (pulled) => {
+      return succeed || pulled.id !== job.id ? Promise.resolve() : Promise.reject(new Error("Carrier unavailable"));
+    }, OPERATOR);
+    return results.find((result) => result.job.id === job.id);
+  } finally {
+    await getDbClient().releaseClaims(OWNER);
+  }
+}
+
+/**
+ * Makes a job due immediately, as if its retry delay had elapsed.
+ *
+ * @param job - The job.
+ */
+async function makeDue(job: PullJob): Promise<void> {
+  job.nextAttemptAt = new Date().toISOString();
+  await getDbClient().updatePullJob(job);
+}
+
+export function pullJobsTest() {
+  Deno.test("Test retries and dead-lettering of the pull jobs", async () => {
+    const maxJobAttempts = config.scheduler.maxJobAttempts;
+    const baseDelay = config.scheduler.jobRetryBaseDelay * 1000;
+    config.scheduler.maxJobAttempts = 3;
+    const job = await enqueuePullJob(OPERATOR, [`${OPERATOR}-123412341234`], {});
+    try {
+      // first failure: retried after the base delay, plus up to 10% jitter
+      let result = await processJob(job, false);
+      assert(result?.status === "failed" && result.job.attempts === 1, `Unexpected outcome ${JSON.stringify(result)}`);
+      let delay = Date.parse(result.job.nextAttemptAt!) - Date.parse(result.endedAt);
+      assert(delay >= baseDelay && delay <= baseDelay * 1.1 + 1000, `Unexpected retry delay ${delay} ms`);
+      assert(await processJob(job, false) === undefined, "Expected the failed job not to be due before its retry");
+
+      // second failure: the delay is doubled
+      await makeDue(result.job);
+      result = await processJob(job, false);
+      assert(result?.status === "failed" && result.job.attempts === 2, `Unexpected outcome ${JSON.stringify(result)}`);
+      delay = Date.parse(result.job.nextAttemptAt!) - Date.parse(result.endedAt);
+      assert(delay >= 2 * baseDelay && delay <= 2 * baseDelay * 1.1 + 1000, `Unexpected retry delay ${delay} ms`);
+
+      // last failure: the job is dead-lettered
+      await makeDue(result.job);
+      result = await processJob(job, false);
+      assert(result?.status === "failed" && result.job.attempts === 3, `Unexpected outcome ${JSON.stringify(result)}`);
+      let stored = await getDbClient().queryPullJob(job.id);
+      assert(
+        stored?.status === "dead" && stored.nextAttemptAt === undefined && stored.lastError === "Carrier unavailable",
+        `Expected a dead job, but got ${JSON.stringify(stored)}`,
+      );
+      assert(await processJob(job, true) === undefined, "Expected the dead job not to be processed");
+
+      // requeued by an administrator: due immediately with its attempts reset, and deleted once it succeeds
+      const requeued = await requeuePullJob(job.id);
+      assert(requeued?.status === "pending" && requeued.attempts === 0, `Unexpected requeued job ${JSON.stringify(requeued)}`);
+      result = await processJob(job, true);
+      assert(result?.status === "succeeded", `Unexpected outcome ${JSON.stringify(result)}`);
+      stored = await getDbClient().queryPullJob(job.id);
+      assert(stored === undefined, `Expected the job to be deleted, but got ${JSON.stringify(stored)}`);
+    } finally {
+      config.scheduler.maxJobAttempts = maxJobAttempts;
+      await getDbClient().deletePullJob(job.id);
+    }
+  });
+
+  Deno.test("Test sync skipped while another instance holds the work", async () => {
+    const leaseUntil = new Date(Date.now() + config.scheduler.leaseDuration * 1000).toISOString();
+    await getDbClient().claimDueTrackingNums(OWNER, new Date().toISOString(), leaseUntil, 0, OPERATOR);
+    try {
+      const run = await startSchedulerRun("manual", OPERATOR);
+      await syncRoutes(run);
+      assert(run.status === "skipped", `Expected the run to be skipped, but got ${run.status}`);
+      assert(run.trackingIdsClaimed === 0, `Expected no tracking ID claimed, but got ${run.trackingIdsClaimed}`);
+    } finally {
+      await getDbClient().releaseClaims(OWNER);
+    }
+  });
+}
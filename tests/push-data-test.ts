@@ -1,7 +1,8 @@
 import {httpPost} from "../src/tools/util.ts";
 
 import { assert } from "@std/assert";
-import { WHEREIS_API_URL } from "./main-test.ts";
+import { assertErrorCode, WHEREIS_API_URL } from "./main-test.ts";
+import { getResponseJSON } from "../src/tools/util.ts";
 
 const testData: Record<string, unknown> = {
     "eg1DataVersion": 1,
@@ -65,4 +66,29 @@ export function pushDataTest() {
         );
     });
 
-}
\ No newline at end of file
+}
+
+
+export function pushRegisterTest() {
+    const apiKey = Deno.env.get("WHEREIS_API_KEY");
+    Deno.test("Test push registration API", async () => {
+        const url = `${WHEREIS_API_URL}/v0/push/sfex/register`;
+        const headers = {
+            "Authorization": `Bearer ${apiKey}`,
+            "Content-Type": "application/json",
+        };
+        // the invalid bodies are rejected before reaching SF Express
+        const invalidBodies: [unknown, string][] = [
+            [["sfex-SF1234567890123"], "400-09"],
+            [{ phonenum: "1234" }, "400-09"],
+            [{ trackingId: "sfex-SF1234567890123" }, "400-03"],
+            [{ trackingId: "sfex-SF1234567890123", phonenum: "" }, "400-03"],
+            [{ trackingId: "sfex-SF1234567890123", phonenum: 1234 }, "400-03"],
+        ];
+        for (const [body, error] of invalidBodies) {
+            const response = await httpPost(url, headers, JSON.stringify(body));
+            const responseJSON = await getResponseJSON(response, "500TS - Test");
+            assertErrorCode(response.status, responseJSON, { error });
+        }
+    });
+}
@@ -0,0 +1,186 @@
+/**
+ * @file push-signature-test.ts
+ * @description This file contains unit tests for the verification of the signatures of the operator pushes.
+ * It tests the verifyPushSignature() method of the FedEx module, which checks the HMAC-SHA256 signature
+ * of the webhooks against the webhook secret of the global accounts, and that of the SF Express module,
+ * which checks the msgDigest of the route pushes against the check word of the account of the partnerID
+ * and rejects the pushes whose timestamp is invalid or too far from the current time.
+ * The credentials of the account of the selected environment are set to test values during the tests.
+ *
+ * @copyright (c) 2025, the Eagle1 authors
+ * @license BSD 3-Clause License
+ */
+import { assert, assertRejects } from "@std/assert";
+import { crypto as stdCrypto } from "@std/crypto";
+import { encodeBase64 } from "@std/encoding";
+import { config } from "../config.ts";
+import { Fdx } from "../src/connectors/operator/fdx.ts";
+import { Sfex } from "../src/connectors/operator/sfex.ts";
+import { getCarrierEnvironment } from "../src/main/carrier_accounts.ts";
+import { AppError, OperatorRegistry } from "../src/main/model.ts";
+
+/**
+ * Runs a test with the credentials of the global account of an operator in the selected environment
+ * set to test values, and restores their environment variables afterwards.
+ *
+ * @param operator - The operator code.
+ * @param credentials - The test values of the credentials, by field (eg. webhookSecret).
+ * @param fn - The test.
+ */
+async function withCredentials(
+  operator: string,
+  credentials: Record<string, string>,
+  fn: () => Promise<void>,
+): Promise<void> {
+  const environment = getCarrierEnvironment();
+  const account = OperatorRegistry.getAccounts(operator).find((entry) =>
+    (entry["environment"] === "sandbox" ? "sandbox" : "production") === environment
+  );
+  const variables = (account?.["credentials"] ?? {}) as Record<string, string>;
+  const saved: Record<string, string | undefined> = {};
+  for (const [field, value] of Object.entries(credentials)) {
+    saved[variables[field]] = Deno.env.get(variables[field]);
+    Deno.env.set(variables[field], value);
+  }
+  try {
+    await fn();
+  } finally {
+    for (const [variable, value] of Object.entries(saved)) {
+      if (value === undefined) {
+        Deno.env.delete(variable);
+      } else {
+        Deno.env.set(variable, value);
+      }
+    }
+  }
+}
+
+/**
+ * Asserts that the verification of a push fails with the given error.
+ *
+ * @param verification - The verification of the push.
+ * @param uniqueString - The expected unique string of the error (eg. ERR-FDX-N: SIGNATURE_INVALID).
+ */
+async function assertSignatureError(verification: () => Promise<void>, uniqueString: string): Promise<void> {
+  const error = await assertRejects(verification, AppError);
+  assert(
+    error.code === "401-04" && error.uniqueString === uniqueString,
+    `Expected error 401-04 [${uniqueString}], but got ${error.code} [${error.uniqueString}]`,
+  );
+}
+
+const fdxCredentials = { clientId: "test-client", clientSecret: "test-secret", webhookSecret: "test-webhook-secret" };
+
+/**
+ * Signs a FedEx webhook like FedEx: base64 HMAC-SHA256 of the body with the webhook secret.
+ *
+ * @param body - The body of the webhook.
+ * @param secret - The webhook secret.
+ * @returns The signature.
+ */
+async function signFdxWebhook(body: string, secret: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey("raw", encoder.encode(secret), { name: "HMAC", hash: "SHA-256" }, false, ["sign"]);
+  return encodeBase64(await crypto.subtle.sign("HMAC", key, encoder.encode(body)));
+}
+
+const sfexCredentials = { partnerId: "TEST_PARTNER", checkWord: "test-check-word" };
+
+/**
+ * Signs an SF Express route push like SF Express: base64 MD5 of the URL-encoded msgData, timestamp and check word.
+ *
+ * @param msgData - The msgData of the push.
+ * @param timestamp - The timestamp of the push.
+ * @param checkWord - The check word of the partner.
+ * @returns The msgDigest.
+ */
+async function signSfexPush(msgData: string, timestamp: number, checkWord: string): Promise<string> {
+  const data = new TextEncoder().encode(encodeURIComponent(msgData + timestamp + checkWord));
+  return encodeBase64(await stdCrypto.subtle.digest("MD5", data));
+}
+
+export function pushSignatureTest() {
+  Deno.test("Test signature of the FedEx webhooks", async () => {
+    await withCredentials("fdx", fdxCredentials, async () => {
+      const fdx = new Fdx();
+      const body = JSON.stringify({ trackingNumber: "779879860040", events: [] });
+      const signature = await signFdxWebhook(body, fdxCredentials.webhookSecret);
+
+      await fdx.verifyPushSignature({ "fdx-signature": signature }, body);
+      await assertSignatureError(() => fdx.verifyPushSignature({}, body), "ERR-FDX-M: SIGNATURE_REQUIRED");
+      await assertSignatureError(
+        () => fdx.verifyPushSignature({ "fdx-signature": signature }, body.replace("779879860040", "779879860041")),
+        "ERR-FDX-N: SIGNATURE_INVALID",
+      );
+      const otherSignature = await signFdxWebhook(body, "other-secret");
+      await assertSignatureError(
+        () => fdx.verifyPushSignature({ "fdx-signature": otherSignature }, body),
+        "ERR-FDX-N: SIGNATURE_INVALID",
+      );
+    });
+  });
+
+  Deno.test("Test signature of the SF Express route pushes", async () => {
+    await withCredentials("sfex", sfexCredentials, async () => {
+      const sfex = new Sfex();
+      const msgData = JSON.stringify({ WaybillRoute: [{ mailno: "SF3182998070266", opCode: "50" }] });
+      const timestamp = Date.now();
+      const push = {
+        partnerID: sfexCredentials.partnerId,
+        timestamp: String(timestamp),
+        msgData,
+        msgDigest: await signSfexPush(msgData, timestamp, sfexCredentials.checkWord),
+      };
+      const form = { "content-type": "application/x-www-form-urlencoded" };
+      const json = { "content-type": "application/json" };
+
+      await sfex.verifyPushSignature(form, new URLSearchParams(push).toString());
+      await sfex.verifyPushSignature(json, JSON.stringify(push));
+      await assertSignatureError(
+        () => sfex.verifyPushSignature(json, JSON.stringify({ ...push, msgDigest: undefined })),
+        "ERR-SFEX-I: SIGNATURE_REQUIRED",
+      );
+      await assertSignatureError(
+        () => sfex.verifyPushSignature(json, JSON.stringify({ ...push, msgData: msgData.replace("50", "80") })),
+        "ERR-SFEX-J: SIGNATURE_INVALID",
+      );
+      await assertSignatureError(
+        () => sfex.verifyPushSignature(json, JSON.stringify({ ...push, partnerID: "OTHER_PARTNER" })),
+        "ERR-SFEX-J: SIGNATURE_INVALID",
+      );
+    });
+  });
+
+  Deno.test("Test timestamp of the SF Express route pushes", async () => {
+    await withCredentials("sfex", sfexCredentials, async () => {
+      const sfex = new Sfex();
+      const msgData = JSON.stringify({ WaybillRoute: [{ mailno: "SF3182998070266", opCode: "50" }] });
+      const json = { "content-type": "application/json" };
+      // a push signed at the given time, replayed now
+      const signedPush = async (timestamp: number) => JSON.stringify({
+        partnerID: sfexCredentials.partnerId,
+        timestamp: String(timestamp),
+        msgData,
+        msgDigest: await signSfexPush(msgData, timestamp, sfexCredentials.checkWord),
+      });
+      const maxSkew = config.sfex.pushMaxSkew * 1000;
+
+      await sfex.verifyPushSignature(json, await signedPush(Date.now() - maxSkew + 60_000));
+      await assertSignatureError(
+        async () => sfex.verifyPushSignature(json, await signedPush(Date.now() - maxSkew - 60_000)),
+        "ERR-SFEX-O: TIMESTAMP_EXPIRED",
+      );
+      await assertSignatureError(
+        async () => sfex.verifyPushSignature(json, await signedPush(Date.now() + maxSkew + 60_000)),
+        "ERR-SFEX-O: TIMESTAMP_EXPIRED",
+      );
+      const push = JSON.parse(await signedPush(Date.now()));
+      for (const timestamp of ["now", "1.7e12", "-1", ""]) {
+        await assertSignatureError(
+          () => sfex.verifyPushSignature(json, JSON.stringify({ ...push, timestamp })),
+          "ERR-SFEX-N: TIMESTAMP_INVALID",
+        );
+      }
+    });
+  });
+}
@@ -0,0 +1,66 @@
+/**
+ * @file rate-limiter-test.ts
+ * @description This file contains unit tests for the token buckets of the per-API-key rate limiting.
+ * It tests the consumeTokens() function: the requests are accepted while the bucket holds enough tokens,
+ * the rejected requests are told when to retry, the forced costs leave the bucket in debt, the
+ * bucket is refilled over time, and the tokens taken by the other processes are counted.
+ *
+ * @copyright (c) 2025, the Eagle1 authors
+ * @license BSD 3-Clause License
+ */
+import { assert } from "@std/assert";
+import { getDbClient } from "../src/db/dbutil.ts";
+import { consumeTokens } from "../src/main/rate_limiter.ts";
+
+export function rateLimiterTest() {
+  Deno.test("Test token bucket of the rate limiter", async () => {
+    const key = "test-rate-limiter whereis";
+    // 1 request per minute, bucket of 2 tokens
+    let result = await consumeTokens(key, 1, 2, 1);
+    assert(result.allowed && result.limit === 2 && result.remaining === 1, `Unexpected result ${JSON.stringify(result)}`);
+    assert(result.retryAfterSeconds === 0, `Expected no retry delay, but got ${result.retryAfterSeconds}`);
+
+    result = await consumeTokens(key, 1, 2, 1);
+    assert(result.allowed && result.remaining === 0, `Unexpected result ${JSON.stringify(result)}`);
+
+    result = await consumeTokens(key, 1, 2, 1);
+    assert(!result.allowed, `Expected the request to be rejected, but got ${JSON.stringify(result)}`);
+    assert(
+      result.retryAfterSeconds > 0 && result.retryAfterSeconds <= 60,
+      `Expected a retry delay of at most 60 seconds, but got ${result.retryAfterSeconds}`,
+    );
+
+    // a forced cost is taken even if the bucket is empty, and delays the next requests
+    result = await consumeTokens(key, 1, 2, 2, true);
+    assert(result.allowed && result.remaining === 0, `Unexpected result ${JSON.stringify(result)}`);
+    result = await consumeTokens(key, 1, 2, 1);
+    assert(
+      !result.allowed && result.retryAfterSeconds > 60,
+      `Expected a retry delay of more than 60 seconds, but got ${JSON.stringify(result)}`,
+    );
+  });
+
+  Deno.test("Test refill of the token bucket of the rate limiter", async () => {
+    const key = "test-rate-limiter status";
+    // 10 tokens per millisecond, bucket of 5 tokens
+    const requestsPerMinute = 600_000;
+    let result = await consumeTokens(key, requestsPerMinute, 5, 5);
+    assert(result.allowed && result.remaining === 0, `Unexpected result ${JSON.stringify(result)}`);
+
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    result = await consumeTokens(key, requestsPerMinute, 5, 5);
+    assert(result.allowed, `Expected the refilled bucket to accept the request, but got ${JSON.stringify(result)}`);
+  });
+
+  Deno.test("Test token bucket of the rate limiter shared by the processes", async () => {
+    const key = "test-rate-limiter subscriptions";
+    // 1 request per minute, bucket of 3 tokens, 2 of them taken by another API server process
+    const taken = await getDbClient().consumeRateLimitTokens(key, Date.now(), 1 / 60_000, 3, 2, false);
+    assert(taken === 1, `Expected the tokens to be taken, but got ${taken}`);
+
+    let result = await consumeTokens(key, 1, 3, 1);
+    assert(result.allowed && result.remaining === 0, `Unexpected result ${JSON.stringify(result)}`);
+    result = await consumeTokens(key, 1, 3, 1);
+    assert(!result.allowed, `Expected the request to be rejected, but got ${JSON.stringify(result)}`);
+  });
+}
@@ -18,6 +18,7 @@
  *
  * Each test case verifies either:
  * - The returned error code matches the expected value for error cases.
+ * - The returned tracking ID has the detected operator prefix for tracking numbers without one.
  * - The returned status code matches the expected value for successful cases.
  *
  * This comprehensive test suite ensures the reliability and accuracy of the status API across different carriers and scenarios.
@@ -53,8 +54,18 @@ const testData = [
   },
   {
     "input": { "id": "SF3122082959115", "extra": { "phonenum": "5567" } },
+    "output": { "id": "sfex-SF3122082959115" },
+    "memo": "Tracking number without operator prefix, routed to SF Express.",
+  },
+  {
+    "input": { "id": "SF3182998070266", "extra": { "phonenum": "6993" } },
+    "output": { "id": "sfex-SF3182998070266" },
+    "memo": "SF Express tracking number without operator prefix is detected.",
+  },
+  {
+    "input": { "id": "XX3122082959115", "extra": { "phonenum": "5567" } },
     "output": { "error": "400-05" },
-    "memo": "Invalid slug notation.",
+    "memo": "Tracking number without operator prefix that matches no operator.",
   },
   {
     "input": { "id": "sfex-SF3182998070266", "extra": { "phonenum": "6993" } },
@@ -90,6 +101,7 @@ export function statusApiTest() {
       // Ignore tests for non-active operators
       if(trackingId.startsWith("fdx-") && !isOperatorActive("fdx")) continue;
       if(trackingId.startsWith("sfex-") && !isOperatorActive("sfex")) continue;
+      if(trackingId.startsWith("SF") && !isOperatorActive("sfex")) continue;
 
       const extra: { [key: string]: string | undefined } | undefined =
           input["extra"];
@@ -123,6 +135,18 @@ async function assertResponse(
       break;
     }
 
+    case "id" in output: {
+      if (handleEmptyDataError(response, responseJSON)) {
+        break;
+      }
+
+      assert(
+          responseJSON.id === output.id,
+          `Expected tracking ID ${output.id}, but got ${JSON.stringify(responseJSON)}`,
+      );
+      break;
+    }
+
     case "status" in output: {
       if (handleEmptyDataError(response, responseJSON)) {
         break;
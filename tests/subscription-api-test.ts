@@ -0,0 +1,89 @@
+/**
+ * @file subscription-api-test.ts
+ * @description This file contains integration tests for the webhook "subscriptions" API endpoints.
+ * It registers a subscription without tracking ID, then a subscription of a tracking ID, verifies that
+ * the latter is listed and retrievable with its delivery history, then deletes it and verifies that it
+ * can no longer be found.
+ *
+ * @copyright (c) 2025, the Eagle1 authors
+ * @license BSD 3-Clause License
+ */
+import { assert } from "@std/assert";
+import { WHEREIS_API_URL } from "./main-test.ts";
+import { assertErrorCode } from "./main-test.ts";
+import { getResponseJSON, httpGet, httpPost } from "../src/tools/util.ts";
+
+export function subscriptionApiTest() {
+  const apiKey = Deno.env.get("WHEREIS_API_KEY");
+  const headers = {
+    "Authorization": `Bearer ${apiKey}`,
+    "Content-Type": "application/json",
+  };
+
+  Deno.test("Test subscriptions API", async () => {
+    // invalid callback URL
+    let response = await httpPost(
+      `${WHEREIS_API_URL}/v0/subscriptions`,
+      headers,
+      JSON.stringify({ callbackUrl: "ftp://example.com/hook" }),
+    );
+    let responseJSON = await getResponseJSON(response, "500TS - Test");
+    assertErrorCode(response.status, responseJSON, { error: "400-11" });
+
+    // invalid tracking ID
+    response = await httpPost(
+      `${WHEREIS_API_URL}/v0/subscriptions`,
+      headers,
+      JSON.stringify({ callbackUrl: "https://example.com/hook", trackingId: 123 }),
+    );
+    responseJSON = await getResponseJSON(response, "500TS - Test");
+    assertErrorCode(response.status, responseJSON, { error: "400-09" });
+
+    // a subscription without tracking ID watches all entities of the operators of the API key
+    response = await httpPost(
+      `${WHEREIS_API_URL}/v0/subscriptions`,
+      headers,
+      JSON.stringify({ callbackUrl: "https://example.com/hook" }),
+    );
+    responseJSON = await getResponseJSON(response, "500TS - Test");
+    assert(response.status === 201, `Expected HTTP 201, but received ${response.status}`);
+    assert(responseJSON.trackingId === null, `Expected no tracking ID in ${JSON.stringify(responseJSON)}`);
+    const allEntitiesId = responseJSON.id as string;
+    response = await fetch(`${WHEREIS_API_URL}/v0/subscriptions/${allEntitiesId}`, { method: "DELETE", headers });
+    await response.body?.cancel();
+    assert(response.status === 204, `Expected HTTP 204, but received ${response.status}`);
+
+    // register a subscription
+    response = await httpPost(
+      `${WHEREIS_API_URL}/v0/subscriptions`,
+      headers,
+      JSON.stringify({ callbackUrl: "https://example.com/hook", trackingId: "eg1-012301230123" }),
+    );
+    responseJSON = await getResponseJSON(response, "500TS - Test");
+    assert(response.status === 201, `Expected HTTP 201, but received ${response.status}`);
+    assert(typeof responseJSON.secret === "string", `Expected a secret in ${JSON.stringify(responseJSON)}`);
+    const id = responseJSON.id as string;
+
+    // list the subscriptions
+    response = await httpGet(`${WHEREIS_API_URL}/v0/subscriptions`, headers);
+    responseJSON = await getResponseJSON(response, "500TS - Test");
+    const subscriptions = responseJSON.subscriptions as Record<string, unknown>[];
+    assert(subscriptions.some((s) => s.id === id), `Expected subscription ${id} in ${JSON.stringify(responseJSON)}`);
+    assert(subscriptions.every((s) => s.secret === undefined), "The secret must not be listed");
+
+    // retrieve the subscription with its deliveries
+    response = await httpGet(`${WHEREIS_API_URL}/v0/subscriptions/${id}`, headers);
+    responseJSON = await getResponseJSON(response, "500TS - Test");
+    assert(response.status === 200, `Expected HTTP 200, but received ${response.status}`);
+    assert(Array.isArray(responseJSON.deliveries), `Expected deliveries in ${JSON.stringify(responseJSON)}`);
+
+    // delete the subscription
+    response = await fetch(`${WHEREIS_API_URL}/v0/subscriptions/${id}`, { method: "DELETE", headers });
+    await response.body?.cancel();
+    assert(response.status === 204, `Expected HTTP 204, but received ${response.status}`);
+
+    response = await httpGet(`${WHEREIS_API_URL}/v0/subscriptions/${id}`, headers);
+    responseJSON = await getResponseJSON(response, "500TS - Test");
+    assertErrorCode(response.status, responseJSON, { error: "404-05" });
+  });
+}
@@ -45,8 +45,18 @@ const testData = [
   },
   {
     "input": { "id": "SF3122082959115", "extra": { "phonenum": "5567" } },
+    "output": { "id": "sfex-SF3122082959115" },
+    "memo": "Tracking number without operator prefix, routed to SF Express.",
+  },
+  {
+    "input": { "id": "SF3182998070266", "extra": { "phonenum": "6993" } },
+    "output": { "id": "sfex-SF3182998070266" },
+    "memo": "SF Express tracking number without operator prefix is detected.",
+  },
+  {
+    "input": { "id": "XX3122082959115", "extra": { "phonenum": "5567" } },
     "output": { "error": "400-05" },
-    "memo": "Invalid slug notation.",
+    "memo": "Tracking number without operator prefix that matches no operator.",
   },
   {
     "input": { "id": "sfex-SF3182998070266", "extra": { "phonenum": "6994" } },
@@ -106,6 +116,7 @@ export function whereisApiTest() {
       // Ignore tests for non-active operators
       if (trackingId.startsWith("fdx-") && !isOperatorActive("fdx")) continue;
       if (trackingId.startsWith("sfex-") && !isOperatorActive("sfex")) continue;
+      if (trackingId.startsWith("SF") && !isOperatorActive("sfex")) continue;
 
       const extra: { [key: string]: string | undefined } | undefined =
         input["extra"];
@@ -134,6 +145,7 @@ export function whereisApiTest() {
  *
  * Accepts two expectation shapes:
  * - { error: string } — verifies the response contains the specified error code via assertErrorCode.
+ * - { id: string } — asserts that the tracking ID of the entity is the expected one, eg. the detected operator prefix.
  * - { eventNum: number | "*" } — asserts HTTP 200, that the body contains an `events` array, and that
  *   the number of events meets the expectation:
  *     - 0 : exact zero events
@@ -157,6 +169,19 @@ async function assertResponse(
       break;
     }
 
+    case "id" in expectedOutput: {
+      if (handleEmptyDataError(response, responseJSON)) {
+        break;
+      }
+
+      const entity = responseJSON["entity"] as Record<string, unknown> | undefined;
+      assert(
+        entity?.id === expectedOutput.id,
+        `Expected tracking ID ${expectedOutput.id}, but got ${JSON.stringify(responseJSON)}`,
+      );
+      break;
+    }
+
     case "eventNum" in expectedOutput: {
       if (handleEmptyDataError(response, responseJSON)) {
         break;